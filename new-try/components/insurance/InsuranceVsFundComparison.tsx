@@ -29,22 +29,52 @@ import {
   PolarRadiusAxis,
   Radar
 } from 'recharts';
-import { InsuranceProduct } from '../../types/insurance';
+import { InsuranceProduct, PayoutOption } from '../../types/insurance';
+import { calculateFundCapitalGainsTax, calculateInsuranceTax } from '../../utils/insuranceTaxCalculator';
 
 interface InsuranceVsFundComparisonProps {
   product: InsuranceProduct;
   monthlyContribution: number;
   years: number;
+  startAge?: number | null;
+  allowance?: number;
   isDarkMode?: boolean;
 }
 
+interface TaxOptions {
+  ageAtPayout: number;
+  personalTaxRate: number;
+  payoutOption: PayoutOption;
+  allowance: number;
+}
+
+const PAYOUT_OPTION_LABELS: Record<PayoutOption, string> = {
+  lumpSum: 'Einmalkapital',
+  partialAnnuity: 'Teilverrentung (50%)',
+  fullAnnuity: 'Vollverrentung',
+  withdrawalPlan: 'Auszahlplan',
+};
+
 export default function InsuranceVsFundComparison({
   product,
   monthlyContribution,
   years,
+  startAge,
+  allowance = 1000,
   isDarkMode = false
 }: InsuranceVsFundComparisonProps) {
   const [assumedReturn, setAssumedReturn] = useState<number>(6.0);
+  const [ageAtPayout, setAgeAtPayout] = useState<number>(startAge ? startAge + years : 67);
+  const [personalTaxRate, setPersonalTaxRate] = useState<number>(30);
+
+  // Payout options offered by the product
+  const availablePayoutOptions = (Object.keys(PAYOUT_OPTION_LABELS) as PayoutOption[]).filter((option) => ({
+    lumpSum: product.payoutOptions.einmalkapital,
+    partialAnnuity: product.payoutOptions.teilverrentung,
+    fullAnnuity: product.payoutOptions.vollverrentung,
+    withdrawalPlan: product.payoutOptions.auszahlplan,
+  })[option]);
+  const [payoutOption, setPayoutOption] = useState<PayoutOption>(availablePayoutOptions[0] ?? 'lumpSum');
 
   // Theme colors
   const textColor = isDarkMode ? 'text-white' : 'text-gray-900';
@@ -53,7 +83,14 @@ export default function InsuranceVsFundComparison({
   const borderColor = isDarkMode ? 'border-gray-700' : 'border-gray-200';
 
   // Calculate comparison
-  const comparison = calculateComparison(product, monthlyContribution, years, assumedReturn);
+  const comparison = calculateComparison(product, monthlyContribution, years, assumedReturn, {
+    ageAtPayout,
+    personalTaxRate,
+    payoutOption,
+    allowance,
+  });
+  const taxCalculation = comparison.insuranceTax;
+  const hasHalfIncomeTaxation = taxCalculation.meets12YearRule && taxCalculation.meetsAgeRequirement;
 
   // Format currency
   const formatCurrency = (value: number) => {
@@ -119,7 +156,7 @@ export default function InsuranceVsFundComparison({
     {
       feature: 'Steuervorteile',
       Fonds: 50,
-      Versicherung: years >= 12 ? 100 : 50,
+      Versicherung: hasHalfIncomeTaxation || taxCalculation.taxRule === 'Ertragsanteil' ? 100 : 50,
     },
   ];
 
@@ -164,6 +201,74 @@ export default function InsuranceVsFundComparison({
         </p>
       </div>
 
+      {/* Payout Taxation */}
+      <div className={`${cardBg} rounded-lg border ${borderColor} p-6`}>
+        <h3 className={`text-lg font-semibold ${textColor} mb-4`}>
+          Besteuerung der Auszahlung
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="block">
+            <span className={`block text-sm font-medium ${textColor} mb-1`}>Alter bei Auszahlung</span>
+            <input
+              type="number"
+              min="50"
+              max="90"
+              value={ageAtPayout}
+              onChange={(e) => setAgeAtPayout(parseInt(e.target.value) || 0)}
+              className={`w-full px-3 py-2 rounded-lg border ${borderColor} ${cardBg} ${textColor}`}
+            />
+          </label>
+          <label className="block">
+            <span className={`block text-sm font-medium ${textColor} mb-1`}>Persönlicher Steuersatz im Alter</span>
+            <input
+              type="number"
+              min="0"
+              max="45"
+              step="1"
+              value={personalTaxRate}
+              onChange={(e) => setPersonalTaxRate(parseFloat(e.target.value) || 0)}
+              className={`w-full px-3 py-2 rounded-lg border ${borderColor} ${cardBg} ${textColor}`}
+            />
+          </label>
+          <label className="block">
+            <span className={`block text-sm font-medium ${textColor} mb-1`}>Auszahlungsform</span>
+            <select
+              value={payoutOption}
+              onChange={(e) => setPayoutOption(e.target.value as PayoutOption)}
+              className={`w-full px-3 py-2 rounded-lg border ${borderColor} ${cardBg} ${textColor}`}
+            >
+              {availablePayoutOptions.map((option) => (
+                <option key={option} value={option}>{PAYOUT_OPTION_LABELS[option]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <TaxRuleCheck label={`Laufzeit mind. 12 Jahre (${years} Jahre)`} met={taxCalculation.meets12YearRule} textColor={textColor} />
+            <TaxRuleCheck label={`Auszahlung ab 62 (Alter ${ageAtPayout})`} met={taxCalculation.meetsAgeRequirement} textColor={textColor} />
+          </div>
+          <div className={`text-sm ${textSecondary} space-y-1`}>
+            <p>
+              Regel: <span className={`font-semibold ${textColor}`}>{taxCalculation.taxRule}</span>
+              {' '}({taxCalculation.taxRate.toFixed(2)}%)
+            </p>
+            {taxCalculation.annuity && (
+              <p>
+                Ertragsanteil {taxCalculation.annuity.ertragsanteil}% von {formatCurrency(taxCalculation.annuity.annualAnnuity)} Rente p.a.,
+                {' '}Barwert über {taxCalculation.annuity.payoutYears} Jahre: {formatCurrency(taxCalculation.annuity.presentValue)}
+              </p>
+            )}
+            <p>
+              Steuer Versicherung: <span className={`font-semibold ${textColor}`}>{formatCurrency(taxCalculation.taxAmount)}</span>
+              {' '}· ETF-Sparplan: {formatCurrency(comparison.fundInvestment.taxAmount)}
+            </p>
+            <p>Effektiver Steuersatz auf den Ertrag: {taxCalculation.effectiveTaxRate.toFixed(1)}%</p>
+          </div>
+        </div>
+      </div>
+
       {/* Quick Comparison Cards */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Fund Investment */}
@@ -287,7 +392,7 @@ export default function InsuranceVsFundComparison({
           <DifferenceItem
             label="Steuerersparnis"
             value={comparison.differences.taxSavings}
-            info="Vorteil durch 12-Jahres-Regel"
+            info={`Besteuerung: ${taxCalculation.taxRule}`}
             isNegative={false}
             isDarkMode={isDarkMode}
           />
@@ -660,11 +765,25 @@ function DifferenceItem({ label, value, info, isNegative, isDarkMode }: Differen
 
 // Calculation Functions
 
+function TaxRuleCheck({ label, met, textColor }: { label: string; met: boolean; textColor: string }) {
+  return (
+    <div className="flex items-center gap-2">
+      {met ? (
+        <CheckCircle2 className="w-4 h-4 text-green-500" />
+      ) : (
+        <XCircle className="w-4 h-4 text-red-500" />
+      )}
+      <span className={`text-sm ${textColor}`}>{label}</span>
+    </div>
+  );
+}
+
 function calculateComparison(
   product: InsuranceProduct,
   monthlyContribution: number,
   years: number,
-  assumedReturn: number
+  assumedReturn: number,
+  taxOptions: TaxOptions
 ) {
   const totalMonths = years * 12;
   const totalContributions = monthlyContribution * totalMonths;
@@ -674,7 +793,7 @@ function calculateComparison(
   const fundNetReturn = assumedReturn / 100 - fundCostRatio;
   const fundFV = calculateFutureValue(monthlyContribution, fundNetReturn, years);
   const fundCosts = totalContributions * fundCostRatio * years;
-  const fundTax = (fundFV - totalContributions) * 0.26375; // 25% + Soli
+  const fundTax = calculateFundCapitalGainsTax(fundFV - totalContributions, taxOptions.allowance);
   const fundNetPayout = fundFV - fundTax;
 
   // INSURANCE
@@ -683,12 +802,21 @@ function calculateComparison(
   const insuranceCosts = totalContributions * (product.costs.abschlusskosten / 100) +
     (totalContributions * 0.6) * ((product.costs.effectiveCostRatio || 0) / 100) * years;
 
-  // Tax with 12-year rule
-  const insuranceGain = insuranceFV - totalContributions;
-  const insuranceTax = years >= 12
-    ? insuranceGain * 0.5 * 0.26375
-    : insuranceGain * 0.26375;
-  const insuranceNetPayout = insuranceFV - insuranceTax;
+  // Tax by payout form: 12-year rule, Abgeltungssteuer or Ertragsanteil
+  const insuranceTaxCalculation = calculateInsuranceTax({
+    contractDuration: years,
+    ageAtPayout: taxOptions.ageAtPayout,
+    totalContributions,
+    finalValue: insuranceFV,
+    payoutOption: taxOptions.payoutOption,
+    personalTaxRate: taxOptions.personalTaxRate,
+    allowance: taxOptions.allowance,
+    // Annuity payments discounted with what the ETF would earn meanwhile
+    discountRate: fundNetReturn,
+  });
+  const insuranceTax = insuranceTaxCalculation.taxAmount;
+  const insuranceNetPayout = insuranceTaxCalculation.netPayout;
+  const hasTaxAdvantage = insuranceTaxCalculation.taxRule !== 'Standard-Abgeltungssteuer';
 
   const guaranteedValue = totalContributions * (product.guaranteeLevel / 100);
 
@@ -703,7 +831,7 @@ function calculateComparison(
   const insuranceScore = Math.min(100, (
     (insuranceNetPayout / totalContributions) * 20 + // Return weight
     (product.guaranteeLevel / 2) + // Guarantee bonus
-    (years >= 12 ? 15 : 5) + // Tax advantage
+    (hasTaxAdvantage ? 15 : 5) + // Tax advantage
     10 // Death benefit bonus
   ));
 
@@ -722,7 +850,7 @@ function calculateComparison(
     recommendationReason = 'Der ETF-Sparplan bietet aufgrund niedrigerer Kosten und höherer Flexibilität die bessere Gesamtrendite. Ideal für risikotolerante Anleger mit langem Anlagehorizont.';
   } else {
     recommendationType = 'insurance';
-    recommendationReason = `Die fondsgebundene Rentenversicherung bietet mit ${product.guaranteeLevel}% Garantie mehr Sicherheit und ${years >= 12 ? 'Steuervorteile' : 'integriertem Todesfallschutz'}. Ideal für sicherheitsorientierte Anleger.`;
+    recommendationReason = `Die fondsgebundene Rentenversicherung bietet mit ${product.guaranteeLevel}% Garantie mehr Sicherheit und ${hasTaxAdvantage ? 'Steuervorteile' : 'integriertem Todesfallschutz'}. Ideal für sicherheitsorientierte Anleger.`;
   }
 
   return {
@@ -769,6 +897,8 @@ function calculateComparison(
       reason: recommendationReason,
       combinationRatio,
     },
+
+    insuranceTax: insuranceTaxCalculation,
   };
 }
 
@@ -47,6 +47,8 @@ export default function InsuranceConfigurationPage({ productId: propProductId, o
     selectedInsuranceProductId,
     insuranceMonthlyContribution,
     insuranceContractDuration,
+    insuranceStartAge,
+    freistellungsauftrag,
     updateInsuranceData,
     selectInsuranceProduct
   } = usePensionStore();
@@ -357,6 +359,8 @@ export default function InsuranceConfigurationPage({ productId: propProductId, o
               product={product}
               monthlyContribution={monthlyContribution}
               years={contractDuration}
+              startAge={insuranceStartAge}
+              allowance={freistellungsauftrag}
               isDarkMode={isDarkMode}
             />
           </CollapsibleSection>
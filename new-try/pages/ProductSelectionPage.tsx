@@ -10,7 +10,9 @@ import {
   Filter,
   X,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Sparkles,
+  AlertTriangle
 } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
 import ThemeToggle from '../components/dashboard/ThemeToggle';
@@ -24,7 +26,8 @@ import {
   ZURICH_PRODUCTS,
   CANADA_LIFE_PRODUCTS
 } from '../data/insuranceProducts';
-import type { InsuranceProduct } from '../types/insurance';
+import type { InsuranceProduct, CustomerProfile, ProductRecommendation } from '../types/insurance';
+import { recommendProducts } from '../utils/productRecommendation';
 
 // Combine all products
 const ALL_PRODUCTS: InsuranceProduct[] = [
@@ -37,6 +40,21 @@ const ALL_PRODUCTS: InsuranceProduct[] = [
 
 const PROVIDERS = ['Allianz', 'AXA', 'Generali', 'Zurich', 'Canada Life'];
 const GUARANTEE_LEVELS: GuaranteeLevel[] = [0, 50, 80, 90, 100];
+const DEFAULT_AGE = 40; // Until the birth year is known
+const DEFAULT_SAVINGS_GOAL = 100000;
+
+const RISK_TOLERANCES: { value: CustomerProfile['riskTolerance']; label: string }[] = [
+  { value: 'low', label: 'Gering' },
+  { value: 'medium', label: 'Mittel' },
+  { value: 'high', label: 'Hoch' },
+];
+
+const PRIORITY_LABELS: Record<keyof CustomerProfile['priorities'], string> = {
+  security: 'Sicherheit',
+  flexibility: 'Flexibilität',
+  returns: 'Rendite',
+  costs: 'Kosten',
+};
 
 interface ProductSelectionPageProps {
   onSelectProduct?: (productId: string) => void;
@@ -44,7 +62,12 @@ interface ProductSelectionPageProps {
 
 export default function ProductSelectionPage({ onSelectProduct }: ProductSelectionPageProps = {}) {
   const { isDarkMode } = useTheme();
-  const { selectInsuranceProduct } = usePensionStore();
+  const {
+    selectInsuranceProduct,
+    birthYear,
+    maritalStatus,
+    insuranceMonthlyContribution
+  } = usePensionStore();
 
   // Filter states
   const [selectedProviders, setSelectedProviders] = useState<string[]>([]);
@@ -59,6 +82,16 @@ export default function ProductSelectionPage({ onSelectProduct }: ProductSelecti
   // Detail modal
   const [detailProduct, setDetailProduct] = useState<InsuranceProduct | null>(null);
 
+  // Recommendation profile
+  const [riskTolerance, setRiskTolerance] = useState<CustomerProfile['riskTolerance']>('medium');
+  const [priorities, setPriorities] = useState<CustomerProfile['priorities']>({
+    security: 5,
+    flexibility: 5,
+    returns: 5,
+    costs: 5,
+  });
+  const [savingsGoal, setSavingsGoal] = useState<number>(DEFAULT_SAVINGS_GOAL);
+
   // Theme colors
   const bgColor = isDarkMode ? 'bg-gray-900' : 'bg-gradient-to-br from-blue-50 via-white to-indigo-50';
   const cardBg = isDarkMode ? 'bg-gray-800' : 'bg-white';
@@ -89,6 +122,29 @@ export default function ProductSelectionPage({ onSelectProduct }: ProductSelecti
     });
   }, [selectedProviders, selectedGuarantees, maxCostRatio]);
 
+  // Score all products against the customer profile
+  const recommendations = useMemo(() => {
+    const profile: CustomerProfile = {
+      age: birthYear ? new Date().getFullYear() - birthYear : DEFAULT_AGE,
+      maritalStatus: maritalStatus ?? 'single',
+      riskTolerance,
+      savingsGoal,
+      monthlyBudget: insuranceMonthlyContribution,
+      priorities,
+    };
+    return recommendProducts(profile, { products: ALL_PRODUCTS });
+  }, [birthYear, maritalStatus, insuranceMonthlyContribution, riskTolerance, savingsGoal, priorities]);
+
+  const recommendationById = useMemo(
+    () => new Map(recommendations.map(recommendation => [recommendation.product.id, recommendation])),
+    [recommendations]
+  );
+
+  // Best matches within the current filters
+  const topRecommendations = recommendations
+    .filter(recommendation => filteredProducts.includes(recommendation.product))
+    .slice(0, 3);
+
   // Toggle provider filter
   const toggleProvider = (provider: string) => {
     setSelectedProviders(prev =>
@@ -264,6 +320,71 @@ export default function ProductSelectionPage({ onSelectProduct }: ProductSelecti
                           </div>
                         </div>
                       </div>
+
+                      {/* Recommendation Profile */}
+                      <div className={`pt-6 border-t ${borderColor}`}>
+                        <h3 className={`text-sm font-semibold ${textColor} mb-3`}>
+                          Risikobereitschaft
+                        </h3>
+                        <div className="grid grid-cols-3 gap-2">
+                          {RISK_TOLERANCES.map(({ value, label }) => (
+                            <button
+                              key={value}
+                              onClick={() => setRiskTolerance(value)}
+                              className={`px-2 py-1 text-sm rounded-lg transition-all ${
+                                riskTolerance === value
+                                  ? 'bg-blue-600 text-white'
+                                  : `${textSecondary} ${hoverBg} border ${borderColor}`
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+
+                      <div>
+                        <h3 className={`text-sm font-semibold ${textColor} mb-3`}>
+                          Ihre Prioritäten
+                        </h3>
+                        <div className="space-y-3">
+                          {(Object.keys(PRIORITY_LABELS) as (keyof CustomerProfile['priorities'])[]).map(key => (
+                            <div key={key}>
+                              <div className="flex justify-between items-center">
+                                <span className={`text-sm ${textSecondary}`}>{PRIORITY_LABELS[key]}</span>
+                                <span className={`text-sm font-medium ${textColor}`}>{priorities[key]}</span>
+                              </div>
+                              <input
+                                type="range"
+                                min="1"
+                                max="10"
+                                step="1"
+                                value={priorities[key]}
+                                onChange={(e) => setPriorities(prev => ({ ...prev, [key]: parseInt(e.target.value, 10) }))}
+                                className="w-full"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+
+                      <div>
+                        <h3 className={`text-sm font-semibold ${textColor} mb-3`}>
+                          Sparziel
+                        </h3>
+                        <input
+                          type="range"
+                          min="10000"
+                          max="500000"
+                          step="10000"
+                          value={savingsGoal}
+                          onChange={(e) => setSavingsGoal(parseInt(e.target.value, 10))}
+                          className="w-full"
+                        />
+                        <span className={`text-sm ${textSecondary}`}>
+                          {savingsGoal.toLocaleString('de-DE')} € · Budget {insuranceMonthlyContribution.toLocaleString('de-DE')} €/Monat
+                        </span>
+                      </div>
                     </div>
                   </motion.div>
                 )}
@@ -315,12 +436,55 @@ export default function ProductSelectionPage({ onSelectProduct }: ProductSelecti
               )}
             </AnimatePresence>
 
+            {/* Top Recommendations */}
+            {topRecommendations.length > 0 && (
+              <motion.div
+                initial={{ y: -20, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                className={`${cardBg} rounded-lg shadow-lg border ${borderColor} p-4`}
+              >
+                <div className="flex items-center gap-2 mb-4">
+                  <Sparkles className="w-5 h-5 text-blue-500" />
+                  <h3 className={`font-semibold ${textColor}`}>Empfehlungen für Ihr Profil</h3>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {topRecommendations.map((recommendation, index) => (
+                    <button
+                      key={recommendation.product.id}
+                      onClick={() => setDetailProduct(recommendation.product)}
+                      className={`text-left p-3 rounded-lg border ${borderColor} ${hoverBg} transition-all`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className={`text-xs font-medium ${textSecondary}`}>
+                          {index + 1}. {recommendation.product.provider}
+                        </span>
+                        <ScoreBadge score={recommendation.score} />
+                      </div>
+                      <p className={`font-semibold ${textColor} mt-1`}>
+                        {recommendation.product.productName}
+                      </p>
+                      <p className={`text-xs ${textSecondary} mt-1`}>
+                        ca. {Math.round(recommendation.projectedValue).toLocaleString('de-DE')} € erwartet ·{' '}
+                        {recommendation.monthlyRecommendedContribution} €/Monat fürs Sparziel
+                      </p>
+                      {recommendation.matchReasons[0] && (
+                        <p className="text-xs text-green-600 dark:text-green-400 mt-2">
+                          {recommendation.matchReasons[0]}
+                        </p>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+
             {/* Product Grid */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {filteredProducts.map((product, index) => (
                 <ProductCard
                   key={product.id}
                   product={product}
+                  recommendation={recommendationById.get(product.id)}
                   index={index}
                   isDarkMode={isDarkMode}
                   isSelected={selectedForComparison.includes(product.id)}
@@ -382,6 +546,7 @@ export default function ProductSelectionPage({ onSelectProduct }: ProductSelecti
 // Product Card Component
 interface ProductCardProps {
   product: InsuranceProduct;
+  recommendation?: ProductRecommendation;
   index: number;
   isDarkMode: boolean;
   isSelected: boolean;
@@ -392,6 +557,7 @@ interface ProductCardProps {
 
 function ProductCard({
   product,
+  recommendation,
   index,
   isDarkMode,
   isSelected,
@@ -434,19 +600,22 @@ function ProductCard({
               {product.productName}
             </h3>
           </div>
-          <button
-            onClick={onToggleComparison}
-            disabled={!isSelected && !canSelectMore}
-            className={`p-2 rounded-lg transition-all ${
-              isSelected
-                ? 'bg-blue-600 text-white'
-                : canSelectMore
-                ? 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'
-                : 'bg-gray-100 dark:bg-gray-800 text-gray-400 cursor-not-allowed'
-            }`}
-          >
-            <CheckCircle2 className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-2">
+            {recommendation && <ScoreBadge score={recommendation.score} />}
+            <button
+              onClick={onToggleComparison}
+              disabled={!isSelected && !canSelectMore}
+              className={`p-2 rounded-lg transition-all ${
+                isSelected
+                  ? 'bg-blue-600 text-white'
+                  : canSelectMore
+                  ? 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-400 cursor-not-allowed'
+              }`}
+            >
+              <CheckCircle2 className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
         <p className={`text-sm ${textSecondary} line-clamp-2`}>
@@ -500,6 +669,24 @@ function ProductCard({
           </div>
         )}
 
+        {/* Recommendation */}
+        {recommendation && (recommendation.matchReasons.length > 0 || recommendation.warnings.length > 0) && (
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-1">
+            {recommendation.matchReasons.slice(0, 2).map((reason, i) => (
+              <div key={i} className="flex items-start gap-2">
+                <CheckCircle2 className="w-4 h-4 text-green-500 flex-shrink-0 mt-0.5" />
+                <span className={`text-sm ${textSecondary}`}>{reason}</span>
+              </div>
+            ))}
+            {recommendation.warnings.map((warning, i) => (
+              <div key={i} className="flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 text-orange-500 flex-shrink-0 mt-0.5" />
+                <span className={`text-sm ${textSecondary}`}>{warning}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Highlights */}
         <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
           <div className="flex flex-wrap gap-2">
@@ -529,6 +716,21 @@ function ProductCard({
   );
 }
 
+// Match score of a product for the customer profile
+function ScoreBadge({ score }: { score: number }) {
+  const scoreColor =
+    score >= 75 ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' :
+    score >= 60 ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' :
+    score >= 40 ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300' :
+    'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300';
+
+  return (
+    <span className={`px-2 py-1 rounded-full text-xs font-bold ${scoreColor}`} title="Passung zu Ihrem Profil">
+      {score}/100
+    </span>
+  );
+}
+
 // Comparison Modal Component
 interface ComparisonModalProps {
   products: InsuranceProduct[];
@@ -0,0 +1,24 @@
+// Cashflow Ledger Types
+// Same entry shape as the main app's shared/utils/cashflow-ledger.ts, so entries
+// emitted here can be merged into the household ledger there.
+
+export type CashflowEntryType =
+  | 'contribution'
+  | 'subsidy'
+  | 'taxRefund'
+  | 'fee'
+  | 'tax'
+  | 'socialContribution'
+  | 'payout'
+  | 'debtService'
+  | 'assetValue' // Value at year end
+  | 'liability'; // Remaining debt at year end
+
+export interface CashflowEntry {
+  year: number; // Calendar year
+  product: string; // Product id
+  type: CashflowEntryType;
+  amount: number; // Always positive, the type decides the direction
+  owner?: string;
+  label?: string;
+}
@@ -182,15 +182,25 @@ export interface InsuranceTaxCalculation {
   meetsAgeRequirement: boolean;
 
   // Tax
-  taxRule: '12-Jahre-Regel' | 'Standard-Abgeltungssteuer';
+  taxRule: '12-Jahre-Regel' | 'Standard-Abgeltungssteuer' | 'Ertragsanteil';
   taxableAmount: number;
   taxRate: number;
   taxAmount: number;
   effectiveTaxRate: number; // Actual tax rate on total gain
 
-  // Net Payout
+  // Net Payout (annuity payments at their present value at payout start)
   netPayout: number;
 
+  // Annuitised part (Ertragsanteil taxation)
+  annuity?: {
+    share: number; // Share of the capital annuitised (0-1)
+    ertragsanteil: number; // Taxable share of each payment (%)
+    annualAnnuity: number;
+    annualTax: number;
+    payoutYears: number;
+    presentValue: number; // Payments discounted to the payout start
+  };
+
   // Comparison with Pure Funds
   comparison: {
     fundTax: number; // 25% Abgeltungssteuer
@@ -1,4 +1,5 @@
 import { InsuranceProduct, GuaranteeCalculation } from '../types/insurance';
+import { CashflowEntry } from '../types/cashflow';
 
 interface CalculationInput {
   monthlyContribution: number;
@@ -249,6 +250,58 @@ export function generateYearlyProjections(
   return projections;
 }
 
+/**
+ * Ledger entries of one scenario, contributions start in January of startYear.
+ * Abschlusskosten are spread over the first five years (Zillmerung), the
+ * recurring costs are charged on the value at year end, the capital is paid
+ * out as a lump sum at the end of the last year.
+ */
+export function guaranteeScenarioCashflows(
+  calculation: GuaranteeCalculation,
+  startYear: number,
+  scenario: 'guaranteed' | 'expected' | 'optimistic' = 'expected'
+): CashflowEntry[] {
+  const { monthlyContribution, contributionPeriod, product } = calculation;
+  const productId = product.id;
+  const projections = generateYearlyProjections(calculation);
+  const annualCostRate = calculateEffectiveCostRatio(product);
+  const acquisitionYears = Math.min(5, contributionPeriod);
+  const acquisitionPerYear = acquisitionYears > 0
+    ? (calculation.totalContributions * (product.costs.abschlusskosten / 100)) / acquisitionYears
+    : 0;
+
+  const entries: CashflowEntry[] = [];
+  projections.slice(1).forEach((projection, index) => {
+    const year = startYear + index;
+    // The guarantee is no market value - costs are charged on the expected path
+    const value = projection[scenario];
+    const costBase = scenario === 'guaranteed' ? projection.expected : value;
+    entries.push(
+      { year, product: productId, type: 'contribution', amount: monthlyContribution * 12 },
+      {
+        year,
+        product: productId,
+        type: 'fee',
+        amount: (index < acquisitionYears ? acquisitionPerYear : 0) + costBase * (annualCostRate / 100),
+      },
+      { year, product: productId, type: 'assetValue', amount: value }
+    );
+  });
+
+  const payoutYear = startYear + contributionPeriod - 1;
+  if (scenario === 'guaranteed') {
+    entries.push({ year: payoutYear, product: productId, type: 'payout', amount: calculation.guaranteed.afterCosts });
+  } else {
+    const { amount, afterTax } = calculation[scenario];
+    entries.push(
+      { year: payoutYear, product: productId, type: 'payout', amount },
+      { year: payoutYear, product: productId, type: 'tax', amount: Math.max(0, amount - afterTax) }
+    );
+  }
+
+  return entries.filter(entry => entry.amount !== 0);
+}
+
 /**
  * Calculate effective cost ratio (reduction in return)
  */
@@ -0,0 +1,178 @@
+import { InsuranceTaxCalculation, PayoutOption } from '../types/insurance';
+
+interface InsuranceTaxInput {
+  contractDuration: number; // in years
+  ageAtPayout: number;
+  totalContributions: number;
+  finalValue: number;
+  payoutOption?: PayoutOption;
+  personalTaxRate?: number; // Marginal income tax rate (%) in retirement
+  allowance?: number; // Sparer-Pauschbetrag (€)
+  isFundPolicy?: boolean; // Fondsgebundene Versicherung
+  annuityShare?: number; // Share of the capital annuitised for 'partialAnnuity' (0-1)
+  rentenfaktor?: number; // Monthly annuity per 10.000 € capital
+  annuityPayoutYears?: number; // Years the annuity is expected to be paid
+  discountRate?: number; // Return that discounts annuity payments to the payout start (0-1)
+  fundPartialExemption?: number; // Teilfreistellung of the comparison fund (0-1)
+}
+
+const ABGELTUNGSSTEUER = 0.25;
+const SOLIDARITY_SURCHARGE = 0.055;
+const MIN_CONTRACT_YEARS = 12;
+const MIN_PAYOUT_AGE = 62; // Contracts signed since 2012
+const FUND_POLICY_EXEMPTION = 0.15; // §20 Abs.1 Nr.6 S.9 EStG
+const EQUITY_FUND_EXEMPTION = 0.3; // §20 Abs.1 InvStG
+const DEFAULT_PERSONAL_TAX_RATE = 30;
+const DEFAULT_RENTENFAKTOR = 28;
+const DEFAULT_LIFE_EXPECTANCY = 90;
+const DEFAULT_DISCOUNT_RATE = 0.02;
+
+// Ertragsanteil (%) by age at annuity start, §22 Nr.1 S.3 a bb EStG - [from age, percent]
+const ERTRAGSANTEIL_TABLE: [number, number][] = [
+  [0, 59], [2, 58], [4, 57], [6, 56], [9, 55], [11, 54], [13, 53], [15, 52], [17, 51],
+  [19, 50], [21, 49], [23, 48], [25, 47], [27, 46], [28, 45], [30, 44], [32, 43], [33, 42],
+  [35, 41], [36, 40], [38, 39], [39, 38], [41, 37], [42, 36], [43, 35], [45, 34], [46, 33],
+  [48, 32], [49, 31], [50, 30], [51, 29], [53, 28], [54, 27], [55, 26], [57, 25], [58, 24],
+  [59, 23], [60, 22], [62, 21], [63, 20], [64, 19], [65, 18], [67, 17], [68, 16], [69, 15],
+  [71, 14], [72, 13], [74, 12], [75, 11], [76, 10], [78, 9], [80, 8], [81, 7], [83, 6],
+  [85, 5], [88, 4], [92, 3], [94, 2], [97, 1],
+];
+
+/**
+ * Ertragsanteil of a private annuity in percent
+ */
+export function getErtragsanteil(ageAtAnnuityStart: number): number {
+  let percent = ERTRAGSANTEIL_TABLE[0][1];
+  for (const [fromAge, value] of ERTRAGSANTEIL_TABLE) {
+    if (ageAtAnnuityStart >= fromAge) percent = value;
+  }
+  return percent;
+}
+
+/**
+ * Abgeltungssteuer on a directly held fund with Teilfreistellung and Sparer-Pauschbetrag
+ */
+export function calculateFundCapitalGainsTax(
+  capitalGain: number,
+  allowance: number = 1000,
+  partialExemption: number = EQUITY_FUND_EXEMPTION
+): number {
+  const taxableGain = Math.max(0, capitalGain * (1 - partialExemption) - allowance);
+  return taxableGain * ABGELTUNGSSTEUER * (1 + SOLIDARITY_SURCHARGE);
+}
+
+/**
+ * Present value at payout start of 1 € paid at the start of each of `years` years
+ */
+export function getAnnuityPresentValueFactor(years: number, discountRate: number): number {
+  let factor = 0;
+  for (let year = 0; year < years; year++) {
+    factor += 1 / Math.pow(1 + discountRate, year);
+  }
+  return factor;
+}
+
+/**
+ * Calculate the taxation of an insurance payout
+ *
+ * - Lump sum after 12 years and from age 62 (§20 Abs.1 Nr.6 S.2 EStG):
+ *   half of the gain at the personal tax rate
+ * - Lump sum otherwise: Abgeltungssteuer on the full gain
+ * - Annuitised payout: only the Ertragsanteil of each payment at the personal rate
+ * Fund policies get 15% of the gain tax-free in both lump sum cases. Annuity
+ * payments and their taxes count with their present value at payout start, so
+ * every payout option compares with the fund's capital at the same date.
+ */
+export function calculateInsuranceTax(input: InsuranceTaxInput): InsuranceTaxCalculation {
+  const {
+    contractDuration,
+    ageAtPayout,
+    totalContributions,
+    finalValue,
+    payoutOption = 'lumpSum',
+    personalTaxRate = DEFAULT_PERSONAL_TAX_RATE,
+    allowance = 1000,
+    isFundPolicy = true,
+    rentenfaktor = DEFAULT_RENTENFAKTOR,
+    fundPartialExemption = EQUITY_FUND_EXEMPTION,
+    discountRate = DEFAULT_DISCOUNT_RATE,
+  } = input;
+
+  const annuityShare =
+    payoutOption === 'fullAnnuity' ? 1 : payoutOption === 'partialAnnuity' ? (input.annuityShare ?? 0.5) : 0;
+  const annuityPayoutYears =
+    input.annuityPayoutYears ?? Math.max(1, DEFAULT_LIFE_EXPECTANCY - ageAtPayout);
+
+  const capitalGain = finalValue - totalContributions;
+  const meets12YearRule = contractDuration >= MIN_CONTRACT_YEARS;
+  const meetsAgeRequirement = ageAtPayout >= MIN_PAYOUT_AGE;
+  const halfIncome = meets12YearRule && meetsAgeRequirement;
+  const personalRate = (personalTaxRate / 100) * (1 + SOLIDARITY_SURCHARGE);
+  const abgeltungRate = ABGELTUNGSSTEUER * (1 + SOLIDARITY_SURCHARGE);
+
+  // Lump sum part - gains are taxed when paid out
+  const lumpSum = finalValue * (1 - annuityShare);
+  const lumpSumGain = capitalGain * (1 - annuityShare);
+  const exemptGain = lumpSumGain > 0 && isFundPolicy ? lumpSumGain * FUND_POLICY_EXEMPTION : 0;
+  const lumpSumTaxable = Math.max(
+    0,
+    (lumpSumGain - exemptGain) * (halfIncome ? 0.5 : 1) - allowance
+  );
+  const lumpSumTax = lumpSumTaxable * (halfIncome ? personalRate : abgeltungRate);
+
+  // Annuity part - no tax at conversion, only the Ertragsanteil of every payment
+  const ertragsanteil = getErtragsanteil(ageAtPayout);
+  const annualAnnuity = ((finalValue * annuityShare) / 10000) * rentenfaktor * 12;
+  const annualTaxableAnnuity = annualAnnuity * (ertragsanteil / 100);
+  const annualAnnuityTax = annualTaxableAnnuity * personalRate;
+  const presentValueFactor = getAnnuityPresentValueFactor(annuityPayoutYears, discountRate);
+  const annuityPresentValue = annualAnnuity * presentValueFactor;
+
+  const taxableAmount = lumpSumTaxable + annualTaxableAnnuity * presentValueFactor;
+  const taxAmount = lumpSumTax + annualAnnuityTax * presentValueFactor;
+  const totalPayout = lumpSum + annuityPresentValue;
+  const totalGain = totalPayout - totalContributions;
+
+  const taxRule: InsuranceTaxCalculation['taxRule'] =
+    annuityShare === 1 ? 'Ertragsanteil' : halfIncome ? '12-Jahre-Regel' : 'Standard-Abgeltungssteuer';
+
+  const fundTax = calculateFundCapitalGainsTax(capitalGain, allowance, fundPartialExemption);
+  const taxSavings = fundTax - taxAmount;
+
+  return {
+    contractDuration,
+    ageAtPayout,
+    totalContributions,
+    finalValue,
+
+    capitalGain,
+    meets12YearRule,
+    meetsAgeRequirement,
+
+    taxRule,
+    taxableAmount,
+    taxRate: (taxRule === 'Standard-Abgeltungssteuer' ? abgeltungRate : personalRate) * 100,
+    taxAmount,
+    effectiveTaxRate: totalGain > 0 ? (taxAmount / totalGain) * 100 : 0,
+
+    netPayout: totalPayout - taxAmount,
+
+    annuity: annuityShare > 0
+      ? {
+          share: annuityShare,
+          ertragsanteil,
+          annualAnnuity,
+          annualTax: annualAnnuityTax,
+          payoutYears: annuityPayoutYears,
+          presentValue: annuityPresentValue,
+        }
+      : undefined,
+
+    comparison: {
+      fundTax,
+      insuranceTax: taxAmount,
+      taxSavings,
+      savingsPercent: fundTax > 0 ? (taxSavings / fundTax) * 100 : 0,
+    },
+  };
+}
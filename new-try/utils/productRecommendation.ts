@@ -0,0 +1,281 @@
+import { CustomerProfile, InsuranceProduct, ProductRecommendation, GuaranteeLevel } from '../types/insurance';
+import { ALL_INSURANCE_PRODUCTS } from '../data/insuranceProducts';
+import { calculateGuaranteeScenarios, calculateEffectiveCostRatio } from './guaranteeCalculator';
+
+interface RecommendationOptions {
+  retirementAge?: number; // Planned start of the payout phase
+  products?: InsuranceProduct[];
+}
+
+interface ScoreBreakdown {
+  returns: number; // 0-1, relative to the best projected value
+  costs: number; // 0-1
+  security: number; // 0-1
+  flexibility: number; // 0-1
+  riskFit: number; // 0-1, guarantee level vs. risk tolerance
+  ratings: number; // 0-1
+}
+
+const DEFAULT_RETIREMENT_AGE = 67;
+const CONTRIBUTION_STEP = 5; // Recommended contributions are rounded up to 5 €
+
+// Effective cost ratio (% p.a.) that scores full and zero points
+const BEST_COST_RATIO = 0.5;
+const WORST_COST_RATIO = 2.5;
+
+// Weights of the criteria that are not set by the customer priorities
+const RISK_FIT_WEIGHT = 10;
+const RATINGS_WEIGHT = 3;
+
+// Products the customer cannot sign are capped, products below the budget lose points
+const INELIGIBLE_MAX_SCORE = 20;
+const BUDGET_PENALTY = 15;
+
+// Guarantee level that suits each risk tolerance best
+const TARGET_GUARANTEE: Record<CustomerProfile['riskTolerance'], GuaranteeLevel> = {
+  low: 100,
+  medium: 80,
+  high: 0,
+};
+
+const MAP_REPORT_SCORE: Record<string, number> = {
+  'exzellent': 1,
+  'sehr gut': 0.8,
+  'gut': 0.6,
+  'befriedigend': 0.4,
+};
+
+const FINANZKRAFT_SCORE: Record<string, number> = {
+  'AAA': 1,
+  'AA+': 0.9,
+  'AA': 0.85,
+  'AA-': 0.8,
+  'A+': 0.7,
+  'A': 0.65,
+  'A-': 0.6,
+  'BBB+': 0.4,
+};
+
+const ASSEKURATA_SCORE: Record<string, number> = {
+  'A++': 1,
+  'A+': 0.85,
+  'A': 0.7,
+  'B++': 0.5,
+  'B+': 0.4,
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Cost score from the annual cost ratio plus the Abschlusskosten spread over the term
+ */
+function scoreCosts(product: InsuranceProduct, contributionPeriod: number): number {
+  const annualCosts = calculateEffectiveCostRatio(product) + product.costs.abschlusskosten / contributionPeriod;
+  return clamp((WORST_COST_RATIO - annualCosts) / (WORST_COST_RATIO - BEST_COST_RATIO));
+}
+
+/**
+ * Share of the flexibility features and payout options the product offers
+ */
+function scoreFlexibility(product: InsuranceProduct): number {
+  const { features, payoutOptions } = product;
+  const checks = [
+    features.zuzahlungenMoeglich,
+    features.entnahmenMoeglich,
+    features.beitragsfreistellungMoeglich,
+    features.dynamikMoeglich,
+    features.fondswechselMoeglich,
+    (features.fondswechselFreiProJahr ?? 0) >= 4,
+    payoutOptions.einmalkapital,
+    payoutOptions.teilverrentung,
+    payoutOptions.auszahlplan,
+  ];
+  return checks.filter(Boolean).length / checks.length;
+}
+
+/**
+ * Average of the available ratings, 0.5 when the product has none
+ */
+function scoreRatings(product: InsuranceProduct): number {
+  const { morningstar, mapReport, finanzkraft, assekurataRating } = product.ratings;
+  const scores = [
+    morningstar !== undefined ? morningstar / 5 : undefined,
+    mapReport !== undefined ? MAP_REPORT_SCORE[mapReport] : undefined,
+    finanzkraft !== undefined ? FINANZKRAFT_SCORE[finanzkraft] : undefined,
+    assekurataRating !== undefined ? ASSEKURATA_SCORE[assekurataRating] : undefined,
+  ].filter((score): score is number => score !== undefined);
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0.5;
+}
+
+/**
+ * Security combines the guarantee level with the financial strength of the insurer
+ */
+function scoreSecurity(product: InsuranceProduct): number {
+  const finanzkraft = product.ratings.finanzkraft ? FINANZKRAFT_SCORE[product.ratings.finanzkraft] : 0.5;
+  return product.guaranteeLevel / 100 * 0.75 + finanzkraft * 0.25;
+}
+
+/**
+ * Monthly contribution for reaching the savings goal in the expected scenario,
+ * kept within the contribution limits of the product
+ */
+function calculateRecommendedContribution(
+  profile: CustomerProfile,
+  product: InsuranceProduct,
+  contributionPeriod: number
+): number {
+  // The scenario values scale linearly with the contribution
+  const perEuro = calculateGuaranteeScenarios({ monthlyContribution: 1, contributionPeriod, product }).expected.amount;
+  const needed = perEuro > 0 ? profile.savingsGoal / perEuro : product.maxContribution;
+  const rounded = Math.ceil(needed / CONTRIBUTION_STEP) * CONTRIBUTION_STEP;
+  return Math.min(product.maxContribution, Math.max(product.minContribution, rounded));
+}
+
+/**
+ * Score all products for a customer profile, best match first.
+ *
+ * The customer priorities weight returns (expected value at the monthly budget),
+ * costs, security and flexibility; the fit of the guarantee level to the risk
+ * tolerance and the ratings always count. Products the customer cannot sign
+ * (entry age, minimum term) stay in the list with a capped score and a warning.
+ */
+export function recommendProducts(
+  profile: CustomerProfile,
+  options: RecommendationOptions = {}
+): ProductRecommendation[] {
+  const products = options.products ?? ALL_INSURANCE_PRODUCTS;
+  if (products.length === 0) return [];
+
+  const candidates = products.map(product => {
+    const retirementAge = Math.max(options.retirementAge ?? DEFAULT_RETIREMENT_AGE, product.minRetirementAge);
+    const contributionPeriod = Math.max(1, retirementAge - profile.age);
+    const monthlyContribution = Math.min(product.maxContribution, Math.max(0, profile.monthlyBudget));
+    const scenarios = calculateGuaranteeScenarios({ monthlyContribution, contributionPeriod, product });
+    return { product, contributionPeriod, projectedValue: scenarios.expected.amount };
+  });
+  const bestProjectedValue = Math.max(...candidates.map(candidate => candidate.projectedValue));
+
+  const recommendations = candidates.map(({ product, contributionPeriod, projectedValue }) => {
+    const breakdown: ScoreBreakdown = {
+      returns: bestProjectedValue > 0 ? projectedValue / bestProjectedValue : 0,
+      costs: scoreCosts(product, contributionPeriod),
+      security: scoreSecurity(product),
+      flexibility: scoreFlexibility(product),
+      riskFit: 1 - Math.abs(product.guaranteeLevel - TARGET_GUARANTEE[profile.riskTolerance]) / 100,
+      ratings: scoreRatings(product),
+    };
+
+    const { priorities } = profile;
+    const weighted =
+      priorities.returns * breakdown.returns +
+      priorities.costs * breakdown.costs +
+      priorities.security * breakdown.security +
+      priorities.flexibility * breakdown.flexibility +
+      RISK_FIT_WEIGHT * breakdown.riskFit +
+      RATINGS_WEIGHT * breakdown.ratings;
+    const totalWeight =
+      priorities.returns + priorities.costs + priorities.security + priorities.flexibility +
+      RISK_FIT_WEIGHT + RATINGS_WEIGHT;
+    let score = totalWeight > 0 ? (weighted / totalWeight) * 100 : 0;
+
+    const matchReasons = getMatchReasons(profile, product, breakdown);
+    const warnings = getRiskWarnings(profile, product, breakdown);
+    const monthlyRecommendedContribution = calculateRecommendedContribution(profile, product, contributionPeriod);
+
+    if (profile.monthlyBudget < product.minContribution) {
+      score -= BUDGET_PENALTY;
+      warnings.push(`Mindestbeitrag von ${product.minContribution} € liegt über Ihrem Budget`);
+    }
+    if (monthlyRecommendedContribution > profile.monthlyBudget && profile.savingsGoal > 0) {
+      warnings.push(
+        `Für Ihr Sparziel wären ca. ${monthlyRecommendedContribution} € monatlich nötig`
+      );
+    }
+    if (profile.age > product.maxEntryAge) {
+      score = Math.min(score, INELIGIBLE_MAX_SCORE);
+      warnings.push(`Höchsteintrittsalter ${product.maxEntryAge} Jahre überschritten`);
+    }
+    if (contributionPeriod < product.minContractDuration) {
+      score = Math.min(score, INELIGIBLE_MAX_SCORE);
+      warnings.push(`Mindestlaufzeit von ${product.minContractDuration} Jahren nicht erreichbar`);
+    }
+
+    return {
+      product,
+      score: Math.round(Math.min(100, Math.max(0, score))),
+      matchReasons,
+      warnings,
+      projectedValue,
+      monthlyRecommendedContribution,
+    };
+  });
+
+  return recommendations.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Reasons for the criteria the customer weights high and the product does well in
+ */
+function getMatchReasons(
+  profile: CustomerProfile,
+  product: InsuranceProduct,
+  breakdown: ScoreBreakdown
+): string[] {
+  const { priorities } = profile;
+  const reasons: string[] = [];
+
+  if (breakdown.riskFit >= 0.8) {
+    reasons.push(`${product.guaranteeLevel}% Garantie passt zu Ihrer Risikobereitschaft`);
+  }
+  if (priorities.returns >= 6 && breakdown.returns >= 0.95) {
+    reasons.push('Höchster erwarteter Wert zum Rentenbeginn');
+  }
+  if (priorities.costs >= 6 && breakdown.costs >= 0.6) {
+    reasons.push(`Niedrige Kosten (${calculateEffectiveCostRatio(product).toFixed(2)}% p.a.)`);
+  }
+  if (priorities.security >= 6 && breakdown.security >= 0.7) {
+    reasons.push('Hohe Sicherheit durch Garantie und Finanzkraft');
+  }
+  if (priorities.flexibility >= 6 && breakdown.flexibility >= 0.8) {
+    reasons.push('Flexibel bei Zuzahlungen, Entnahmen und Beitragspausen');
+  }
+  if (breakdown.ratings >= 0.85) {
+    reasons.push('Sehr gute Ratings');
+  }
+  if (profile.maritalStatus === 'married' && product.payoutOptions.hinterbliebenenabsicherung) {
+    reasons.push('Hinterbliebenenabsicherung für Ihren Partner möglich');
+  }
+
+  return reasons;
+}
+
+/**
+ * Warnings where product and risk profile or priorities pull in different directions
+ */
+function getRiskWarnings(
+  profile: CustomerProfile,
+  product: InsuranceProduct,
+  breakdown: ScoreBreakdown
+): string[] {
+  const { priorities } = profile;
+  const warnings: string[] = [];
+
+  if (profile.riskTolerance === 'low' && product.guaranteeLevel < 80) {
+    warnings.push(
+      product.guaranteeLevel === 0
+        ? 'Keine Beitragsgarantie - Verluste sind möglich'
+        : `Nur ${product.guaranteeLevel}% der Beiträge garantiert`
+    );
+  }
+  if (profile.riskTolerance === 'high' && product.guaranteeLevel >= 90) {
+    warnings.push('Hohe Garantie kostet Renditechancen');
+  }
+  if (priorities.costs >= 7 && breakdown.costs < 0.4) {
+    warnings.push(`Hohe Kosten (${calculateEffectiveCostRatio(product).toFixed(2)}% p.a.)`);
+  }
+  if (priorities.flexibility >= 7 && !product.features.entnahmenMoeglich) {
+    warnings.push('Keine Entnahmen während der Ansparphase');
+  }
+
+  return warnings;
+}
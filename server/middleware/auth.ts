@@ -5,7 +5,7 @@
  * - Local strategy for username/password login
  * - JWT strategy for API authentication
  * - Password hashing with bcrypt
- * - Token generation and verification
+ * - Short-lived access tokens plus rotating refresh tokens
  */
 
 import passport from 'passport';
@@ -13,35 +13,42 @@ import { Strategy as LocalStrategy } from 'passport-local';
 import { Strategy as JwtStrategy, ExtractJwt } from 'passport-jwt';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { storage } from '../storage';
 import { logger } from '../utils/logger';
 import type { Request, Response, NextFunction } from 'express';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'change_this_in_production';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_EXPIRES_DAYS = Number(process.env.REFRESH_TOKEN_EXPIRES_DAYS) || 30;
+
+/** Identity attached to req.user by the JWT strategy */
+export interface AuthUser {
+  userId: string;
+  username: string;
+}
+
+declare global {
+  namespace Express {
+    interface User extends AuthUser {}
+  }
+}
 
 // Local Strategy (username/password)
 passport.use(
   new LocalStrategy(async (username, password, done) => {
     try {
-      // TODO: Add getUser method to storage
-      // const user = await storage.getUser(username);
-
-      // For now, return not implemented
-      logger.warn('Local authentication not fully implemented - user storage needed');
-      return done(null, false, { message: 'Authentication not configured' });
-
-      // Future implementation:
-      // if (!user) {
-      //   return done(null, false, { message: 'Invalid credentials' });
-      // }
-      //
-      // const isValid = await bcrypt.compare(password, user.password);
-      // if (!isValid) {
-      //   return done(null, false, { message: 'Invalid credentials' });
-      // }
-      //
-      // return done(null, user);
+      const user = await storage.getUserByUsername(username);
+      if (!user) {
+        return done(null, false, { message: 'Invalid credentials' });
+      }
+
+      const isValid = await verifyPassword(password, user.password);
+      if (!isValid) {
+        return done(null, false, { message: 'Invalid credentials' });
+      }
+
+      return done(null, { userId: user.id, username: user.username });
     } catch (error) {
       logger.error('Local strategy error:', error);
       return done(error);
@@ -58,19 +65,14 @@ passport.use(
     },
     async (payload, done) => {
       try {
-        // TODO: Add getUserById method to storage
-        // const user = await storage.getUserById(payload.userId);
-
-        // For now, return payload as user
-        logger.debug('JWT authentication successful', { userId: payload.userId });
-        return done(null, payload);
-
-        // Future implementation:
-        // if (!user) {
-        //   return done(null, false);
-        // }
-        //
-        // return done(null, user);
+        // Tokens of deleted accounts stay valid until expiry - reject them here
+        const user = await storage.getUser(payload.userId);
+        if (!user) {
+          return done(null, false);
+        }
+
+        logger.debug('JWT authentication successful', { userId: user.id });
+        return done(null, { userId: user.id, username: user.username });
       } catch (error) {
         logger.error('JWT strategy error:', error);
         return done(error, false);
@@ -93,6 +95,30 @@ export function generateToken(userId: string, username: string): string {
   );
 }
 
+/**
+ * SHA-256 of a refresh token - only the hash is stored
+ */
+export function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue an access token plus a new opaque refresh token for the user
+ */
+export async function issueTokens(
+  userId: string,
+  username: string
+): Promise<{ token: string; refreshToken: string }> {
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+  await storage.createRefreshToken({
+    userId,
+    tokenHash: hashRefreshToken(refreshToken),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000),
+  });
+
+  return { token: generateToken(userId, username), refreshToken };
+}
+
 /**
  * Hash password using bcrypt
  */
@@ -19,17 +19,19 @@ const cache = new NodeCache({
 
 /**
  * Generate cache key from request
+ * Keys start with the user id so per-user responses are never shared
  */
 function generateCacheKey(req: Request): string {
   const { method, path, query, body } = req;
+  const owner = req.user?.userId ?? 'anonymous';
 
   // For GET requests, use path + query
   if (method === 'GET') {
-    return `${path}:${JSON.stringify(query)}`;
+    return `${owner}:${path}:${JSON.stringify(query)}`;
   }
 
   // For POST requests, include body in key
-  return `${path}:${JSON.stringify({ query, body })}`;
+  return `${owner}:${path}:${JSON.stringify({ query, body })}`;
 }
 
 /**
@@ -4,6 +4,7 @@
 -- Scenarios table indexes
 CREATE INDEX IF NOT EXISTS idx_scenarios_created_at ON scenarios(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_scenarios_updated_at ON scenarios(updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scenarios_user_created ON scenarios(user_id, created_at DESC);
 
 -- Private Pension Plans table indexes
 CREATE INDEX IF NOT EXISTS idx_pension_plans_scenario_id ON private_pension_plans(scenario_id);
@@ -16,6 +17,9 @@ CREATE INDEX IF NOT EXISTS idx_pension_plans_scenario_created ON private_pension
 -- Users table indexes
 CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
 
+-- Refresh tokens table indexes (token_hash is unique and indexed already)
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+
 -- Full-text search index for scenario names (if needed)
 CREATE INDEX IF NOT EXISTS idx_scenarios_name_trgm ON scenarios USING gin(name gin_trgm_ops);
 
@@ -23,3 +27,4 @@ CREATE INDEX IF NOT EXISTS idx_scenarios_name_trgm ON scenarios USING gin(name g
 ANALYZE scenarios;
 ANALYZE private_pension_plans;
 ANALYZE users;
+ANALYZE refresh_tokens;
@@ -1,18 +1,54 @@
-import type { Express } from "express";
+import type { Express, RequestHandler } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertScenarioSchema, insertPrivatePensionPlanSchema } from "@shared/schema";
+import { insertScenarioSchema, insertPrivatePensionPlanSchema, incomeTaxInputSchema, goalSeekRequestSchema, sensitivityRequestSchema, backtestRequestSchema } from "@shared/schema";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { calculatePrivatePension } from "../shared/utils/financial-calculator";
+import { runMonteCarloSimulation } from "../shared/utils/monte-carlo";
+import { solveGoalSeek } from "../shared/utils/goal-seek";
+import { runSensitivityAnalysis, calculateSensitivityGrid } from "../shared/utils/sensitivity";
+import { runHistoricalBacktest } from "../shared/utils/backtest";
+import { calculateIncomeTaxAssessment } from "../shared/utils/income-tax";
 import { generateInteractivePensionForm } from "../shared/services/interactive-pdf-form";
 import { logger } from "./utils/logger";
-import { cacheMiddleware, getCacheStats } from "./middleware/cache";
+import { cacheMiddleware, clearCache, getCacheStats } from "./middleware/cache";
+import { requireAuth } from "./middleware/auth";
+import { apiLimiter } from "./middleware/security";
 import { registerAuthRoutes } from "./routes/auth";
+import { registerHouseholdRoutes } from "./routes/household";
+import { registerCalculateRoutes } from "./routes/calculate";
+
+// Plan values for ad-hoc calculations that leave fields out
+const INSTANT_PLAN_DEFAULTS = {
+  scenarioId: "temp",
+  currentAge: 30,
+  startAge: 30,
+  monthlyContribution: 500,
+  startInvestment: 0,
+  termYears: 30,
+  payoutStartAge: 67,
+  payoutEndAge: 85,
+  payoutMode: "annuity" as const,
+  annuityRate: 0.03,
+  policyFeeAnnualPct: 0.004,
+  policyFixedAnnual: 0,
+  taxRatePayout: 0.17,
+  expectedReturn: 0.065,
+  ter: 0.008,
+  volatility: 0.18,
+  rebalancingEnabled: true,
+  inflationRate: 0.02,
+  technicalInterestRate: 0.01,
+  guaranteePeriodYears: 0,
+  sex: "unisex" as const,
+};
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Register authentication routes
   registerAuthRoutes(app);
+  registerHouseholdRoutes(app);
+  registerCalculateRoutes(app);
 
   // Health check endpoint
   app.get("/health", (req, res) => {
@@ -30,10 +66,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(stats);
   });
 
-  // Scenarios endpoints with caching
-  app.get("/api/scenarios", cacheMiddleware(300), async (req, res) => {
+  // Scenarios endpoints with caching - scenarios and their plans belong to the
+  // logged-in user, other users' resources answer 404
+  app.get("/api/scenarios", requireAuth, cacheMiddleware(300), async (req, res) => {
     try {
-      const scenarios = await storage.getScenarios();
+      const scenarios = await storage.getScenarios(req.user!.userId);
       res.json(scenarios);
     } catch (error) {
       logger.error('GET /api/scenarios - Error:', error);
@@ -41,9 +78,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/scenarios/:id", async (req, res) => {
+  app.get("/api/scenarios/:id", requireAuth, async (req, res) => {
     try {
-      const scenario = await storage.getScenario(req.params.id);
+      const scenario = await storage.getScenario(req.user!.userId, req.params.id);
       if (!scenario) {
         return res.status(404).json({ message: "Scenario not found" });
       }
@@ -53,10 +90,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/scenarios", async (req, res) => {
+  app.post("/api/scenarios", requireAuth, async (req, res) => {
     try {
       const validatedData = insertScenarioSchema.parse(req.body);
-      const scenario = await storage.createScenario(validatedData);
+      const scenario = await storage.createScenario(req.user!.userId, validatedData);
+      clearCache(`${req.user!.userId}:/api/scenarios`);
       res.status(201).json(scenario);
     } catch (error) {
       logger.error('POST /api/scenarios - Error:', error);
@@ -67,13 +105,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/scenarios/:id", async (req, res) => {
+  app.put("/api/scenarios/:id", requireAuth, async (req, res) => {
     try {
       const validatedData = insertScenarioSchema.partial().parse(req.body);
-      const scenario = await storage.updateScenario(req.params.id, validatedData);
+      const scenario = await storage.updateScenario(req.user!.userId, req.params.id, validatedData);
       if (!scenario) {
         return res.status(404).json({ message: "Scenario not found" });
       }
+      clearCache(`${req.user!.userId}:/api/scenarios`);
       res.json(scenario);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -83,12 +122,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/scenarios/:id", async (req, res) => {
+  app.delete("/api/scenarios/:id", requireAuth, async (req, res) => {
     try {
-      const deleted = await storage.deleteScenario(req.params.id);
+      const deleted = await storage.deleteScenario(req.user!.userId, req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Scenario not found" });
       }
+      clearCache(`${req.user!.userId}:/api/scenarios`);
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete scenario" });
@@ -96,18 +136,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Private Pension Plans endpoints
-  app.get("/api/scenarios/:scenarioId/pension-plans", async (req, res) => {
+  app.get("/api/scenarios/:scenarioId/pension-plans", requireAuth, async (req, res) => {
     try {
-      const plans = await storage.getPrivatePensionPlansByScenario(req.params.scenarioId);
+      const plans = await storage.getPrivatePensionPlansByScenario(req.user!.userId, req.params.scenarioId);
+      if (!plans) {
+        return res.status(404).json({ message: "Scenario not found" });
+      }
       res.json(plans);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch pension plans" });
     }
   });
 
-  app.get("/api/pension-plans/:id", async (req, res) => {
+  app.get("/api/pension-plans/:id", requireAuth, async (req, res) => {
     try {
-      const plan = await storage.getPrivatePensionPlan(req.params.id);
+      const plan = await storage.getPrivatePensionPlan(req.user!.userId, req.params.id);
       if (!plan) {
         return res.status(404).json({ message: "Pension plan not found" });
       }
@@ -117,10 +160,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/pension-plans", async (req, res) => {
+  app.post("/api/pension-plans", requireAuth, async (req, res) => {
     try {
       const validatedData = insertPrivatePensionPlanSchema.parse(req.body);
-      const plan = await storage.createPrivatePensionPlan(validatedData);
+      const plan = await storage.createPrivatePensionPlan(req.user!.userId, validatedData);
+      if (!plan) {
+        return res.status(404).json({ message: "Scenario not found" });
+      }
       res.status(201).json(plan);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -130,10 +176,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/pension-plans/:id", async (req, res) => {
+  app.put("/api/pension-plans/:id", requireAuth, async (req, res) => {
     try {
       const validatedData = insertPrivatePensionPlanSchema.partial().parse(req.body);
-      const plan = await storage.updatePrivatePensionPlan(req.params.id, validatedData);
+      const plan = await storage.updatePrivatePensionPlan(req.user!.userId, req.params.id, validatedData);
       if (!plan) {
         return res.status(404).json({ message: "Pension plan not found" });
       }
@@ -146,9 +192,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/pension-plans/:id", async (req, res) => {
+  app.delete("/api/pension-plans/:id", requireAuth, async (req, res) => {
     try {
-      const deleted = await storage.deletePrivatePensionPlan(req.params.id);
+      const deleted = await storage.deletePrivatePensionPlan(req.user!.userId, req.params.id);
       if (!deleted) {
         return res.status(404).json({ message: "Pension plan not found" });
       }
@@ -158,8 +204,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Monte Carlo runs thousands of simulations per request, so that mode is rate-limited and
+  // requires a login like POST /api/solve; single simulations stay public
+  const protectMonteCarlo: RequestHandler = (req, res, next) => {
+    if (req.query.mode !== "montecarlo") return next();
+    apiLimiter(req, res, (error?: unknown) => (error ? next(error) : requireAuth(req, res, next)));
+  };
+
   // Simulation endpoint - accepts ad-hoc calculations without requiring a persisted scenario
-  app.post("/api/simulate", async (req, res) => {
+  // ?mode=montecarlo returns percentile bands based on the plan's volatility
+  app.post("/api/simulate", protectMonteCarlo, async (req, res) => {
     try {
       // Create a schema that makes scenarioId optional for simulations
       const simulationSchema = insertPrivatePensionPlanSchema.extend({
@@ -167,6 +221,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const validatedData = simulationSchema.parse(req.body);
+
+      if (req.query.mode === "montecarlo") {
+        const monteCarloSchema = z.object({
+          runs: z.number().int().min(100).max(5000).optional(),
+          seed: z.number().int().optional(),
+        });
+        const options = monteCarloSchema.parse(req.body);
+        return res.json(runMonteCarloSimulation(validatedData, options));
+      }
+
       const simulation = calculatePrivatePension(validatedData);
       res.json(simulation);
     } catch (error) {
@@ -178,7 +242,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dynamic values update endpoint
-  app.post("/api/pension-plans/:id/update-values", async (req, res) => {
+  app.post("/api/pension-plans/:id/update-values", requireAuth, async (req, res) => {
     try {
       const { id } = req.params;
       const updateSchema = z.object({
@@ -196,13 +260,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validatedData = updateSchema.parse(req.body);
       
       // Get current plan
-      const currentPlan = await storage.getPrivatePensionPlan(id);
+      const currentPlan = await storage.getPrivatePensionPlan(req.user!.userId, id);
       if (!currentPlan) {
         return res.status(404).json({ message: "Pension plan not found" });
       }
       
       // Update plan with new values
-      const updatedPlan = await storage.updatePrivatePensionPlan(id, validatedData);
+      const updatedPlan = await storage.updatePrivatePensionPlan(req.user!.userId, id, validatedData);
       if (!updatedPlan) {
         return res.status(404).json({ message: "Failed to update pension plan" });
       }
@@ -225,7 +289,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         expectedReturn: updatedPlan.expectedReturn,
         ter: updatedPlan.ter,
         volatility: updatedPlan.volatility,
-        rebalancingEnabled: updatedPlan.rebalancingEnabled
+        rebalancingEnabled: updatedPlan.rebalancingEnabled,
+        inflationRate: updatedPlan.inflationRate,
+        technicalInterestRate: updatedPlan.technicalInterestRate,
+        guaranteePeriodYears: updatedPlan.guaranteePeriodYears,
+        sex: updatedPlan.sex as "male" | "female" | "unisex"
       });
       
       res.json({
@@ -247,26 +315,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validatedData = insertPrivatePensionPlanSchema.partial().parse(req.body);
       
       // Merge with default values for instant calculation
-      const defaultPlan = {
-        scenarioId: "temp",
-        currentAge: 30,
-        startAge: 30,
-        monthlyContribution: 500,
-        startInvestment: 0,
-        termYears: 30,
-        payoutStartAge: 67,
-        payoutEndAge: 85,
-        payoutMode: "annuity" as const,
-        annuityRate: 0.03,
-        policyFeeAnnualPct: 0.004,
-        policyFixedAnnual: 0,
-        taxRatePayout: 0.17,
-        expectedReturn: 0.065,
-        ter: 0.008,
-        volatility: 0.18,
-        rebalancingEnabled: true,
-        ...validatedData
-      };
+      const defaultPlan = { ...INSTANT_PLAN_DEFAULTS, ...validatedData };
       
       const simulation = calculatePrivatePension(defaultPlan);
       res.json(simulation);
@@ -278,6 +327,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Goal seek - inverts the simulation for contribution, payout start age or return
+  app.post("/api/solve", apiLimiter, requireAuth, async (req, res) => {
+    try {
+      const { plan, solveFor, target, ...options } = goalSeekRequestSchema.parse(req.body);
+      const result = solveGoalSeek({ ...INSTANT_PLAN_DEFAULTS, ...plan }, solveFor, target, options);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      logger.error('POST /api/solve - Error:', error);
+      res.status(500).json({ message: "Failed to solve for target" });
+    }
+  });
+
+  // Sensitivity analysis - KPI impact per input for a tornado chart, optional heatmap grid
+  app.post("/api/sensitivity", apiLimiter, requireAuth, async (req, res) => {
+    try {
+      const { plan, grid, ...options } = sensitivityRequestSchema.parse(req.body);
+      const fullPlan = { ...INSTANT_PLAN_DEFAULTS, ...plan };
+      res.json({
+        tornado: runSensitivityAnalysis(fullPlan, options),
+        grid: grid ? calculateSensitivityGrid(fullPlan, { ...grid, kpi: options.kpi, view: options.view }) : null,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      logger.error('POST /api/sensitivity - Error:', error);
+      res.status(500).json({ message: "Failed to run sensitivity analysis" });
+    }
+  });
+
+  // Historical backtest - savings and withdrawal phase over every rolling window of the bundled index data
+  app.post("/api/backtest", apiLimiter, requireAuth, async (req, res) => {
+    try {
+      const { plan, ...options } = backtestRequestSchema.parse(req.body);
+      res.json(runHistoricalBacktest({ ...INSTANT_PLAN_DEFAULTS, ...plan }, options));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      logger.error('POST /api/backtest - Error:', error);
+      res.status(500).json({ message: "Failed to run historical backtest" });
+    }
+  });
+
+  // Income tax assessment (§32a EStG tariff with Günstigerprüfung)
+  app.post("/api/tax/income", async (req, res) => {
+    try {
+      const input = incomeTaxInputSchema.parse(req.body);
+      res.json(calculateIncomeTaxAssessment(input));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      logger.error('POST /api/tax/income - Error:', error);
+      res.status(500).json({ message: "Failed to calculate income tax" });
+    }
+  });
+
   // Info box content endpoint
   app.get("/api/info-content/:type", async (req, res) => {
     try {
@@ -3,16 +3,29 @@
  *
  * Endpoints:
  * - POST /api/auth/register - Register new user
- * - POST /api/auth/login - Login and get JWT token
+ * - POST /api/auth/login - Login and get access + refresh token
+ * - POST /api/auth/refresh - Exchange a refresh token for new tokens (rotation)
  * - GET /api/auth/me - Get current user info
- * - POST /api/auth/logout - Logout (client-side token deletion)
+ * - POST /api/auth/change-password - Change password, revokes all refresh tokens
+ * - DELETE /api/auth/me - Delete own account
+ * - POST /api/auth/logout - Revoke the given refresh token
  */
 
-import type { Express, Request, Response } from 'express';
+import type { Express, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { fromZodError } from 'zod-validation-error';
-import { generateToken, hashPassword, verifyPassword, requireAuth } from '../middleware/auth';
+import type { User } from '@shared/schema';
+import {
+  passport,
+  hashPassword,
+  verifyPassword,
+  hashRefreshToken,
+  issueTokens,
+  requireAuth,
+  type AuthUser,
+} from '../middleware/auth';
 import { authLimiter } from '../middleware/security';
+import { storage } from '../storage';
 import { logger } from '../utils/logger';
 
 // Validation schemas
@@ -27,6 +40,36 @@ const loginSchema = z.object({
   password: z.string(),
 });
 
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const logoutSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string(),
+  newPassword: z.string().min(8).max(100),
+});
+
+const deleteAccountSchema = z.object({
+  password: z.string(),
+});
+
+/**
+ * User fields that may leave the server (never the password hash)
+ */
+function toPublicUser(user: User) {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
 export function registerAuthRoutes(app: Express) {
   /**
    * POST /api/auth/register
@@ -36,46 +79,28 @@ export function registerAuthRoutes(app: Express) {
     try {
       const validatedData = registerSchema.parse(req.body);
 
-      // TODO: Implement user storage
-      // For now, return not implemented
-      logger.warn('User registration attempted but not fully implemented');
+      if (await storage.getUserByUsername(validatedData.username)) {
+        return res.status(409).json({ message: 'Username already exists' });
+      }
+      if (validatedData.email && (await storage.getUserByEmail(validatedData.email))) {
+        return res.status(409).json({ message: 'Email already registered' });
+      }
 
-      return res.status(501).json({
-        message: 'Registration not implemented',
-        note: 'User storage needs to be implemented in storage.ts',
+      const user = await storage.createUser({
+        username: validatedData.username,
+        password: await hashPassword(validatedData.password),
+        email: validatedData.email,
       });
 
-      // Future implementation:
-      // // Check if user exists
-      // const existingUser = await storage.getUserByUsername(validatedData.username);
-      // if (existingUser) {
-      //   return res.status(409).json({ message: 'Username already exists' });
-      // }
-      //
-      // // Hash password
-      // const hashedPassword = await hashPassword(validatedData.password);
-      //
-      // // Create user
-      // const user = await storage.createUser({
-      //   username: validatedData.username,
-      //   password: hashedPassword,
-      //   email: validatedData.email,
-      // });
-      //
-      // // Generate token
-      // const token = generateToken(user.id, user.username);
-      //
-      // logger.info('User registered', { userId: user.id, username: user.username });
-      //
-      // res.status(201).json({
-      //   message: 'User registered successfully',
-      //   token,
-      //   user: {
-      //     id: user.id,
-      //     username: user.username,
-      //     email: user.email,
-      //   },
-      // });
+      const tokens = await issueTokens(user.id, user.username);
+
+      logger.info('User registered', { userId: user.id, username: user.username });
+
+      res.status(201).json({
+        message: 'User registered successfully',
+        ...tokens,
+        user: toPublicUser(user),
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: fromZodError(error).toString() });
@@ -87,54 +112,84 @@ export function registerAuthRoutes(app: Express) {
 
   /**
    * POST /api/auth/login
-   * Login and receive JWT token
+   * Login via the local strategy and receive access + refresh token
    */
-  app.post('/api/auth/login', authLimiter, async (req: Request, res: Response) => {
+  app.post('/api/auth/login', authLimiter, (req: Request, res: Response, next: NextFunction) => {
     try {
-      const validatedData = loginSchema.parse(req.body);
+      loginSchema.parse(req.body);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      return next(error);
+    }
 
-      // TODO: Implement user authentication
-      // For now, return not implemented
-      logger.warn('User login attempted but not fully implemented');
+    passport.authenticate('local', { session: false }, async (err: any, authUser: AuthUser | false, info: any) => {
+      try {
+        if (err) throw err;
+        if (!authUser) {
+          return res.status(401).json({ message: info?.message || 'Invalid credentials' });
+        }
 
-      return res.status(501).json({
-        message: 'Login not implemented',
-        note: 'User storage and authentication needs to be implemented',
-      });
+        const user = await storage.getUser(authUser.userId);
+        if (!user) {
+          return res.status(401).json({ message: 'Invalid credentials' });
+        }
+
+        const tokens = await issueTokens(user.id, user.username);
+
+        logger.info('User logged in', { userId: user.id, username: user.username });
+
+        res.json({
+          message: 'Login successful',
+          ...tokens,
+          user: toPublicUser(user),
+        });
+      } catch (error) {
+        logger.error('Login error:', error);
+        res.status(500).json({ message: 'Login failed' });
+      }
+    })(req, res, next);
+  });
+
+  /**
+   * POST /api/auth/refresh
+   * Exchange a valid refresh token for a new token pair. The old refresh token
+   * is revoked; presenting a revoked token again revokes all tokens of the user.
+   */
+  app.post('/api/auth/refresh', authLimiter, async (req: Request, res: Response) => {
+    try {
+      const { refreshToken } = refreshSchema.parse(req.body);
+      const stored = await storage.getRefreshTokenByHash(hashRefreshToken(refreshToken));
 
-      // Future implementation:
-      // // Get user
-      // const user = await storage.getUserByUsername(validatedData.username);
-      // if (!user) {
-      //   return res.status(401).json({ message: 'Invalid credentials' });
-      // }
-      //
-      // // Verify password
-      // const isValid = await verifyPassword(validatedData.password, user.password);
-      // if (!isValid) {
-      //   return res.status(401).json({ message: 'Invalid credentials' });
-      // }
-      //
-      // // Generate token
-      // const token = generateToken(user.id, user.username);
-      //
-      // logger.info('User logged in', { userId: user.id, username: user.username });
-      //
-      // res.json({
-      //   message: 'Login successful',
-      //   token,
-      //   user: {
-      //     id: user.id,
-      //     username: user.username,
-      //     email: user.email,
-      //   },
-      // });
+      if (!stored) {
+        return res.status(401).json({ message: 'Invalid refresh token' });
+      }
+      if (stored.revokedAt) {
+        // Reuse of a rotated token - someone else may hold the newer one
+        await storage.revokeUserRefreshTokens(stored.userId);
+        logger.warn('Revoked refresh token reused', { userId: stored.userId });
+        return res.status(401).json({ message: 'Invalid refresh token' });
+      }
+      if (stored.expiresAt.getTime() <= Date.now()) {
+        return res.status(401).json({ message: 'Refresh token expired' });
+      }
+
+      const user = await storage.getUser(stored.userId);
+      if (!user) {
+        return res.status(401).json({ message: 'Invalid refresh token' });
+      }
+
+      await storage.revokeRefreshToken(stored.id);
+      const tokens = await issueTokens(user.id, user.username);
+
+      res.json(tokens);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: fromZodError(error).toString() });
       }
-      logger.error('Login error:', error);
-      res.status(500).json({ message: 'Login failed' });
+      logger.error('Token refresh error:', error);
+      res.status(500).json({ message: 'Token refresh failed' });
     }
   });
 
@@ -144,37 +199,106 @@ export function registerAuthRoutes(app: Express) {
    */
   app.get('/api/auth/me', requireAuth, async (req: Request, res: Response) => {
     try {
-      const user = req.user as any; // TODO: Add proper User type
+      const user = req.user ? await storage.getUser(req.user.userId) : undefined;
 
       if (!user) {
         return res.status(401).json({ message: 'Not authenticated' });
       }
 
-      res.json({
-        user: {
-          id: user.userId,
-          username: user.username,
-        },
-      });
+      res.json({ user: toPublicUser(user) });
     } catch (error) {
       logger.error('Get user error:', error);
       res.status(500).json({ message: 'Failed to get user info' });
     }
   });
 
+  /**
+   * POST /api/auth/change-password
+   * Change the password; all sessions are logged out and a new token pair is returned
+   */
+  app.post('/api/auth/change-password', authLimiter, requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.userId);
+
+      if (!user || !(await verifyPassword(currentPassword, user.password))) {
+        return res.status(401).json({ message: 'Invalid credentials' });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(newPassword) });
+      await storage.revokeUserRefreshTokens(user.id);
+      const tokens = await issueTokens(user.id, user.username);
+
+      logger.info('Password changed', { userId: user.id });
+
+      res.json({
+        message: 'Password changed successfully',
+        ...tokens,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      logger.error('Change password error:', error);
+      res.status(500).json({ message: 'Failed to change password' });
+    }
+  });
+
+  /**
+   * DELETE /api/auth/me
+   * Delete own account after confirming the password
+   */
+  app.delete('/api/auth/me', authLimiter, requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { password } = deleteAccountSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.userId);
+
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return res.status(401).json({ message: 'Invalid credentials' });
+      }
+
+      // Refresh tokens are removed by the foreign key cascade
+      await storage.deleteUser(user.id);
+
+      logger.info('User deleted', { userId: user.id });
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      logger.error('Delete account error:', error);
+      res.status(500).json({ message: 'Failed to delete account' });
+    }
+  });
+
   /**
    * POST /api/auth/logout
-   * Logout (client-side token deletion)
+   * Revoke the refresh token; the short-lived access token is deleted client-side
    */
-  app.post('/api/auth/logout', (req: Request, res: Response) => {
-    // With JWT, logout is handled client-side by deleting the token
-    // This endpoint exists for consistency and can be used for logging
-    logger.info('User logged out', { user: req.user });
-
-    res.json({
-      message: 'Logged out successfully',
-      note: 'Please delete your JWT token on the client side',
-    });
+  app.post('/api/auth/logout', async (req: Request, res: Response) => {
+    try {
+      const { refreshToken } = logoutSchema.parse(req.body ?? {});
+
+      if (refreshToken) {
+        const stored = await storage.getRefreshTokenByHash(hashRefreshToken(refreshToken));
+        if (stored && !stored.revokedAt) {
+          await storage.revokeRefreshToken(stored.id);
+          logger.info('User logged out', { userId: stored.userId });
+        }
+      }
+
+      res.json({
+        message: 'Logged out successfully',
+        note: 'Please delete your access token on the client side',
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      logger.error('Logout error:', error);
+      res.status(500).json({ message: 'Logout failed' });
+    }
   });
 
   logger.info('Auth routes registered');
@@ -0,0 +1,156 @@
+/**
+ * Calculator routes (v1)
+ *
+ * Stateless wrappers around the calculators in shared/utils that the client
+ * runs in the browser, so other systems get exactly the numbers the UI shows.
+ *
+ * Endpoints:
+ * - POST /api/v1/calculate/riester - Riester Zulagen and net cost
+ * - POST /api/v1/calculate/bav - Entgeltumwandlung tax and social security savings
+ * - POST /api/v1/calculate/bav-lifecycle - bAV from conversion to net pension incl. KVdR and net return
+ * - POST /api/v1/calculate/retirement-tax - Taxes and real net household income per retirement year
+ * - POST /api/v1/calculate/mortgage - Tilgungsplan, follow-up rate scenarios and pay down vs. invest
+ * - POST /api/v1/calculate/gap-optimizer - Product mix that closes the most of the net pension gap for a budget
+ * - POST /api/v1/calculate/ruerup - Rürup deductible amount and tax savings
+ * - POST /api/v1/calculate/fund-vs-pension - Fund savings plan vs. pension simulation
+ * - POST /api/v1/calculate/income-tax - Income tax as shown in the tax calculator
+ */
+
+import type { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import {
+  bavLifecycleCalculationSchema,
+  fundVsPensionCalculationSchema,
+  gapOptimizerCalculationSchema,
+  germanTaxCalculationSchema,
+  mortgageCalculationSchema,
+  occupationalPensionCalculationSchema,
+  retirementTaxCalculationSchema,
+  riesterCalculationSchema,
+  ruerupCalculationSchema,
+} from '@shared/schema';
+import {
+  calculateOccupationalPension,
+  calculateRiester,
+  calculateRuerupTaxSavings,
+  type OccupationalPensionResult,
+  type RiesterResult,
+  type RuerupResult,
+} from '@shared/utils/pensionCalculators';
+import {
+  createDefaultSimulationParams,
+  runPensionComparison,
+  type SimulationResult,
+} from '@shared/utils/pensionSimulation';
+import { calculateBavLifecycle, type BavLifecycleResult } from '@shared/utils/bav';
+import { calculateRetirementTax, type RetirementTaxResult } from '@shared/utils/retirement-tax';
+import { optimizeRetirementGap, type GapOptimizerResult } from '@shared/utils/gap-optimizer';
+import { analyzeMortgage, type MortgageAnalysis } from '@shared/utils/mortgage';
+import { DEFAULT_TAX_SETTINGS } from '@shared/utils/germanTaxCalculations';
+import { calculateGermanTax, type TaxCalculationResult } from '@shared/utils/germanTaxCalculator';
+import { logger } from '../utils/logger';
+
+/**
+ * Registers POST `path`: validates the body with `schema` and answers with the calculator result.
+ */
+function registerCalculation<Schema extends z.ZodTypeAny, Result>(
+  app: Express,
+  path: string,
+  schema: Schema,
+  calculate: (input: z.infer<Schema>) => Result,
+  failureMessage: string
+) {
+  app.post(path, (req: Request, res: Response) => {
+    try {
+      const input = schema.parse(req.body);
+      res.json(calculate(input));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      logger.error(`POST ${path} - Error:`, error);
+      res.status(500).json({ message: failureMessage });
+    }
+  });
+}
+
+export function registerCalculateRoutes(app: Express) {
+  registerCalculation(
+    app,
+    '/api/v1/calculate/riester',
+    riesterCalculationSchema,
+    (input): RiesterResult => calculateRiester(input),
+    'Failed to calculate Riester subsidies'
+  );
+
+  registerCalculation(
+    app,
+    '/api/v1/calculate/bav',
+    occupationalPensionCalculationSchema,
+    (input): OccupationalPensionResult => calculateOccupationalPension(input),
+    'Failed to calculate occupational pension savings'
+  );
+
+  registerCalculation(
+    app,
+    '/api/v1/calculate/bav-lifecycle',
+    bavLifecycleCalculationSchema,
+    (input): BavLifecycleResult => calculateBavLifecycle(input),
+    'Failed to calculate occupational pension lifecycle'
+  );
+
+  registerCalculation(
+    app,
+    '/api/v1/calculate/retirement-tax',
+    retirementTaxCalculationSchema,
+    (input): RetirementTaxResult => calculateRetirementTax(input),
+    'Failed to calculate retirement income tax'
+  );
+
+  registerCalculation(
+    app,
+    '/api/v1/calculate/mortgage',
+    mortgageCalculationSchema,
+    (input): MortgageAnalysis => analyzeMortgage(input),
+    'Failed to calculate mortgage plan'
+  );
+
+  registerCalculation(
+    app,
+    '/api/v1/calculate/gap-optimizer',
+    gapOptimizerCalculationSchema,
+    (input): GapOptimizerResult => optimizeRetirementGap(input),
+    'Failed to optimize the retirement gap'
+  );
+
+  registerCalculation(
+    app,
+    '/api/v1/calculate/ruerup',
+    ruerupCalculationSchema,
+    (input): RuerupResult => calculateRuerupTaxSavings(input),
+    'Failed to calculate Rürup tax savings'
+  );
+
+  registerCalculation(
+    app,
+    '/api/v1/calculate/fund-vs-pension',
+    fundVsPensionCalculationSchema,
+    (input): SimulationResult =>
+      runPensionComparison(
+        createDefaultSimulationParams({
+          ...input,
+          taxSettings: { ...DEFAULT_TAX_SETTINGS, ...input.taxSettings },
+        })
+      ),
+    'Failed to run fund vs. pension comparison'
+  );
+
+  registerCalculation(
+    app,
+    '/api/v1/calculate/income-tax',
+    germanTaxCalculationSchema,
+    (input): TaxCalculationResult => calculateGermanTax(input),
+    'Failed to calculate income tax'
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Household profile routes
+ *
+ * The onboarding wizard's data, stored per scenario so it can be reloaded on
+ * another device and used by server-side calculations.
+ *
+ * Endpoints:
+ * - GET /api/scenarios/:scenarioId/household - Get the profile as OnboardingData
+ * - PUT /api/scenarios/:scenarioId/household - Create or replace the profile
+ * - DELETE /api/scenarios/:scenarioId/household - Delete the profile
+ */
+
+import type { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { householdProfileSchema } from '@shared/schema';
+import { toHouseholdRecords, toOnboardingData } from '@shared/utils/household';
+import { requireAuth } from '../middleware/auth';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+
+export function registerHouseholdRoutes(app: Express) {
+  /**
+   * GET /api/scenarios/:scenarioId/household
+   */
+  app.get('/api/scenarios/:scenarioId/household', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const profile = await storage.getHouseholdProfile(req.user!.userId, req.params.scenarioId);
+      if (!profile) {
+        return res.status(404).json({ message: 'Household profile not found' });
+      }
+
+      res.json(toOnboardingData(profile, profile.members));
+    } catch (error) {
+      logger.error('GET /api/scenarios/:scenarioId/household - Error:', error);
+      res.status(500).json({ message: 'Failed to fetch household profile' });
+    }
+  });
+
+  /**
+   * PUT /api/scenarios/:scenarioId/household
+   */
+  app.put('/api/scenarios/:scenarioId/household', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const data = householdProfileSchema.parse(req.body);
+      const profile = await storage.saveHouseholdProfile(
+        req.user!.userId,
+        req.params.scenarioId,
+        toHouseholdRecords(data)
+      );
+      if (!profile) {
+        return res.status(404).json({ message: 'Scenario not found' });
+      }
+
+      res.json(toOnboardingData(profile, profile.members));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).toString() });
+      }
+      logger.error('PUT /api/scenarios/:scenarioId/household - Error:', error);
+      res.status(500).json({ message: 'Failed to save household profile' });
+    }
+  });
+
+  /**
+   * DELETE /api/scenarios/:scenarioId/household
+   */
+  app.delete('/api/scenarios/:scenarioId/household', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteHouseholdProfile(req.user!.userId, req.params.scenarioId);
+      if (!deleted) {
+        return res.status(404).json({ message: 'Household profile not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      logger.error('DELETE /api/scenarios/:scenarioId/household - Error:', error);
+      res.status(500).json({ message: 'Failed to delete household profile' });
+    }
+  });
+}
@@ -2,35 +2,56 @@ import {
   scenarios, 
   privatePensionPlans,
   users,
+  refreshTokens,
+  householdProfiles,
+  householdMembers,
   type Scenario,
   type InsertScenario,
   type PrivatePensionPlan,
   type InsertPrivatePensionPlan,
   type User, 
-  type InsertUser 
+  type InsertUser,
+  type RefreshToken,
+  type InsertRefreshToken,
+  type HouseholdProfileWithMembers
 } from "@shared/schema";
+import type { HouseholdRecords } from "@shared/utils/household";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, and, isNull } from "drizzle-orm";
 
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: string): Promise<boolean>;
+
+  // Refresh tokens
+  createRefreshToken(token: InsertRefreshToken): Promise<RefreshToken>;
+  getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined>;
+  revokeRefreshToken(id: string): Promise<void>;
+  revokeUserRefreshTokens(userId: string): Promise<void>;
   
-  // Scenarios
-  getScenarios(): Promise<Scenario[]>;
-  getScenario(id: string): Promise<Scenario | undefined>;
-  createScenario(scenario: InsertScenario): Promise<Scenario>;
-  updateScenario(id: string, scenario: Partial<InsertScenario>): Promise<Scenario | undefined>;
-  deleteScenario(id: string): Promise<boolean>;
+  // Scenarios - every query is scoped to the owning user
+  getScenarios(userId: string): Promise<Scenario[]>;
+  getScenario(userId: string, id: string): Promise<Scenario | undefined>;
+  createScenario(userId: string, scenario: InsertScenario): Promise<Scenario>;
+  updateScenario(userId: string, id: string, scenario: Partial<InsertScenario>): Promise<Scenario | undefined>;
+  deleteScenario(userId: string, id: string): Promise<boolean>;
   
-  // Private Pension Plans
-  getPrivatePensionPlansByScenario(scenarioId: string): Promise<PrivatePensionPlan[]>;
-  getPrivatePensionPlan(id: string): Promise<PrivatePensionPlan | undefined>;
-  createPrivatePensionPlan(plan: InsertPrivatePensionPlan): Promise<PrivatePensionPlan>;
-  updatePrivatePensionPlan(id: string, plan: Partial<InsertPrivatePensionPlan>): Promise<PrivatePensionPlan | undefined>;
-  deletePrivatePensionPlan(id: string): Promise<boolean>;
+  // Private Pension Plans - owned through their scenario
+  getPrivatePensionPlansByScenario(userId: string, scenarioId: string): Promise<PrivatePensionPlan[] | undefined>;
+  getPrivatePensionPlan(userId: string, id: string): Promise<PrivatePensionPlan | undefined>;
+  createPrivatePensionPlan(userId: string, plan: InsertPrivatePensionPlan): Promise<PrivatePensionPlan | undefined>;
+  updatePrivatePensionPlan(userId: string, id: string, plan: Partial<InsertPrivatePensionPlan>): Promise<PrivatePensionPlan | undefined>;
+  deletePrivatePensionPlan(userId: string, id: string): Promise<boolean>;
+
+  // Household profiles - one per scenario, owned through the scenario
+  getHouseholdProfile(userId: string, scenarioId: string): Promise<HouseholdProfileWithMembers | undefined>;
+  saveHouseholdProfile(userId: string, scenarioId: string, records: HouseholdRecords): Promise<HouseholdProfileWithMembers | undefined>;
+  deleteHouseholdProfile(userId: string, scenarioId: string): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -45,6 +66,11 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user || undefined;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -53,50 +79,113 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined> {
+    const [updated] = await db
+      .update(users)
+      .set({ ...user, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const result = await db.delete(users).where(eq(users.id, id));
+    // postgres-js driver returns { count }, not { changes }
+    return ((result as any).count ?? 0) > 0;
+  }
+
+  // Refresh tokens
+  async createRefreshToken(token: InsertRefreshToken): Promise<RefreshToken> {
+    const [created] = await db
+      .insert(refreshTokens)
+      .values(token)
+      .returning();
+    return created;
+  }
+
+  async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined> {
+    const [token] = await db.select().from(refreshTokens).where(eq(refreshTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async revokeRefreshToken(id: string): Promise<void> {
+    await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(eq(refreshTokens.id, id));
+  }
+
+  async revokeUserRefreshTokens(userId: string): Promise<void> {
+    await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+  }
+
   // Scenarios
-  async getScenarios(): Promise<Scenario[]> {
-    return await db.select().from(scenarios).orderBy(desc(scenarios.createdAt));
+  async getScenarios(userId: string): Promise<Scenario[]> {
+    return await db
+      .select()
+      .from(scenarios)
+      .where(eq(scenarios.userId, userId))
+      .orderBy(desc(scenarios.createdAt));
   }
 
-  async getScenario(id: string): Promise<Scenario | undefined> {
-    const [scenario] = await db.select().from(scenarios).where(eq(scenarios.id, id));
+  async getScenario(userId: string, id: string): Promise<Scenario | undefined> {
+    const [scenario] = await db
+      .select()
+      .from(scenarios)
+      .where(and(eq(scenarios.id, id), eq(scenarios.userId, userId)));
     return scenario || undefined;
   }
 
-  async createScenario(scenario: InsertScenario): Promise<Scenario> {
+  async createScenario(userId: string, scenario: InsertScenario): Promise<Scenario> {
     const [created] = await db
       .insert(scenarios)
-      .values(scenario)
+      .values({ ...scenario, userId })
       .returning();
     return created;
   }
 
-  async updateScenario(id: string, scenario: Partial<InsertScenario>): Promise<Scenario | undefined> {
+  async updateScenario(userId: string, id: string, scenario: Partial<InsertScenario>): Promise<Scenario | undefined> {
     const [updated] = await db
       .update(scenarios)
       .set({ ...scenario, updatedAt: new Date() })
-      .where(eq(scenarios.id, id))
+      .where(and(eq(scenarios.id, id), eq(scenarios.userId, userId)))
       .returning();
     return updated || undefined;
   }
 
-  async deleteScenario(id: string): Promise<boolean> {
-    const result = await db.delete(scenarios).where(eq(scenarios.id, id));
+  async deleteScenario(userId: string, id: string): Promise<boolean> {
+    const result = await db
+      .delete(scenarios)
+      .where(and(eq(scenarios.id, id), eq(scenarios.userId, userId)));
     // postgres-js driver returns { count }, not { changes }
     return ((result as any).count ?? 0) > 0;
   }
 
   // Private Pension Plans
-  async getPrivatePensionPlansByScenario(scenarioId: string): Promise<PrivatePensionPlan[]> {
+  // undefined when the scenario does not exist or belongs to another user
+  async getPrivatePensionPlansByScenario(userId: string, scenarioId: string): Promise<PrivatePensionPlan[] | undefined> {
+    if (!(await this.getScenario(userId, scenarioId))) {
+      return undefined;
+    }
     return await db.select().from(privatePensionPlans).where(eq(privatePensionPlans.scenarioId, scenarioId));
   }
 
-  async getPrivatePensionPlan(id: string): Promise<PrivatePensionPlan | undefined> {
-    const [plan] = await db.select().from(privatePensionPlans).where(eq(privatePensionPlans.id, id));
-    return plan || undefined;
+  async getPrivatePensionPlan(userId: string, id: string): Promise<PrivatePensionPlan | undefined> {
+    const [row] = await db
+      .select({ plan: privatePensionPlans })
+      .from(privatePensionPlans)
+      .innerJoin(scenarios, eq(privatePensionPlans.scenarioId, scenarios.id))
+      .where(and(eq(privatePensionPlans.id, id), eq(scenarios.userId, userId)));
+    return row?.plan;
   }
 
-  async createPrivatePensionPlan(plan: InsertPrivatePensionPlan): Promise<PrivatePensionPlan> {
+  async createPrivatePensionPlan(userId: string, plan: InsertPrivatePensionPlan): Promise<PrivatePensionPlan | undefined> {
+    if (!(await this.getScenario(userId, plan.scenarioId))) {
+      return undefined;
+    }
     const [created] = await db
       .insert(privatePensionPlans)
       .values(plan)
@@ -104,7 +193,14 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async updatePrivatePensionPlan(id: string, plan: Partial<InsertPrivatePensionPlan>): Promise<PrivatePensionPlan | undefined> {
+  async updatePrivatePensionPlan(userId: string, id: string, plan: Partial<InsertPrivatePensionPlan>): Promise<PrivatePensionPlan | undefined> {
+    // Moving a plan is only allowed into another scenario of the same user
+    if (!(await this.getPrivatePensionPlan(userId, id))) {
+      return undefined;
+    }
+    if (plan.scenarioId && !(await this.getScenario(userId, plan.scenarioId))) {
+      return undefined;
+    }
     const [updated] = await db
       .update(privatePensionPlans)
       .set({ ...plan, updatedAt: new Date() })
@@ -113,11 +209,62 @@ export class DatabaseStorage implements IStorage {
     return updated || undefined;
   }
 
-  async deletePrivatePensionPlan(id: string): Promise<boolean> {
+  async deletePrivatePensionPlan(userId: string, id: string): Promise<boolean> {
+    if (!(await this.getPrivatePensionPlan(userId, id))) {
+      return false;
+    }
     const result = await db.delete(privatePensionPlans).where(eq(privatePensionPlans.id, id));
     // postgres-js driver returns { count }, not { changes }
     return ((result as any).count ?? 0) > 0;
   }
+
+  // Household profiles
+  async getHouseholdProfile(userId: string, scenarioId: string): Promise<HouseholdProfileWithMembers | undefined> {
+    if (!(await this.getScenario(userId, scenarioId))) {
+      return undefined;
+    }
+    const profile = await db.query.householdProfiles.findFirst({
+      where: eq(householdProfiles.scenarioId, scenarioId),
+      with: { members: true },
+    });
+    return profile || undefined;
+  }
+
+  // Creates or replaces the profile; members are rewritten as a whole
+  async saveHouseholdProfile(userId: string, scenarioId: string, records: HouseholdRecords): Promise<HouseholdProfileWithMembers | undefined> {
+    if (!(await this.getScenario(userId, scenarioId))) {
+      return undefined;
+    }
+    return await db.transaction(async (tx) => {
+      const [profile] = await tx
+        .insert(householdProfiles)
+        .values({ ...records.profile, scenarioId })
+        .onConflictDoUpdate({
+          target: householdProfiles.scenarioId,
+          set: { ...records.profile, updatedAt: new Date() },
+        })
+        .returning();
+
+      await tx.delete(householdMembers).where(eq(householdMembers.profileId, profile.id));
+      const members = records.members.length > 0
+        ? await tx
+            .insert(householdMembers)
+            .values(records.members.map((member) => ({ ...member, profileId: profile.id })))
+            .returning()
+        : [];
+
+      return { ...profile, members };
+    });
+  }
+
+  async deleteHouseholdProfile(userId: string, scenarioId: string): Promise<boolean> {
+    if (!(await this.getScenario(userId, scenarioId))) {
+      return false;
+    }
+    const result = await db.delete(householdProfiles).where(eq(householdProfiles.scenarioId, scenarioId));
+    // postgres-js driver returns { count }, not { changes }
+    return ((result as any).count ?? 0) > 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
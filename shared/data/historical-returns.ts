@@ -0,0 +1,119 @@
+/**
+ * Bundled annual index returns for historical backtests, so the backtest runs
+ * offline in the browser and on the server alike.
+ *
+ * Values are calendar-year total returns (dividends/coupons reinvested),
+ * rounded to one decimal and compiled from published year-end index levels:
+ * - MSCI World: gross return in USD, no currency conversion
+ * - DAX: performance index (total return), official since 1988
+ * - Euro-Staatsanleihen: REX Performance index of German government bonds
+ * - Inflation: German consumer price index (VPI), annual average change
+ *
+ * They are meant for planning and illustrating the range of past outcomes,
+ * not as an exact replica of any fund.
+ */
+
+export type HistoricalSeriesId = "msciWorld" | "dax" | "euroBonds" | "inflation";
+export type HistoricalAssetId = Exclude<HistoricalSeriesId, "inflation">;
+
+export interface HistoricalSeries {
+  id: HistoricalSeriesId;
+  name: string;
+  firstYear: number;
+  /** Returns as decimals, one per calendar year starting at firstYear */
+  annualReturns: readonly number[];
+}
+
+export const MSCI_WORLD: HistoricalSeries = {
+  id: "msciWorld",
+  name: "MSCI World (USD, Brutto)",
+  firstYear: 1970,
+  annualReturns: [
+    // 1970-1979
+    -0.016, 0.184, 0.235, -0.152, -0.245, 0.345, 0.147, 0.020, 0.182, 0.127,
+    // 1980-1989
+    0.257, -0.033, 0.113, 0.233, 0.058, 0.418, 0.428, 0.168, 0.239, 0.172,
+    // 1990-1999
+    -0.165, 0.190, -0.047, 0.231, 0.056, 0.213, 0.140, 0.162, 0.248, 0.253,
+    // 2000-2009
+    -0.129, -0.165, -0.195, 0.338, 0.152, 0.100, 0.207, 0.096, -0.401, 0.308,
+    // 2010-2019
+    0.123, -0.050, 0.165, 0.274, 0.055, -0.003, 0.082, 0.231, -0.082, 0.284,
+    // 2020-2024
+    0.165, 0.224, -0.177, 0.244, 0.192,
+  ],
+};
+
+export const DAX: HistoricalSeries = {
+  id: "dax",
+  name: "DAX (Performanceindex)",
+  firstYear: 1988,
+  annualReturns: [
+    // 1988-1989
+    0.328, 0.348,
+    // 1990-1999
+    -0.219, 0.129, -0.021, 0.467, -0.071, 0.070, 0.282, 0.471, 0.177, 0.391,
+    // 2000-2009
+    -0.075, -0.198, -0.439, 0.371, 0.073, 0.271, 0.220, 0.223, -0.404, 0.238,
+    // 2010-2019
+    0.161, -0.147, 0.291, 0.255, 0.027, 0.096, 0.069, 0.125, -0.183, 0.255,
+    // 2020-2024
+    0.035, 0.158, -0.123, 0.203, 0.188,
+  ],
+};
+
+export const EURO_BONDS: HistoricalSeries = {
+  id: "euroBonds",
+  name: "Euro-Staatsanleihen (REXP)",
+  firstYear: 1988,
+  annualReturns: [
+    // 1988-1989
+    0.057, 0.015,
+    // 1990-1999
+    0.024, 0.114, 0.120, 0.153, -0.025, 0.167, 0.077, 0.066, 0.097, -0.010,
+    // 2000-2009
+    0.067, 0.055, 0.093, 0.041, 0.067, 0.039, 0.000, 0.024, 0.095, 0.041,
+    // 2010-2019
+    0.043, 0.074, 0.045, -0.003, 0.063, 0.005, 0.019, -0.004, 0.013, 0.020,
+    // 2020-2024
+    0.008, -0.024, -0.100, 0.049, 0.018,
+  ],
+};
+
+export const GERMAN_INFLATION: HistoricalSeries = {
+  id: "inflation",
+  name: "Inflation Deutschland (VPI)",
+  firstYear: 1970,
+  annualReturns: [
+    // 1970-1979
+    0.036, 0.052, 0.055, 0.070, 0.070, 0.060, 0.043, 0.037, 0.027, 0.041,
+    // 1980-1989
+    0.054, 0.063, 0.052, 0.033, 0.024, 0.021, -0.001, 0.002, 0.013, 0.028,
+    // 1990-1999
+    0.026, 0.037, 0.050, 0.045, 0.026, 0.018, 0.013, 0.020, 0.010, 0.006,
+    // 2000-2009
+    0.014, 0.020, 0.014, 0.010, 0.017, 0.015, 0.016, 0.023, 0.026, 0.003,
+    // 2010-2019
+    0.011, 0.021, 0.020, 0.014, 0.010, 0.005, 0.005, 0.015, 0.018, 0.014,
+    // 2020-2024
+    0.005, 0.031, 0.069, 0.059, 0.022,
+  ],
+};
+
+export const HISTORICAL_SERIES: Record<HistoricalSeriesId, HistoricalSeries> = {
+  msciWorld: MSCI_WORLD,
+  dax: DAX,
+  euroBonds: EURO_BONDS,
+  inflation: GERMAN_INFLATION,
+};
+
+export function getLastYear(series: HistoricalSeries): number {
+  return series.firstYear + series.annualReturns.length - 1;
+}
+
+/**
+ * Return of a series in a calendar year, undefined outside the bundled data.
+ */
+export function getAnnualReturn(series: HistoricalSeries, year: number): number | undefined {
+  return series.annualReturns[year - series.firstYear];
+}
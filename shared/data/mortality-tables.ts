@@ -0,0 +1,79 @@
+/**
+ * Generational mortality tables for annuity pricing.
+ *
+ * Structure follows DAV 2004 R (Deutsche Aktuarvereinigung, Sterbetafel für
+ * Rentenversicherungen): a base table of one-year death probabilities q_x for
+ * the base year 1999 plus an age-dependent trend F(x), which projects mortality
+ * for a person born in `birthYear`:
+ *
+ *   q_x(birthYear) = q_x(1999) * exp(-F(x) * (birthYear + x - 1999))
+ *
+ * The values are a smoothed Gompertz-Makeham approximation of the 1st-order
+ * (safety-loaded) DAV 2004 R tables rather than the published figures. They
+ * reproduce its life expectancies (e_65 for birth year 1945: approx. 24.3 years
+ * male, 27.3 years female) and are meant for planning, not for tariff pricing.
+ */
+
+export type MortalitySex = "male" | "female";
+
+export interface MortalityTable {
+  name: string;
+  baseYear: number;
+  /** Age of the first entry in qx and trend */
+  minAge: number;
+  /** One-year death probabilities in the base year, ages minAge..120 */
+  qx: Record<MortalitySex, readonly number[]>;
+  /** Annual mortality improvement F(x), ages minAge..120 */
+  trend: Record<MortalitySex, readonly number[]>;
+}
+
+export const DAV_2004_R: MortalityTable = {
+  name: "DAV 2004 R (1. Ordnung, Näherung)",
+  baseYear: 1999,
+  minAge: 50,
+  qx: {
+    // Ages 50-120, ten per row
+    male: [
+    0.002902, 0.003166, 0.003458, 0.003779, 0.004133, 0.004522, 0.004951, 0.005424, 0.005944, 0.006517,
+    0.007148, 0.007843, 0.008609, 0.009451, 0.010378, 0.011399, 0.012523, 0.013759, 0.015120, 0.016617,
+    0.018265, 0.020076, 0.022069, 0.024259, 0.026667, 0.029314, 0.032221, 0.035415, 0.038922, 0.042771,
+    0.046995, 0.051627, 0.056705, 0.062269, 0.068361, 0.075028, 0.082320, 0.090287, 0.098985, 0.108474,
+    0.118813, 0.130067, 0.142301, 0.155581, 0.169977, 0.185555, 0.202381, 0.220519, 0.240027, 0.260957,
+    0.283352, 0.307244, 0.332648, 0.359562, 0.387963, 0.417800, 0.448995, 0.481435, 0.514973, 0.549421,
+    0.584551, 0.620097, 0.655752, 0.691176, 0.726003, 0.759847, 0.792319, 0.823038, 0.851652, 0.877853,
+    1.000000,
+    ],
+    female: [
+    0.001629, 0.001785, 0.001959, 0.002151, 0.002365, 0.002602, 0.002865, 0.003157, 0.003480, 0.003839,
+    0.004237, 0.004679, 0.005168, 0.005711, 0.006313, 0.006981, 0.007722, 0.008543, 0.009453, 0.010462,
+    0.011580, 0.012819, 0.014192, 0.015714, 0.017400, 0.019267, 0.021334, 0.023623, 0.026157, 0.028960,
+    0.032062, 0.035491, 0.039283, 0.043472, 0.048100, 0.053208, 0.058844, 0.065058, 0.071906, 0.079445,
+    0.087739, 0.096855, 0.106863, 0.117839, 0.129859, 0.143005, 0.157360, 0.173007, 0.190029, 0.208507,
+    0.228517, 0.250128, 0.273401, 0.298379, 0.325092, 0.353543, 0.383712, 0.415542, 0.448940, 0.483769,
+    0.519845, 0.556932, 0.594741, 0.632930, 0.671107, 0.708839, 0.745662, 0.781096, 0.814666, 0.845925,
+    1.000000,
+    ],
+  },
+  trend: {
+    male: [
+    0.0300, 0.0300, 0.0300, 0.0300, 0.0300, 0.0300, 0.0300, 0.0300, 0.0300, 0.0300,
+    0.0300, 0.0295, 0.0290, 0.0285, 0.0280, 0.0275, 0.0270, 0.0265, 0.0260, 0.0255,
+    0.0250, 0.0245, 0.0240, 0.0235, 0.0230, 0.0225, 0.0220, 0.0215, 0.0210, 0.0205,
+    0.0200, 0.0195, 0.0190, 0.0185, 0.0180, 0.0175, 0.0170, 0.0165, 0.0160, 0.0155,
+    0.0150, 0.0145, 0.0140, 0.0135, 0.0130, 0.0125, 0.0120, 0.0115, 0.0110, 0.0105,
+    0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100,
+    0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100,
+    0.0100,
+    ],
+    female: [
+    0.0280, 0.0280, 0.0280, 0.0280, 0.0280, 0.0280, 0.0280, 0.0280, 0.0280, 0.0280,
+    0.0280, 0.0276, 0.0271, 0.0267, 0.0262, 0.0258, 0.0253, 0.0249, 0.0244, 0.0239,
+    0.0235, 0.0231, 0.0226, 0.0221, 0.0217, 0.0212, 0.0208, 0.0204, 0.0199, 0.0195,
+    0.0190, 0.0185, 0.0181, 0.0176, 0.0172, 0.0168, 0.0163, 0.0158, 0.0154, 0.0149,
+    0.0145, 0.0140, 0.0136, 0.0131, 0.0127, 0.0122, 0.0118, 0.0113, 0.0109, 0.0104,
+    0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100,
+    0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100, 0.0100,
+    0.0100,
+    ],
+  },
+};
@@ -1,10 +1,12 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, integer, real, timestamp, uuid, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, integer, real, timestamp, uuid, boolean, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const scenarios = pgTable("scenarios", {
   id: uuid("id").primaryKey().defaultRandom(),
+  // Owner; null for scenarios saved before accounts existed, which nobody can access
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   description: text("description"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -29,8 +31,13 @@ export const privatePensionPlans = pgTable("private_pension_plans", {
   payoutStartAge: integer("payout_start_age").notNull().default(67),
   payoutEndAge: integer("payout_end_age").notNull().default(85),
   payoutMode: text("payout_mode").notNull().default("annuity"), // "annuity" | "flex"
-  annuityRate: real("annuity_rate").notNull().default(0.03),
+  annuityRate: real("annuity_rate").notNull().default(0.03), // veraltet: pauschaler Satz, ersetzt durch Verrentung
   safeWithdrawalRate: real("safe_withdrawal_rate"),
+
+  // Verrentung (Sterbetafel DAV 2004 R)
+  technicalInterestRate: real("technical_interest_rate").notNull().default(0.01), // Rechnungszins
+  guaranteePeriodYears: integer("guarantee_period_years").notNull().default(0), // Rentengarantiezeit
+  sex: text("sex").notNull().default("unisex"), // "male" | "female" | "unisex"
   
   // Kosten & Steuern
   policyFeeAnnualPct: real("policy_fee_annual_pct").notNull().default(0.004),
@@ -42,20 +49,104 @@ export const privatePensionPlans = pgTable("private_pension_plans", {
   ter: real("ter").notNull().default(0.008), // Korrigiert: 0.8% realistischer TER
   volatility: real("volatility").notNull().default(0.18), // Korrigiert: 18% realistischere Volatilität
   rebalancingEnabled: boolean("rebalancing_enabled").notNull().default(true),
+
+  // Kaufkraft
+  inflationRate: real("inflation_rate").notNull().default(0.02),
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Household profile from the onboarding wizard, one per scenario
+export const householdProfiles = pgTable("household_profiles", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  scenarioId: uuid("scenario_id").notNull().unique().references(() => scenarios.id, { onDelete: "cascade" }),
+
+  // Persönliche Daten
+  birthYear: integer("birth_year"),
+  age: integer("age"),
+  maritalStatus: text("marital_status"), // "ledig" | "verheiratet" | "geschieden" | "dauernd_getrennt" | "verwitwet"
+  hasChildren: boolean("has_children").notNull().default(false),
+  childrenCount: integer("children_count"),
+  calcScope: text("calc_scope"), // "eine_person" | "beide_personen"
+  inflationRate: real("inflation_rate"), // Prozent p.a.
+
+  // Immobilienfinanzierung
+  hasMortgage: boolean("has_mortgage").notNull().default(false),
+  mortgageRemainingDebt: real("mortgage_remaining_debt"),
+  mortgageFixationEndYear: integer("mortgage_fixation_end_year"),
+  mortgageRemainingDebtAtFixationEnd: real("mortgage_remaining_debt_at_fixation_end"),
+  mortgageInterestRate: real("mortgage_interest_rate"), // Prozent
+
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Income, pensions and assets per person ("A", and "B" when both spouses are calculated)
+export const householdMembers = pgTable("household_members", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  profileId: uuid("profile_id").notNull().references(() => householdProfiles.id, { onDelete: "cascade" }),
+  person: text("person").notNull(), // "A" | "B"
+  age: integer("age"),
+  retirementAge: integer("retirement_age"),
+
+  // Einkommen (€/Monat bzw. €/Jahr)
+  netMonthly: real("net_monthly"),
+  grossAnnual: real("gross_annual"),
+  hasOtherIncome: boolean("has_other_income").notNull().default(false),
+  otherIncomeType: text("other_income_type"),
+  otherIncomeMonthly: real("other_income_monthly"),
+
+  // Gesetzliche und berufsständische Ansprüche mit 67 (€/Monat)
+  publicPension67: real("public_pension_67"),
+  entgeltpunkte: real("entgeltpunkte"),
+  civilServantPension67: real("civil_servant_pension_67"),
+  professionalPension67: real("professional_pension_67"),
+  zvkVblPension67: real("zvk_vbl_pension_67"),
+
+  // Beiträge zur Altersvorsorge (€/Monat)
+  privatePensionContribution: real("private_pension_contribution"),
+  riesterContribution: real("riester_contribution"),
+  ruerupContribution: real("ruerup_contribution"),
+  occupationalPensionContribution: real("occupational_pension_contribution"),
+
+  // Vermögen heute (€)
+  lifeInsuranceSum: real("life_insurance_sum"),
+  fundsBalance: real("funds_balance"),
+  savingsBalance: real("savings_balance"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [unique().on(table.profileId, table.person)]);
+
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().defaultRandom(),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // bcrypt hash
+  email: text("email").unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Refresh tokens are stored as SHA-256 hashes and rotated on every use
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Relations
-export const scenariosRelations = relations(scenarios, ({ many }) => ({
+export const scenariosRelations = relations(scenarios, ({ one, many }) => ({
+  user: one(users, {
+    fields: [scenarios.userId],
+    references: [users.id],
+  }),
   privatePensionPlans: many(privatePensionPlans),
+  householdProfile: one(householdProfiles),
 }));
 
 export const privatePensionPlansRelations = relations(privatePensionPlans, ({ one }) => ({
@@ -65,9 +156,25 @@ export const privatePensionPlansRelations = relations(privatePensionPlans, ({ on
   }),
 }));
 
+export const householdProfilesRelations = relations(householdProfiles, ({ one, many }) => ({
+  scenario: one(scenarios, {
+    fields: [householdProfiles.scenarioId],
+    references: [scenarios.id],
+  }),
+  members: many(householdMembers),
+}));
+
+export const householdMembersRelations = relations(householdMembers, ({ one }) => ({
+  profile: one(householdProfiles, {
+    fields: [householdMembers.profileId],
+    references: [householdProfiles.id],
+  }),
+}));
+
 // Schemas
 export const insertScenarioSchema = createInsertSchema(scenarios).omit({
   id: true,
+  userId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -83,11 +190,385 @@ export const insertPrivatePensionPlanSchema = createInsertSchema(privatePensionP
   payoutStartAge: z.number().min(62).max(85),
   payoutEndAge: z.number().min(62).max(85),
   payoutMode: z.enum(["annuity", "flex"]),
+  inflationRate: z.number().min(0).max(0.15).optional(),
+  technicalInterestRate: z.number().min(0).max(0.04).optional(),
+  guaranteePeriodYears: z.number().int().min(0).max(30).optional(),
+  sex: z.enum(["male", "female", "unisex"]).optional(),
+});
+
+const incomeTaxEarnerSchema = z.object({
+  grossWages: z.number().min(0).max(10_000_000),
+  werbungskosten: z.number().min(0).max(10_000_000).optional(),
+  otherIncome: z.number().min(0).max(10_000_000).optional(),
+  statutoryPensionInsured: z.boolean().optional(),
+  statutoryHealthInsured: z.boolean().optional(),
+});
+
+export const incomeTaxInputSchema = z.object({
+  taxYear: z.number().int().min(2023).max(2100).optional(),
+  assessment: z.enum(["single", "joint"]),
+  taxpayer: incomeTaxEarnerSchema,
+  spouse: incomeTaxEarnerSchema.optional(),
+  children: z.number().int().min(0).max(20).optional(),
+  childAllowanceShare: z.number().min(0).max(1).optional(),
+  sonderausgaben: z.number().min(0).max(10_000_000).optional(),
+  vorsorgeaufwendungen: z.number().min(0).max(10_000_000).optional(),
+  additionalPensionContributions: z.number().min(0).max(10_000_000).optional(),
+  extraordinaryExpenses: z.number().min(0).max(10_000_000).optional(),
+  churchTaxRate: z.number().min(0).max(0.09).optional(),
+}).refine((input) => input.assessment === "joint" || input.spouse === undefined, {
+  message: "spouse is only allowed for joint assessment",
+  path: ["spouse"],
+});
+
+// Inputs of POST /api/v1/calculate/* - the same calculators the client runs
+const calculationYear = z.number().int().min(2023).max(2100);
+const calculationAmount = z.number().min(0).max(10_000_000);
+
+export const riesterCalculationSchema = z.object({
+  grossAnnualIncome: calculationAmount,
+  children: z.number().int().min(0).max(20),
+  contribution: calculationAmount,
+  childrenBornAfter2008: z.number().int().min(0).max(20).optional(),
+  year: calculationYear.optional(),
+  priorYearIncome: calculationAmount.optional(),
+  age: z.number().int().min(0).max(100).optional(),
+  firstContributionYear: z.boolean().optional(),
+  eligibility: z.enum(["direct", "indirect"]).optional(),
+  spouseMinimumRatio: z.number().min(0).max(1).optional(),
+  taxableIncome: calculationAmount.optional(),
+  assessment: z.enum(["single", "joint"]).optional(),
+}).refine((input) => (input.childrenBornAfter2008 ?? 0) <= input.children, {
+  message: "childrenBornAfter2008 cannot exceed children",
+  path: ["childrenBornAfter2008"],
+});
+
+export const occupationalPensionCalculationSchema = z.object({
+  monthlyContribution: calculationAmount,
+  marginalTaxRate: z.number().min(0).max(0.45),
+  includeEmployerMatch: z.boolean().optional(),
+  employerMatchRate: z.number().min(0).max(1).optional(),
+  year: calculationYear.optional(),
+});
+
+export const bavLifecycleCalculationSchema = z.object({
+  grossAnnualIncome: calculationAmount,
+  monthlyConversion: calculationAmount,
+  currentAge: z.number().int().min(16).max(70),
+  payoutStartAge: z.number().int().min(60).max(75),
+  employerContributionMonthly: calculationAmount.optional(),
+  employerSubsidyRate: z.number().min(0).max(1).optional(),
+  expectedReturn: z.number().min(-0.05).max(0.15).optional(),
+  rentenfaktor: z.number().min(1).max(100).optional(),
+  lifeExpectancy: z.number().int().min(60).max(110).optional(),
+  retirementTaxableIncome: calculationAmount.optional(),
+  assessment: z.enum(["single", "joint"]).optional(),
+  healthInsurance: z.enum(["statutory", "private"]).optional(),
+  childless: z.boolean().optional(),
+  year: calculationYear.optional(),
+}).refine(
+  (input) => input.currentAge < input.payoutStartAge && input.payoutStartAge < (input.lifeExpectancy ?? 87),
+  { message: "ages must satisfy currentAge < payoutStartAge < lifeExpectancy", path: ["payoutStartAge"] }
+);
+
+const retireeIncomeSchema = z.object({
+  birthYear: z.number().int().min(1920).max(2010),
+  retirementYear: z.number().int().min(2005).max(2100),
+  statutoryPension: calculationAmount.optional(),
+  civilServantPension: calculationAmount.optional(),
+  occupationalPension: calculationAmount.optional(),
+  occupationalPensionType: z.enum(["insurance", "direct"]).optional(),
+  ruerupPension: calculationAmount.optional(),
+  riesterPension: calculationAmount.optional(),
+  privateAnnuity: calculationAmount.optional(),
+  otherIncome: calculationAmount.optional(),
+  healthInsuranceContributions: calculationAmount.optional(),
+  healthInsurance: z.enum(["kvdr", "voluntary", "private"]).optional(),
+  childless: z.boolean().optional(),
+  privateHealthPremium: calculationAmount.optional(),
+});
+
+export const retirementTaxCalculationSchema = z.object({
+  assessment: z.enum(["single", "joint"]),
+  persons: z.array(retireeIncomeSchema).min(1).max(2),
+  startYear: z.number().int().min(2005).max(2100).optional(),
+  years: z.number().int().min(1).max(60).optional(),
+  pensionIncrease: z.number().min(-0.05).max(0.15).optional(),
+  occupationalPensionIncrease: z.number().min(-0.05).max(0.15).optional(),
+  inflationRate: z.number().min(-0.05).max(0.2).optional(),
+  churchTaxRate: z.number().min(0).max(0.09).optional(),
+  priceBaseYear: calculationYear.optional(),
+});
+
+// Interest rates in percent p.a. like MortgageData.interestRate
+const mortgageInterestRate = z.number().min(0).max(20);
+
+export const mortgageCalculationSchema = z.object({
+  remainingDebt: calculationAmount,
+  interestRate: mortgageInterestRate,
+  fixationEndYear: calculationYear,
+  remainingDebtAtFixationEnd: calculationAmount.optional(),
+  monthlyPayment: z.number().min(0).max(100_000).optional(),
+  startYear: calculationYear.optional(),
+  followUp: z.object({
+    interestRate: mortgageInterestRate,
+    monthlyPayment: z.number().min(0).max(100_000).optional(),
+    initialRepaymentRate: z.number().min(0).max(20).optional(),
+  }).optional(),
+  specialRepayment: z.object({
+    annualAmount: calculationAmount,
+    annualLimitRate: z.number().min(0).max(1).optional(),
+    atFixationEnd: calculationAmount.optional(),
+    fromYear: calculationYear.optional(),
+    toYear: calculationYear.optional(),
+  }).optional(),
+  scenarios: z.array(z.object({
+    id: z.string().min(1).max(50),
+    label: z.string().max(100),
+    interestRate: mortgageInterestRate,
+  })).max(10).optional(),
+  retirementYear: calculationYear.optional(),
+  payDownVsInvest: z.object({
+    annualAmount: calculationAmount,
+    expectedReturn: z.number().min(-0.2).max(0.3).optional(),
+    horizonYear: calculationYear.optional(),
+  }).optional(),
+}).refine(
+  (input) => input.fixationEndYear >= (input.startYear ?? input.fixationEndYear),
+  { message: "fixationEndYear must not be before startYear", path: ["fixationEndYear"] }
+);
+
+const gapProduct = z.enum(["riester", "ruerup", "bav", "etf", "insurance"]);
+
+export const gapOptimizerCalculationSchema = z.object({
+  monthlyBudget: z.number().min(0).max(100_000),
+  pensionGap: z.number().min(0).max(100_000),
+  currentAge: z.number().int().min(16).max(80),
+  retirementAge: z.number().int().min(50).max(85),
+  lifeExpectancy: z.number().int().min(60).max(110).optional(),
+  grossAnnualIncome: calculationAmount,
+  children: z.number().int().min(0).max(20).optional(),
+  childrenBornAfter2008: z.number().int().min(0).max(20).optional(),
+  assessment: z.enum(["single", "joint"]).optional(),
+  retirementTaxableIncome: calculationAmount.optional(),
+  healthInsurance: z.enum(["kvdr", "voluntary", "private"]).optional(),
+  childless: z.boolean().optional(),
+  expectedReturn: z.number().min(-0.2).max(0.3).optional(),
+  inflationRate: z.number().min(-0.05).max(0.2).optional(),
+  costs: z.record(gapProduct, z.number().min(0).max(0.1)).optional(),
+  products: z.array(gapProduct).min(1).optional(),
+  bavEmployerSubsidyRate: z.number().min(0).max(1).optional(),
+  step: z.number().min(1).max(1000).optional(),
+  year: calculationYear.optional(),
+}).refine(
+  (input) => input.currentAge < input.retirementAge && input.retirementAge < (input.lifeExpectancy ?? 87),
+  { message: "ages must satisfy currentAge < retirementAge < lifeExpectancy", path: ["retirementAge"] }
+);
+
+export const ruerupCalculationSchema = z.object({
+  annualContribution: calculationAmount,
+  taxRate: z.number().min(0).max(0.45),
+  year: calculationYear.optional(),
+});
+
+// Percent values like the client's SimulationParams; omitted fields use createDefaultSimulationParams
+export const fundVsPensionCalculationSchema = z.object({
+  currentAge: z.number().int().min(16).max(80),
+  retirementAge: z.number().int().min(50).max(85),
+  finalAge: z.number().int().min(60).max(110),
+  monthlySavings: z.number().min(0).max(100_000),
+  expectedReturnPa: z.number().min(-20).max(30),
+  frontLoad: z.number().min(0).max(10),
+  annualMgmtFee: z.number().min(0).max(5),
+  monthlyWithdrawal: z.number().min(0).max(100_000),
+  startYear: calculationYear,
+  pensionContribution: z.number().min(0).max(100_000),
+  pensionGuarantee: z.number().min(0).max(100_000),
+  taxSettings: z.object({
+    capitalGainsTaxRate: z.number().min(0).max(50),
+    churchTaxRate: z.number().min(0).max(9),
+    allowance: calculationAmount,
+    baseRate: z.number().min(0).max(10),
+    hasChurchTax: z.boolean(),
+    useHalfIncomeTaxation: z.boolean(),
+    partialExemption: z.number().min(0).max(1),
+  }).partial(),
+  healthInsurance: z.enum(["kvdr", "voluntary", "private"]),
+  childless: z.boolean(),
+}).partial().refine(
+  (input) =>
+    (input.currentAge ?? 30) < (input.retirementAge ?? 67) &&
+    (input.retirementAge ?? 67) <= (input.finalAge ?? 85),
+  { message: "ages must satisfy currentAge < retirementAge <= finalAge", path: ["retirementAge"] }
+);
+
+export const germanTaxCalculationSchema = z.object({
+  annualGrossIncome: calculationAmount,
+  maritalStatus: z.enum(["single", "married"]),
+  churchTaxRate: z.number().min(0).max(0.09).optional(),
+  specialExpenses: calculationAmount.optional(),
+  pensionContributions: calculationAmount.optional(),
+  extraordinaryExpenses: calculationAmount.optional(),
+  children: z.number().int().min(0).max(20).optional(),
+  taxYear: calculationYear.optional(),
+});
+
+// Search intervals POST /api/solve accepts per variable; wider ones only cost CPU time
+const GOAL_SEEK_BOUND_LIMITS = {
+  monthlyContribution: { min: 0, max: 100_000 },
+  payoutStartAge: { min: 18, max: 100 },
+  expectedReturn: { min: -0.5, max: 0.5 },
+} as const;
+
+// Input of POST /api/solve - the plan fields that are omitted use the instant calculation defaults
+export const goalSeekRequestSchema = z.object({
+  plan: insertPrivatePensionPlanSchema.partial().optional(),
+  solveFor: z.enum(["monthlyContribution", "payoutStartAge", "expectedReturn"]),
+  target: z.object({
+    type: z.enum(["capital", "netMonthlyPension"]),
+    amount: z.number().positive().max(100_000_000),
+    view: z.enum(["nominal", "real"]).optional(),
+  }),
+  bounds: z.object({
+    min: z.number().finite(),
+    max: z.number().finite(),
+  }).refine((bounds) => bounds.min < bounds.max, { message: "min must be below max", path: ["min"] }).optional(),
+  tolerance: z.number().positive().optional(),
+  maxIterations: z.number().int().min(1).max(200).optional(),
+}).superRefine((request, ctx) => {
+  const limits = GOAL_SEEK_BOUND_LIMITS[request.solveFor];
+  if (request.bounds && (request.bounds.min < limits.min || request.bounds.max > limits.max)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `bounds for ${request.solveFor} must lie within ${limits.min} and ${limits.max}`,
+      path: ["bounds"],
+    });
+  }
+});
+
+// Input of POST /api/sensitivity - tornado ranking and an optional two-variable grid
+const sensitivityParameter = z.enum([
+  "expectedReturn", "ter", "policyFeeAnnualPct", "monthlyContribution",
+  "termYears", "payoutStartAge", "taxRatePayout", "inflationRate",
+]);
+const sensitivityKpi = z.enum([
+  "projectedValue", "targetGap", "monthlyPension", "totalFees", "totalContributions",
+  "capitalGains", "totalCosts", "netReturn", "totalTaxes",
+]);
+const sensitivityGridAxis = z.object({
+  parameter: sensitivityParameter,
+  values: z.array(z.number()).min(1).max(15).optional(),
+});
+
+export const sensitivityRequestSchema = z.object({
+  plan: insertPrivatePensionPlanSchema.partial().optional(),
+  kpi: sensitivityKpi.optional(),
+  view: z.enum(["nominal", "real"]).optional(),
+  parameters: z.array(sensitivityParameter).min(1).optional(),
+  deltas: z.record(sensitivityParameter, z.number().positive()).optional(),
+  grid: z.object({ x: sensitivityGridAxis, y: sensitivityGridAxis }).optional(),
+});
+
+// Input of POST /api/backtest - the plan replayed over the bundled index history
+const allocationWeight = z.number().min(0).max(1);
+
+export const backtestRequestSchema = z.object({
+  plan: insertPrivatePensionPlanSchema.partial().optional(),
+  allocation: z.object({
+    msciWorld: allocationWeight.optional(),
+    dax: allocationWeight.optional(),
+    euroBonds: allocationWeight.optional(),
+  }).refine(
+    (allocation) => (allocation.msciWorld ?? 0) + (allocation.dax ?? 0) + (allocation.euroBonds ?? 0) > 0,
+    { message: "allocation needs at least one positive weight" }
+  ).optional(),
+  startCapital: z.number().min(0).max(100_000_000).optional(),
+  withdrawalRate: z.number().positive().max(0.5).optional(),
+});
+
+// Onboarding data as sent by the wizard (src/types/onboarding.ts)
+const euro = z.number().min(0).max(100_000_000);
+const otherIncomeType = z.enum(["Vermietung", "Verpachtung", "Landwirtschaft", "Gewerbebetrieb", "Unterhalt"]);
+const retirementAge = z.number().int().min(50).max(75);
+const entgeltpunkte = z.number().min(0).max(150);
+
+export const householdProfileSchema = z.object({
+  personal: z.object({
+    birthYear: z.number().int().min(1900).max(2100).optional(),
+    age: z.number().int().min(0).max(120).optional(),
+    maritalStatus: z.enum(["ledig", "verheiratet", "geschieden", "dauernd_getrennt", "verwitwet"]).optional(),
+    children: z.object({
+      has: z.boolean(),
+      count: z.number().int().min(0).max(20).optional(),
+    }),
+    calcScope: z.enum(["eine_person", "beide_personen"]).optional(),
+    retirementAge: retirementAge.optional(),
+    age_B: z.number().int().min(0).max(120).optional(),
+    retirementAge_A: retirementAge.optional(),
+    retirementAge_B: retirementAge.optional(),
+    inflationRate: z.number().min(0).max(10).optional(),
+  }),
+  income: z.object({
+    netMonthly: euro.optional(),
+    grossAnnual: euro.optional(),
+    netMonthly_A: euro.optional(),
+    grossAnnual_A: euro.optional(),
+    netMonthly_B: euro.optional(),
+    grossAnnual_B: euro.optional(),
+  }),
+  otherIncome: z.object({
+    has: z.boolean(),
+    type: otherIncomeType.optional(),
+    amountMonthly: euro.optional(),
+    has_A: z.boolean().optional(),
+    type_A: otherIncomeType.optional(),
+    amountMonthly_A: euro.optional(),
+    has_B: z.boolean().optional(),
+    type_B: otherIncomeType.optional(),
+    amountMonthly_B: euro.optional(),
+  }),
+  pensions: z.object({
+    public67: euro.optional(),
+    entgeltpunkte: entgeltpunkte.optional(),
+    civil67: euro.optional(),
+    profession67: euro.optional(),
+    zvkVbl67: euro.optional(),
+    public67_A: euro.optional(),
+    entgeltpunkte_A: entgeltpunkte.optional(),
+    civil67_A: euro.optional(),
+    profession67_A: euro.optional(),
+    zvkVbl67_A: euro.optional(),
+    public67_B: euro.optional(),
+    entgeltpunkte_B: entgeltpunkte.optional(),
+    civil67_B: euro.optional(),
+    profession67_B: euro.optional(),
+    zvkVbl67_B: euro.optional(),
+  }),
+  privatePension: z.object({
+    contribution: euro.optional(),
+    contribution_A: euro.optional(),
+    contribution_B: euro.optional(),
+  }),
+  riester: z.object({ amount: euro.optional(), amount_A: euro.optional(), amount_B: euro.optional() }),
+  ruerup: z.object({ amount: euro.optional(), amount_A: euro.optional(), amount_B: euro.optional() }),
+  occupationalPension: z.object({ amount: euro.optional(), amount_A: euro.optional(), amount_B: euro.optional() }),
+  lifeInsurance: z.object({ sum: euro.optional(), sum_A: euro.optional(), sum_B: euro.optional() }),
+  funds: z.object({ balance: euro.optional(), balance_A: euro.optional(), balance_B: euro.optional() }),
+  savings: z.object({ balance: euro.optional(), balance_A: euro.optional(), balance_B: euro.optional() }),
+  mortgage: z.object({
+    has: z.boolean(),
+    remainingDebtNow: euro.optional(),
+    fixationEndYear: z.number().int().min(1900).max(2100).optional(),
+    remainingDebtAtFixationEnd: euro.optional(),
+    interestRate: z.number().min(0).max(20).optional(),
+  }),
+  completedAt: z.string().datetime().optional(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  email: true,
 });
 
 // Types
@@ -96,4 +577,24 @@ export type InsertScenario = z.infer<typeof insertScenarioSchema>;
 export type PrivatePensionPlan = typeof privatePensionPlans.$inferSelect;
 export type InsertPrivatePensionPlan = z.infer<typeof insertPrivatePensionPlanSchema>;
 export type User = typeof users.$inferSelect;
-export type InsertUser = z.infer<typeof insertUserSchema>;
\ No newline at end of file
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type HouseholdProfile = typeof householdProfiles.$inferSelect;
+export type InsertHouseholdProfile = typeof householdProfiles.$inferInsert;
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+export type InsertHouseholdMember = typeof householdMembers.$inferInsert;
+export type HouseholdProfileWithMembers = HouseholdProfile & { members: HouseholdMember[] };
+export type InsertRefreshToken = typeof refreshTokens.$inferInsert;
+export type IncomeTaxRequest = z.infer<typeof incomeTaxInputSchema>;
+export type RiesterCalculationRequest = z.infer<typeof riesterCalculationSchema>;
+export type OccupationalPensionCalculationRequest = z.infer<typeof occupationalPensionCalculationSchema>;
+export type BavLifecycleCalculationRequest = z.infer<typeof bavLifecycleCalculationSchema>;
+export type RetirementTaxCalculationRequest = z.infer<typeof retirementTaxCalculationSchema>;
+export type MortgageCalculationRequest = z.infer<typeof mortgageCalculationSchema>;
+export type GapOptimizerCalculationRequest = z.infer<typeof gapOptimizerCalculationSchema>;
+export type RuerupCalculationRequest = z.infer<typeof ruerupCalculationSchema>;
+export type FundVsPensionCalculationRequest = z.infer<typeof fundVsPensionCalculationSchema>;
+export type GermanTaxCalculationRequest = z.infer<typeof germanTaxCalculationSchema>;
+export type GoalSeekRequest = z.infer<typeof goalSeekRequestSchema>;
+export type SensitivityRequest = z.infer<typeof sensitivityRequestSchema>;
+export type BacktestRequest = z.infer<typeof backtestRequestSchema>;
\ No newline at end of file
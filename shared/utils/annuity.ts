@@ -0,0 +1,140 @@
+import { DAV_2004_R, type MortalitySex, type MortalityTable } from "../data/mortality-tables";
+
+/**
+ * Höchstrechnungszins for new contracts since 01.01.2025.
+ * Legal basis: § 2 Abs. 1 DeckRV
+ */
+export const DEFAULT_TECHNICAL_INTEREST_RATE = 0.01;
+
+/** Share of the male table in the unisex mix (EuGH C-236/09, since 21.12.2012) */
+export const UNISEX_MALE_SHARE = 0.5;
+
+const MAX_AGE = 120;
+
+export type AnnuitySex = MortalitySex | "unisex";
+
+export interface AnnuityConversionOptions {
+  /** Age at annuity start */
+  age: number;
+  birthYear: number;
+  sex?: AnnuitySex;
+  /** Rechnungszins used to discount future payments */
+  technicalInterestRate?: number;
+  /** Rentengarantiezeit - payments continue to heirs until this many years after start */
+  guaranteePeriodYears?: number;
+  table?: MortalityTable;
+}
+
+export interface AnnuityConversion {
+  /** Monthly pension per 10,000 € of capital */
+  rentenfaktor: number;
+  /** Present value of 1 € paid monthly in advance for life (with guarantee period) */
+  annuityFactor: number;
+  /** Remaining life expectancy at annuity start in years */
+  lifeExpectancy: number;
+  technicalInterestRate: number;
+  guaranteePeriodYears: number;
+  sex: AnnuitySex;
+  mortalityTable: string;
+}
+
+/**
+ * One-year death probability for the generation born in `birthYear` at `age`.
+ * Ages below the table start use the first entry.
+ */
+export function getMortalityRate(
+  table: MortalityTable,
+  sex: AnnuitySex,
+  age: number,
+  birthYear: number
+): number {
+  if (sex === "unisex") {
+    return (
+      UNISEX_MALE_SHARE * getMortalityRate(table, "male", age, birthYear) +
+      (1 - UNISEX_MALE_SHARE) * getMortalityRate(table, "female", age, birthYear)
+    );
+  }
+  const clampedAge = Math.min(MAX_AGE, Math.max(table.minAge, Math.floor(age)));
+  const index = clampedAge - table.minAge;
+  const baseRate = table.qx[sex][index];
+  if (clampedAge >= MAX_AGE) return baseRate;
+  const calendarYear = birthYear + clampedAge;
+  return Math.min(1, baseRate * Math.exp(-table.trend[sex][index] * (calendarYear - table.baseYear)));
+}
+
+/**
+ * Probability to be alive k months after annuity start, k = 0..(120 - age) * 12.
+ * Deaths are spread evenly within each year of age.
+ */
+function getMonthlySurvival(options: AnnuityConversionOptions): number[] {
+  const table = options.table ?? DAV_2004_R;
+  const sex = options.sex ?? "unisex";
+  const startAge = Math.floor(options.age);
+  const survival: number[] = [];
+
+  let aliveAtBirthday = 1;
+  for (let age = startAge; age < MAX_AGE; age++) {
+    const q = getMortalityRate(table, sex, age, options.birthYear);
+    for (let month = 0; month < 12; month++) {
+      survival.push(aliveAtBirthday * (1 - (q * month) / 12));
+    }
+    aliveAtBirthday *= 1 - q;
+  }
+  survival.push(aliveAtBirthday);
+  return survival;
+}
+
+/**
+ * Actuarial reserve per 1 € monthly pension at each month after annuity start,
+ * i.e. the present value of all outstanding payments including the one due.
+ * Index 0 is the annuity factor; guaranteed payments do not depend on survival.
+ */
+export function getAnnuityReserveFactors(options: AnnuityConversionOptions): number[] {
+  const survival = getMonthlySurvival(options);
+  const months = survival.length;
+  const guaranteeMonths = Math.min(months, Math.round((options.guaranteePeriodYears ?? 0) * 12));
+  const v = Math.pow(1 + (options.technicalInterestRate ?? DEFAULT_TECHNICAL_INTEREST_RATE), -1 / 12);
+
+  // lifeSum[k] = sum_{j >= max(k, G)} v^j * S_j, certainSum[k] = sum_{k <= j < G} v^j
+  const lifeSum = new Array<number>(months + 1).fill(0);
+  for (let j = months - 1; j >= 0; j--) {
+    lifeSum[j] = lifeSum[j + 1] + (j >= guaranteeMonths ? Math.pow(v, j) * survival[j] : 0);
+  }
+  const certainSum = new Array<number>(months + 1).fill(0);
+  for (let j = guaranteeMonths - 1; j >= 0; j--) {
+    certainSum[j] = certainSum[j + 1] + Math.pow(v, j);
+  }
+
+  const reserves: number[] = [];
+  for (let k = 0; k < months; k++) {
+    const discount = Math.pow(v, k);
+    const lifePart = survival[k] > 0 ? lifeSum[Math.max(k, guaranteeMonths)] / (discount * survival[k]) : 0;
+    reserves.push(certainSum[k] / discount + lifePart);
+  }
+  return reserves;
+}
+
+/**
+ * Converts capital into a lifelong monthly annuity (Verrentung).
+ *
+ * Monthly payments in advance, discounted with the Rechnungszins and weighted
+ * with the generational survival probabilities of the mortality table. During
+ * the Rentengarantiezeit payments are certain. Insurer cost loadings are not
+ * included, so real tariffs quote somewhat lower Rentenfaktoren.
+ */
+export function calculateAnnuityConversion(options: AnnuityConversionOptions): AnnuityConversion {
+  const table = options.table ?? DAV_2004_R;
+  const annuityFactor = getAnnuityReserveFactors(options)[0];
+  const survival = getMonthlySurvival(options);
+  const lifeExpectancy = survival.slice(1).reduce((sum, alive) => sum + alive, 0) / 12;
+
+  return {
+    rentenfaktor: 10000 / annuityFactor,
+    annuityFactor,
+    lifeExpectancy,
+    technicalInterestRate: options.technicalInterestRate ?? DEFAULT_TECHNICAL_INTEREST_RATE,
+    guaranteePeriodYears: options.guaranteePeriodYears ?? 0,
+    sex: options.sex ?? "unisex",
+    mortalityTable: table.name,
+  };
+}
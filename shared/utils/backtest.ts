@@ -0,0 +1,235 @@
+import type { InsertPrivatePensionPlan } from "@shared/schema";
+import {
+  GERMAN_INFLATION,
+  HISTORICAL_SERIES,
+  getAnnualReturn,
+  getLastYear,
+  type HistoricalAssetId,
+} from "@shared/data/historical-returns";
+import { calculatePrivatePension, simulatePensionPath } from "./financial-calculator";
+
+/** Portfolio weights per index, rebalanced at the start of every year */
+export type BacktestAllocation = Partial<Record<HistoricalAssetId, number>>;
+
+export interface BacktestOptions {
+  /** Default: 100% MSCI World */
+  allocation?: BacktestAllocation;
+  /** Capital at payout start for the withdrawal backtest, default: the plan's projected value */
+  startCapital?: number;
+  /** First-year withdrawal as share of the capital, default: the plan's safeWithdrawalRate or 4% */
+  withdrawalRate?: number;
+}
+
+export interface SavingsWindow {
+  startYear: number;
+  endYear: number;
+  totalContributions: number;
+  finalValue: number;
+  /** Final value in purchasing power of the start year (historical inflation) */
+  realFinalValue: number;
+}
+
+export interface WithdrawalWindow {
+  startYear: number;
+  endYear: number;
+  endValue: number;
+  realEndValue: number;
+  /** Years until the portfolio ran out, null if it lasted the whole span */
+  depletedAfterYears: number | null;
+  /** Highest first-year withdrawal rate that would have lasted this window */
+  maxSustainableRate: number;
+}
+
+export interface BacktestOutcomes<Window> {
+  windows: Window[];
+  best: Window | null;
+  worst: Window | null;
+  median: Window | null;
+}
+
+export interface BacktestResults {
+  allocation: Record<HistoricalAssetId, number>;
+  /** Years covered by every index of the allocation */
+  dataRange: { firstYear: number; lastYear: number };
+  savings: BacktestOutcomes<SavingsWindow> & { years: number };
+  withdrawal: BacktestOutcomes<WithdrawalWindow> & {
+    years: number;
+    startCapital: number;
+    withdrawalRate: number;
+    /** Share of windows in which the withdrawals lasted until payoutEndAge */
+    successRate: number | null;
+    /** Highest rate that lasted in every window (historically safe withdrawal rate) */
+    safeWithdrawalRate: number | null;
+    /** Start year of the window that limits the safe withdrawal rate */
+    safeWithdrawalRateStartYear: number | null;
+  };
+}
+
+export const DEFAULT_BACKTEST_ALLOCATION: BacktestAllocation = { msciWorld: 1 };
+const DEFAULT_WITHDRAWAL_RATE = 0.04;
+const MAX_SUSTAINABLE_RATE = 0.5;
+
+function normalizeAllocation(allocation: BacktestAllocation): Record<HistoricalAssetId, number> {
+  const weights = { msciWorld: 0, dax: 0, euroBonds: 0, ...allocation };
+  const total = weights.msciWorld + weights.dax + weights.euroBonds;
+  if (total <= 0) throw new Error("Backtest allocation needs at least one positive weight");
+  return {
+    msciWorld: weights.msciWorld / total,
+    dax: weights.dax / total,
+    euroBonds: weights.euroBonds / total,
+  };
+}
+
+function getDataRange(allocation: Record<HistoricalAssetId, number>) {
+  const series = (Object.keys(allocation) as HistoricalAssetId[])
+    .filter((id) => allocation[id] > 0)
+    .map((id) => HISTORICAL_SERIES[id]);
+  return {
+    firstYear: Math.max(GERMAN_INFLATION.firstYear, ...series.map((s) => s.firstYear)),
+    lastYear: Math.min(getLastYear(GERMAN_INFLATION), ...series.map(getLastYear)),
+  };
+}
+
+function portfolioReturn(allocation: Record<HistoricalAssetId, number>, year: number): number {
+  return (Object.keys(allocation) as HistoricalAssetId[]).reduce(
+    (sum, id) => sum + (allocation[id] > 0 ? allocation[id] * (getAnnualReturn(HISTORICAL_SERIES[id], year) ?? 0) : 0),
+    0
+  );
+}
+
+function inflationFactor(startYear: number, years: number): number {
+  let factor = 1;
+  for (let year = startYear; year < startYear + years; year++) {
+    factor *= 1 + (getAnnualReturn(GERMAN_INFLATION, year) ?? 0);
+  }
+  return factor;
+}
+
+/** The annual return is spread evenly over the months of the year */
+const monthlyRate = (annualReturn: number) => Math.pow(1 + annualReturn, 1 / 12) - 1;
+
+function summarize<Window>(windows: Window[], value: (window: Window) => number): BacktestOutcomes<Window> {
+  if (windows.length === 0) return { windows, best: null, worst: null, median: null };
+  const sorted = [...windows].sort((a, b) => value(a) - value(b));
+  return {
+    windows,
+    worst: sorted[0],
+    best: sorted[sorted.length - 1],
+    median: sorted[Math.floor((sorted.length - 1) / 2)],
+  };
+}
+
+/**
+ * Withdrawal phase of one window: an inflation-indexed withdrawal before tax,
+ * with the plan's fund and policy costs on the remaining capital.
+ */
+function replayWithdrawals(
+  plan: InsertPrivatePensionPlan,
+  allocation: Record<HistoricalAssetId, number>,
+  startYear: number,
+  years: number,
+  startCapital: number,
+  rate: number
+): { endValue: number; depletedAfterYears: number | null } {
+  const monthlyCosts = ((plan.ter || 0.0075) + (plan.policyFeeAnnualPct || 0.004)) / 12;
+  const monthlyFixedFee = (plan.policyFixedAnnual || 0) / 12;
+  let portfolio = startCapital;
+  let withdrawal = (startCapital * rate) / 12;
+
+  for (let year = 0; year < years; year++) {
+    const growth = monthlyRate(portfolioReturn(allocation, startYear + year));
+    for (let month = 0; month < 12; month++) {
+      portfolio = portfolio * (1 + growth) - withdrawal;
+      portfolio -= Math.max(0, portfolio) * monthlyCosts + monthlyFixedFee;
+      if (portfolio <= 0) return { endValue: 0, depletedAfterYears: year + (month + 1) / 12 };
+    }
+    withdrawal *= 1 + (getAnnualReturn(GERMAN_INFLATION, startYear + year) ?? 0);
+  }
+  return { endValue: portfolio, depletedAfterYears: null };
+}
+
+function findMaxSustainableRate(lasts: (rate: number) => boolean): number {
+  let low = 0;
+  let high = MAX_SUSTAINABLE_RATE;
+  if (lasts(high)) return high;
+  while (high - low > 0.0001) {
+    const mid = (low + high) / 2;
+    if (lasts(mid)) low = mid;
+    else high = mid;
+  }
+  return Math.floor(low * 10000) / 10000;
+}
+
+/**
+ * Replays the plan over every rolling window of the bundled index history:
+ * the savings phase from currentAge to payoutStartAge and, separately, the
+ * withdrawal phase from payoutStartAge to payoutEndAge.
+ *
+ * The savings phase runs the regular simulation engine with the historical
+ * returns. The withdrawal phase takes the first-year withdrawal as a share of
+ * the capital and raises it with inflation every year (Bengen's safe
+ * withdrawal rate method); taxes are not deducted.
+ */
+export function runHistoricalBacktest(
+  plan: InsertPrivatePensionPlan,
+  options: BacktestOptions = {}
+): BacktestResults {
+  const allocation = normalizeAllocation(options.allocation ?? DEFAULT_BACKTEST_ALLOCATION);
+  const dataRange = getDataRange(allocation);
+  const lastStartYear = (years: number) => dataRange.lastYear - years + 1;
+
+  // Savings plan without payout phase, so the simulation ends at payout start
+  const savingsYears = Math.max(0, plan.payoutStartAge - plan.currentAge);
+  const savingsPlan = { ...plan, payoutEndAge: plan.payoutStartAge };
+  const savingsWindows: SavingsWindow[] = [];
+  for (let startYear = dataRange.firstYear; savingsYears > 0 && startYear <= lastStartYear(savingsYears); startYear++) {
+    const path = simulatePensionPath(savingsPlan, {
+      monthlyReturn: (month) => monthlyRate(portfolioReturn(allocation, startYear + Math.floor(month / 12))),
+    });
+    savingsWindows.push({
+      startYear,
+      endYear: startYear + savingsYears - 1,
+      totalContributions: path.kpis.totalContributions,
+      finalValue: path.kpis.projectedValue,
+      realFinalValue: path.kpis.projectedValue / inflationFactor(startYear, savingsYears),
+    });
+  }
+
+  const withdrawalYears = Math.max(0, plan.payoutEndAge - plan.payoutStartAge);
+  const startCapital = options.startCapital ?? calculatePrivatePension(plan).kpis.projectedValue;
+  const withdrawalRate = options.withdrawalRate ?? plan.safeWithdrawalRate ?? DEFAULT_WITHDRAWAL_RATE;
+  const withdrawalWindows: WithdrawalWindow[] = [];
+  for (let startYear = dataRange.firstYear; withdrawalYears > 0 && startYear <= lastStartYear(withdrawalYears); startYear++) {
+    const replay = (rate: number) => replayWithdrawals(plan, allocation, startYear, withdrawalYears, startCapital, rate);
+    const { endValue, depletedAfterYears } = replay(withdrawalRate);
+    withdrawalWindows.push({
+      startYear,
+      endYear: startYear + withdrawalYears - 1,
+      endValue,
+      realEndValue: endValue / inflationFactor(startYear, withdrawalYears),
+      depletedAfterYears,
+      maxSustainableRate: findMaxSustainableRate((rate) => replay(rate).depletedAfterYears === null),
+    });
+  }
+
+  const limitingWindow = withdrawalWindows.reduce<WithdrawalWindow | null>(
+    (worst, window) => (!worst || window.maxSustainableRate < worst.maxSustainableRate ? window : worst),
+    null
+  );
+  const lasted = withdrawalWindows.filter((window) => window.depletedAfterYears === null).length;
+
+  return {
+    allocation,
+    dataRange,
+    savings: { years: savingsYears, ...summarize(savingsWindows, (window) => window.realFinalValue) },
+    withdrawal: {
+      years: withdrawalYears,
+      startCapital,
+      withdrawalRate,
+      ...summarize(withdrawalWindows, (window) => window.realEndValue),
+      successRate: withdrawalWindows.length > 0 ? lasted / withdrawalWindows.length : null,
+      safeWithdrawalRate: limitingWindow?.maxSustainableRate ?? null,
+      safeWithdrawalRateStartYear: limitingWindow?.startYear ?? null,
+    },
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Betriebliche Altersversorgung (bAV) via Entgeltumwandlung over its lifecycle
+ *
+ * Contribution phase: the converted wages are tax-free up to 8% of the BBG RV
+ * and free of social security contributions up to 4% (§3 Nr.63 EStG, §1 Abs.1
+ * Nr.9 SvEV). The employer adds the mandatory 15% subsidy on the SV-free part
+ * (§1a Abs.1a BetrAVG). The SV-free part lowers the wages for the statutory
+ * pension, so fewer Entgeltpunkte are earned.
+ *
+ * Payout phase: the bAV pension is fully taxable (§22 Nr.5 EStG) and, in the
+ * KVdR, subject to the full health insurance rate above the Freibetrag and the
+ * full long-term care rate above the Freigrenze on Versorgungsbezüge (§226
+ * Abs.2, §229 SGB V). The lost statutory pension is counted net of tax and the
+ * retiree's half of KV plus full PV.
+ *
+ * The net return is the internal rate of return of the employee's net cash
+ * flows: net cost per year while contributing, net bAV pension minus net
+ * statutory pension loss per year in retirement.
+ *
+ * Simplifications: constant wages and today's parameters for all years (all
+ * values in today's euros), Rentenfaktor applied to the capital at payout start.
+ */
+
+import { CURRENT_TAX_YEAR, getGovernmentParameters } from '@/data/governmentParameters';
+import {
+  calculateAdditionalIncomeTax,
+  calculateIncomeTaxAssessment,
+  type IncomeTaxAssessment,
+} from './income-tax';
+import { calculateRetireeContributions } from './retiree-health-insurance';
+import { calculateEntgeltpunkte } from './statutory-pension';
+
+export type BavHealthInsurance = 'statutory' | 'private';
+
+export interface BavInput {
+  /** Annual gross wages before the conversion */
+  grossAnnualIncome: number;
+  /** Entgeltumwandlung per month */
+  monthlyConversion: number;
+  currentAge: number;
+  payoutStartAge: number;
+  /** Employer contribution on top of the mandatory subsidy, per month */
+  employerContributionMonthly?: number;
+  /** Override of the 15% subsidy, e.g. when the employer pays more */
+  employerSubsidyRate?: number;
+  /** Annual return of the contract after costs (default 4%) */
+  expectedReturn?: number;
+  /** Monthly pension per 10,000 € capital (default 30) */
+  rentenfaktor?: number;
+  /** Pension paid until this age (default 87) */
+  lifeExpectancy?: number;
+  /** zvE in retirement without the bAV pension (default 20,000 €) */
+  retirementTaxableIncome?: number;
+  assessment?: IncomeTaxAssessment;
+  healthInsurance?: BavHealthInsurance;
+  childless?: boolean;
+  year?: number;
+}
+
+export interface BavContributionPhase {
+  annualConversion: number;
+  /** Part of the conversion free of income tax (8% BBG) */
+  taxFreeAmount: number;
+  /** Part of the conversion free of social security contributions (4% BBG) */
+  socialSecurityFreeAmount: number;
+  employerSubsidy: number;
+  employerContribution: number;
+  /** Total paid into the contract per year */
+  annualContractContribution: number;
+  taxSavings: number;
+  socialSecuritySavings: number;
+  /** Conversion minus tax and social security savings, per year */
+  netCost: number;
+  /** Entgeltpunkte not earned per year of conversion */
+  lostEntgeltpunkte: number;
+}
+
+export interface BavPayoutPhase {
+  capitalAtPayout: number;
+  monthlyPension: number;
+  monthlyIncomeTax: number;
+  monthlyHealthInsurance: number;
+  monthlyLongTermCare: number;
+  monthlyNetPension: number;
+  /** Statutory pension not earned because of the conversion, gross and net */
+  monthlyStatutoryPensionLoss: number;
+  monthlyNetStatutoryPensionLoss: number;
+  /** Net bAV pension minus net statutory pension loss */
+  monthlyNetGain: number;
+}
+
+export interface BavCashflowYear {
+  age: number;
+  /** Negative while contributing, positive in retirement */
+  netCashflow: number;
+}
+
+export interface BavLifecycleResult {
+  contribution: BavContributionPhase;
+  payout: BavPayoutPhase;
+  cashflows: BavCashflowYear[];
+  totalNetCost: number;
+  totalNetPayout: number;
+  /** Internal rate of return of the net cash flows, null if it has no sign change */
+  netReturn: number | null;
+  /** Net monthly gain in retirement per 1 € net monthly cost today */
+  netPensionPerNetEuro: number;
+}
+
+const DEFAULT_RETURN = 0.04;
+const DEFAULT_RENTENFAKTOR = 30;
+const DEFAULT_LIFE_EXPECTANCY = 87;
+const DEFAULT_RETIREMENT_TAXABLE_INCOME = 20_000;
+
+// Werbungskosten-Pauschbetrag for pensions, §9a S.1 Nr.3 EStG
+const PENSION_WERBUNGSKOSTEN = 102;
+
+/**
+ * Employee share of pension, unemployment, health and long-term care insurance.
+ */
+function employeeContributions(wages: number, year: number, childless: boolean): number {
+  const params = getGovernmentParameters(year);
+  const social = params.socialInsurance;
+  const pensionWages = Math.min(Math.max(0, wages), params.pension.pensionInsuranceCeilingAnnual);
+  const healthWages = Math.min(Math.max(0, wages), social.healthInsuranceCeilingAnnual);
+  return (
+    pensionWages * (social.pensionRate + social.unemploymentRate) / 2 +
+    healthWages * (
+      (social.healthRateGeneral + social.healthAdditionalRateAverage) / 2 +
+      social.longTermCareRate / 2 +
+      (childless ? social.longTermCareChildlessSurcharge : 0)
+    )
+  );
+}
+
+/**
+ * Monthly KVdR contributions on a bAV pension: full KV rate above the
+ * Freibetrag, full PV rate on the whole pension above the Freigrenze.
+ */
+export function calculateVersorgungsbezuegeContributions(
+  monthlyPension: number,
+  year: number = CURRENT_TAX_YEAR,
+  childless: boolean = false
+): { health: number; longTermCare: number } {
+  const { health, longTermCare } = calculateRetireeContributions({
+    status: 'kvdr',
+    income: { occupationalPension: monthlyPension },
+    childless,
+    year,
+  });
+  return { health, longTermCare };
+}
+
+function netPresentValue(cashflows: BavCashflowYear[], rate: number): number {
+  return cashflows.reduce((sum, flow, index) => sum + flow.netCashflow / Math.pow(1 + rate, index), 0);
+}
+
+function internalRateOfReturn(cashflows: BavCashflowYear[]): number | null {
+  const hasOutflow = cashflows.some((flow) => flow.netCashflow < 0);
+  const hasInflow = cashflows.some((flow) => flow.netCashflow > 0);
+  if (!hasOutflow || !hasInflow) return null;
+
+  let low = -0.99;
+  let high = 1;
+  if (netPresentValue(cashflows, low) * netPresentValue(cashflows, high) > 0) return null;
+  for (let i = 0; i < 100 && high - low > 1e-7; i++) {
+    const mid = (low + high) / 2;
+    if (netPresentValue(cashflows, low) * netPresentValue(cashflows, mid) <= 0) high = mid;
+    else low = mid;
+  }
+  return Math.round(((low + high) / 2) * 10000) / 10000;
+}
+
+export function calculateBavLifecycle(input: BavInput): BavLifecycleResult {
+  const {
+    grossAnnualIncome,
+    monthlyConversion,
+    currentAge,
+    payoutStartAge,
+    employerContributionMonthly = 0,
+    expectedReturn = DEFAULT_RETURN,
+    rentenfaktor = DEFAULT_RENTENFAKTOR,
+    lifeExpectancy = DEFAULT_LIFE_EXPECTANCY,
+    retirementTaxableIncome = DEFAULT_RETIREMENT_TAXABLE_INCOME,
+    assessment = 'single',
+    healthInsurance = 'statutory',
+    childless = false,
+    year = CURRENT_TAX_YEAR,
+  } = input;
+
+  const params = getGovernmentParameters(year);
+  const social = params.socialInsurance;
+  const employerSubsidyRate = input.employerSubsidyRate ?? params.pension.occupationalPensionEmployerSubsidyRate;
+
+  // Contribution phase
+  const annualConversion = Math.min(Math.max(0, monthlyConversion) * 12, grossAnnualIncome);
+  const taxFreeAmount = Math.min(annualConversion, params.pension.occupationalPensionMonthlyExemption * 12);
+  const socialSecurityFreeAmount = Math.min(
+    annualConversion,
+    params.pension.occupationalPensionMonthlySocialSecurityExemption * 12
+  );
+  const socialSecuritySavings =
+    employeeContributions(grossAnnualIncome, year, childless) -
+    employeeContributions(grossAnnualIncome - socialSecurityFreeAmount, year, childless);
+  // The subsidy is only owed as far as the employer saves contributions (≈ the employee share)
+  const employerSubsidy = Math.min(socialSecurityFreeAmount * employerSubsidyRate, socialSecuritySavings);
+  const employerContribution = employerContributionMonthly * 12;
+
+  const taxOf = (wages: number) => calculateIncomeTaxAssessment({
+    taxYear: year,
+    assessment,
+    taxpayer: { grossWages: wages, statutoryHealthInsured: healthInsurance === 'statutory' },
+  }).totalTax;
+  const taxSavings = taxOf(grossAnnualIncome) - taxOf(grossAnnualIncome - taxFreeAmount);
+  const netCost = annualConversion - taxSavings - socialSecuritySavings;
+  const lostEntgeltpunkte =
+    calculateEntgeltpunkte(grossAnnualIncome, year) -
+    calculateEntgeltpunkte(grossAnnualIncome - socialSecurityFreeAmount, year);
+
+  const contributionYears = Math.max(0, payoutStartAge - currentAge);
+  const annualContractContribution = annualConversion + employerSubsidy + employerContribution;
+  const monthlyRate = Math.pow(1 + expectedReturn, 1 / 12) - 1;
+  let capitalAtPayout = 0;
+  for (let month = 0; month < contributionYears * 12; month++) {
+    capitalAtPayout = (capitalAtPayout + annualContractContribution / 12) * (1 + monthlyRate);
+  }
+
+  // Payout phase
+  const monthlyPension = (capitalAtPayout / 10000) * rentenfaktor;
+  const annualTaxable = Math.max(0, monthlyPension * 12 - PENSION_WERBUNGSKOSTEN);
+  const monthlyIncomeTax =
+    calculateAdditionalIncomeTax(retirementTaxableIncome, annualTaxable, assessment, year) / 12;
+  const contributions = healthInsurance === 'statutory'
+    ? calculateVersorgungsbezuegeContributions(monthlyPension, year, childless)
+    : { health: 0, longTermCare: 0 };
+  const monthlyNetPension = monthlyPension - monthlyIncomeTax - contributions.health - contributions.longTermCare;
+
+  // Statutory pension loss: taxed with the Besteuerungsanteil, KVdR half KV + full PV
+  const monthlyStatutoryPensionLoss = lostEntgeltpunkte * contributionYears * params.pension.currentPensionValue;
+  const statutoryLossTax = calculateAdditionalIncomeTax(
+    retirementTaxableIncome,
+    monthlyStatutoryPensionLoss * 12 * params.tax.taxablePortionRetirement,
+    assessment,
+    year
+  ) / 12;
+  const statutoryLossContributions = healthInsurance === 'statutory'
+    ? monthlyStatutoryPensionLoss * (
+        (social.healthRateGeneral + social.healthAdditionalRateAverage) / 2 +
+        social.longTermCareRate +
+        (childless ? social.longTermCareChildlessSurcharge : 0)
+      )
+    : 0;
+  const monthlyNetStatutoryPensionLoss = monthlyStatutoryPensionLoss - statutoryLossTax - statutoryLossContributions;
+  const monthlyNetGain = monthlyNetPension - monthlyNetStatutoryPensionLoss;
+
+  const cashflows: BavCashflowYear[] = [];
+  for (let age = currentAge; age < lifeExpectancy; age++) {
+    cashflows.push({
+      age,
+      netCashflow: age < payoutStartAge ? -netCost : monthlyNetGain * 12,
+    });
+  }
+  const payoutYears = Math.max(0, lifeExpectancy - payoutStartAge);
+
+  return {
+    contribution: {
+      annualConversion,
+      taxFreeAmount,
+      socialSecurityFreeAmount,
+      employerSubsidy,
+      employerContribution,
+      annualContractContribution,
+      taxSavings,
+      socialSecuritySavings,
+      netCost,
+      lostEntgeltpunkte,
+    },
+    payout: {
+      capitalAtPayout,
+      monthlyPension,
+      monthlyIncomeTax,
+      monthlyHealthInsurance: contributions.health,
+      monthlyLongTermCare: contributions.longTermCare,
+      monthlyNetPension,
+      monthlyStatutoryPensionLoss,
+      monthlyNetStatutoryPensionLoss,
+      monthlyNetGain,
+    },
+    cashflows,
+    totalNetCost: netCost * contributionYears,
+    totalNetPayout: monthlyNetGain * 12 * payoutYears,
+    netReturn: internalRateOfReturn(cashflows),
+    netPensionPerNetEuro: netCost > 0 ? monthlyNetGain / (netCost / 12) : 0,
+  };
+}
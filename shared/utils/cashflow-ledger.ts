@@ -0,0 +1,200 @@
+/**
+ * Yearly cashflow ledger shared by all product modules
+ *
+ * Every product emits dated entries in euros of their calendar year: flows
+ * (contributions, Zulagen, tax refunds, fees, taxes, KV/PV, payouts, mortgage
+ * payments) and year-end stocks (asset value, remaining debt). The aggregation
+ * turns one or several ledgers into the household income and net worth
+ * projection that dashboards, comparisons and exports render.
+ *
+ * Amounts are always positive, the entry type decides the direction.
+ */
+
+import { CURRENT_TAX_YEAR } from "@/data/governmentParameters";
+import { DEFAULT_INFLATION_RATE, getDeflator, type ValueView } from "./financial-calculator";
+
+export type CashflowFlowType =
+  | "contribution"
+  | "subsidy"
+  | "taxRefund"
+  | "fee"
+  | "tax"
+  | "socialContribution"
+  | "payout"
+  | "debtService";
+
+/** Values at the end of the year, not summed across years */
+export type CashflowStockType = "assetValue" | "liability";
+
+export type CashflowEntryType = CashflowFlowType | CashflowStockType;
+
+export interface CashflowEntry {
+  /** Calendar year */
+  year: number;
+  /** Product id, e.g. "riester", "fund", "mortgage" */
+  product: string;
+  type: CashflowEntryType;
+  amount: number;
+  /** Household member the entry belongs to, e.g. "A" / "B" */
+  owner?: string;
+  label?: string;
+}
+
+export interface CashflowLedger {
+  /** Year whose euros the real view expresses */
+  startYear: number;
+  inflationRate: number;
+  entries: CashflowEntry[];
+}
+
+export interface CashflowProjectionYear {
+  year: number;
+  contributions: number;
+  subsidies: number;
+  taxRefunds: number;
+  fees: number;
+  taxes: number;
+  socialContributions: number;
+  payouts: number;
+  debtService: number;
+  /** Payouts after taxes and KV/PV */
+  netIncome: number;
+  /** Contributions minus Zulagen and tax refunds */
+  netSavings: number;
+  /** netIncome - netSavings - debtService */
+  netCashflow: number;
+  assetValue: number;
+  liabilities: number;
+  netWorth: number;
+}
+
+export interface CashflowLedgerFilter {
+  products?: string[];
+  owner?: string;
+}
+
+export interface CashflowProjectionOptions extends CashflowLedgerFilter {
+  view?: ValueView;
+}
+
+export const STOCK_ENTRY_TYPES: CashflowStockType[] = ["assetValue", "liability"];
+
+export function isStockEntry(entry: CashflowEntry): boolean {
+  return (STOCK_ENTRY_TYPES as CashflowEntryType[]).includes(entry.type);
+}
+
+export function createCashflowLedger(
+  entries: CashflowEntry[],
+  options: { startYear: number; inflationRate?: number }
+): CashflowLedger {
+  return {
+    startYear: options.startYear,
+    inflationRate: options.inflationRate ?? DEFAULT_INFLATION_RATE,
+    // Zero entries carry no information and only bloat exports
+    entries: entries.filter((entry) => Number.isFinite(entry.amount) && entry.amount !== 0),
+  };
+}
+
+/**
+ * Combines the ledgers of several products; the first ledger sets start year and inflation.
+ */
+export function mergeCashflowLedgers(...ledgers: CashflowLedger[]): CashflowLedger {
+  if (ledgers.length === 0) {
+    return { startYear: CURRENT_TAX_YEAR, inflationRate: DEFAULT_INFLATION_RATE, entries: [] };
+  }
+  return {
+    startYear: ledgers[0].startYear,
+    inflationRate: ledgers[0].inflationRate,
+    entries: ledgers.flatMap((ledger) => ledger.entries),
+  };
+}
+
+export function filterCashflowEntries(ledger: CashflowLedger, filter: CashflowLedgerFilter = {}): CashflowEntry[] {
+  return ledger.entries.filter(
+    (entry) =>
+      (filter.products === undefined || filter.products.includes(entry.product)) &&
+      (filter.owner === undefined || entry.owner === filter.owner)
+  );
+}
+
+/**
+ * Sum of one flow type over all years; stocks are not summable.
+ */
+export function sumCashflows(
+  ledger: CashflowLedger,
+  type: CashflowFlowType,
+  filter: CashflowLedgerFilter = {}
+): number {
+  return filterCashflowEntries(ledger, filter)
+    .filter((entry) => entry.type === type)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+}
+
+const emptyYear = (year: number): CashflowProjectionYear => ({
+  year,
+  contributions: 0,
+  subsidies: 0,
+  taxRefunds: 0,
+  fees: 0,
+  taxes: 0,
+  socialContributions: 0,
+  payouts: 0,
+  debtService: 0,
+  netIncome: 0,
+  netSavings: 0,
+  netCashflow: 0,
+  assetValue: 0,
+  liabilities: 0,
+  netWorth: 0,
+});
+
+const FIELD_BY_TYPE: Record<CashflowEntryType, keyof CashflowProjectionYear> = {
+  contribution: "contributions",
+  subsidy: "subsidies",
+  taxRefund: "taxRefunds",
+  fee: "fees",
+  tax: "taxes",
+  socialContribution: "socialContributions",
+  payout: "payouts",
+  debtService: "debtService",
+  assetValue: "assetValue",
+  liability: "liabilities",
+};
+
+/**
+ * Household projection per calendar year from the first to the last entry.
+ * Years without entries are included so charts have a continuous axis.
+ */
+export function aggregateCashflowLedger(
+  ledger: CashflowLedger,
+  options: CashflowProjectionOptions = {}
+): CashflowProjectionYear[] {
+  const entries = filterCashflowEntries(ledger, options);
+  if (entries.length === 0) return [];
+
+  const years = entries.map((entry) => entry.year);
+  const firstYear = Math.min(...years);
+  const lastYear = Math.max(...years);
+  const rows = new Map<number, CashflowProjectionYear>();
+  for (let year = firstYear; year <= lastYear; year++) rows.set(year, emptyYear(year));
+
+  for (const entry of entries) {
+    const row = rows.get(entry.year)!;
+    const field = FIELD_BY_TYPE[entry.type];
+    (row[field] as number) += entry.amount;
+  }
+
+  const view = options.view ?? "nominal";
+  return Array.from(rows.values()).map((row) => {
+    const deflator = view === "real" ? getDeflator(ledger.inflationRate, row.year - ledger.startYear) : 1;
+    const scaled = { ...row };
+    for (const field of Object.values(FIELD_BY_TYPE)) {
+      (scaled[field] as number) = row[field] / deflator;
+    }
+    scaled.netIncome = scaled.payouts - scaled.taxes - scaled.socialContributions;
+    scaled.netSavings = scaled.contributions - scaled.subsidies - scaled.taxRefunds;
+    scaled.netCashflow = scaled.netIncome - scaled.netSavings - scaled.debtService;
+    scaled.netWorth = scaled.assetValue - scaled.liabilities;
+    return scaled;
+  });
+}
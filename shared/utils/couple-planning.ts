@@ -0,0 +1,369 @@
+/**
+ * Couple household planning (calcScope 'beide_personen')
+ *
+ * Projects a married couple year by year with separate ages, retirement dates,
+ * pensions and contributions. Every year is assessed jointly with the
+ * Splittingtarif via the income tax engine. The survivor scenario lets one
+ * partner die at a given age:
+ * - the survivor receives the Witwen-/Witwerrente of the deceased's statutory
+ *   pension (§46, §67 SGB VI): große Rente 55% (60% under the old law), kleine
+ *   Rente 25% when younger than 47 and not raising children, for 24 months
+ *   under the new law
+ * - Einkommensanrechnung (§97 SGB VI): 40% of the survivor's own income above
+ *   26.4 × aktueller Rentenwert (+5.6 per child) is offset against the GRV part,
+ *   own income after the flat deductions of §18b Abs.5 SGB IV
+ * - splitting still applies in the year of death and the following year
+ *   (Witwensplitting, §32a Abs.6 Nr.1 EStG), then the Grundtarif
+ *
+ * Simplifications: death happens at the start of the year, statutory claims are
+ * entered in today's values and follow wage growth (a partner dying before
+ * retirement passes on the full claim at 67 thanks to the Zurechnungszeit),
+ * no Sterbevierteljahr, Versorgungsfreibetrag or Ruhensregelung for civil
+ * servants, supplementary pensions are fully taxable and free of KV/PV,
+ * children count for the first 18 years of the projection.
+ */
+
+import {
+  CURRENT_TAX_YEAR,
+  PROJECTION_ASSUMPTIONS,
+  getGovernmentParameters,
+  type GovernmentParameters,
+} from '@/data/governmentParameters';
+import {
+  calculateIncomeTaxAssessment,
+  type IncomeTaxAssessment,
+  type IncomeTaxEarner,
+} from './income-tax';
+import { calculateRetireeContributions } from './retiree-health-insurance';
+
+export type CouplePartner = 'A' | 'B';
+
+export interface CouplePartnerInput {
+  age: number;
+  /** Default 67 */
+  retirementAge?: number;
+  /** Annual gross wages today, growing with wageGrowth until retirement */
+  grossAnnualIncome: number;
+  /** GRV and Versorgungswerk claim at retirement in today's values, €/month */
+  statutoryPensionMonthly: number;
+  /** Ruhegehalt in today's values, €/month */
+  civilServantPensionMonthly?: number;
+  /** bAV, ZVK/VBL, Riester and Rürup payouts, nominal €/month */
+  supplementaryPensionMonthly?: number;
+  /** Withdrawals from already taxed savings, nominal €/month */
+  privateIncomeMonthly?: number;
+  /** Own retirement savings while working, €/month */
+  pensionContributionsMonthly?: number;
+  /** Beamte pay no social insurance contributions on their wages */
+  civilServant?: boolean;
+}
+
+export interface CouplePlanInput {
+  partnerA: CouplePartnerInput;
+  partnerB: CouplePartnerInput;
+  /** Default: current year */
+  startYear?: number;
+  /** The projection runs until the younger partner reaches this age (default 95) */
+  endAge?: number;
+  /** Children entitled to Kindergeld */
+  children?: number;
+  /** Rate of the große Witwenrente, see getSurvivorPensionRate (default 0.55) */
+  survivorPensionRate?: number;
+  /** Survivor scenario: this partner dies at the start of the year they reach this age */
+  death?: { partner: CouplePartner; age: number };
+  /** Growth of wages and statutory pensions, default PROJECTION_ASSUMPTIONS.wageGrowth */
+  wageGrowth?: number;
+  churchTaxRate?: number;
+}
+
+export interface CouplePartnerYear {
+  age: number;
+  alive: boolean;
+  retired: boolean;
+  wages: number;
+  /** Own statutory and civil servant pension */
+  statutoryPension: number;
+  supplementaryPension: number;
+  privateIncome: number;
+  /** Witwen-/Witwerrente after Einkommensanrechnung */
+  survivorPension: number;
+  grossIncome: number;
+  socialContributions: number;
+  pensionContributions: number;
+}
+
+export interface CouplePlanYear {
+  year: number;
+  A: CouplePartnerYear;
+  B: CouplePartnerYear;
+  assessment: IncomeTaxAssessment;
+  grossIncome: number;
+  /** Income tax incl. Soli and church tax */
+  incomeTax: number;
+  socialContributions: number;
+  /** Gross income minus tax and social contributions */
+  netIncome: number;
+  /** Net income minus own retirement savings */
+  disposableIncome: number;
+  /** Tax saved by splitting compared with two single assessments, 0 after Witwensplitting */
+  splittingAdvantage: number;
+}
+
+export interface CouplePlan {
+  years: CouplePlanYear[];
+  survivorPensionRate: number;
+}
+
+const DEFAULT_RETIREMENT_AGE = 67;
+const DEFAULT_END_AGE = 95;
+const CHILD_YEARS = 18;
+
+const SMALL_SURVIVOR_PENSION_RATE = 0.25;
+const SMALL_SURVIVOR_PENSION_YEARS = 2;
+const LARGE_SURVIVOR_PENSION_MIN_AGE = 47;
+
+const SURVIVOR_ALLOWANCE_FACTOR = 26.4;
+const SURVIVOR_ALLOWANCE_PER_CHILD_FACTOR = 5.6;
+const SURVIVOR_OFFSET_RATE = 0.4;
+// §18b Abs.5 SGB IV: flat deductions to get from gross to anrechenbares Einkommen
+const NET_FACTOR_WAGES = 0.6;
+const NET_FACTOR_STATUTORY_PENSION = 0.86;
+const NET_FACTOR_PENSION_BENEFITS = 0.77;
+
+// Werbungskosten-Pauschbetrag for pensions, §9a S.1 Nr.3 EStG
+const PENSION_WERBUNGSKOSTEN = 102;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Rate of the große Witwenrente: 60% under the old law (marriage before 2002 and
+ * one spouse born before 2 January 1962), otherwise 55% (§67 Nr.6, §255 Abs.1 SGB VI).
+ */
+export function getSurvivorPensionRate(
+  birthYearA: number,
+  birthYearB: number,
+  marriedBefore2002: boolean
+): number {
+  const oldLaw = marriedBefore2002 && Math.min(birthYearA, birthYearB) < 1962;
+  return oldLaw ? 0.6 : 0.55;
+}
+
+/**
+ * Employee share of pension, unemployment, health and long-term care insurance.
+ */
+function wageContributions(wages: number, params: GovernmentParameters, childless: boolean): number {
+  const social = params.socialInsurance;
+  const pensionWages = Math.min(wages, params.pension.pensionInsuranceCeilingAnnual);
+  const healthWages = Math.min(wages, social.healthInsuranceCeilingAnnual);
+  return (
+    pensionWages * (social.pensionRate + social.unemploymentRate) / 2 +
+    healthWages * (
+      (social.healthRateGeneral + social.healthAdditionalRateAverage) / 2 +
+      social.longTermCareRate / 2 +
+      (childless ? social.longTermCareChildlessSurcharge : 0)
+    )
+  );
+}
+
+/**
+ * KVdR contributions on statutory pensions: half of health insurance, full long-term care.
+ */
+function pensionContributions(pension: number, params: GovernmentParameters, childless: boolean): number {
+  const contributions = calculateRetireeContributions({
+    status: 'kvdr',
+    income: { statutoryPension: pension / 12 },
+    childless,
+    year: params.socialInsurance.year,
+  });
+  return contributions.total * 12;
+}
+
+interface PartnerState {
+  input: CouplePartnerInput;
+  retirementAge: number;
+  /** Rentenfreibetrag fixed in the first pension year (§22 Nr.1 S.3 Buchst. a aa EStG) */
+  pensionExemption?: number;
+  survivorExemption?: number;
+}
+
+/**
+ * Projects the couple's income, taxes and contributions year by year.
+ */
+export function calculateCouplePlan(input: CouplePlanInput): CouplePlan {
+  const {
+    startYear = CURRENT_TAX_YEAR,
+    endAge = DEFAULT_END_AGE,
+    children = 0,
+    survivorPensionRate = 0.55,
+    death,
+    wageGrowth = PROJECTION_ASSUMPTIONS.wageGrowth,
+    churchTaxRate = 0,
+  } = input;
+
+  const states: Record<CouplePartner, PartnerState> = {
+    A: { input: input.partnerA, retirementAge: input.partnerA.retirementAge ?? DEFAULT_RETIREMENT_AGE },
+    B: { input: input.partnerB, retirementAge: input.partnerB.retirementAge ?? DEFAULT_RETIREMENT_AGE },
+  };
+  const deceased = death?.partner;
+  const survivor: CouplePartner | undefined = deceased && (deceased === 'A' ? 'B' : 'A');
+  const deathOffset = death ? death.age - states[death.partner].input.age : Infinity;
+
+  const years: CouplePlanYear[] = [];
+  const duration = Math.max(0, endAge - Math.min(input.partnerA.age, input.partnerB.age));
+
+  for (let offset = 0; offset <= duration; offset++) {
+    const year = startYear + offset;
+    const params = getGovernmentParameters(year);
+    const growth = Math.pow(1 + wageGrowth, offset);
+    const childrenThisYear = offset < CHILD_YEARS ? children : 0;
+    const childless = children === 0;
+
+    const partnerYears = {} as Record<CouplePartner, CouplePartnerYear>;
+    const earners = {} as Record<CouplePartner, IncomeTaxEarner>;
+    const deductibleContributions = {} as Record<CouplePartner, number>;
+
+    for (const partner of ['A', 'B'] as const) {
+      const state = states[partner];
+      const person = state.input;
+      const age = person.age + offset;
+      const alive = !(partner === deceased && offset >= deathOffset);
+      const retired = age >= state.retirementAge;
+
+      let wages = 0;
+      let statutoryPension = 0;
+      let civilServantPension = 0;
+      let supplementaryPension = 0;
+      let privateIncome = 0;
+      let savings = 0;
+      if (alive && !retired) {
+        wages = person.grossAnnualIncome * growth;
+        savings = (person.pensionContributionsMonthly ?? 0) * 12;
+      } else if (alive) {
+        statutoryPension = person.statutoryPensionMonthly * 12 * growth;
+        civilServantPension = (person.civilServantPensionMonthly ?? 0) * 12 * growth;
+        supplementaryPension = (person.supplementaryPensionMonthly ?? 0) * 12;
+        privateIncome = (person.privateIncomeMonthly ?? 0) * 12;
+        if (state.pensionExemption === undefined) {
+          state.pensionExemption = statutoryPension * (1 - params.tax.taxablePortionRetirement);
+        }
+      }
+
+      // Witwen-/Witwerrente from the deceased partner's claim
+      let survivorStatutory = 0;
+      let survivorCivil = 0;
+      if (partner === survivor && offset >= deathOffset) {
+        const other = states[deceased!].input;
+        const yearsSinceDeath = offset - deathOffset;
+        const ageAtDeath = person.age + deathOffset;
+        const largePension =
+          ageAtDeath >= LARGE_SURVIVOR_PENSION_MIN_AGE || (children > 0 && deathOffset < CHILD_YEARS);
+        const oldLaw = survivorPensionRate > 0.55;
+
+        let rate = survivorPensionRate;
+        if (!largePension) {
+          rate = oldLaw || yearsSinceDeath < SMALL_SURVIVOR_PENSION_YEARS ? SMALL_SURVIVOR_PENSION_RATE : 0;
+        }
+        survivorStatutory = other.statutoryPensionMonthly * 12 * growth * rate;
+        survivorCivil = (other.civilServantPensionMonthly ?? 0) * 12 * growth * rate;
+
+        const ownIncome =
+          wages * NET_FACTOR_WAGES +
+          statutoryPension * NET_FACTOR_STATUTORY_PENSION +
+          (civilServantPension + supplementaryPension) * NET_FACTOR_PENSION_BENEFITS;
+        const allowance = 12 * params.pension.currentPensionValue * (
+          SURVIVOR_ALLOWANCE_FACTOR + SURVIVOR_ALLOWANCE_PER_CHILD_FACTOR * childrenThisYear
+        );
+        const offsetAmount = Math.max(0, ownIncome - allowance) * SURVIVOR_OFFSET_RATE;
+        survivorStatutory = Math.max(0, survivorStatutory - offsetAmount);
+
+        if (state.survivorExemption === undefined) {
+          state.survivorExemption = survivorStatutory * (1 - params.tax.taxablePortionRetirement);
+        }
+      }
+
+      const pensionerContributions = pensionContributions(statutoryPension + survivorStatutory, params, childless);
+      const socialContributions =
+        (person.civilServant ? 0 : wageContributions(wages, params, childless)) + pensionerContributions;
+      // Pensioner KV/PV is deductible like the employees' part in the Vorsorgepauschale
+      deductibleContributions[partner] = pensionerContributions;
+
+      const pensionIncome =
+        Math.max(0, statutoryPension - (state.pensionExemption ?? 0)) +
+        Math.max(0, survivorStatutory - (state.survivorExemption ?? 0)) +
+        civilServantPension + survivorCivil + supplementaryPension;
+      earners[partner] = {
+        grossWages: wages,
+        otherIncome: Math.max(0, pensionIncome - Math.min(PENSION_WERBUNGSKOSTEN, pensionIncome)),
+        statutoryPensionInsured: !person.civilServant,
+        statutoryHealthInsured: !person.civilServant,
+      };
+
+      const pensions = statutoryPension + civilServantPension;
+      const survivorPension = survivorStatutory + survivorCivil;
+      partnerYears[partner] = {
+        age,
+        alive,
+        retired,
+        wages: roundCents(wages),
+        statutoryPension: roundCents(pensions),
+        supplementaryPension: roundCents(supplementaryPension),
+        privateIncome: roundCents(privateIncome),
+        survivorPension: roundCents(survivorPension),
+        grossIncome: roundCents(wages + pensions + supplementaryPension + privateIncome + survivorPension),
+        socialContributions: roundCents(socialContributions),
+        pensionContributions: roundCents(savings),
+      };
+    }
+
+    // Splitting while married plus Witwensplitting in the year of death and the year after
+    const assessment: IncomeTaxAssessment = offset <= deathOffset + 1 ? 'joint' : 'single';
+    const taxpayer = survivor && offset >= deathOffset ? survivor : 'A';
+    const spouse = taxpayer === 'A' ? 'B' : 'A';
+    const shared = { taxYear: year, children: childrenThisYear, churchTaxRate };
+
+    const jointResult = calculateIncomeTaxAssessment({
+      ...shared,
+      assessment,
+      taxpayer: earners[taxpayer],
+      spouse: assessment === 'joint' ? earners[spouse] : undefined,
+      // A widowed parent receives the full allowances (§32 Abs.6 S.3 Nr.1 EStG)
+      childAllowanceShare: 1,
+      additionalPensionContributions: deductibleContributions.A + deductibleContributions.B,
+    });
+
+    let splittingAdvantage = 0;
+    if (assessment === 'joint' && offset < deathOffset) {
+      const separateTax = (['A', 'B'] as const).reduce((sum, partner) => {
+        const result = calculateIncomeTaxAssessment({
+          ...shared,
+          assessment: 'single',
+          taxpayer: earners[partner],
+          additionalPensionContributions: deductibleContributions[partner],
+        });
+        return sum + result.totalTax;
+      }, 0);
+      splittingAdvantage = Math.max(0, separateTax - jointResult.totalTax);
+    }
+
+    const grossIncome = partnerYears.A.grossIncome + partnerYears.B.grossIncome;
+    const socialContributions = partnerYears.A.socialContributions + partnerYears.B.socialContributions;
+    const netIncome = grossIncome - jointResult.totalTax - socialContributions;
+
+    years.push({
+      year,
+      A: partnerYears.A,
+      B: partnerYears.B,
+      assessment,
+      grossIncome: roundCents(grossIncome),
+      incomeTax: jointResult.totalTax,
+      socialContributions: roundCents(socialContributions),
+      netIncome: roundCents(netIncome),
+      disposableIncome: roundCents(
+        netIncome - partnerYears.A.pensionContributions - partnerYears.B.pensionContributions
+      ),
+      splittingAdvantage: roundCents(splittingAdvantage),
+    });
+  }
+
+  return { years, survivorPensionRate };
+}
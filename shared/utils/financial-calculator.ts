@@ -1,34 +1,110 @@
 import type { InsertPrivatePensionPlan } from "@shared/schema";
+import {
+  calculateAnnuityConversion,
+  getAnnuityReserveFactors,
+  type AnnuityConversion,
+  type AnnuityConversionOptions,
+  type AnnuitySex,
+} from "./annuity";
+import type { CashflowEntry } from "./cashflow-ledger";
+import { CURRENT_TAX_YEAR } from "@/data/governmentParameters";
 
-export interface SimulationPoint {
-  year: number;
-  month: number;
-  age: number;
+export const DEFAULT_INFLATION_RATE = 0.02;
+
+/** "nominal" = euros of the respective year, "real" = purchasing power in today's euros */
+export type ValueView = "nominal" | "real";
+
+export interface SimulationPointValues {
   contribution: number;
   portfolioValue: number;
   fees: number;
   taxes: number;
-  isPayoutPhase: boolean;
   payout?: number;
 }
 
+export interface SimulationPoint extends SimulationPointValues {
+  year: number;
+  month: number;
+  age: number;
+  isPayoutPhase: boolean;
+  /** Same values deflated to today's purchasing power */
+  real: SimulationPointValues;
+}
+
+export interface SimulationKpis {
+  projectedValue: number;
+  targetGap: number;
+  monthlyPension: number;
+  totalFees: number;
+  totalContributions: number;
+  capitalGains: number;
+  totalCosts: number;
+  netReturn: number;
+  totalTaxes: number;
+}
+
 export interface SimulationResults {
   seriesAnspar: SimulationPoint[];
   seriesPayout: SimulationPoint[];
-  kpis: {
-    projectedValue: number;
-    targetGap: number;
-    monthlyPension: number;
-    totalFees: number;
-    totalContributions: number;
-    capitalGains: number;
-    totalCosts: number;
-    netReturn: number;
-    totalTaxes: number;
+  kpis: SimulationKpis;
+  /** KPIs in today's euros, deflated with the plan's inflationRate */
+  kpisReal: SimulationKpis;
+  inflationRate: number;
+  /** Actuarial conversion used in annuity mode, null for flexible withdrawals */
+  annuity: AnnuityConversion | null;
+}
+
+/**
+ * Factor that converts a nominal amount paid in `years` into today's euros.
+ */
+export function getDeflator(inflationRate: number, years: number): number {
+  return Math.pow(1 + inflationRate, years);
+}
+
+export function toRealValue(nominal: number, inflationRate: number, years: number): number {
+  return nominal / getDeflator(inflationRate, years);
+}
+
+/**
+ * Returns the results with every point and KPI expressed in the requested view,
+ * so charts, KPI cards and exports can render either without branching.
+ */
+export function applyValueView(results: SimulationResults, view: ValueView): SimulationResults {
+  if (view === "nominal") return results;
+  const toView = (point: SimulationPoint): SimulationPoint => ({ ...point, ...point.real });
+  return {
+    ...results,
+    seriesAnspar: results.seriesAnspar.map(toView),
+    seriesPayout: results.seriesPayout.map(toView),
+    kpis: results.kpisReal,
   };
 }
 
+/**
+ * Hooks that let stochastic or historical simulations drive the same engine.
+ * Without options the plan runs on its constant expected return.
+ */
+export interface SimulationPathOptions {
+  /** Gross return for the given month index (0 = first simulated month) */
+  monthlyReturn?: (month: number) => number;
+  /** Fixed gross monthly payout instead of the percentage-of-portfolio rule */
+  fixedMonthlyPayout?: number;
+}
+
+export interface SimulationPathResults extends SimulationResults {
+  /** Age at which the portfolio ran out during the payout phase, if it did */
+  depletedAtAge: number | null;
+}
+
 export function calculatePrivatePension(plan: InsertPrivatePensionPlan): SimulationResults {
+  const { depletedAtAge: _depletedAtAge, ...results } = simulatePensionPath(plan);
+  return results;
+}
+
+export function simulatePensionPath(
+  plan: InsertPrivatePensionPlan,
+  options: SimulationPathOptions = {}
+): SimulationPathResults {
   const {
     currentAge,
     startAge,
@@ -39,17 +115,24 @@ export function calculatePrivatePension(plan: InsertPrivatePensionPlan): Simulat
     payoutStartAge,
     payoutEndAge,
     payoutMode,
-    annuityRate,
     safeWithdrawalRate,
+    technicalInterestRate,
+    guaranteePeriodYears,
+    sex,
     policyFeeAnnualPct,
     policyFixedAnnual,
     taxRatePayout,
     expectedReturn,
     ter,
-    volatility
+    inflationRate: planInflationRate
   } = plan;
 
-  const monthlyReturn = (expectedReturn || 0.075) / 12;
+  const inflationRate = planInflationRate ?? DEFAULT_INFLATION_RATE;
+  // Values at the end of month m are deflated by (m + 1) / 12 years of inflation
+  const deflatorAt = (month: number) => getDeflator(inflationRate, (month + 1) / 12);
+
+  const constantMonthlyReturn = (expectedReturn || 0.075) / 12;
+  const returnForMonth = options.monthlyReturn ?? (() => constantMonthlyReturn);
   const monthlyTer = (ter || 0.0075) / 12;
   const monthlyPolicyFee = (policyFeeAnnualPct || 0.004) / 12;
   const monthlyFixedFee = (policyFixedAnnual || 0) / 12;
@@ -64,6 +147,9 @@ export function calculatePrivatePension(plan: InsertPrivatePensionPlan): Simulat
   let totalContributions = startInvestment || 0;
   let totalFees = 0;
   let totalTaxes = 0;
+  let realContributions = startInvestment || 0;
+  let realFees = 0;
+  let realTaxes = 0;
 
   const seriesAnspar: SimulationPoint[] = [];
   const seriesPayout: SimulationPoint[] = [];
@@ -79,7 +165,7 @@ export function calculatePrivatePension(plan: InsertPrivatePensionPlan): Simulat
     totalContributions += contribution;
 
     // Apply investment returns
-    const grossReturn = portfolioValue * monthlyReturn;
+    const grossReturn = portfolioValue * returnForMonth(month);
     portfolioValue += grossReturn;
 
     // Deduct fees
@@ -90,6 +176,10 @@ export function calculatePrivatePension(plan: InsertPrivatePensionPlan): Simulat
     portfolioValue -= totalMonthlyFees;
     totalFees += totalMonthlyFees;
 
+    const deflator = deflatorAt(month);
+    realContributions += contribution / deflator;
+    realFees += totalMonthlyFees / deflator;
+
     seriesAnspar.push({
       year,
       month: month % 12,
@@ -98,11 +188,33 @@ export function calculatePrivatePension(plan: InsertPrivatePensionPlan): Simulat
       portfolioValue,
       fees: totalMonthlyFees,
       taxes: 0, // No taxes during accumulation for private pension
-      isPayoutPhase: false
+      isPayoutPhase: false,
+      real: {
+        contribution: contribution / deflator,
+        portfolioValue: portfolioValue / deflator,
+        fees: totalMonthlyFees / deflator,
+        taxes: 0
+      }
     });
   }
 
   const maturityValue = portfolioValue;
+  let depletedAtAge: number | null = null;
+
+  // In annuity mode the capital is converted at payout start into a lifelong pension.
+  // The portfolio then shows the insurer's reserve for the remaining payments.
+  const annuityOptions: AnnuityConversionOptions = {
+    age: payoutStartAge,
+    // Pinned like the tax year, so the Rentenfaktor does not move with the system clock
+    birthYear: CURRENT_TAX_YEAR - userCurrentAge,
+    sex: (sex ?? "unisex") as AnnuitySex,
+    technicalInterestRate: technicalInterestRate ?? undefined,
+    guaranteePeriodYears: guaranteePeriodYears ?? undefined,
+  };
+  const annuity = payoutMode === "annuity" ? calculateAnnuityConversion(annuityOptions) : null;
+  const isAnnuitised = annuity !== null && options.fixedMonthlyPayout === undefined;
+  const annuityPension = annuity ? (maturityValue * annuity.rentenfaktor) / 10000 : 0;
+  const reserveFactors = isAnnuitised ? getAnnuityReserveFactors(annuityOptions) : [];
 
   // Payout phase
   for (let month = payoutStartMonth; month < payoutEndMonth && portfolioValue > 0; month++) {
@@ -111,21 +223,28 @@ export function calculatePrivatePension(plan: InsertPrivatePensionPlan): Simulat
     
     // Calculate payout based on mode
     let payout = 0;
-    if (payoutMode === "annuity") {
-      // Simple annuity calculation
-      const remainingMonths = payoutEndMonth - month;
-      payout = (portfolioValue * (annuityRate || 0.04)) / 12;
+    if (options.fixedMonthlyPayout !== undefined) {
+      payout = options.fixedMonthlyPayout;
+    } else if (isAnnuitised) {
+      payout = annuityPension;
     } else {
       // Flexible withdrawal
       payout = portfolioValue * (safeWithdrawalRate || 0.04) / 12;
     }
 
-    // Apply investment returns on remaining portfolio
-    const grossReturn = portfolioValue * monthlyReturn;
-    portfolioValue += grossReturn;
+    if (isAnnuitised) {
+      // Reserve after this month's payment; cost loadings are priced into the Rentenfaktor
+      const nextReserveFactor = reserveFactors[month - payoutStartMonth + 1] ?? 0;
+      portfolioValue = annuityPension * nextReserveFactor;
+    } else {
+      // Apply investment returns on remaining portfolio
+      const grossReturn = portfolioValue * returnForMonth(month);
+      portfolioValue += grossReturn;
 
-    // Deduct payout
-    portfolioValue -= payout;
+      // Deduct payout (a fixed payout can exhaust the portfolio)
+      payout = Math.min(payout, Math.max(0, portfolioValue));
+      portfolioValue -= payout;
+    }
 
     // Calculate taxes on payout (correct for private pension plans)
     // For private pension plans (NOT Rürup), only the earnings portion is taxable
@@ -136,14 +255,18 @@ export function calculatePrivatePension(plan: InsertPrivatePensionPlan): Simulat
     const monthlyTax = taxableAmount * (taxRatePayout || 0.25);
     totalTaxes += monthlyTax;
 
-    // Deduct fees
-    const terFee = portfolioValue * monthlyTer;
-    const policyFee = portfolioValue * monthlyPolicyFee + monthlyFixedFee;
+    // Deduct fees (fund costs only apply while the capital stays invested)
+    const terFee = isAnnuitised ? 0 : portfolioValue * monthlyTer;
+    const policyFee = isAnnuitised ? 0 : portfolioValue * monthlyPolicyFee + monthlyFixedFee;
     const totalMonthlyFees = terFee + policyFee;
     
     portfolioValue -= totalMonthlyFees;
     totalFees += totalMonthlyFees;
 
+    const deflator = deflatorAt(month);
+    realFees += totalMonthlyFees / deflator;
+    realTaxes += monthlyTax / deflator;
+
     seriesPayout.push({
       year,
       month: month % 12,
@@ -153,27 +276,45 @@ export function calculatePrivatePension(plan: InsertPrivatePensionPlan): Simulat
       fees: totalMonthlyFees,
       taxes: monthlyTax,
       isPayoutPhase: true,
-      payout: payout - monthlyTax
+      payout: payout - monthlyTax,
+      real: {
+        contribution: 0,
+        portfolioValue: Math.max(0, portfolioValue) / deflator,
+        fees: totalMonthlyFees / deflator,
+        taxes: monthlyTax / deflator,
+        payout: (payout - monthlyTax) / deflator
+      }
     });
+
+    if (portfolioValue <= 0 && month < payoutEndMonth - 1) {
+      depletedAtAge = ageAtThisPoint;
+    }
   }
 
   // Calculate KPIs
   const projectedValue = maturityValue;
   const targetGap = targetMaturityValue ? projectedValue - targetMaturityValue : 0;
   
-  // Correct monthly pension calculation based on remaining portfolio and life expectancy
-  const payoutYears = (payoutEndAge - payoutStartAge);
-  const monthlyPension = payoutMode === "annuity" 
-    ? (projectedValue * (annuityRate || 0.04)) / 12 
+  // Annuity: actuarial lifelong pension, flex: first-year withdrawal
+  const monthlyPension = annuity
+    ? annuityPension
     : projectedValue * (safeWithdrawalRate || 0.04) / 12;
   
   const capitalGains = projectedValue - totalContributions;
   const totalCosts = totalFees + totalTaxes; // Include taxes in total costs
   const netReturn = projectedValue - totalCosts; // Net return should subtract all costs
 
+  // Real KPIs: stocks are deflated to payout start, flows are summed in today's euros
+  const maturityDeflator = getDeflator(inflationRate, Math.max(0, payoutStartMonth) / 12);
+  const realProjectedValue = projectedValue / maturityDeflator;
+  const realTotalCosts = realFees + realTaxes;
+
   return {
     seriesAnspar,
     seriesPayout,
+    depletedAtAge,
+    inflationRate,
+    annuity,
     kpis: {
       projectedValue,
       targetGap,
@@ -184,6 +325,56 @@ export function calculatePrivatePension(plan: InsertPrivatePensionPlan): Simulat
       totalCosts,
       netReturn,
       totalTaxes
+    },
+    kpisReal: {
+      projectedValue: realProjectedValue,
+      targetGap: targetGap / maturityDeflator,
+      monthlyPension: monthlyPension / maturityDeflator,
+      totalFees: realFees,
+      totalContributions: realContributions,
+      capitalGains: realProjectedValue - realContributions,
+      totalCosts: realTotalCosts,
+      netReturn: realProjectedValue - realTotalCosts,
+      totalTaxes: realTaxes
     }
   };
 }
+
+/**
+ * Ledger entries of a simulated plan: yearly sums of the monthly points and the
+ * portfolio value at the end of each year. `startYear` is the calendar year of
+ * the first simulated month (plan year 0).
+ */
+export function privatePensionCashflows(
+  results: SimulationResults,
+  options: { startYear: number; product?: string; owner?: string }
+): CashflowEntry[] {
+  const { startYear, product = "privatePension", owner } = options;
+  const points = [...results.seriesAnspar, ...results.seriesPayout];
+  const entries: CashflowEntry[] = [];
+
+  // The start investment is part of totalContributions but not of the monthly points
+  const monthlyContributions = results.seriesAnspar.reduce((sum, point) => sum + point.contribution, 0);
+  const startInvestment = results.kpis.totalContributions - monthlyContributions;
+  if (startInvestment > 0) {
+    entries.push({ year: startYear, product, type: "contribution", amount: startInvestment, owner });
+  }
+
+  const years = Array.from(new Set(points.map((point) => point.year)));
+  for (const planYear of years) {
+    const yearPoints = points.filter((point) => point.year === planYear);
+    const year = startYear + planYear;
+    const sum = (value: (point: SimulationPoint) => number) =>
+      yearPoints.reduce((total, point) => total + value(point), 0);
+    // Points carry the payout after tax
+    entries.push(
+      { year, product, type: "contribution", amount: sum((point) => point.contribution), owner },
+      { year, product, type: "fee", amount: sum((point) => point.fees), owner },
+      { year, product, type: "tax", amount: sum((point) => point.taxes), owner },
+      { year, product, type: "payout", amount: sum((point) => (point.payout ?? 0) + point.taxes), owner },
+      { year, product, type: "assetValue", amount: yearPoints[yearPoints.length - 1].portfolioValue, owner }
+    );
+  }
+
+  return entries.filter((entry) => entry.amount !== 0);
+}
@@ -0,0 +1,283 @@
+/**
+ * Lot-level depot ledger for a single investment fund (German tax rules)
+ *
+ * - Every purchase is a lot with its own cost basis (incl. Ausgabeaufschlag)
+ * - Vorabpauschale per §18 InvStG for each calendar year, deemed received on
+ *   the first working day of the next year: 70% of the Basiszins on the
+ *   Rücknahmepreis at the start of the year, capped at the year's price gain
+ *   and reduced by 1/12 for every full month before the purchase month
+ * - Teilfreistellung (§20 InvStG) on Vorabpauschale and on sale gains and losses
+ * - Sales are FIFO (§20 Abs.4 S.7 EStG); the Vorabpauschale already taxed on a
+ *   lot is deducted from its sale gain (§19 Abs.1 InvStG)
+ * - Separate Verlustverrechnungstöpfe (§20 Abs.6 EStG): losses from selling
+ *   shares only offset share gains, fund losses go to the general pot
+ * - Sparer-Pauschbetrag per calendar year, used after the loss pots
+ */
+
+import { EQUITY_FUND_PARTIAL_EXEMPTION } from "@/data/governmentParameters";
+import { getEffectiveTaxRate, type TaxSettings } from "./germanTaxCalculations";
+
+export interface FundLot {
+  purchaseYear: number;
+  /** 1 = January */
+  purchaseMonth: number;
+  shares: number;
+  /** Amount paid incl. front load */
+  costBasis: number;
+  /** Vorabpauschale taxed on this lot so far, before Teilfreistellung */
+  vorabpauschale: number;
+}
+
+export interface LossPots {
+  /** Aktienverlusttopf - losses from selling shares */
+  stocks: number;
+  /** Allgemeiner Verlusttopf - all other capital losses, incl. funds */
+  other: number;
+}
+
+export interface FundDepot {
+  /** Open lots, oldest first */
+  lots: FundLot[];
+  unitPrice: number;
+  /** Rücknahmepreis at the start of the current calendar year */
+  yearStartPrice: number;
+  /** Teilfreistellung as decimal (0.3 equity funds, 0.15 mixed funds, 0 others; default equity) */
+  partialExemption: number;
+  lossPots: LossPots;
+  /** Sparer-Pauschbetrag used per calendar year */
+  allowanceUsed: Record<number, number>;
+}
+
+export interface CapitalIncomeSettlement {
+  lossOffset: number;
+  allowanceUsed: number;
+  taxableIncome: number;
+  tax: number;
+}
+
+export interface VorabpauschaleResult extends CapitalIncomeSettlement {
+  year: number;
+  /** Year in which the Vorabpauschale is taxed */
+  taxYear: number;
+  vorabpauschale: number;
+  /** After Teilfreistellung */
+  taxableVorabpauschale: number;
+}
+
+export interface FundSaleResult extends CapitalIncomeSettlement {
+  sharesSold: number;
+  proceeds: number;
+  costBasis: number;
+  vorabpauschaleDeducted: number;
+  /** Proceeds minus cost basis and Vorabpauschale, before Teilfreistellung */
+  gain: number;
+  /** Loss after Teilfreistellung added to the general loss pot */
+  lossAddedToPot: number;
+  netProceeds: number;
+}
+
+export interface CreateFundDepotOptions {
+  unitPrice?: number;
+  partialExemption?: number;
+  /** Loss carryforwards from earlier years */
+  lossPots?: Partial<LossPots>;
+}
+
+const DEFAULT_UNIT_PRICE = 100;
+// §18 Abs.1 InvStG: Basisertrag = 70% of the Basiszins
+const BASISERTRAG_SHARE = 0.7;
+
+export function createFundDepot(options: CreateFundDepotOptions = {}): FundDepot {
+  const unitPrice = options.unitPrice ?? DEFAULT_UNIT_PRICE;
+  return {
+    lots: [],
+    unitPrice,
+    yearStartPrice: unitPrice,
+    partialExemption: options.partialExemption ?? EQUITY_FUND_PARTIAL_EXEMPTION,
+    lossPots: { stocks: 0, other: 0, ...options.lossPots },
+    allowanceUsed: {},
+  };
+}
+
+export function getDepotValue(depot: FundDepot): number {
+  return depot.lots.reduce((sum, lot) => sum + lot.shares, 0) * depot.unitPrice;
+}
+
+export function getDepotCostBasis(depot: FundDepot): number {
+  return depot.lots.reduce((sum, lot) => sum + lot.costBasis, 0);
+}
+
+/**
+ * Moves the unit price by a period return (after fund costs).
+ */
+export function applyFundReturn(depot: FundDepot, periodReturn: number): void {
+  depot.unitPrice *= 1 + periodReturn;
+}
+
+/**
+ * Buys a new lot; the front load (percent) reduces the invested amount but
+ * counts towards the cost basis.
+ */
+export function buyFundLot(
+  depot: FundDepot,
+  year: number,
+  month: number,
+  amount: number,
+  frontLoadPct: number = 0
+): FundLot | null {
+  if (amount <= 0) return null;
+  const lot: FundLot = {
+    purchaseYear: year,
+    purchaseMonth: month,
+    shares: (amount * (1 - frontLoadPct / 100)) / depot.unitPrice,
+    costBasis: amount,
+    vorabpauschale: 0,
+  };
+  depot.lots.push(lot);
+  return lot;
+}
+
+/**
+ * Offsets capital income of a tax year against the loss pots and the
+ * Sparer-Pauschbetrag and calculates the tax. Negative income is added to the
+ * pot of its category.
+ */
+export function settleCapitalIncome(
+  depot: FundDepot,
+  taxYear: number,
+  income: number,
+  settings: TaxSettings,
+  category: keyof LossPots = "other"
+): CapitalIncomeSettlement {
+  if (income <= 0) {
+    depot.lossPots[category] += -income;
+    return { lossOffset: 0, allowanceUsed: 0, taxableIncome: 0, tax: 0 };
+  }
+
+  // Share gains use the share pot first; the share pot never offsets other income
+  let remaining = income;
+  let lossOffset = 0;
+  const pots: (keyof LossPots)[] = category === "stocks" ? ["stocks", "other"] : ["other"];
+  for (const pot of pots) {
+    const offset = Math.min(remaining, depot.lossPots[pot]);
+    depot.lossPots[pot] -= offset;
+    lossOffset += offset;
+    remaining -= offset;
+  }
+
+  const usedBefore = depot.allowanceUsed[taxYear] ?? 0;
+  const allowanceUsed = Math.min(remaining, Math.max(0, settings.allowance - usedBefore));
+  depot.allowanceUsed[taxYear] = usedBefore + allowanceUsed;
+  const taxableIncome = remaining - allowanceUsed;
+
+  return {
+    lossOffset,
+    allowanceUsed,
+    taxableIncome,
+    tax: (taxableIncome * getEffectiveTaxRate(settings)) / 100,
+  };
+}
+
+/**
+ * Vorabpauschale for the calendar year `year`, charged at the start of the
+ * following year. `settings.baseRate` is the Basiszins of `year`.
+ */
+export function chargeVorabpauschale(
+  depot: FundDepot,
+  year: number,
+  settings: TaxSettings
+): VorabpauschaleResult {
+  const basiszins = Math.max(0, settings.baseRate) / 100;
+  const gainPerShare = Math.max(0, depot.unitPrice - depot.yearStartPrice);
+
+  let vorabpauschale = 0;
+  for (const lot of depot.lots) {
+    if (lot.purchaseYear > year) continue;
+    const heldMonths = lot.purchaseYear === year ? 13 - lot.purchaseMonth : 12;
+    const basisertrag = lot.shares * depot.yearStartPrice * basiszins * BASISERTRAG_SHARE;
+    // §18 Abs.2 InvStG reduces the capped Vorabpauschale, not the Basisertrag
+    const lotVorabpauschale = Math.min(basisertrag, lot.shares * gainPerShare) * (heldMonths / 12);
+    lot.vorabpauschale += lotVorabpauschale;
+    vorabpauschale += lotVorabpauschale;
+  }
+  depot.yearStartPrice = depot.unitPrice;
+
+  const taxableVorabpauschale = vorabpauschale * (1 - depot.partialExemption);
+  return {
+    year,
+    taxYear: year + 1,
+    vorabpauschale,
+    taxableVorabpauschale,
+    ...settleCapitalIncome(depot, year + 1, taxableVorabpauschale, settings),
+  };
+}
+
+/**
+ * Sells fund units worth `amount` (gross) oldest lot first; the tax is
+ * withheld from the proceeds.
+ */
+export function sellFundFifo(
+  depot: FundDepot,
+  year: number,
+  amount: number,
+  settings: TaxSettings
+): FundSaleResult {
+  let sharesToSell = Math.max(0, Math.min(amount, getDepotValue(depot))) / depot.unitPrice;
+  let sharesSold = 0;
+  let costBasis = 0;
+  let vorabpauschaleDeducted = 0;
+
+  while (sharesToSell > 1e-12 && depot.lots.length > 0) {
+    const lot = depot.lots[0];
+    const shares = Math.min(sharesToSell, lot.shares);
+    const fraction = shares / lot.shares;
+    const lotCost = lot.costBasis * fraction;
+    const lotVorabpauschale = lot.vorabpauschale * fraction;
+
+    costBasis += lotCost;
+    vorabpauschaleDeducted += lotVorabpauschale;
+    sharesSold += shares;
+    sharesToSell -= shares;
+
+    if (fraction >= 1 - 1e-12) {
+      depot.lots.shift();
+    } else {
+      lot.shares -= shares;
+      lot.costBasis -= lotCost;
+      lot.vorabpauschale -= lotVorabpauschale;
+    }
+  }
+
+  const proceeds = sharesSold * depot.unitPrice;
+  const gain = proceeds - costBasis - vorabpauschaleDeducted;
+  const taxableGain = gain * (1 - depot.partialExemption);
+  const settlement = settleCapitalIncome(depot, year, taxableGain, settings);
+
+  return {
+    sharesSold,
+    proceeds,
+    costBasis,
+    vorabpauschaleDeducted,
+    gain,
+    lossAddedToPot: Math.max(0, -taxableGain),
+    netProceeds: proceeds - settlement.tax,
+    ...settlement,
+  };
+}
+
+export function cloneFundDepot(depot: FundDepot): FundDepot {
+  return {
+    ...depot,
+    lots: depot.lots.map((lot) => ({ ...lot })),
+    lossPots: { ...depot.lossPots },
+    allowanceUsed: { ...depot.allowanceUsed },
+  };
+}
+
+/**
+ * Sale of the whole depot in `year` without changing the ledger.
+ */
+export function previewDepotLiquidation(depot: FundDepot, year: number, settings: TaxSettings): FundSaleResult {
+  const copy = cloneFundDepot(depot);
+  return sellFundFifo(copy, year, getDepotValue(copy), settings);
+}
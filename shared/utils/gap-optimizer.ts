@@ -0,0 +1,575 @@
+/**
+ * Retirement gap optimizer
+ *
+ * Splits a monthly net budget across Riester, Rürup, bAV, ETF savings and
+ * fund-linked insurance so that the net retirement income it buys closes as
+ * much of the net pension gap as possible:
+ *
+ * - Net cost per product: own contribution minus tax savings (Riester
+ *   Günstigerprüfung beyond the Zulagen, Rürup Sonderausgabenabzug) and, for
+ *   the bAV, tax and social security savings; Riester Zulagen and the bAV
+ *   employer subsidy are paid into the contract on top
+ * - Net income per product in today's euros: annuity from the capital at
+ *   retirement (ETF: withdrawal plan until the life expectancy) after income
+ *   tax on the taxable share (Riester 100%, Rürup Besteuerungsanteil,
+ *   insurance Ertragsanteil), Abgeltungsteuer on ETF gains after the equity
+ *   fund Teilfreistellung, KV/PV for freiwillig Versicherte; the bAV comes net
+ *   of its KVdR contributions and the statutory pension it costs
+ *   (calculateBavLifecycle)
+ * - Limits: Riester up to 2,100 € incl. Zulagen, Rürup up to the Höchstbetrag
+ *   minus the statutory pension contributions, bAV up to the tax-free 8% BBG
+ * - Greedy allocation in contribution steps: every step goes to the product
+ *   with the highest additional net income per additional net euro. Income tax
+ *   in retirement is assessed on the combined taxable income of all products,
+ *   so the progression lowers the marginal benefit as the mix grows.
+ *
+ * Simplifications: today's parameters for all years, constant wages, the bAV
+ * is taxed on its own on top of the base income, no Sparer-Pauschbetrag.
+ */
+
+import { CURRENT_TAX_YEAR, getGovernmentParameters } from "@/data/governmentParameters";
+import { calculateAnnuityConversion } from "./annuity";
+import { calculateBavLifecycle, type BavLifecycleResult } from "./bav";
+import { DEFAULT_INFLATION_RATE, getDeflator, type ValueView } from "./financial-calculator";
+import {
+  DEFAULT_TAX_SETTINGS,
+  getBesteuerungsanteil,
+  getEffectiveTaxRate,
+  getErtragsanteil,
+} from "./germanTaxCalculations";
+import { calculateAdditionalIncomeTax, calculateIncomeTaxAssessment, type IncomeTaxAssessment } from "./income-tax";
+import { calculateCompoundInterest, calculateRiester, getRuerupDeductibleRate, type RiesterResult } from "./pensionCalculators";
+import { calculateRetireeContributions, type RetireeHealthInsuranceStatus } from "./retiree-health-insurance";
+import { getAnnuityWithdrawalRate } from "./withdrawal-strategies";
+
+export type GapProduct = "riester" | "ruerup" | "bav" | "etf" | "insurance";
+
+export const GAP_PRODUCTS: GapProduct[] = ["riester", "ruerup", "bav", "etf", "insurance"];
+
+export const GAP_PRODUCT_LABELS: Record<GapProduct, string> = {
+  riester: "Riester-Rente",
+  ruerup: "Rürup-Rente",
+  bav: "Betriebliche Altersvorsorge",
+  etf: "ETF-Sparplan",
+  insurance: "Fondsgebundene Rentenversicherung",
+};
+
+/** Annual cost drag on the gross return per product */
+export const DEFAULT_GAP_PRODUCT_COSTS: Record<GapProduct, number> = {
+  riester: 0.015,
+  ruerup: 0.015,
+  bav: 0.01,
+  etf: 0.002,
+  insurance: 0.015,
+};
+
+export interface GapOptimizerInput {
+  /** Net money available per month */
+  monthlyBudget: number;
+  /** Net monthly pension gap in today's euros */
+  pensionGap: number;
+  currentAge: number;
+  retirementAge: number;
+  /** Payments until this age, also the end of the ETF withdrawal plan (default 87) */
+  lifeExpectancy?: number;
+  grossAnnualIncome: number;
+  children?: number;
+  childrenBornAfter2008?: number;
+  assessment?: IncomeTaxAssessment;
+  /** zvE in retirement before the new products (default 20,000 €) */
+  retirementTaxableIncome?: number;
+  healthInsurance?: RetireeHealthInsuranceStatus;
+  childless?: boolean;
+  /** Gross annual return before product costs (default 5%) */
+  expectedReturn?: number;
+  inflationRate?: number;
+  costs?: Partial<Record<GapProduct, number>>;
+  /** Products to consider (default: all) */
+  products?: GapProduct[];
+  /** Override of the 15% bAV employer subsidy */
+  bavEmployerSubsidyRate?: number;
+  /** Gross contribution per allocation step (default 25 €) */
+  step?: number;
+  year?: number;
+}
+
+export interface GapProductAllocation {
+  product: GapProduct;
+  label: string;
+  /** 1 = best net income per net euro among the allocated products */
+  rank: number | null;
+  monthlyContribution: number;
+  monthlyNetCost: number;
+  /** Zulagen, tax and social security savings, employer subsidy per month */
+  monthlySubsidies: number;
+  /** Net monthly retirement income in today's euros */
+  monthlyNetIncome: number;
+  /** Net retirement income per net euro paid */
+  incomePerNetEuro: number;
+  /** Maximum monthly contribution, null without limit */
+  limit: number | null;
+  limitReached: boolean;
+  reasons: string[];
+}
+
+export interface GapOptimizerResult {
+  allocations: GapProductAllocation[];
+  totalContribution: number;
+  totalNetCost: number;
+  totalNetIncome: number;
+  remainingGap: number;
+  unusedBudget: number;
+  gapClosed: boolean;
+  /** Net budget that would close the remaining gap at the last marginal efficiency */
+  additionalBudgetNeeded: number | null;
+  reasoning: string[];
+}
+
+export interface PensionGapTodayInput {
+  /** Target net income in today's euros, e.g. 80% of today's net income */
+  targetNetIncome: number;
+  /** Monthly net retirement income after KV/PV in the given view */
+  netRetirementIncome: number;
+  /** Monthly housing cost still due in retirement in the given view */
+  housingCost?: number;
+  view: ValueView;
+  /** Price level of the retirement year relative to today */
+  retirementDeflator: number;
+}
+
+interface ProductEvaluation {
+  netCost: number;
+  subsidies: number;
+  /** Gross income before income tax and KV/PV (bAV: already net) */
+  grossIncome: number;
+  /** Part of grossIncome subject to income tax in the combined assessment */
+  taxableIncome: number;
+  /** Taxes already settled within the product (Abgeltungsteuer) */
+  ownTax: number;
+  /** Part of grossIncome counted as private pension for freiwillig Versicherte */
+  privatePensionIncome: number;
+  riester?: RiesterResult;
+  bav?: BavLifecycleResult;
+}
+
+interface MixEvaluation {
+  netCost: number;
+  netIncome: number;
+  byProduct: Record<GapProduct, { evaluation: ProductEvaluation; netIncome: number }>;
+}
+
+const DEFAULT_LIFE_EXPECTANCY = 87;
+const DEFAULT_RETIREMENT_TAXABLE_INCOME = 20_000;
+const DEFAULT_RETURN = 0.05;
+const DEFAULT_STEP = 25;
+const MAX_STEPS = 2000;
+// Gaps and budget rests below 50 cents a month count as closed / used up
+const TOLERANCE = 0.5;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+const euros = (value: number) => `${Math.round(value).toLocaleString("de-DE")} €`;
+
+/**
+ * Net monthly gap in today's euros, the same in both views: only the
+ * retirement-year amounts are deflated, the target already is in today's euros.
+ */
+export function calculatePensionGapToday(input: PensionGapTodayInput): number {
+  const { targetNetIncome, netRetirementIncome, housingCost = 0, view, retirementDeflator } = input;
+  const toToday = view === "nominal" ? 1 / retirementDeflator : 1;
+  return Math.max(0, targetNetIncome - (netRetirementIncome - housingCost) * toToday);
+}
+
+export function optimizeRetirementGap(input: GapOptimizerInput): GapOptimizerResult {
+  const {
+    monthlyBudget,
+    pensionGap,
+    currentAge,
+    retirementAge,
+    grossAnnualIncome,
+    children = 0,
+    lifeExpectancy = DEFAULT_LIFE_EXPECTANCY,
+    assessment = "single",
+    retirementTaxableIncome = DEFAULT_RETIREMENT_TAXABLE_INCOME,
+    healthInsurance = "kvdr",
+    childless = false,
+    expectedReturn = DEFAULT_RETURN,
+    inflationRate = DEFAULT_INFLATION_RATE,
+    products = GAP_PRODUCTS,
+    step = DEFAULT_STEP,
+    year = CURRENT_TAX_YEAR,
+  } = input;
+  const params = getGovernmentParameters(year);
+  const costs = { ...DEFAULT_GAP_PRODUCT_COSTS, ...input.costs };
+  const years = Math.max(0, retirementAge - currentAge);
+  const payoutYears = Math.max(1, lifeExpectancy - retirementAge);
+  const retirementYear = year + years;
+  const deflator = getDeflator(inflationRate, years);
+  const rentenfaktor = calculateAnnuityConversion({ age: retirementAge, birthYear: year - currentAge }).rentenfaktor;
+  const besteuerungsanteil = getBesteuerungsanteil(retirementYear) / 100;
+  const ertragsanteil = getErtragsanteil(retirementAge) / 100;
+  const workingTaxableIncome = calculateIncomeTaxAssessment({
+    taxYear: year,
+    assessment,
+    taxpayer: { grossWages: grossAnnualIncome },
+    children,
+  }).taxableIncome;
+
+  // Capital at retirement per 1 € monthly contribution
+  const capitalPerEuro = (product: GapProduct) =>
+    calculateCompoundInterest({
+      principal: 0,
+      monthlyContribution: 1,
+      annualReturn: expectedReturn - costs[product],
+      years,
+    }).futureValue;
+  const unitCapital = Object.fromEntries(GAP_PRODUCTS.map((product) => [product, capitalPerEuro(product)])) as Record<
+    GapProduct,
+    number
+  >;
+  // Annuity from nominal capital, expressed in today's euros
+  const annuityToday = (capital: number) => (capital / 10000) * rentenfaktor / deflator;
+
+  const riesterParams = params.pension.riester;
+  const riesterAt = (annualContribution: number) =>
+    calculateRiester({
+      grossAnnualIncome,
+      children,
+      childrenBornAfter2008: input.childrenBornAfter2008,
+      contribution: annualContribution,
+      year,
+      assessment,
+      taxableIncome: workingTaxableIncome,
+    });
+  const ruerupMax = params.tax.ruerupMaxContribution * (assessment === "joint" ? 2 : 1);
+  const statutoryContributions =
+    Math.min(grossAnnualIncome, params.pension.pensionInsuranceCeilingAnnual) * params.socialInsurance.pensionRate;
+  const limits: Record<GapProduct, number | null> = {
+    riester: Math.max(0, riesterParams.maxContribution - riesterAt(riesterParams.maxContribution).totalSubsidy) / 12,
+    ruerup: Math.max(0, ruerupMax - statutoryContributions) / 12,
+    bav: Math.min(params.pension.occupationalPensionMonthlyExemption, grossAnnualIncome / 12),
+    etf: null,
+    insurance: null,
+  };
+
+  const evaluateProduct = (product: GapProduct, monthly: number): ProductEvaluation => {
+    const empty = { netCost: 0, subsidies: 0, grossIncome: 0, taxableIncome: 0, ownTax: 0, privatePensionIncome: 0 };
+    if (monthly <= 0) return empty;
+
+    switch (product) {
+      case "riester": {
+        const riester = riesterAt(monthly * 12);
+        const pension = annuityToday((monthly + riester.totalSubsidy / 12) * unitCapital.riester);
+        return {
+          // The Zulagen go into the contract, only the Günstigerprüfung refund reaches the saver
+          netCost: monthly - riester.additionalTaxBenefit / 12,
+          subsidies: riester.totalBenefit / 12,
+          grossIncome: pension,
+          taxableIncome: pension,
+          ownTax: 0,
+          privatePensionIncome: pension,
+          riester,
+        };
+      }
+      case "ruerup": {
+        const deduction = monthly * 12 * getRuerupDeductibleRate(year);
+        const taxSavings = calculateAdditionalIncomeTax(workingTaxableIncome - deduction, deduction, assessment, year) / 12;
+        const pension = annuityToday(monthly * unitCapital.ruerup);
+        return {
+          netCost: monthly - taxSavings,
+          subsidies: taxSavings,
+          grossIncome: pension,
+          taxableIncome: pension * besteuerungsanteil,
+          ownTax: 0,
+          privatePensionIncome: pension,
+        };
+      }
+      case "bav": {
+        const bav = calculateBavLifecycle({
+          grossAnnualIncome,
+          monthlyConversion: monthly,
+          currentAge,
+          payoutStartAge: retirementAge,
+          employerSubsidyRate: input.bavEmployerSubsidyRate,
+          expectedReturn: expectedReturn - costs.bav,
+          rentenfaktor,
+          lifeExpectancy,
+          retirementTaxableIncome,
+          assessment,
+          healthInsurance: healthInsurance === "private" ? "private" : "statutory",
+          childless,
+          year,
+        });
+        const { contribution, payout } = bav;
+        return {
+          netCost: contribution.netCost / 12,
+          subsidies: (contribution.taxSavings + contribution.socialSecuritySavings + contribution.employerSubsidy) / 12,
+          // The bAV pension is in euros of the retirement year, the statutory loss in today's euros
+          grossIncome: payout.monthlyNetPension / deflator - payout.monthlyNetStatutoryPensionLoss,
+          taxableIncome: 0,
+          ownTax: 0,
+          privatePensionIncome: 0,
+          bav,
+        };
+      }
+      case "etf": {
+        const capital = monthly * unitCapital.etf;
+        const realPayoutReturn = (1 + expectedReturn - costs.etf) / (1 + inflationRate) - 1;
+        const withdrawal = (capital / deflator) * getAnnuityWithdrawalRate(realPayoutReturn, payoutYears) / 12;
+        const gainShare = capital > 0 ? Math.max(0, 1 - (monthly * years * 12) / capital) : 0;
+        const taxableGain = withdrawal * gainShare * (1 - params.tax.partialExemptionEquityFunds);
+        return {
+          netCost: monthly,
+          subsidies: 0,
+          grossIncome: withdrawal,
+          taxableIncome: 0,
+          ownTax: (taxableGain * getEffectiveTaxRate(DEFAULT_TAX_SETTINGS)) / 100,
+          privatePensionIncome: withdrawal * gainShare,
+        };
+      }
+      case "insurance": {
+        const pension = annuityToday(monthly * unitCapital.insurance);
+        return {
+          netCost: monthly,
+          subsidies: 0,
+          grossIncome: pension,
+          taxableIncome: pension * ertragsanteil,
+          ownTax: 0,
+          privatePensionIncome: pension,
+        };
+      }
+    }
+  };
+
+  const evaluationCache = new Map<string, ProductEvaluation>();
+  const cachedEvaluation = (product: GapProduct, monthly: number) => {
+    const key = `${product}:${monthly.toFixed(4)}`;
+    let evaluation = evaluationCache.get(key);
+    if (!evaluation) {
+      evaluation = evaluateProduct(product, monthly);
+      evaluationCache.set(key, evaluation);
+    }
+    return evaluation;
+  };
+
+  const evaluateMix = (allocation: Record<GapProduct, number>): MixEvaluation => {
+    const evaluations = Object.fromEntries(
+      GAP_PRODUCTS.map((product) => [product, cachedEvaluation(product, allocation[product])])
+    ) as Record<GapProduct, ProductEvaluation>;
+    const taxable = GAP_PRODUCTS.reduce((sum, product) => sum + evaluations[product].taxableIncome, 0);
+    const privatePension = GAP_PRODUCTS.reduce((sum, product) => sum + evaluations[product].privatePensionIncome, 0);
+    const incomeTax = taxable > 0
+      ? calculateAdditionalIncomeTax(retirementTaxableIncome, taxable * 12, assessment, year) / 12
+      : 0;
+    const socialContributions = healthInsurance === "voluntary" && privatePension > 0
+      ? calculateRetireeContributions({
+          status: healthInsurance,
+          income: { privatePension },
+          childless,
+          year,
+        }).byIncome.privatePension
+      : 0;
+
+    const byProduct = {} as MixEvaluation["byProduct"];
+    let netCost = 0;
+    let netIncome = 0;
+    for (const product of GAP_PRODUCTS) {
+      const evaluation = evaluations[product];
+      // Combined income tax and KV/PV are split by each product's share of the base
+      const taxShare = taxable > 0 ? (incomeTax * evaluation.taxableIncome) / taxable : 0;
+      const contributionShare = privatePension > 0
+        ? (socialContributions * evaluation.privatePensionIncome) / privatePension
+        : 0;
+      const productNetIncome = evaluation.grossIncome - evaluation.ownTax - taxShare - contributionShare;
+      byProduct[product] = { evaluation, netIncome: productNetIncome };
+      netCost += evaluation.netCost;
+      netIncome += productNetIncome;
+    }
+    return { netCost, netIncome, byProduct };
+  };
+
+  // Greedy allocation
+  const allocation = Object.fromEntries(GAP_PRODUCTS.map((product) => [product, 0])) as Record<GapProduct, number>;
+  let current = evaluateMix(allocation);
+  let lastEfficiency: number | null = null;
+
+  for (let iteration = 0; iteration < MAX_STEPS; iteration++) {
+    const remainingBudget = monthlyBudget - current.netCost;
+    const remainingGap = pensionGap - current.netIncome;
+    if (remainingBudget <= TOLERANCE || remainingGap <= TOLERANCE) break;
+
+    let best: { product: GapProduct; amount: number; mix: MixEvaluation; efficiency: number } | null = null;
+    for (const product of products) {
+      const limit = limits[product];
+      const amount = limit === null ? step : Math.min(step, limit - allocation[product]);
+      if (amount <= 0.005) continue;
+      const mix = evaluateMix({ ...allocation, [product]: allocation[product] + amount });
+      const addedCost = mix.netCost - current.netCost;
+      const addedIncome = mix.netIncome - current.netIncome;
+      if (addedCost <= 0 || addedIncome <= 0) continue;
+      const efficiency = addedIncome / addedCost;
+      if (!best || efficiency > best.efficiency) best = { product, amount, mix, efficiency };
+    }
+    if (!best) break;
+
+    const addedCost = best.mix.netCost - current.netCost;
+    const addedIncome = best.mix.netIncome - current.netIncome;
+    // The last step only uses what is left of the budget or the gap
+    const scale = Math.min(1, remainingBudget / addedCost, remainingGap / addedIncome);
+    allocation[best.product] += scale < 1 ? best.amount * scale : best.amount;
+    current = scale < 1 ? evaluateMix(allocation) : best.mix;
+    lastEfficiency = best.efficiency;
+    if (scale < 1) break;
+  }
+
+  const explain = (product: GapProduct, monthly: number, evaluation: ProductEvaluation, limitReached: boolean): string[] => {
+    const reasons: string[] = [];
+    switch (product) {
+      case "riester": {
+        const riester = evaluation.riester;
+        if (riester) {
+          reasons.push(
+            `Zulagen ${euros(riester.totalSubsidy)} und zusätzlicher Steuervorteil ${euros(riester.additionalTaxBenefit)} im Jahr.`
+          );
+          if (!riester.isValid) {
+            reasons.push(
+              `Mindesteigenbeitrag von ${euros(riester.requiredContribution)} im Jahr nicht erreicht - Zulagen werden anteilig gekürzt.`
+            );
+          }
+        }
+        reasons.push("Rente voll steuerpflichtig (§22 Nr.5 EStG).");
+        break;
+      }
+      case "ruerup":
+        if (monthly > 0) reasons.push(`Steuerersparnis ${euros(evaluation.subsidies * 12)} im Jahr.`);
+        reasons.push(`Rente zu ${Math.round(besteuerungsanteil * 100)}% steuerpflichtig, nicht kapitalisierbar.`);
+        break;
+      case "bav": {
+        const bav = evaluation.bav;
+        if (bav) {
+          reasons.push(
+            `Steuer- und SV-Ersparnis ${euros(bav.contribution.taxSavings + bav.contribution.socialSecuritySavings)} ` +
+              `plus Arbeitgeberzuschuss ${euros(bav.contribution.employerSubsidy)} im Jahr.`
+          );
+          reasons.push(
+            `Abzüglich ${euros(bav.payout.monthlyNetStatutoryPensionLoss)} gesetzlicher Rente im Monat; ` +
+              "Betriebsrente voll steuer- und KV/PV-pflichtig."
+          );
+        } else {
+          reasons.push("Steuer- und SV-frei eingezahlt, im Alter voll steuer- und KV/PV-pflichtig.");
+        }
+        break;
+      }
+      case "etf":
+        reasons.push(
+          `Flexibel verfügbar; Abgeltungsteuer nur auf Gewinne nach ${Math.round(params.tax.partialExemptionEquityFunds * 100)}% Teilfreistellung, ` +
+            `Entnahmeplan bis ${lifeExpectancy}.`
+        );
+        break;
+      case "insurance":
+        reasons.push(`Lebenslange Rente, nur der Ertragsanteil von ${Math.round(ertragsanteil * 100)}% ist steuerpflichtig.`);
+        break;
+    }
+    if (limitReached) reasons.push("Förderhöchstbetrag ausgeschöpft.");
+    return reasons;
+  };
+
+  const buildAllocations = (): GapProductAllocation[] => {
+    // Efficiency of products left out, measured on a single step
+    const standaloneEfficiency = (product: GapProduct) => {
+      const limit = limits[product];
+      const amount = limit === null ? step : Math.min(step, limit);
+      if (amount <= 0) return 0;
+      const mix = evaluateMix({ ...allocation, [product]: allocation[product] + amount });
+      const addedCost = mix.netCost - current.netCost;
+      return addedCost > 0 ? (mix.netIncome - current.netIncome) / addedCost : 0;
+    };
+
+    const entries = products.map((product): GapProductAllocation => {
+      const monthly = allocation[product];
+      const { evaluation, netIncome } = current.byProduct[product];
+      const limit = limits[product];
+      const limitReached = limit !== null && monthly >= limit - 0.005 && monthly > 0;
+      const incomePerNetEuro = monthly > 0 && evaluation.netCost > 0
+        ? netIncome / evaluation.netCost
+        : standaloneEfficiency(product);
+      return {
+        product,
+        label: GAP_PRODUCT_LABELS[product],
+        rank: null,
+        monthlyContribution: roundCents(monthly),
+        monthlyNetCost: roundCents(evaluation.netCost),
+        monthlySubsidies: roundCents(evaluation.subsidies),
+        monthlyNetIncome: roundCents(netIncome),
+        incomePerNetEuro: Math.round(incomePerNetEuro * 1000) / 1000,
+        limit: limit === null ? null : roundCents(limit),
+        limitReached,
+        reasons: explain(product, monthly, evaluation, limitReached),
+      };
+    });
+
+    const allocated = entries
+      .filter((entry) => entry.monthlyContribution > 0)
+      .sort((a, b) => b.incomePerNetEuro - a.incomePerNetEuro);
+    allocated.forEach((entry, index) => {
+      entry.rank = index + 1;
+    });
+    const bestAllocated = allocated[0]?.incomePerNetEuro ?? 0;
+    const others = entries
+      .filter((entry) => entry.monthlyContribution === 0)
+      .sort((a, b) => b.incomePerNetEuro - a.incomePerNetEuro);
+    for (const entry of others) {
+      if (allocated.length > 0 && entry.limit !== 0) {
+        entry.reasons.push(
+          `Nicht berücksichtigt: ${entry.incomePerNetEuro.toFixed(2)} € Netto-Rente je Netto-Euro, ` +
+            `die gewählten Produkte erreichen bis zu ${bestAllocated.toFixed(2)} €.`
+        );
+      }
+    }
+    return [...allocated, ...others];
+  };
+
+  const allocations = buildAllocations();
+  const totalNetIncome = current.netIncome;
+  const remainingGap = Math.max(0, pensionGap - totalNetIncome);
+  const unusedBudget = Math.max(0, monthlyBudget - current.netCost);
+  const gapClosed = remainingGap <= TOLERANCE;
+  const additionalBudgetNeeded = gapClosed ? 0 : lastEfficiency ? roundCents(remainingGap / lastEfficiency) : null;
+
+  const reasoning: string[] = [];
+  if (pensionGap <= 0) {
+    reasoning.push("Keine Versorgungslücke - das Budget muss nicht für die Altersvorsorge eingesetzt werden.");
+  } else {
+    reasoning.push(
+      `Die Versorgungslücke von ${euros(pensionGap)} netto im Monat wird zu ${Math.min(
+        100,
+        Math.round((totalNetIncome / pensionGap) * 100)
+      )}% geschlossen (in heutiger Kaufkraft).`
+    );
+  }
+  const ranked = allocations.filter((entry) => entry.rank !== null);
+  if (ranked.length > 0) {
+    reasoning.push(
+      `Reihenfolge nach Netto-Rente je Netto-Euro: ${ranked
+        .map((entry) => `${entry.label} (${entry.incomePerNetEuro.toFixed(2)})`)
+        .join(", ")}.`
+    );
+  }
+  if (!gapClosed && additionalBudgetNeeded !== null) {
+    reasoning.push(`Für die restliche Lücke von ${euros(remainingGap)} wären rund ${euros(additionalBudgetNeeded)} netto im Monat zusätzlich nötig.`);
+  }
+  if (unusedBudget > TOLERANCE && gapClosed && pensionGap > 0) {
+    reasoning.push(`${euros(unusedBudget)} des Budgets werden nicht benötigt.`);
+  }
+
+  return {
+    allocations,
+    totalContribution: roundCents(GAP_PRODUCTS.reduce((sum, product) => sum + allocation[product], 0)),
+    totalNetCost: roundCents(current.netCost),
+    totalNetIncome: roundCents(totalNetIncome),
+    remainingGap: roundCents(remainingGap),
+    unusedBudget: roundCents(unusedBudget),
+    gapClosed,
+    additionalBudgetNeeded,
+    reasoning,
+  };
+}
@@ -0,0 +1,380 @@
+/**
+ * German Tax Calculations for Investment Products
+ * Includes Kapitalertragssteuer, Vorabpauschale, and Ertragsanteil calculations
+ */
+
+import {
+  CAPITAL_GAINS_TAX_RATE_PERCENT,
+  CURRENT_TAX_YEAR,
+  FIRST_PARAMETER_YEAR,
+  PARTIAL_EXEMPTION_PERCENT,
+  getGovernmentParameters,
+} from "@/data/governmentParameters";
+import { calculateAdditionalIncomeTax, type IncomeTaxAssessment } from "./income-tax";
+
+export interface TaxSettings {
+  capitalGainsTaxRate: number; // 25% + Soli (26.375%)
+  churchTaxRate: number; // 8-9% additional
+  allowance: number; // Sparer-Pauschbetrag (Freistellungsauftrag)
+  baseRate: number; // Basiszins für Vorabpauschale
+  hasChurchTax: boolean;
+  useHalfIncomeTaxation?: boolean; // Halbeinkünfteverfahren ab 62
+  partialExemption?: number; // Teilfreistellung (default 15% für Fonds)
+}
+
+export interface InvestmentData {
+  initialValue: number;
+  currentValue: number;
+  yearlyContributions: number;
+  managementFee: number;
+  frontLoad: number;
+}
+
+export interface PensionData {
+  monthlyPension: number;
+  totalContributions: number;
+  guaranteedPension: number;
+  age: number;
+}
+
+/**
+ * Calculate effective tax rate including church tax
+ */
+export function getEffectiveTaxRate(settings: TaxSettings): number {
+  const baseTaxRate = settings.capitalGainsTaxRate;
+  if (settings.hasChurchTax) {
+    return baseTaxRate + (baseTaxRate * settings.churchTaxRate / 100);
+  }
+  return baseTaxRate;
+}
+
+/**
+ * Calculate Vorabpauschale (advance lump sum) for fund investments
+ * This is a German tax concept where investors pay tax on theoretical gains
+ */
+export function calculateVorabpauschale(
+  investmentValue: number,
+  baseRate: number,
+  managementFee: number,
+  actualGain: number
+): number {
+  // Vorabpauschale = Investment Value * (Base Rate - Management Fee) * 0.7
+  const theoreticalGain = investmentValue * (baseRate - managementFee) / 100 * 0.7;
+  
+  // Vorabpauschale cannot exceed actual gains
+  return Math.max(0, Math.min(theoreticalGain, actualGain));
+}
+
+/**
+ * Calculate taxable amount after applying Sparer-Pauschbetrag (allowance)
+ */
+export function applyAllowance(taxableAmount: number, allowance: number, usedAllowance: number = 0): {
+  taxableAfterAllowance: number;
+  allowanceUsed: number;
+  remainingAllowance: number;
+} {
+  const availableAllowance = Math.max(0, allowance - usedAllowance);
+  const allowanceUsed = Math.min(taxableAmount, availableAllowance);
+  const taxableAfterAllowance = Math.max(0, taxableAmount - allowanceUsed);
+  
+  return {
+    taxableAfterAllowance,
+    allowanceUsed,
+    remainingAllowance: availableAllowance - allowanceUsed
+  };
+}
+
+/**
+ * Calculate annual tax for fund investments including Vorabpauschale
+ */
+export function calculateFundTax(
+  investmentData: InvestmentData,
+  settings: TaxSettings,
+  usedAllowance: number = 0
+): {
+  vorabpauschale: number;
+  taxOnVorabpauschale: number;
+  allowanceUsed: number;
+  remainingAllowance: number;
+  totalTax: number;
+} {
+  const actualGain = Math.max(0, investmentData.currentValue - investmentData.initialValue - investmentData.yearlyContributions);
+  
+  // Calculate Vorabpauschale
+  const vorabpauschale = calculateVorabpauschale(
+    investmentData.currentValue,
+    settings.baseRate,
+    investmentData.managementFee,
+    actualGain
+  );
+  
+  // Apply allowance to Vorabpauschale
+  const allowanceResult = applyAllowance(vorabpauschale, settings.allowance, usedAllowance);
+  
+  // Calculate tax on remaining amount after allowance
+  const effectiveTaxRate = getEffectiveTaxRate(settings);
+  const taxOnVorabpauschale = allowanceResult.taxableAfterAllowance * effectiveTaxRate / 100;
+  
+  return {
+    vorabpauschale,
+    taxOnVorabpauschale,
+    allowanceUsed: allowanceResult.allowanceUsed,
+    remainingAllowance: allowanceResult.remainingAllowance,
+    totalTax: taxOnVorabpauschale
+  };
+}
+
+// Anlage zu §22 Nr.1 S.3 Buchst. a Doppelbuchst. bb EStG - [from age, percent]
+const ERTRAGSANTEIL_TABLE: [number, number][] = [
+  [0, 59], [2, 58], [4, 57], [6, 56], [9, 55], [11, 54], [13, 53], [15, 52], [17, 51],
+  [19, 50], [21, 49], [23, 48], [25, 47], [27, 46], [28, 45], [30, 44], [32, 43], [33, 42],
+  [35, 41], [36, 40], [38, 39], [39, 38], [41, 37], [42, 36], [43, 35], [45, 34], [46, 33],
+  [48, 32], [49, 31], [50, 30], [51, 29], [53, 28], [54, 27], [55, 26], [57, 25], [58, 24],
+  [59, 23], [60, 22], [62, 21], [63, 20], [64, 19], [65, 18], [67, 17], [68, 16], [69, 15],
+  [71, 14], [72, 13], [74, 12], [75, 11], [76, 10], [78, 9], [80, 8], [81, 7], [83, 6],
+  [85, 5], [88, 4], [92, 3], [94, 2], [97, 1],
+];
+
+/**
+ * Calculate Ertragsanteil for pension payments according to §22 EStG
+ * The taxable portion of pension payments based on age when payments start
+ * (completed years of age at the start of the annuity)
+ */
+export function getErtragsanteil(ageAtPaymentStart: number): number {
+  let percent = ERTRAGSANTEIL_TABLE[0][1];
+  for (const [fromAge, value] of ERTRAGSANTEIL_TABLE) {
+    if (ageAtPaymentStart >= fromAge) percent = value;
+  }
+  return percent;
+}
+
+/**
+ * Besteuerungsanteil of a Basisrente (gesetzliche Rente, Rürup) by year of
+ * pension start - fixed for life as Rentenfreibetrag afterwards.
+ * Cohorts before the parameter registry follow the Alterseinkünftegesetz:
+ * 50% in 2005, +2 pp per year to 80% in 2020, +1 pp per year to 82% in 2022.
+ * Legal basis: §22 Nr.1 S.3 Buchst. a Doppelbuchst. aa EStG
+ */
+export function getBesteuerungsanteil(pensionStartYear: number): number {
+  const year = Math.floor(pensionStartYear);
+  if (year < FIRST_PARAMETER_YEAR) {
+    if (year <= 2005) return 50;
+    if (year <= 2020) return 50 + (year - 2005) * 2;
+    return 80 + (year - 2020);
+  }
+  return getGovernmentParameters(year).tax.taxablePortionRetirement * 100;
+}
+
+/**
+ * Calculate annual tax on pension payments
+ *
+ * Only the Ertragsanteil is taxable; the tax is the income tariff (incl. Soli)
+ * the pension adds on top of the household's other zvE. For a complete
+ * retirement year with several pension sources see ./retirement-tax.
+ */
+export function calculatePensionTax(
+  pensionData: PensionData,
+  settings: TaxSettings,
+  options: {
+    /** zvE of the household without this pension */
+    otherTaxableIncome?: number;
+    assessment?: IncomeTaxAssessment;
+    taxYear?: number;
+  } = {}
+): {
+  ertragsanteil: number;
+  taxableAmount: number;
+  totalTax: number;
+} {
+  const { otherTaxableIncome = 0, assessment = "single", taxYear = CURRENT_TAX_YEAR } = options;
+  const ertragsanteil = getErtragsanteil(pensionData.age);
+  const annualPension = pensionData.monthlyPension * 12;
+  const taxableAmount = annualPension * ertragsanteil / 100;
+  
+  // Pension payments are taxed at the personal income tariff, not the capital gains rate
+  const incomeTax = calculateAdditionalIncomeTax(otherTaxableIncome, taxableAmount, assessment, taxYear);
+  const totalTax = settings.hasChurchTax
+    ? incomeTax * (1 + settings.churchTaxRate / 100)
+    : incomeTax;
+  
+  return {
+    ertragsanteil,
+    taxableAmount,
+    totalTax
+  };
+}
+
+/**
+ * Calculate final tax when selling fund investments
+ * Pooled approximation without lots - the depot ledger in ./fund-depot
+ * tracks cost basis and Vorabpauschale per purchase
+ */
+export function calculateFinalSaleTax(
+  totalGains: number,
+  vorabpauschaleAlreadyPaid: number,
+  settings: TaxSettings,
+  usedAllowance: number = 0
+): {
+  remainingTaxableGains: number;
+  allowanceUsed: number;
+  finalTax: number;
+} {
+  // Remaining taxable gains after deducting already taxed Vorabpauschale
+  const remainingTaxableGains = Math.max(0, totalGains - vorabpauschaleAlreadyPaid);
+  
+  // Apply remaining allowance
+  const allowanceResult = applyAllowance(remainingTaxableGains, settings.allowance, usedAllowance);
+  
+  // Calculate final tax
+  const effectiveTaxRate = getEffectiveTaxRate(settings);
+  const finalTax = allowanceResult.taxableAfterAllowance * effectiveTaxRate / 100;
+  
+  return {
+    remainingTaxableGains,
+    allowanceUsed: allowanceResult.allowanceUsed,
+    finalTax
+  };
+}
+
+/**
+ * Calculate tax with Halbeinkünfteverfahren (Half-Income Taxation) from age 62
+ * Only 50% of income is taxable
+ */
+export function applyHalfIncomeTaxation(
+  taxableIncome: number,
+  age: number,
+  useHalfIncome: boolean = false
+): number {
+  if (useHalfIncome && age >= 62) {
+    return taxableIncome * 0.5; // Only 50% taxable
+  }
+  return taxableIncome;
+}
+
+/**
+ * Apply Teilfreistellung (Partial Exemption) - typically 15% for equity funds
+ * This reduces the taxable gains
+ */
+export function applyPartialExemption(
+  gains: number,
+  exemptionRate: number = 0.15
+): {
+  exemptedAmount: number;
+  taxableAmount: number;
+} {
+  const exemptedAmount = gains * exemptionRate;
+  const taxableAmount = gains * (1 - exemptionRate);
+
+  return {
+    exemptedAmount,
+    taxableAmount
+  };
+}
+
+/**
+ * Calculate tax on pension payout with all applicable rules
+ * Includes: Freistellungsauftrag, Halbeinkünfteverfahren, Teilfreistellung
+ */
+export function calculatePayoutTax(
+  totalGains: number,
+  age: number,
+  settings: TaxSettings,
+  usedAllowance: number = 0
+): {
+  originalGains: number;
+  afterPartialExemption: number;
+  afterHalfIncomeTaxation: number;
+  afterAllowance: number;
+  totalTax: number;
+  effectiveTaxRate: number;
+} {
+  const partialExemptionRate = settings.partialExemption || 0.15;
+
+  // Step 1: Apply Teilfreistellung (only on gains/Erträge)
+  const { taxableAmount: afterPartialExemption } = applyPartialExemption(
+    totalGains,
+    partialExemptionRate
+  );
+
+  // Step 2: Apply Halbeinkünfteverfahren if age >= 62
+  const afterHalfIncome = applyHalfIncomeTaxation(
+    afterPartialExemption,
+    age,
+    settings.useHalfIncomeTaxation
+  );
+
+  // Step 3: Apply Freistellungsauftrag (allowance)
+  const { taxableAfterAllowance: afterAllowance } = applyAllowance(
+    afterHalfIncome,
+    settings.allowance,
+    usedAllowance
+  );
+
+  // Step 4: Calculate final tax
+  const effectiveTaxRate = getEffectiveTaxRate(settings);
+  const totalTax = afterAllowance * effectiveTaxRate / 100;
+
+  return {
+    originalGains: totalGains,
+    afterPartialExemption,
+    afterHalfIncomeTaxation: afterHalfIncome,
+    afterAllowance,
+    totalTax,
+    effectiveTaxRate: (totalTax / totalGains) * 100
+  };
+}
+
+/**
+ * Calculate monthly payout after taxes
+ */
+export function calculateMonthlyPayoutAfterTax(
+  annualWithdrawal: number,
+  annualGains: number,
+  age: number,
+  settings: TaxSettings
+): {
+  annualGross: number;
+  annualTax: number;
+  annualNet: number;
+  monthlyNet: number;
+} {
+  const taxResult = calculatePayoutTax(annualGains, age, settings);
+
+  const annualGross = annualWithdrawal;
+  const annualTax = taxResult.totalTax;
+  const annualNet = annualGross - annualTax;
+  const monthlyNet = annualNet / 12;
+
+  return {
+    annualGross,
+    annualTax,
+    annualNet,
+    monthlyNet
+  };
+}
+
+/**
+ * Tax settings with the Basiszins of `year`, so multi-year simulations apply
+ * the Vorabpauschale of each year. Personal choices are kept from `settings`.
+ */
+export function getTaxSettingsForYear(settings: TaxSettings, year: number): TaxSettings {
+  return {
+    ...settings,
+    baseRate: getGovernmentParameters(year).tax.vorabpauschaleBasiszins * 100,
+  };
+}
+
+const CURRENT_TAX_PARAMETERS = getGovernmentParameters(CURRENT_TAX_YEAR).tax;
+
+/**
+ * Default German tax settings for the current tax year
+ */
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  capitalGainsTaxRate: CAPITAL_GAINS_TAX_RATE_PERCENT,
+  churchTaxRate: CURRENT_TAX_PARAMETERS.churchTaxDefaultRate * 100,
+  allowance: CURRENT_TAX_PARAMETERS.sparerPauschbetragSingle,
+  baseRate: CURRENT_TAX_PARAMETERS.vorabpauschaleBasiszins * 100,
+  hasChurchTax: false,
+  useHalfIncomeTaxation: false, // Halbeinkünfteverfahren ab 62
+  partialExemption: PARTIAL_EXEMPTION_PERCENT // 15% Teilfreistellung für Mischfonds
+};
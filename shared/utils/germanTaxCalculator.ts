@@ -0,0 +1,226 @@
+/**
+ * German Income Tax Calculator
+ * Based on official BMF (Bundesministerium der Finanzen) formulas
+ *
+ * Thin adapter around the shared assessment engine (shared/utils/income-tax.ts),
+ * which also backs POST /api/tax/income. The engine deducts Werbungskosten-,
+ * Sonderausgaben- and Vorsorgepauschale and runs the Günstigerprüfung between
+ * Kindergeld and Kinderfreibeträge.
+ *
+ * Sources:
+ * - §32a EStG (Einkommensteuertarif)
+ * - BMF Programmablaufplan
+ * - §31, §32 Abs.6 EStG (Familienleistungsausgleich)
+ * - §3 SolzG 1995 (Solidaritätszuschlag)
+ */
+
+import {
+  CURRENT_TAX_YEAR,
+  getGovernmentParameters,
+  type IncomeTaxTariff,
+} from '@/data/governmentParameters';
+import {
+  calculateIncomeTaxAssessment,
+  type Guenstigerpruefung,
+} from './income-tax';
+
+export interface TaxCalculationInput {
+  /** Annual gross income in EUR (Arbeitslohn) */
+  annualGrossIncome: number;
+
+  /** Marital status */
+  maritalStatus: 'single' | 'married';
+
+  /** Church tax applicable (8% or 9% depending on state) */
+  churchTaxRate?: number;
+
+  /** Special expenses (Sonderausgaben), the Pauschbetrag applies if higher */
+  specialExpenses?: number;
+
+  /** Deductible pension contributions on top of the Vorsorgepauschale (e.g. Rürup) */
+  pensionContributions?: number;
+
+  /** Extraordinary expenses (Außergewöhnliche Belastungen) */
+  extraordinaryExpenses?: number;
+
+  /** Children count for tax relief */
+  children?: number;
+
+  /** Tax year (defaults to the current year, future years are projected) */
+  taxYear?: number;
+}
+
+export interface TaxCalculationResult {
+  /** Taxable income after deductions */
+  taxableIncome: number;
+
+  /** Basic income tax (before solidarity surcharge and church tax) */
+  incomeTax: number;
+
+  /** Solidarity surcharge (Solidaritätszuschlag) */
+  solidaritySurcharge: number;
+
+  /** Church tax if applicable */
+  churchTax: number;
+
+  /** Total tax burden */
+  totalTax: number;
+
+  /** Net income after all taxes */
+  netIncome: number;
+
+  /** Average tax rate (%) */
+  averageTaxRate: number;
+
+  /** Marginal tax rate (%) */
+  marginalTaxRate: number;
+
+  /** Tax bracket name */
+  taxBracket: string;
+
+  /** Kindergeld vs. Kinderfreibeträge */
+  guenstigerpruefung: Guenstigerpruefung;
+
+  /** Breakdown by component */
+  breakdown: {
+    grossIncome: number;
+    werbungskosten: number;
+    vorsorgeaufwendungen: number;
+    specialExpenses: number;
+    extraordinaryExpenses: number;
+    /** Child allowances deducted, 0 when Kindergeld is more favourable */
+    childRelief: number;
+    taxableIncome: number;
+    incomeTax: number;
+    solidaritySurcharge: number;
+    churchTax: number;
+    totalTax: number;
+    netIncome: number;
+  };
+}
+
+/**
+ * Determine tax bracket name
+ */
+function getTaxBracketName(
+  taxableIncome: number,
+  maritalStatus: 'single' | 'married',
+  tariff: IncomeTaxTariff
+): string {
+  const income = (maritalStatus === 'married' ? taxableIncome / 2 : taxableIncome) / tariff.indexFactor;
+
+  if (income <= tariff.basicAllowance) {
+    return 'Grundfreibetrag (0%)';
+  } else if (income <= tariff.zone1End) {
+    return 'Progressionszone 1 (14-24%)';
+  } else if (income <= tariff.zone2End) {
+    return 'Progressionszone 2 (24-42%)';
+  } else if (income <= tariff.zone3End) {
+    return 'Proportionalzone (42%)';
+  } else {
+    return 'Reichensteuer (45%)';
+  }
+}
+
+/**
+ * Main tax calculation function
+ */
+export function calculateGermanTax(input: TaxCalculationInput): TaxCalculationResult {
+  const {
+    annualGrossIncome,
+    maritalStatus,
+    churchTaxRate = 0,
+    specialExpenses = 0,
+    pensionContributions = 0,
+    extraordinaryExpenses = 0,
+    children = 0,
+    taxYear = CURRENT_TAX_YEAR,
+  } = input;
+
+  const assessment = calculateIncomeTaxAssessment({
+    taxYear,
+    assessment: maritalStatus === 'married' ? 'joint' : 'single',
+    taxpayer: { grossWages: annualGrossIncome },
+    children,
+    sonderausgaben: specialExpenses,
+    additionalPensionContributions: pensionContributions,
+    extraordinaryExpenses,
+    churchTaxRate,
+  });
+
+  const { taxableIncome, incomeTax, solidaritySurcharge, churchTax, totalTax, netIncome } = assessment;
+  const childRelief = assessment.guenstigerpruefung.allowancesApplied
+    ? assessment.guenstigerpruefung.childAllowances
+    : 0;
+  const tariff = getGovernmentParameters(taxYear).tax.incomeTaxTariff;
+
+  return {
+    taxableIncome,
+    incomeTax,
+    solidaritySurcharge,
+    churchTax,
+    totalTax,
+    netIncome,
+    averageTaxRate: assessment.averageTaxRate,
+    marginalTaxRate: assessment.marginalTaxRate,
+    taxBracket: getTaxBracketName(taxableIncome, maritalStatus, tariff),
+    guenstigerpruefung: assessment.guenstigerpruefung,
+    breakdown: {
+      grossIncome: annualGrossIncome,
+      werbungskosten: assessment.werbungskosten,
+      vorsorgeaufwendungen: assessment.vorsorgeaufwendungen,
+      specialExpenses: assessment.sonderausgaben,
+      extraordinaryExpenses: assessment.extraordinaryExpenses,
+      childRelief,
+      taxableIncome,
+      incomeTax,
+      solidaritySurcharge,
+      churchTax,
+      totalTax,
+      netIncome,
+    },
+  };
+}
+
+/**
+ * Calculate tax savings from pension contributions
+ */
+export function calculatePensionTaxSavings(
+  grossIncome: number,
+  pensionContribution: number,
+  maritalStatus: 'single' | 'married',
+  children: number = 0,
+  taxYear: number = CURRENT_TAX_YEAR
+): {
+  taxWithoutPension: number;
+  taxWithPension: number;
+  savings: number;
+  savingsRate: number;
+} {
+  // Without pension contribution
+  const withoutPension = calculateGermanTax({
+    annualGrossIncome: grossIncome,
+    maritalStatus,
+    children,
+    taxYear,
+  });
+
+  // With pension contribution as additional Vorsorgeaufwendungen
+  const withPension = calculateGermanTax({
+    annualGrossIncome: grossIncome,
+    maritalStatus,
+    children,
+    pensionContributions: pensionContribution,
+    taxYear,
+  });
+
+  const savings = withoutPension.totalTax - withPension.totalTax;
+  const savingsRate = pensionContribution > 0 ? (savings / pensionContribution) * 100 : 0;
+
+  return {
+    taxWithoutPension: withoutPension.totalTax,
+    taxWithPension: withPension.totalTax,
+    savings,
+    savingsRate,
+  };
+}
@@ -0,0 +1,165 @@
+import type { InsertPrivatePensionPlan } from "@shared/schema";
+import {
+  calculatePrivatePension,
+  type SimulationResults,
+  type ValueView,
+} from "./financial-calculator";
+
+/** Plan input the solver varies while everything else stays fixed */
+export type GoalSeekVariable = "monthlyContribution" | "payoutStartAge" | "expectedReturn";
+
+export interface GoalSeekTarget {
+  /** "capital" = value at payout start, "netMonthlyPension" = first payout after tax */
+  type: "capital" | "netMonthlyPension";
+  amount: number;
+  /** Whether `amount` is meant in nominal euros or today's purchasing power (default nominal) */
+  view?: ValueView;
+}
+
+export interface GoalSeekOptions {
+  /** Search interval, defaults per variable in GOAL_SEEK_DEFAULT_BOUNDS */
+  bounds?: { min: number; max: number };
+  /** Width of the search interval at which the solver stops (default per variable) */
+  tolerance?: number;
+  maxIterations?: number;
+}
+
+export interface GoalSeekConvergence {
+  converged: boolean;
+  iterations: number;
+  /** Achieved minus target amount at the returned value */
+  residual: number;
+  tolerance: number;
+  bounds: { min: number; max: number };
+}
+
+export interface GoalSeekResult {
+  variable: GoalSeekVariable;
+  target: Required<GoalSeekTarget>;
+  /** Smallest value within the bounds that reaches the target, null if even the upper bound falls short */
+  value: number | null;
+  feasible: boolean;
+  /** Target metric at `value`, or at the upper bound when infeasible */
+  achieved: number;
+  convergence: GoalSeekConvergence;
+  /** Simulation at `value`, or at the upper bound when infeasible */
+  simulation: SimulationResults;
+}
+
+export const GOAL_SEEK_DEFAULT_BOUNDS: Record<GoalSeekVariable, { min: number; max: number }> = {
+  monthlyContribution: { min: 0, max: 10000 },
+  payoutStartAge: { min: 62, max: 85 },
+  // The engine falls back to its default for a return of exactly 0
+  expectedReturn: { min: 0.0001, max: 0.15 },
+};
+
+const DEFAULT_TOLERANCE: Record<GoalSeekVariable, number> = {
+  monthlyContribution: 0.01,
+  payoutStartAge: 1,
+  expectedReturn: 0.00001,
+};
+
+const DEFAULT_MAX_ITERATIONS = 100;
+
+function withVariable(plan: InsertPrivatePensionPlan, variable: GoalSeekVariable, value: number): InsertPrivatePensionPlan {
+  if (variable === "payoutStartAge") {
+    // The payout phase keeps its end age but always lasts at least one year
+    return { ...plan, payoutStartAge: value, payoutEndAge: Math.max(plan.payoutEndAge, value + 1) };
+  }
+  return { ...plan, [variable]: value };
+}
+
+/**
+ * Target metric of a simulation. The net pension is the first payout after
+ * tax, so annuity and flexible withdrawals are compared on the same footing.
+ */
+export function getGoalSeekMetric(results: SimulationResults, target: GoalSeekTarget): number {
+  const real = target.view === "real";
+  if (target.type === "capital") {
+    return real ? results.kpisReal.projectedValue : results.kpis.projectedValue;
+  }
+  const firstPayout = results.seriesPayout[0];
+  if (!firstPayout) return 0;
+  return (real ? firstPayout.real.payout : firstPayout.payout) ?? 0;
+}
+
+/**
+ * Inverts calculatePrivatePension: finds the smallest monthly contribution,
+ * earliest payout start age or lowest expected return with which the plan
+ * reaches the target capital or net monthly pension.
+ *
+ * All three variables raise capital and pension monotonically, so bisection
+ * between the bounds converges. Ages are searched in whole years.
+ */
+export function solveGoalSeek(
+  plan: InsertPrivatePensionPlan,
+  variable: GoalSeekVariable,
+  target: GoalSeekTarget,
+  options: GoalSeekOptions = {}
+): GoalSeekResult {
+  const resolvedTarget: Required<GoalSeekTarget> = { view: "nominal", ...target };
+  const isAge = variable === "payoutStartAge";
+  const defaults = GOAL_SEEK_DEFAULT_BOUNDS[variable];
+  const bounds = { ...(options.bounds ?? defaults) };
+  if (isAge) {
+    // Payout cannot start before the current age, and must start before the end age
+    // - a payout phase without years has no pension to compare
+    bounds.min = Math.ceil(Math.max(bounds.min, plan.currentAge + 1));
+    bounds.max = Math.floor(Math.min(bounds.max, plan.payoutEndAge - 1));
+  }
+  const tolerance = isAge ? 1 : options.tolerance ?? DEFAULT_TOLERANCE[variable];
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+
+  const evaluate = (value: number) => {
+    const simulation = calculatePrivatePension(withVariable(plan, variable, value));
+    return { simulation, achieved: getGoalSeekMetric(simulation, resolvedTarget) };
+  };
+
+  const result = (value: number | null, at: ReturnType<typeof evaluate>, iterations: number, converged: boolean): GoalSeekResult => ({
+    variable,
+    target: resolvedTarget,
+    value,
+    feasible: value !== null,
+    achieved: at.achieved,
+    convergence: {
+      converged,
+      iterations,
+      residual: at.achieved - resolvedTarget.amount,
+      tolerance,
+      bounds,
+    },
+    simulation: at.simulation,
+  });
+
+  if (bounds.min > bounds.max) {
+    return result(null, evaluate(Math.max(bounds.min, bounds.max)), 0, false);
+  }
+
+  const atMin = evaluate(bounds.min);
+  if (atMin.achieved >= resolvedTarget.amount) {
+    return result(bounds.min, atMin, 0, true);
+  }
+  const atMax = evaluate(bounds.max);
+  if (atMax.achieved < resolvedTarget.amount) {
+    return result(null, atMax, 0, false);
+  }
+
+  // Invariant: low misses the target, high reaches it
+  let low = bounds.min;
+  let high = bounds.max;
+  let atHigh = atMax;
+  let iterations = 0;
+  while (high - low > tolerance && iterations < maxIterations) {
+    iterations++;
+    const mid = isAge ? Math.floor((low + high) / 2) : (low + high) / 2;
+    const atMid = evaluate(mid);
+    if (atMid.achieved >= resolvedTarget.amount) {
+      high = mid;
+      atHigh = atMid;
+    } else {
+      low = mid;
+    }
+  }
+
+  return result(high, atHigh, iterations, high - low <= tolerance);
+}
@@ -0,0 +1,159 @@
+import type {
+  HouseholdMember,
+  HouseholdProfile,
+  InsertHouseholdMember,
+  InsertHouseholdProfile,
+} from "@shared/schema";
+import type { OnboardingData, OtherIncomeType } from "@/types/onboarding";
+
+export type HouseholdPerson = "A" | "B";
+
+export type HouseholdProfileFields = Omit<InsertHouseholdProfile, "id" | "scenarioId" | "createdAt" | "updatedAt">;
+export type HouseholdMemberFields = Omit<InsertHouseholdMember, "id" | "profileId" | "createdAt" | "updatedAt">;
+
+export interface HouseholdRecords {
+  profile: HouseholdProfileFields;
+  members: HouseholdMemberFields[];
+}
+
+type Suffix = "" | "_A" | "_B";
+
+/**
+ * The wizard stores per-person values with _A/_B suffixes only when both
+ * spouses are calculated; otherwise the unsuffixed fields describe person A.
+ */
+export function isCoupleCalculation(data: Pick<OnboardingData, "personal">): boolean {
+  return data.personal.maritalStatus === "verheiratet" && data.personal.calcScope === "beide_personen";
+}
+
+function suffixesFor(data: Pick<OnboardingData, "personal">): [HouseholdPerson, Suffix][] {
+  return isCoupleCalculation(data) ? [["A", "_A"], ["B", "_B"]] : [["A", ""]];
+}
+
+function read<T>(section: object, key: string, suffix: Suffix): T | null {
+  return ((section as Record<string, T | undefined>)[`${key}${suffix}`]) ?? null;
+}
+
+function memberFromOnboarding(data: OnboardingData, person: HouseholdPerson, suffix: Suffix): HouseholdMemberFields {
+  return {
+    person,
+    // Person A's age also lives on the profile; the spouse's only here
+    age: person === "B" ? data.personal.age_B ?? null : data.personal.age ?? null,
+    retirementAge: read<number>(data.personal, "retirementAge", suffix),
+    netMonthly: read<number>(data.income, "netMonthly", suffix),
+    grossAnnual: read<number>(data.income, "grossAnnual", suffix),
+    hasOtherIncome: read<boolean>(data.otherIncome, "has", suffix) ?? false,
+    otherIncomeType: read<OtherIncomeType>(data.otherIncome, "type", suffix),
+    otherIncomeMonthly: read<number>(data.otherIncome, "amountMonthly", suffix),
+    publicPension67: read<number>(data.pensions, "public67", suffix),
+    entgeltpunkte: read<number>(data.pensions, "entgeltpunkte", suffix),
+    civilServantPension67: read<number>(data.pensions, "civil67", suffix),
+    professionalPension67: read<number>(data.pensions, "profession67", suffix),
+    zvkVblPension67: read<number>(data.pensions, "zvkVbl67", suffix),
+    privatePensionContribution: read<number>(data.privatePension, "contribution", suffix),
+    riesterContribution: read<number>(data.riester, "amount", suffix),
+    ruerupContribution: read<number>(data.ruerup, "amount", suffix),
+    occupationalPensionContribution: read<number>(data.occupationalPension, "amount", suffix),
+    lifeInsuranceSum: read<number>(data.lifeInsurance, "sum", suffix),
+    fundsBalance: read<number>(data.funds, "balance", suffix),
+    savingsBalance: read<number>(data.savings, "balance", suffix),
+  };
+}
+
+/**
+ * Splits onboarding data into the household_profiles row and one
+ * household_members row per calculated person.
+ */
+export function toHouseholdRecords(data: OnboardingData): HouseholdRecords {
+  const { personal, mortgage } = data;
+  return {
+    profile: {
+      birthYear: personal.birthYear ?? null,
+      age: personal.age ?? null,
+      maritalStatus: personal.maritalStatus ?? null,
+      hasChildren: personal.children.has,
+      childrenCount: personal.children.count ?? null,
+      calcScope: personal.calcScope ?? null,
+      inflationRate: personal.inflationRate ?? null,
+      hasMortgage: mortgage.has,
+      mortgageRemainingDebt: mortgage.remainingDebtNow ?? null,
+      mortgageFixationEndYear: mortgage.fixationEndYear ?? null,
+      mortgageRemainingDebtAtFixationEnd: mortgage.remainingDebtAtFixationEnd ?? null,
+      mortgageInterestRate: mortgage.interestRate ?? null,
+      completedAt: data.completedAt ? new Date(data.completedAt) : null,
+    },
+    members: suffixesFor(data).map(([person, suffix]) => memberFromOnboarding(data, person, suffix)),
+  };
+}
+
+/**
+ * Rebuilds the wizard's OnboardingData from the stored rows.
+ */
+export function toOnboardingData(profile: HouseholdProfile, members: HouseholdMember[]): OnboardingData {
+  const data: OnboardingData = {
+    personal: {
+      birthYear: profile.birthYear ?? undefined,
+      age: profile.age ?? undefined,
+      maritalStatus: (profile.maritalStatus ?? undefined) as OnboardingData["personal"]["maritalStatus"],
+      children: { has: profile.hasChildren, count: profile.childrenCount ?? undefined },
+      calcScope: (profile.calcScope ?? undefined) as OnboardingData["personal"]["calcScope"],
+      inflationRate: profile.inflationRate ?? undefined,
+    },
+    income: {},
+    otherIncome: { has: false },
+    pensions: {},
+    privatePension: {},
+    riester: {},
+    ruerup: {},
+    occupationalPension: {},
+    lifeInsurance: {},
+    funds: {},
+    savings: {},
+    mortgage: {
+      has: profile.hasMortgage,
+      remainingDebtNow: profile.mortgageRemainingDebt ?? undefined,
+      fixationEndYear: profile.mortgageFixationEndYear ?? undefined,
+      remainingDebtAtFixationEnd: profile.mortgageRemainingDebtAtFixationEnd ?? undefined,
+      interestRate: profile.mortgageInterestRate ?? undefined,
+    },
+    completedAt: profile.completedAt?.toISOString(),
+  };
+
+  const write = (section: object, key: string, suffix: Suffix, value: unknown) => {
+    if (value !== null && value !== undefined) {
+      (section as Record<string, unknown>)[`${key}${suffix}`] = value;
+    }
+  };
+
+  for (const [person, suffix] of suffixesFor(data)) {
+    const member = members.find((candidate) => candidate.person === person);
+    if (!member) continue;
+
+    if (person === "B") write(data.personal, "age", suffix, member.age);
+    write(data.personal, "retirementAge", suffix, member.retirementAge);
+    write(data.income, "netMonthly", suffix, member.netMonthly);
+    write(data.income, "grossAnnual", suffix, member.grossAnnual);
+    write(data.otherIncome, "has", suffix, member.hasOtherIncome);
+    write(data.otherIncome, "type", suffix, member.otherIncomeType);
+    write(data.otherIncome, "amountMonthly", suffix, member.otherIncomeMonthly);
+    write(data.pensions, "public67", suffix, member.publicPension67);
+    write(data.pensions, "entgeltpunkte", suffix, member.entgeltpunkte);
+    write(data.pensions, "civil67", suffix, member.civilServantPension67);
+    write(data.pensions, "profession67", suffix, member.professionalPension67);
+    write(data.pensions, "zvkVbl67", suffix, member.zvkVblPension67);
+    write(data.privatePension, "contribution", suffix, member.privatePensionContribution);
+    write(data.riester, "amount", suffix, member.riesterContribution);
+    write(data.ruerup, "amount", suffix, member.ruerupContribution);
+    write(data.occupationalPension, "amount", suffix, member.occupationalPensionContribution);
+    write(data.lifeInsurance, "sum", suffix, member.lifeInsuranceSum);
+    write(data.funds, "balance", suffix, member.fundsBalance);
+    write(data.savings, "balance", suffix, member.savingsBalance);
+  }
+
+  // The unsuffixed flag is required by the wizard; for couples it means "anyone has other income"
+  if (isCoupleCalculation(data)) {
+    data.otherIncome.has = Boolean(data.otherIncome.has_A || data.otherIncome.has_B);
+  }
+
+  return data;
+}
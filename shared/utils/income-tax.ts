@@ -0,0 +1,373 @@
+/**
+ * German income tax assessment (Einkommensteuerveranlagung)
+ *
+ * Follows the BMF Programmablaufplan for the tariff (UPTAB) with the §32a EStG
+ * parameters of each year from the parameter registry:
+ * Arbeitslohn → Werbungskosten → Gesamtbetrag der Einkünfte → Sonderausgaben /
+ * Vorsorgeaufwendungen / außergewöhnliche Belastungen → Einkommen →
+ * Günstigerprüfung Kindergeld vs. Kinderfreibeträge (§31 EStG) → zvE → tariff.
+ *
+ * Simplifications: all children qualify for the full year, one Zusatzbeitrag
+ * (the average) for everyone, no Progressionsvorbehalt, no Altersentlastungsbetrag.
+ */
+
+import {
+  CURRENT_TAX_YEAR,
+  getGovernmentParameters,
+  type GovernmentParameters,
+  type IncomeTaxTariff,
+} from '@/data/governmentParameters';
+
+/** "single" = Grundtarif, "joint" = Zusammenveranlagung with Splittingtarif */
+export type IncomeTaxAssessment = 'single' | 'joint';
+
+export interface IncomeTaxEarner {
+  /** Annual gross wages (Arbeitslohn) */
+  grossWages: number;
+  /** Actual Werbungskosten, the Arbeitnehmer-Pauschbetrag applies if higher */
+  werbungskosten?: number;
+  /** Other positive income (Einkünfte, already net of their expenses) */
+  otherIncome?: number;
+  /** Member of the statutory pension insurance (default true) */
+  statutoryPensionInsured?: boolean;
+  /** Member of the statutory health insurance (default true) */
+  statutoryHealthInsured?: boolean;
+}
+
+export interface IncomeTaxInput {
+  /** Tax year (defaults to the current year, future years are projected) */
+  taxYear?: number;
+  assessment: IncomeTaxAssessment;
+  taxpayer: IncomeTaxEarner;
+  /** Spouse for joint assessment */
+  spouse?: IncomeTaxEarner;
+  /** Children entitled to Kindergeld */
+  children?: number;
+  /**
+   * Share of the child allowances and Kindergeld attributable to this assessment.
+   * Defaults to 1 for joint assessment and 0.5 for single parents (§32 Abs.6 S.1 EStG).
+   */
+  childAllowanceShare?: number;
+  /** Sonderausgaben other than Vorsorgeaufwendungen, the Pauschbetrag applies if higher */
+  sonderausgaben?: number;
+  /** Deductible Vorsorgeaufwendungen, defaults to the Vorsorgepauschale */
+  vorsorgeaufwendungen?: number;
+  /** Deductible part of further Vorsorgeaufwendungen such as Rürup contributions */
+  additionalPensionContributions?: number;
+  /** Außergewöhnliche Belastungen after the zumutbare Belastung */
+  extraordinaryExpenses?: number;
+  /** Church tax rate as decimal (0.08 / 0.09), 0 = no church tax */
+  churchTaxRate?: number;
+}
+
+export interface Vorsorgepauschale {
+  pension: number;
+  health: number;
+  longTermCare: number;
+  /** true when the Mindestvorsorgepauschale replaced health + long-term care */
+  minimumApplied: boolean;
+  total: number;
+}
+
+export interface Guenstigerpruefung {
+  /** Kindergeld attributable to this assessment */
+  kindergeld: number;
+  /** Kinderfreibetrag + Betreuungsfreibetrag attributable to this assessment */
+  childAllowances: number;
+  taxWithoutAllowances: number;
+  taxWithAllowances: number;
+  /** Tax relief of the allowances compared with Kindergeld */
+  taxRelief: number;
+  /** true when the allowances are more favourable and Kindergeld is added back */
+  allowancesApplied: boolean;
+}
+
+export interface IncomeTaxResult {
+  taxYear: number;
+  assessment: IncomeTaxAssessment;
+  grossIncome: number;
+  werbungskosten: number;
+  /** Gesamtbetrag der Einkünfte */
+  totalIncome: number;
+  vorsorgeaufwendungen: number;
+  /** null when the Vorsorgeaufwendungen were given explicitly */
+  vorsorgepauschale: Vorsorgepauschale | null;
+  sonderausgaben: number;
+  extraordinaryExpenses: number;
+  /** Einkommen before child allowances */
+  income: number;
+  /** zvE used for the festzusetzende Einkommensteuer */
+  taxableIncome: number;
+  guenstigerpruefung: Guenstigerpruefung;
+  /** Festzusetzende Einkommensteuer incl. Kindergeld Hinzurechnung */
+  incomeTax: number;
+  /** Bemessungsgrundlage for Soli and church tax (§51a EStG, always with child allowances) */
+  surchargeBase: number;
+  solidaritySurcharge: number;
+  churchTax: number;
+  totalTax: number;
+  /** Gross income minus total tax, Kindergeld not included */
+  netIncome: number;
+  /** Percent of gross income */
+  averageTaxRate: number;
+  /** Percent, for one additional euro of zvE */
+  marginalTaxRate: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+const floorCents = (value: number) => Math.floor(roundCents(value * 100)) / 100;
+
+/**
+ * §32a Abs.1 EStG tariff for a full-euro zvE (PAP UPTAB), before rounding.
+ * Projected tariffs scale all thresholds with tariff.indexFactor.
+ */
+function applyTariff(x: number, tariff: IncomeTaxTariff): number {
+  const scaled = x / tariff.indexFactor;
+  let tax: number;
+
+  if (scaled <= tariff.basicAllowance) {
+    tax = 0;
+  } else if (scaled <= tariff.zone1End) {
+    const y = (scaled - tariff.basicAllowance) / 10000;
+    tax = (tariff.zone1Factor * y + 1400) * y;
+  } else if (scaled <= tariff.zone2End) {
+    const z = (scaled - tariff.zone1End) / 10000;
+    tax = (tariff.zone2Factor * z + 2397) * z + tariff.zone2Constant;
+  } else if (scaled <= tariff.zone3End) {
+    tax = 0.42 * scaled - tariff.zone3Offset;
+  } else {
+    tax = 0.45 * scaled - tariff.zone4Offset;
+  }
+
+  return tax * tariff.indexFactor;
+}
+
+/**
+ * Tariff income tax in full euros. The zvE is rounded down to full euros,
+ * with splitting the tax on half the zvE is doubled (§32a Abs.5 EStG).
+ */
+export function calculateTariffTax(
+  taxableIncome: number,
+  assessment: IncomeTaxAssessment,
+  taxYear: number = CURRENT_TAX_YEAR
+): number {
+  const tariff = getGovernmentParameters(taxYear).tax.incomeTaxTariff;
+  const zvE = Math.max(0, taxableIncome);
+  if (assessment === 'joint') {
+    return 2 * Math.floor(applyTariff(Math.floor(zvE / 2), tariff));
+  }
+  return Math.floor(applyTariff(Math.floor(zvE), tariff));
+}
+
+/**
+ * Marginal rate (Grenzsteuersatz) in percent from the derivative of the tariff.
+ */
+export function calculateMarginalTaxRate(
+  taxableIncome: number,
+  assessment: IncomeTaxAssessment,
+  taxYear: number = CURRENT_TAX_YEAR
+): number {
+  const tariff = getGovernmentParameters(taxYear).tax.incomeTaxTariff;
+  const x = (assessment === 'joint' ? taxableIncome / 2 : taxableIncome) / tariff.indexFactor;
+
+  if (x <= tariff.basicAllowance) return 0;
+  if (x <= tariff.zone1End) {
+    const y = (x - tariff.basicAllowance) / 10000;
+    return (2 * tariff.zone1Factor * y + 1400) / 100;
+  }
+  if (x <= tariff.zone2End) {
+    const z = (x - tariff.zone1End) / 10000;
+    return (2 * tariff.zone2Factor * z + 2397) / 100;
+  }
+  return x <= tariff.zone3End ? 42 : 45;
+}
+
+/**
+ * Solidaritätszuschlag on the §51a base: nothing up to the Freigrenze, then at
+ * most 11.9% of the excess (Milderungszone, §4 S.2 SolzG), capped at 5.5%.
+ */
+export function calculateSolidaritySurcharge(
+  surchargeBase: number,
+  assessment: IncomeTaxAssessment,
+  taxYear: number = CURRENT_TAX_YEAR
+): number {
+  const params = getGovernmentParameters(taxYear).tax;
+  const exemption = params.solidaritySurchargeExemptionSingle * (assessment === 'joint' ? 2 : 1);
+  if (surchargeBase <= exemption) return 0;
+
+  const fullSurcharge = surchargeBase * params.solidaritySurchargeRate;
+  const phasedSurcharge = (surchargeBase - exemption) * 0.119;
+  return floorCents(Math.min(fullSurcharge, phasedSurcharge));
+}
+
+/**
+ * Income tax + Soli caused by `extra` on top of the zvE `base`, e.g. a
+ * pension payout or a deduction (base lowered by the deduction).
+ */
+export function calculateAdditionalIncomeTax(
+  base: number,
+  extra: number,
+  assessment: IncomeTaxAssessment,
+  taxYear: number = CURRENT_TAX_YEAR
+): number {
+  const taxOf = (zvE: number) => {
+    const tax = calculateTariffTax(zvE, assessment, taxYear);
+    return tax + calculateSolidaritySurcharge(tax, assessment, taxYear);
+  };
+  return taxOf(Math.max(0, base) + extra) - taxOf(Math.max(0, base));
+}
+
+/**
+ * Vorsorgepauschale for one employee (§39b Abs.2 S.5 Nr.3 EStG): employee share of
+ * pension, health and long-term care insurance on wages up to the ceilings.
+ */
+export function calculateVorsorgepauschale(
+  earner: IncomeTaxEarner,
+  params: GovernmentParameters,
+  options: { childless: boolean; soleEarnerJoint: boolean }
+): Vorsorgepauschale {
+  const social = params.socialInsurance;
+  const wages = Math.max(0, earner.grossWages);
+
+  const pensionWages = Math.min(wages, params.pension.pensionInsuranceCeilingAnnual);
+  const pension = earner.statutoryPensionInsured === false
+    ? 0
+    : pensionWages * (social.pensionRate / 2) * params.tax.ruerupDeductibleRate;
+
+  let health = 0;
+  let longTermCare = 0;
+  if (earner.statutoryHealthInsured !== false) {
+    const healthWages = Math.min(wages, social.healthInsuranceCeilingAnnual);
+    health = healthWages * ((social.healthRateReduced + social.healthAdditionalRateAverage) / 2);
+    longTermCare = healthWages * (
+      social.longTermCareRate / 2 + (options.childless ? social.longTermCareChildlessSurcharge : 0)
+    );
+  }
+
+  let minimumApplied = false;
+  const minimum = social.minimumVorsorgepauschale;
+  if (minimum) {
+    const cap = options.soleEarnerJoint ? minimum.capJoint : minimum.capSingle;
+    const minimumAmount = Math.min(wages * minimum.rate, cap);
+    if (minimumAmount > health + longTermCare) {
+      health = minimumAmount;
+      longTermCare = 0;
+      minimumApplied = true;
+    }
+  }
+
+  return {
+    pension: roundCents(pension),
+    health: roundCents(health),
+    longTermCare: roundCents(longTermCare),
+    minimumApplied,
+    total: Math.ceil(pension + health + longTermCare),
+  };
+}
+
+/**
+ * Full income tax assessment including Soli and church tax.
+ */
+export function calculateIncomeTaxAssessment(input: IncomeTaxInput): IncomeTaxResult {
+  const {
+    assessment,
+    taxpayer,
+    children = 0,
+    sonderausgaben = 0,
+    additionalPensionContributions = 0,
+    extraordinaryExpenses = 0,
+    churchTaxRate = 0,
+    taxYear = CURRENT_TAX_YEAR,
+  } = input;
+  const params = getGovernmentParameters(taxYear);
+  const earners = assessment === 'joint' && input.spouse ? [taxpayer, input.spouse] : [taxpayer];
+  const persons = assessment === 'joint' ? 2 : 1;
+
+  // Einkünfte aus nichtselbständiger Arbeit: the Pauschbetrag cannot create a loss
+  let grossIncome = 0;
+  let werbungskosten = 0;
+  for (const earner of earners) {
+    const wages = Math.max(0, earner.grossWages);
+    const costs = Math.max(earner.werbungskosten ?? 0, Math.min(params.tax.arbeitnehmerPauschbetrag, wages));
+    grossIncome += wages + Math.max(0, earner.otherIncome ?? 0);
+    werbungskosten += Math.min(costs, wages);
+  }
+  const totalIncome = grossIncome - werbungskosten;
+
+  let vorsorgepauschale: Vorsorgepauschale | null = null;
+  let vorsorgeaufwendungen = input.vorsorgeaufwendungen;
+  if (vorsorgeaufwendungen === undefined) {
+    const wageEarners = earners.filter((earner) => earner.grossWages > 0);
+    const parts = wageEarners.map((earner) =>
+      calculateVorsorgepauschale(earner, params, {
+        childless: children === 0,
+        soleEarnerJoint: assessment === 'joint' && wageEarners.length === 1,
+      })
+    );
+    vorsorgepauschale = parts.reduce<Vorsorgepauschale>(
+      (sum, part) => ({
+        pension: roundCents(sum.pension + part.pension),
+        health: roundCents(sum.health + part.health),
+        longTermCare: roundCents(sum.longTermCare + part.longTermCare),
+        minimumApplied: sum.minimumApplied || part.minimumApplied,
+        total: sum.total + part.total,
+      }),
+      { pension: 0, health: 0, longTermCare: 0, minimumApplied: false, total: 0 }
+    );
+    vorsorgeaufwendungen = vorsorgepauschale.total;
+  }
+  vorsorgeaufwendungen += Math.max(0, additionalPensionContributions);
+
+  const appliedSonderausgaben = Math.max(sonderausgaben, params.tax.sonderausgabenPauschbetrag * persons);
+  const income = Math.max(
+    0,
+    totalIncome - appliedSonderausgaben - vorsorgeaufwendungen - Math.max(0, extraordinaryExpenses)
+  );
+
+  // Günstigerprüfung (§31 EStG): the allowances only apply if they save more than Kindergeld
+  const childShare = input.childAllowanceShare ?? (assessment === 'joint' ? 1 : 0.5);
+  const childAllowances = children * (params.tax.kinderfreibetrag + params.tax.betreuungsfreibetrag) * childShare;
+  const kindergeld = children * params.tax.kindergeldMonthly * 12 * childShare;
+  const incomeWithAllowances = Math.max(0, income - childAllowances);
+  const taxWithoutAllowances = calculateTariffTax(income, assessment, taxYear);
+  const taxWithAllowances = calculateTariffTax(incomeWithAllowances, assessment, taxYear);
+  const taxRelief = taxWithoutAllowances - taxWithAllowances;
+  const allowancesApplied = children > 0 && taxRelief > kindergeld;
+
+  const incomeTax = allowancesApplied ? taxWithAllowances + kindergeld : taxWithoutAllowances;
+  const surchargeBase = taxWithAllowances;
+  const solidaritySurcharge = calculateSolidaritySurcharge(surchargeBase, assessment, taxYear);
+  const churchTax = floorCents(surchargeBase * churchTaxRate);
+  const totalTax = roundCents(incomeTax + solidaritySurcharge + churchTax);
+  const taxableIncome = allowancesApplied ? incomeWithAllowances : income;
+
+  return {
+    taxYear,
+    assessment,
+    grossIncome,
+    werbungskosten,
+    totalIncome,
+    vorsorgeaufwendungen,
+    vorsorgepauschale,
+    sonderausgaben: appliedSonderausgaben,
+    extraordinaryExpenses: Math.max(0, extraordinaryExpenses),
+    income,
+    taxableIncome,
+    guenstigerpruefung: {
+      kindergeld,
+      childAllowances,
+      taxWithoutAllowances,
+      taxWithAllowances,
+      taxRelief,
+      allowancesApplied,
+    },
+    incomeTax,
+    surchargeBase,
+    solidaritySurcharge,
+    churchTax,
+    totalTax,
+    netIncome: roundCents(grossIncome - totalTax),
+    averageTaxRate: grossIncome > 0 ? (totalTax / grossIncome) * 100 : 0,
+    marginalTaxRate: calculateMarginalTaxRate(taxableIncome, assessment, taxYear),
+  };
+}
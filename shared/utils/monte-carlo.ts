@@ -0,0 +1,262 @@
+import type { InsertPrivatePensionPlan } from "@shared/schema";
+import {
+  applyValueView,
+  getDeflator,
+  simulatePensionPath,
+  type SimulationResults,
+  type SimulationPoint,
+  type ValueView,
+} from "./financial-calculator";
+
+export interface MonteCarloOptions {
+  /** Number of simulated return paths */
+  runs?: number;
+  /** Seed for the pseudo random generator - identical seeds give identical results */
+  seed?: number;
+}
+
+export interface PercentileBandPoint {
+  year: number;
+  month: number;
+  age: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface PercentileSummary {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloResults {
+  /** Deterministic projection on the expected return, for reference */
+  deterministic: SimulationResults;
+  bands: {
+    seriesAnspar: PercentileBandPoint[];
+    seriesPayout: PercentileBandPoint[];
+  };
+  maturityValue: PercentileSummary;
+  /** Share of runs reaching targetMaturityValue at payout start (null without target) */
+  probabilityOfTarget: number | null;
+  /** Share of runs in which the planned pension exhausts the portfolio before payoutEndAge */
+  ruinProbability: number;
+  /** Median age at which ruined runs ran out of money */
+  medianRuinAge: number | null;
+  runs: number;
+  seed: number;
+}
+
+export const DEFAULT_MONTE_CARLO_RUNS = 1000;
+export const DEFAULT_MONTE_CARLO_SEED = 42;
+
+/**
+ * Mulberry32 - small, fast 32-bit PRNG. Good enough for simulations and,
+ * unlike Math.random, reproducible across server and browser.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal draws via Box-Muller, caching the second value.
+ */
+function createNormalGenerator(random: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    let u = 0;
+    while (u === 0) u = random();
+    const v = random();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spare = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+}
+
+/**
+ * Monthly return generator for one path.
+ *
+ * Log returns are normal with monthly sigma = volatility / sqrt(12), and the
+ * drift is chosen so the expected annual growth equals 1 + expectedReturn.
+ * Without rebalancing the risky share drifts with performance: after strong
+ * markets the portfolio carries more volatility, after weak markets less.
+ */
+function createReturnPath(
+  plan: InsertPrivatePensionPlan,
+  normal: () => number
+): (month: number) => number {
+  const expectedReturn = plan.expectedReturn || 0.075;
+  const monthlySigma = (plan.volatility ?? 0.18) / Math.sqrt(12);
+  const monthlyDrift = Math.log(1 + expectedReturn) / 12;
+  const rebalancing = plan.rebalancingEnabled ?? true;
+
+  let pathIndex = 1;
+  let expectedIndex = 1;
+
+  return (month: number) => {
+    let sigma = monthlySigma;
+    if (!rebalancing && month > 0) {
+      const drift = Math.min(1.5, Math.max(0.5, pathIndex / expectedIndex));
+      sigma = monthlySigma * drift;
+    }
+    const logReturn = monthlyDrift - (sigma * sigma) / 2 + sigma * normal();
+    const monthlyReturn = Math.exp(logReturn) - 1;
+
+    pathIndex *= 1 + monthlyReturn;
+    expectedIndex *= Math.exp(monthlyDrift);
+    return monthlyReturn;
+  };
+}
+
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const weight = rank - lower;
+  return sorted[lower] * (1 - weight) + sorted[upper] * weight;
+}
+
+function summarize(values: Float64Array): PercentileSummary {
+  const sorted = Float64Array.from(values).sort();
+  return {
+    p5: percentile(sorted, 0.05),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p95: percentile(sorted, 0.95),
+  };
+}
+
+function buildBands(template: SimulationPoint[], samples: Float64Array[]): PercentileBandPoint[] {
+  return template.map((point, index) => ({
+    year: point.year,
+    month: point.month,
+    age: point.age,
+    ...summarize(samples[index]),
+  }));
+}
+
+/**
+ * Seeded Monte Carlo simulation of a private pension plan.
+ *
+ * Every run replays calculatePrivatePension with a random return path using the
+ * plan's volatility. In the payout phase each run withdraws the pension that
+ * the deterministic projection promises, so the ruin probability answers
+ * "how likely is it that this pension cannot be paid until payoutEndAge".
+ */
+export function runMonteCarloSimulation(
+  plan: InsertPrivatePensionPlan,
+  options: MonteCarloOptions = {}
+): MonteCarloResults {
+  const runs = Math.max(1, Math.floor(options.runs ?? DEFAULT_MONTE_CARLO_RUNS));
+  const seed = options.seed ?? DEFAULT_MONTE_CARLO_SEED;
+
+  const deterministic = simulatePensionPath(plan);
+  const plannedPayout = deterministic.kpis.monthlyPension;
+
+  const ansparSamples = deterministic.seriesAnspar.map(() => new Float64Array(runs));
+  const payoutSamples = deterministic.seriesPayout.map(() => new Float64Array(runs));
+  const maturityValues = new Float64Array(runs);
+  const ruinAges: number[] = [];
+  let targetHits = 0;
+
+  const normal = createNormalGenerator(createSeededRandom(seed));
+
+  for (let run = 0; run < runs; run++) {
+    const path = simulatePensionPath(plan, {
+      monthlyReturn: createReturnPath(plan, normal),
+      fixedMonthlyPayout: plannedPayout,
+    });
+
+    path.seriesAnspar.forEach((point, index) => {
+      ansparSamples[index][run] = point.portfolioValue;
+    });
+    // Depleted runs stop early - the remaining months stay at 0
+    path.seriesPayout.forEach((point, index) => {
+      if (index < payoutSamples.length) payoutSamples[index][run] = point.portfolioValue;
+    });
+
+    maturityValues[run] = path.kpis.projectedValue;
+    if (plan.targetMaturityValue && path.kpis.projectedValue >= plan.targetMaturityValue) {
+      targetHits++;
+    }
+    if (path.depletedAtAge !== null) {
+      ruinAges.push(path.depletedAtAge);
+    }
+  }
+
+  ruinAges.sort((a, b) => a - b);
+
+  return {
+    deterministic: {
+      seriesAnspar: deterministic.seriesAnspar,
+      seriesPayout: deterministic.seriesPayout,
+      kpis: deterministic.kpis,
+      kpisReal: deterministic.kpisReal,
+      inflationRate: deterministic.inflationRate,
+      annuity: deterministic.annuity,
+    },
+    bands: {
+      seriesAnspar: buildBands(deterministic.seriesAnspar, ansparSamples),
+      seriesPayout: buildBands(deterministic.seriesPayout, payoutSamples),
+    },
+    maturityValue: summarize(maturityValues),
+    probabilityOfTarget: plan.targetMaturityValue ? targetHits / runs : null,
+    ruinProbability: ruinAges.length / runs,
+    medianRuinAge: ruinAges.length > 0 ? ruinAges[Math.floor(ruinAges.length / 2)] : null,
+    runs,
+    seed,
+  };
+}
+
+function deflateSummary<T extends PercentileSummary>(summary: T, deflator: number): T {
+  return {
+    ...summary,
+    p5: summary.p5 / deflator,
+    p25: summary.p25 / deflator,
+    p50: summary.p50 / deflator,
+    p75: summary.p75 / deflator,
+    p95: summary.p95 / deflator,
+  };
+}
+
+/**
+ * Monte Carlo results in the selected view. Real values use the same monthly
+ * deflator as the deterministic series; the payout bands continue the month
+ * count of the accumulation phase.
+ */
+export function applyMonteCarloValueView(results: MonteCarloResults, view: ValueView): MonteCarloResults {
+  if (view === "nominal") return results;
+  const { inflationRate } = results.deterministic;
+  const deflatorAt = (month: number) => getDeflator(inflationRate, (month + 1) / 12);
+  const ansparMonths = results.bands.seriesAnspar.length;
+  return {
+    ...results,
+    deterministic: applyValueView(results.deterministic, view),
+    bands: {
+      seriesAnspar: results.bands.seriesAnspar.map((band, index) => deflateSummary(band, deflatorAt(index))),
+      seriesPayout: results.bands.seriesPayout.map((band, index) =>
+        deflateSummary(band, deflatorAt(ansparMonths + index))
+      ),
+    },
+    maturityValue: deflateSummary(results.maturityValue, deflatorAt(ansparMonths - 1)),
+  };
+}
@@ -0,0 +1,503 @@
+/**
+ * Mortgage (Annuitätendarlehen) amortisation and follow-up financing
+ *
+ * - Monthly Tilgungsplan from January of the start year: constant payment,
+ *   interest on the balance, the rest repays the loan
+ * - The payment is given or derived from the remaining debt the bank states
+ *   for the end of the fixation (end of fixationEndYear)
+ * - Anschlussfinanzierung: after the fixation the balance continues at the
+ *   follow-up rate, with the old payment, a new payment or a new initial
+ *   repayment rate (anfängliche Tilgung)
+ * - Sondertilgung every December, during a fixation limited to the contractual
+ *   share of the balance at its start, and an optional lump sum at its end
+ * - Pay down vs. invest: the same yearly budget either repays the loan early
+ *   or goes into a fund savings plan; freed-up payments are invested as well
+ *
+ * Simplifications: one follow-up fixation until the loan is repaid, no
+ * Bereitstellungszinsen or Vorfälligkeitsentschädigung, the fund is taxed once
+ * at the horizon (no Vorabpauschale).
+ */
+
+import { CURRENT_TAX_YEAR, EQUITY_FUND_PARTIAL_EXEMPTION } from "@/data/governmentParameters";
+import { DEFAULT_TAX_SETTINGS, getEffectiveTaxRate, type TaxSettings } from "./germanTaxCalculations";
+import type { CashflowEntry } from "./cashflow-ledger";
+
+export interface MortgageFollowUpTerms {
+  /** Interest rate of the Anschlussfinanzierung in percent p.a. */
+  interestRate: number;
+  /** New monthly payment, takes precedence over initialRepaymentRate */
+  monthlyPayment?: number;
+  /** Anfängliche Tilgung in percent p.a.; without it the payment stays the same */
+  initialRepaymentRate?: number;
+}
+
+export interface SpecialRepaymentOptions {
+  /** Sondertilgung paid every December */
+  annualAmount: number;
+  /** Contractual limit per year as share of the balance at the start of the fixation, e.g. 0.05 */
+  annualLimitRate?: number;
+  /** Lump sum at the end of the current fixation */
+  atFixationEnd?: number;
+  fromYear?: number;
+  toYear?: number;
+}
+
+export interface MortgageInput {
+  remainingDebt: number;
+  /** Interest rate of the current fixation in percent p.a. */
+  interestRate: number;
+  fixationEndYear: number;
+  /** Restschuld at the end of the fixation, used to derive the payment */
+  remainingDebtAtFixationEnd?: number;
+  monthlyPayment?: number;
+  /** First year of the schedule, it starts in January (default: current year) */
+  startYear?: number;
+  /** Terms after the fixation (default: same rate and payment) */
+  followUp?: MortgageFollowUpTerms;
+  specialRepayment?: SpecialRepaymentOptions;
+}
+
+export interface MortgageMonth {
+  year: number;
+  /** 1 = January */
+  month: number;
+  interestRate: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  specialRepayment: number;
+  balance: number;
+}
+
+export interface MortgageYear {
+  year: number;
+  interest: number;
+  principal: number;
+  specialRepayment: number;
+  /** Regular payments plus Sondertilgung */
+  payments: number;
+  balance: number;
+}
+
+export interface MortgagePlan {
+  monthlyPayment: number;
+  followUpMonthlyPayment: number;
+  followUpInterestRate: number;
+  months: MortgageMonth[];
+  years: MortgageYear[];
+  remainingDebtAtFixationEnd: number;
+  /** null when the loan is not repaid within MAX_YEARS */
+  debtFreeYear: number | null;
+  debtFreeMonth: number | null;
+  totalInterest: number;
+  totalSpecialRepayments: number;
+  totalPayments: number;
+}
+
+export interface MortgageRateScenario {
+  id: string;
+  label: string;
+  interestRate: number;
+}
+
+export interface MortgageScenarioResult {
+  scenario: MortgageRateScenario;
+  plan: MortgagePlan;
+}
+
+export interface PayDownVsInvestInput extends MortgageInput {
+  /** Extra money per year: Sondertilgung or fund savings */
+  annualAmount: number;
+  /** Year at whose end both variants are compared, e.g. the retirement year */
+  horizonYear: number;
+  /** Annual fund return after costs (default 5%) */
+  expectedReturn?: number;
+  taxSettings?: TaxSettings;
+}
+
+export interface PayDownVsInvestVariant {
+  plan: MortgagePlan;
+  depotValue: number;
+  depotContributions: number;
+  depotTax: number;
+  remainingDebt: number;
+  /** Depot after tax minus remaining debt at the horizon */
+  netWorth: number;
+  totalInterest: number;
+}
+
+export interface PayDownVsInvestResult {
+  horizonYear: number;
+  payDown: PayDownVsInvestVariant;
+  invest: PayDownVsInvestVariant;
+  better: "payDown" | "invest";
+  /** Net worth advantage of the better variant */
+  advantage: number;
+  /** Return the fund needs after costs to match paying down */
+  breakEvenReturn: number | null;
+}
+
+const MAX_YEARS = 60;
+const DEFAULT_INITIAL_REPAYMENT_RATE = 2;
+const DEFAULT_FUND_RETURN = 0.05;
+const BALANCE_EPSILON = 0.005;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Monthly payment that reduces `debt` to `remainingDebt` in `months` at the
+ * nominal rate `interestRate` (percent p.a., monthly compounding).
+ */
+export function calculateAnnuityPayment(
+  debt: number,
+  interestRate: number,
+  months: number,
+  remainingDebt: number = 0
+): number {
+  if (months <= 0) return 0;
+  const q = 1 + interestRate / 100 / 12;
+  if (q === 1) return (debt - remainingDebt) / months;
+  const qn = Math.pow(q, months);
+  return ((debt * qn - remainingDebt) * (q - 1)) / (qn - 1);
+}
+
+/**
+ * Monthly payment from the interest rate plus the anfängliche Tilgung.
+ */
+export function calculatePaymentFromRepaymentRate(debt: number, interestRate: number, repaymentRate: number): number {
+  return (debt * (interestRate + repaymentRate)) / 100 / 12;
+}
+
+export function getFixationMonths(startYear: number, fixationEndYear: number): number {
+  return Math.max(0, (fixationEndYear - startYear + 1) * 12);
+}
+
+/**
+ * Monthly Tilgungsplan until the loan is repaid.
+ */
+export function calculateMortgagePlan(input: MortgageInput): MortgagePlan {
+  const { remainingDebt, interestRate, fixationEndYear, specialRepayment } = input;
+  const startYear = input.startYear ?? CURRENT_TAX_YEAR;
+  const fixationMonths = getFixationMonths(startYear, fixationEndYear);
+
+  const monthlyPayment = input.monthlyPayment ?? (
+    input.remainingDebtAtFixationEnd !== undefined && fixationMonths > 0
+      ? calculateAnnuityPayment(remainingDebt, interestRate, fixationMonths, input.remainingDebtAtFixationEnd)
+      : calculatePaymentFromRepaymentRate(remainingDebt, interestRate, DEFAULT_INITIAL_REPAYMENT_RATE)
+  );
+  const followUpInterestRate = input.followUp?.interestRate ?? interestRate;
+
+  const months: MortgageMonth[] = [];
+  let balance = Math.max(0, remainingDebt);
+  let payment = monthlyPayment;
+  let rate = interestRate;
+  let fixationStartBalance = balance;
+  let remainingDebtAtFixationEnd = 0;
+  let followUpMonthlyPayment = monthlyPayment;
+  let debtFreeYear: number | null = balance <= BALANCE_EPSILON ? startYear : null;
+  let debtFreeMonth: number | null = debtFreeYear !== null ? 1 : null;
+
+  for (let index = 0; index < MAX_YEARS * 12 && balance > BALANCE_EPSILON; index++) {
+    const year = startYear + Math.floor(index / 12);
+    const month = (index % 12) + 1;
+
+    // Anschlussfinanzierung starts with the first month after the fixation
+    if (index === fixationMonths && index > 0) {
+      rate = followUpInterestRate;
+      fixationStartBalance = balance;
+      if (input.followUp?.monthlyPayment !== undefined) {
+        payment = input.followUp.monthlyPayment;
+      } else if (input.followUp?.initialRepaymentRate !== undefined) {
+        payment = calculatePaymentFromRepaymentRate(balance, rate, input.followUp.initialRepaymentRate);
+      }
+      followUpMonthlyPayment = payment;
+    }
+
+    const interest = (balance * rate) / 100 / 12;
+    const regular = Math.min(payment, balance + interest);
+    const principal = regular - interest;
+    balance -= principal;
+
+    let special = 0;
+    const inSpecialPeriod =
+      specialRepayment !== undefined &&
+      year >= (specialRepayment.fromYear ?? startYear) &&
+      year <= (specialRepayment.toYear ?? Infinity);
+    if (specialRepayment && inSpecialPeriod && month === 12) {
+      const limit = specialRepayment.annualLimitRate !== undefined
+        ? fixationStartBalance * specialRepayment.annualLimitRate
+        : Infinity;
+      special += Math.min(specialRepayment.annualAmount, limit);
+    }
+    if (specialRepayment?.atFixationEnd && index === fixationMonths - 1) {
+      special += specialRepayment.atFixationEnd;
+    }
+    special = Math.min(Math.max(0, special), Math.max(0, balance));
+    balance -= special;
+
+    if (index === fixationMonths - 1) remainingDebtAtFixationEnd = Math.max(0, balance);
+    if (balance <= BALANCE_EPSILON && debtFreeYear === null) {
+      debtFreeYear = year;
+      debtFreeMonth = month;
+    }
+
+    months.push({
+      year,
+      month,
+      interestRate: rate,
+      payment: roundCents(regular),
+      interest: roundCents(interest),
+      principal: roundCents(principal),
+      specialRepayment: roundCents(special),
+      balance: roundCents(Math.max(0, balance)),
+    });
+  }
+
+  const yearMap = new Map<number, MortgageYear>();
+  for (const entry of months) {
+    const row = yearMap.get(entry.year) ?? {
+      year: entry.year,
+      interest: 0,
+      principal: 0,
+      specialRepayment: 0,
+      payments: 0,
+      balance: 0,
+    };
+    row.interest += entry.interest;
+    row.principal += entry.principal;
+    row.specialRepayment += entry.specialRepayment;
+    row.payments += entry.payment + entry.specialRepayment;
+    row.balance = entry.balance;
+    yearMap.set(entry.year, row);
+  }
+  const years = Array.from(yearMap.values()).map((row) => ({
+    ...row,
+    interest: roundCents(row.interest),
+    principal: roundCents(row.principal),
+    specialRepayment: roundCents(row.specialRepayment),
+    payments: roundCents(row.payments),
+  }));
+
+  return {
+    monthlyPayment: roundCents(monthlyPayment),
+    followUpMonthlyPayment: roundCents(followUpMonthlyPayment),
+    followUpInterestRate,
+    months,
+    years,
+    remainingDebtAtFixationEnd: roundCents(fixationMonths > months.length ? balance : remainingDebtAtFixationEnd),
+    debtFreeYear,
+    debtFreeMonth,
+    totalInterest: roundCents(years.reduce((sum, row) => sum + row.interest, 0)),
+    totalSpecialRepayments: roundCents(years.reduce((sum, row) => sum + row.specialRepayment, 0)),
+    totalPayments: roundCents(years.reduce((sum, row) => sum + row.payments, 0)),
+  };
+}
+
+/**
+ * Follow-up rates around the current rate: unchanged, 1 pp lower, 2 and 4 pp higher.
+ */
+export function getDefaultFollowUpScenarios(currentRate: number): MortgageRateScenario[] {
+  return [
+    { id: "falling", label: "Zinsen fallen (-1 pp)", interestRate: Math.max(0.5, currentRate - 1) },
+    { id: "unchanged", label: "Zinsen unverändert", interestRate: currentRate },
+    { id: "rising", label: "Zinsen steigen (+2 pp)", interestRate: currentRate + 2 },
+    { id: "stress", label: "Stresstest (+4 pp)", interestRate: currentRate + 4 },
+  ];
+}
+
+/**
+ * One plan per follow-up rate; the other follow-up terms are kept.
+ */
+export function calculateFollowUpScenarios(
+  input: MortgageInput,
+  scenarios: MortgageRateScenario[] = getDefaultFollowUpScenarios(input.interestRate)
+): MortgageScenarioResult[] {
+  return scenarios.map((scenario) => ({
+    scenario,
+    plan: calculateMortgagePlan({
+      ...input,
+      followUp: { ...input.followUp, interestRate: scenario.interestRate },
+    }),
+  }));
+}
+
+/**
+ * Regular payments plus Sondertilgung of `year` (0 before the start and after repayment).
+ */
+export function getMortgagePaymentsInYear(plan: MortgagePlan, year: number): number {
+  return plan.years.find((row) => row.year === year)?.payments ?? 0;
+}
+
+function getBalanceAtEndOf(plan: MortgagePlan, year: number, remainingDebt: number): number {
+  const rows = plan.years.filter((row) => row.year <= year);
+  if (rows.length === 0) return remainingDebt;
+  return rows[rows.length - 1].balance;
+}
+
+function compareAtReturn(input: PayDownVsInvestInput, expectedReturn: number) {
+  const { annualAmount, horizonYear, specialRepayment, ...mortgage } = input;
+  const startYear = input.startYear ?? CURRENT_TAX_YEAR;
+  const taxSettings = input.taxSettings ?? DEFAULT_TAX_SETTINGS;
+
+  // Both plans keep the lump sum at the end of the fixation, only the yearly amount differs
+  const investPlan = calculateMortgagePlan({
+    ...mortgage,
+    specialRepayment: specialRepayment?.atFixationEnd
+      ? { annualAmount: 0, atFixationEnd: specialRepayment.atFixationEnd }
+      : undefined,
+  });
+  const payDownPlan = calculateMortgagePlan({
+    ...mortgage,
+    specialRepayment: { ...specialRepayment, annualAmount },
+  });
+
+  // Both households spend the invest variant's payments plus the extra amount every year
+  const variant = (plan: MortgagePlan): PayDownVsInvestVariant => {
+    let depotValue = 0;
+    let depotContributions = 0;
+    for (let year = startYear; year <= horizonYear; year++) {
+      const budget = getMortgagePaymentsInYear(investPlan, year) + annualAmount;
+      const contribution = Math.max(0, budget - getMortgagePaymentsInYear(plan, year));
+      // Contributions are spread over the year: half a year of return on average
+      depotValue = depotValue * (1 + expectedReturn) + contribution * (1 + expectedReturn / 2);
+      depotContributions += contribution;
+    }
+    // The savings plan is an equity ETF unless the caller sets its own Teilfreistellung
+    const partialExemption = input.taxSettings?.partialExemption ?? EQUITY_FUND_PARTIAL_EXEMPTION;
+    const taxableGain = Math.max(0, (depotValue - depotContributions) * (1 - partialExemption) - taxSettings.allowance);
+    const depotTax = (taxableGain * getEffectiveTaxRate(taxSettings)) / 100;
+    const remainingDebt = getBalanceAtEndOf(plan, horizonYear, input.remainingDebt);
+    return {
+      plan,
+      depotValue: roundCents(depotValue),
+      depotContributions: roundCents(depotContributions),
+      depotTax: roundCents(depotTax),
+      remainingDebt,
+      netWorth: roundCents(depotValue - depotTax - remainingDebt),
+      totalInterest: roundCents(
+        plan.years.filter((row) => row.year <= horizonYear).reduce((sum, row) => sum + row.interest, 0)
+      ),
+    };
+  };
+
+  return { payDown: variant(payDownPlan), invest: variant(investPlan) };
+}
+
+/**
+ * Sondertilgung vs. investing the same amount until the horizon year.
+ */
+export function comparePayDownVsInvest(input: PayDownVsInvestInput): PayDownVsInvestResult {
+  const expectedReturn = input.expectedReturn ?? DEFAULT_FUND_RETURN;
+  const { payDown, invest } = compareAtReturn(input, expectedReturn);
+  const better = invest.netWorth > payDown.netWorth ? "invest" : "payDown";
+
+  // Bisection on the fund return where both variants end with the same net worth
+  const gap = (rate: number) => {
+    const result = compareAtReturn(input, rate);
+    return result.invest.netWorth - result.payDown.netWorth;
+  };
+  let breakEvenReturn: number | null = null;
+  let low = -0.05;
+  let high = 0.2;
+  if (gap(low) * gap(high) <= 0) {
+    for (let i = 0; i < 60 && high - low > 1e-6; i++) {
+      const mid = (low + high) / 2;
+      if (gap(low) * gap(mid) <= 0) high = mid;
+      else low = mid;
+    }
+    breakEvenReturn = Math.round(((low + high) / 2) * 10000) / 10000;
+  }
+
+  return {
+    horizonYear: input.horizonYear,
+    payDown,
+    invest,
+    better,
+    advantage: roundCents(Math.abs(invest.netWorth - payDown.netWorth)),
+    breakEvenReturn,
+  };
+}
+
+/**
+ * Ledger entries: payments incl. Sondertilgung as debt service, the balance at year end as liability.
+ */
+export function mortgageCashflows(plan: MortgagePlan, options: { product?: string; owner?: string } = {}): CashflowEntry[] {
+  const { product = "mortgage", owner } = options;
+  return plan.years.flatMap((row): CashflowEntry[] => [
+    { year: row.year, product, type: "debtService", amount: row.payments, owner },
+    { year: row.year, product, type: "liability", amount: row.balance, owner },
+  ]).filter((entry) => entry.amount !== 0);
+}
+
+export interface MortgageAnalysisInput extends MortgageInput {
+  /** Follow-up rate scenarios (default: getDefaultFollowUpScenarios) */
+  scenarios?: MortgageRateScenario[];
+  retirementYear?: number;
+  payDownVsInvest?: {
+    annualAmount: number;
+    expectedReturn?: number;
+    /** Default: retirement year */
+    horizonYear?: number;
+    taxSettings?: TaxSettings;
+  };
+}
+
+export interface MortgageRetirementCashflow {
+  retirementYear: number;
+  /** Balance at the end of the year before retirement */
+  remainingDebtAtRetirement: number;
+  debtFreeBeforeRetirement: boolean;
+  /** Average regular monthly payment in the retirement year, without Sondertilgung */
+  monthlyHousingCost: number;
+  /** Payments from the retirement year until the loan is repaid */
+  paymentsInRetirement: number;
+}
+
+export interface MortgageAnalysis {
+  plan: MortgagePlan;
+  scenarios: MortgageScenarioResult[];
+  retirement: MortgageRetirementCashflow | null;
+  payDownVsInvest: PayDownVsInvestResult | null;
+}
+
+/**
+ * Mortgage payments that continue into retirement.
+ */
+export function getMortgageRetirementCashflow(
+  plan: MortgagePlan,
+  retirementYear: number,
+  remainingDebt: number
+): MortgageRetirementCashflow {
+  const remainingDebtAtRetirement = getBalanceAtEndOf(plan, retirementYear - 1, remainingDebt);
+  const retirementRow = plan.years.find((row) => row.year === retirementYear);
+  return {
+    retirementYear,
+    remainingDebtAtRetirement,
+    debtFreeBeforeRetirement: plan.debtFreeYear !== null && plan.debtFreeYear < retirementYear,
+    monthlyHousingCost: retirementRow ? roundCents((retirementRow.payments - retirementRow.specialRepayment) / 12) : 0,
+    paymentsInRetirement: roundCents(
+      plan.years.filter((row) => row.year >= retirementYear).reduce((sum, row) => sum + row.payments, 0)
+    ),
+  };
+}
+
+/**
+ * Tilgungsplan, follow-up scenarios, retirement cashflow and optionally the
+ * pay down vs. invest comparison in one call.
+ */
+export function analyzeMortgage(input: MortgageAnalysisInput): MortgageAnalysis {
+  const { scenarios, retirementYear, payDownVsInvest, ...mortgage } = input;
+  const plan = calculateMortgagePlan(mortgage);
+  const horizonYear = payDownVsInvest?.horizonYear ?? retirementYear;
+
+  return {
+    plan,
+    scenarios: calculateFollowUpScenarios(mortgage, scenarios),
+    retirement: retirementYear !== undefined
+      ? getMortgageRetirementCashflow(plan, retirementYear, mortgage.remainingDebt)
+      : null,
+    payDownVsInvest: payDownVsInvest && horizonYear !== undefined
+      ? comparePayDownVsInvest({ ...mortgage, ...payDownVsInvest, horizonYear })
+      : null,
+  };
+}
@@ -4,44 +4,75 @@
  * Implements German pension calculation formulas per:
  * - EStG (Einkommensteuergesetz)
  * - InvStG (Investmentsteuergesetz)
- * - BMF Guidelines 2024
+ * - BMF Guidelines (year-specific values from the parameter registry)
  *
  * All calculations maintain full precision until final display.
  * Tolerance: ±0.01 EUR for monetary values
  */
 
-import { GOVERNMENT_PARAMETERS_2024 } from '@/data/governmentParameters';
+import {
+  CURRENT_TAX_YEAR,
+  FIRST_PARAMETER_YEAR,
+  getGovernmentParameters,
+} from '@/data/governmentParameters';
+import { getErtragsanteil } from './germanTaxCalculations';
+import {
+  calculateAdditionalIncomeTax,
+  calculateIncomeTaxAssessment,
+  type IncomeTaxAssessment,
+} from './income-tax';
 
 // ============================================================================
 // RIESTER PENSION CALCULATOR (§10a, §79ff EStG)
 // ============================================================================
 
+export type RiesterEligibility = 'direct' | 'indirect';
+
 export interface RiesterInput {
   grossAnnualIncome: number;  // EUR/year
   children: number;           // Count of eligible children
   contribution: number;       // EUR/year (user contribution)
   childrenBornAfter2008?: number; // Count (300 EUR/child)
+  year?: number;              // Tax year (defaults to current year)
+  priorYearIncome?: number;   // EUR/year - beitragspflichtige Einnahmen of the prior year (defaults to grossAnnualIncome)
+  age?: number;               // Age at the start of the contribution year
+  firstContributionYear?: boolean; // First year with Grundzulage (Berufseinsteigerbonus)
+  eligibility?: RiesterEligibility; // 'indirect' = mittelbar zulageberechtigter Ehepartner (§79 S.2 EStG)
+  spouseMinimumRatio?: number; // Indirect only: share of the Mindesteigenbeitrag the directly eligible spouse paid (0-1)
+  taxableIncome?: number;     // EUR/year - zvE for the Günstigerprüfung (estimated from grossAnnualIncome if omitted)
+  assessment?: IncomeTaxAssessment;
 }
 
 export interface RiesterResult {
   grundzulage: number;           // EUR/year - Basic subsidy
   kinderzulage: number;          // EUR/year - Child subsidy
+  berufseinsteigerbonus: number; // EUR - One-time bonus in the first year
   totalSubsidy: number;          // EUR/year - Total government subsidy
-  requiredContribution: number;  // EUR/year - Minimum required
+  requiredContribution: number;  // EUR/year - Mindesteigenbeitrag
   effectiveContribution: number; // EUR/year - After capping at max
   netCost: number;               // EUR/year - User cost after subsidies
   subsidyRate: number;           // Percentage - Subsidy as % of contribution
   isValid: boolean;              // Whether meets minimum contribution
   validationMessage?: string;
+  zulagenReductionFactor: number; // Share of the Zulagen granted (< 1 below the Mindesteigenbeitrag)
+  sonderausgabenabzug: number;   // EUR/year - Deduction for the Günstigerprüfung
+  taxSavings: number;            // EUR/year - Income tax + Soli saved by the deduction
+  additionalTaxBenefit: number;  // EUR/year - Refund beyond the Zulagen
+  totalBenefit: number;          // EUR/year - Zulagen + additional tax benefit
 }
 
 /**
  * Calculate Riester pension subsidies and net cost
  *
  * Formula:
- *   Required Contribution = max(60 EUR, 4% × Gross Income)
- *   Grundzulage = 175 EUR (2024)
+ *   Mindesteigenbeitrag = max(60 EUR, min(4% × Prior-Year Income, 2100 EUR) - Zulagen)
+ *   Grundzulage = 175 EUR (+ 200 EUR Berufseinsteigerbonus once before age 25)
  *   Kinderzulage = 300 EUR per child born after 2008, 185 EUR for older children
+ *   Zulagen are cut in proportion when the Mindesteigenbeitrag is not reached
+ *   Indirectly eligible spouses need the 60 EUR Sockelbetrag and get the
+ *   Zulagen in the ratio the directly eligible spouse reached their minimum
+ *   Günstigerprüfung: min(Contribution + Zulagen, 2100 EUR) is deducted as
+ *   Sonderausgabe; tax savings beyond the Zulagen are refunded
  *   Net Cost = Contribution - Total Subsidy
  *
  * Legal basis: §10a EStG, §79ff EStG
@@ -52,41 +83,75 @@ export function calculateRiester(input: RiesterInput): RiesterResult {
     children,
     contribution,
     childrenBornAfter2008 = children, // Default: assume all children born after 2008
+    year = CURRENT_TAX_YEAR,
+    priorYearIncome = grossAnnualIncome,
+    eligibility = 'direct',
+    assessment = 'single',
   } = input;
 
-  // Constants (2024)
-  const GRUNDZULAGE = 175; // EUR/year
-  const KINDERZULAGE_NEW = 300; // EUR/year for children born after 2008
-  const KINDERZULAGE_OLD = 185; // EUR/year for children born before 2008
-  const MIN_CONTRIBUTION = 60; // EUR/year absolute minimum
-  const MAX_CONTRIBUTION = 2100; // EUR/year maximum
-  const REQUIRED_PERCENT = 0.04; // 4% of gross income
-
-  // Calculate required contribution (4% rule)
-  const requiredContribution = Math.max(
-    MIN_CONTRIBUTION,
-    grossAnnualIncome * REQUIRED_PERCENT
-  );
+  const riester = getGovernmentParameters(year).pension.riester;
+  const GRUNDZULAGE = riester.grundzulage; // EUR/year
+  const KINDERZULAGE_NEW = riester.kinderzulageBornAfter2008; // EUR/year for children born after 2008
+  const KINDERZULAGE_OLD = riester.kinderzulageBornBefore2008; // EUR/year for children born before 2008
+  const MIN_CONTRIBUTION = riester.minContribution; // EUR/year Sockelbetrag
+  const MAX_CONTRIBUTION = riester.maxContribution; // EUR/year maximum
+  const REQUIRED_PERCENT = riester.requiredIncomeShare; // 4% of prior-year income
 
   // Calculate subsidies
+  const berufseinsteigerbonus =
+    input.firstContributionYear && input.age !== undefined && input.age < riester.berufseinsteigerMaxAge
+      ? riester.berufseinsteigerbonus
+      : 0;
   const grundzulage = GRUNDZULAGE;
   const childrenOld = Math.max(0, children - childrenBornAfter2008);
   const kinderzulage =
     (childrenBornAfter2008 * KINDERZULAGE_NEW) +
     (childrenOld * KINDERZULAGE_OLD);
-  const totalSubsidy = grundzulage + kinderzulage;
+  const fullSubsidy = grundzulage + berufseinsteigerbonus + kinderzulage;
+
+  // Mindesteigenbeitrag (§86 EStG) - the indirectly eligible spouse only needs the Sockelbetrag
+  const requiredContribution = eligibility === 'indirect'
+    ? MIN_CONTRIBUTION
+    : Math.max(
+        MIN_CONTRIBUTION,
+        Math.min(priorYearIncome * REQUIRED_PERCENT, MAX_CONTRIBUTION) - fullSubsidy
+      );
 
   // Cap contribution at maximum
   const effectiveContribution = Math.min(contribution, MAX_CONTRIBUTION);
 
-  // Validate minimum contribution requirement
+  // Validate minimum contribution requirement, Zulagen are reduced in proportion
   const isValid = effectiveContribution >= requiredContribution;
+  const ownRatio = Math.min(1, effectiveContribution / requiredContribution);
+  const zulagenReductionFactor = eligibility === 'indirect'
+    ? (isValid ? Math.min(1, Math.max(0, input.spouseMinimumRatio ?? 1)) : 0)
+    : ownRatio;
+  const totalSubsidy = fullSubsidy * zulagenReductionFactor;
   const validationMessage = !isValid
-    ? `Mindestbeitrag nicht erreicht: ${requiredContribution.toFixed(2)} EUR erforderlich (4% von ${grossAnnualIncome.toFixed(2)} EUR)`
+    ? eligibility === 'indirect'
+      ? `Sockelbetrag nicht erreicht: ${requiredContribution.toFixed(2)} EUR erforderlich für mittelbar Zulageberechtigte`
+      : `Mindestbeitrag nicht erreicht: ${requiredContribution.toFixed(2)} EUR erforderlich (4% von ${priorYearIncome.toFixed(2)} EUR abzüglich Zulagen), Zulagen werden anteilig gekürzt`
     : undefined;
 
-  // Calculate net cost
-  const netCost = Math.max(0, effectiveContribution - totalSubsidy);
+  // Günstigerprüfung (§10a Abs.2 EStG) - the indirect spouse's contributions count in the
+  // directly eligible spouse's assessment
+  let sonderausgabenabzug = 0;
+  let taxSavings = 0;
+  if (eligibility === 'direct' && effectiveContribution > 0) {
+    sonderausgabenabzug = Math.min(effectiveContribution + totalSubsidy, MAX_CONTRIBUTION);
+    const taxableIncome = input.taxableIncome ?? calculateIncomeTaxAssessment({
+      taxYear: year,
+      assessment,
+      taxpayer: { grossWages: grossAnnualIncome },
+      children,
+    }).taxableIncome;
+    taxSavings = calculateAdditionalIncomeTax(taxableIncome - sonderausgabenabzug, sonderausgabenabzug, assessment, year);
+  }
+  const additionalTaxBenefit = Math.max(0, taxSavings - totalSubsidy);
+
+  // Own contribution minus the tax refund beyond the Zulagen; the Zulagen are paid into the
+  // contract on top of the own contribution and do not lower its cost
+  const netCost = Math.max(0, effectiveContribution - additionalTaxBenefit);
 
   // Calculate subsidy rate
   const subsidyRate = effectiveContribution > 0
@@ -96,6 +161,7 @@ export function calculateRiester(input: RiesterInput): RiesterResult {
   return {
     grundzulage,
     kinderzulage,
+    berufseinsteigerbonus,
     totalSubsidy,
     requiredContribution,
     effectiveContribution,
@@ -103,6 +169,148 @@ export function calculateRiester(input: RiesterInput): RiesterResult {
     subsidyRate,
     isValid,
     validationMessage,
+    zulagenReductionFactor,
+    sonderausgabenabzug,
+    taxSavings,
+    additionalTaxBenefit,
+    totalBenefit: totalSubsidy + additionalTaxBenefit,
+  };
+}
+
+export type WohnRiesterTaxMode = 'annual' | 'lumpSum';
+
+export interface WohnRiesterInput {
+  currentAge: number;
+  payoutStartAge: number;      // Agreed start of the payout phase (60-68)
+  eigenheimbetrag?: number;    // EUR - Capital withdrawn for owner-occupied property now
+  annualRepayment?: number;    // EUR/year - Subsidised Tilgung incl. Zulagen until payout start
+  taxMode?: WohnRiesterTaxMode;
+  otherTaxableIncome?: number; // EUR/year - zvE in retirement without Wohn-Riester
+  assessment?: IncomeTaxAssessment;
+  year?: number;               // Tax year of the parameters (defaults to current year)
+}
+
+export interface WohnfoerderkontoYear {
+  age: number;
+  balance: number;             // EUR - At the end of the year
+  taxableAmount: number;       // EUR - Verminderungsbetrag or Einmalbesteuerung
+  tax: number;                 // EUR
+}
+
+export interface WohnRiesterResult {
+  years: WohnfoerderkontoYear[];
+  balanceAtPayoutStart: number;
+  taxMode: WohnRiesterTaxMode;
+  taxableAmount: number;       // EUR - Total taxed over the payout phase
+  totalTax: number;            // EUR
+}
+
+/**
+ * Wohn-Riester: the Wohnförderkonto books the withdrawn Eigenheimbetrag and
+ * subsidised repayments and grows by 2% a year until payout start. From then
+ * it is taxed down evenly until age 85 (Verminderungsbetrag) or once with 70%
+ * of the balance (Einmalbesteuerung; selling the property within 20 years
+ * triggers back taxation, which is not modelled).
+ *
+ * Legal basis: §92a EStG, §22 Nr.5 S.4-6 EStG
+ */
+export function calculateWohnRiester(input: WohnRiesterInput): WohnRiesterResult {
+  const {
+    currentAge,
+    payoutStartAge,
+    eigenheimbetrag = 0,
+    annualRepayment = 0,
+    taxMode = 'annual',
+    otherTaxableIncome = 0,
+    assessment = 'single',
+    year = CURRENT_TAX_YEAR,
+  } = input;
+
+  const riester = getGovernmentParameters(year).pension.riester;
+  const years: WohnfoerderkontoYear[] = [];
+  let balance = eigenheimbetrag;
+
+  // Accumulation: bookings plus the annual increase
+  for (let age = currentAge; age < payoutStartAge; age++) {
+    balance = (balance + annualRepayment) * (1 + riester.wohnfoerderkontoIncrease);
+    years.push({ age, balance, taxableAmount: 0, tax: 0 });
+  }
+  const balanceAtPayoutStart = balance;
+
+  let taxableAmount = 0;
+  let totalTax = 0;
+  if (taxMode === 'lumpSum') {
+    taxableAmount = balanceAtPayoutStart * riester.wohnfoerderkontoLumpSumShare;
+    totalTax = calculateAdditionalIncomeTax(otherTaxableIncome, taxableAmount, assessment, year);
+    years.push({ age: payoutStartAge, balance: 0, taxableAmount, tax: totalTax });
+  } else {
+    const payoutYears = Math.max(1, riester.wohnfoerderkontoEndAge - payoutStartAge);
+    const verminderungsbetrag = balanceAtPayoutStart / payoutYears;
+    const annualTax = calculateAdditionalIncomeTax(otherTaxableIncome, verminderungsbetrag, assessment, year);
+    for (let i = 0; i < payoutYears; i++) {
+      years.push({
+        age: payoutStartAge + i,
+        balance: verminderungsbetrag * (payoutYears - i - 1),
+        taxableAmount: verminderungsbetrag,
+        tax: annualTax,
+      });
+    }
+    taxableAmount = balanceAtPayoutStart;
+    totalTax = annualTax * payoutYears;
+  }
+
+  return { years, balanceAtPayoutStart, taxMode, taxableAmount, totalTax };
+}
+
+export interface RiesterPayoutTaxInput {
+  monthlyPayout: number;       // EUR/month
+  otherTaxableIncome?: number; // EUR/year - zvE from other income in retirement
+  subsidizedShare?: number;    // Share of the capital from subsidised contributions (default 1)
+  ageAtPayoutStart?: number;   // For the Ertragsanteil of the unsubsidised part
+  assessment?: IncomeTaxAssessment;
+  year?: number;
+}
+
+export interface RiesterPayoutTaxResult {
+  annualPayout: number;
+  taxableAmount: number;       // EUR/year - After the Werbungskosten-Pauschbetrag
+  annualTax: number;           // EUR/year - Additional income tax + Soli
+  netMonthlyPayout: number;
+}
+
+// Werbungskosten-Pauschbetrag for pensions, §9a S.1 Nr.3 EStG
+const PENSION_WERBUNGSKOSTEN = 102;
+
+/**
+ * Nachgelagerte Besteuerung of Riester payouts: benefits from subsidised
+ * contributions are fully taxable at the personal rate, the unsubsidised part
+ * of an annuity only with its Ertragsanteil.
+ *
+ * Legal basis: §22 Nr.5 EStG
+ */
+export function calculateRiesterPayoutTax(input: RiesterPayoutTaxInput): RiesterPayoutTaxResult {
+  const {
+    monthlyPayout,
+    otherTaxableIncome = 0,
+    subsidizedShare = 1,
+    ageAtPayoutStart = 67,
+    assessment = 'single',
+    year = CURRENT_TAX_YEAR,
+  } = input;
+
+  const annualPayout = monthlyPayout * 12;
+  const share = Math.min(1, Math.max(0, subsidizedShare));
+  const taxablePayout =
+    annualPayout * share +
+    annualPayout * (1 - share) * (getErtragsanteil(ageAtPayoutStart) / 100);
+  const taxableAmount = Math.max(0, taxablePayout - PENSION_WERBUNGSKOSTEN);
+  const annualTax = calculateAdditionalIncomeTax(otherTaxableIncome, taxableAmount, assessment, year);
+
+  return {
+    annualPayout,
+    taxableAmount,
+    annualTax,
+    netMonthlyPayout: (annualPayout - annualTax) / 12,
   };
 }
 
@@ -115,12 +323,13 @@ export interface OccupationalPensionInput {
   marginalTaxRate: number;     // Decimal (0.14 - 0.45)
   includeEmployerMatch?: boolean;
   employerMatchRate?: number;  // Decimal (e.g., 0.20 for 20% match)
+  year?: number;               // Tax year (defaults to current year)
 }
 
 export interface OccupationalPensionResult {
   monthlyContribution: number;       // EUR/month
   annualContribution: number;        // EUR/year
-  taxFreeContribution: number;       // EUR/year (max 584/month)
+  taxFreeContribution: number;       // EUR/year (max 8% of BBG, e.g. 676/month in 2026)
   taxSavings: number;                // EUR/year
   socialSecuritySavings: number;     // EUR/year (~20%)
   totalSavings: number;              // EUR/year
@@ -135,12 +344,15 @@ export interface OccupationalPensionResult {
  * Calculate occupational pension tax and social security savings
  *
  * Formula:
- *   Tax-Free = min(Monthly Contribution, 584 EUR) × 12
+ *   Tax-Free = min(Monthly Contribution, 8% of BBG / 12) × 12
  *   Tax Savings = Tax-Free × Marginal Tax Rate
  *   Social Security Savings = Tax-Free × ~20% (average rate)
  *   Net Cost = Gross Cost - Total Savings
  *
  * Legal basis: §3 Nr.63 EStG (Entgeltumwandlung)
+ *
+ * Quick estimate at contribution time - calculateBavLifecycle (./bav) adds the
+ * employer subsidy, the statutory pension loss and the taxes and KV/PV in retirement.
  */
 export function calculateOccupationalPension(
   input: OccupationalPensionInput
@@ -150,16 +362,16 @@ export function calculateOccupationalPension(
     marginalTaxRate,
     includeEmployerMatch = false,
     employerMatchRate = 0,
+    year = CURRENT_TAX_YEAR,
   } = input;
 
-  // Constants (2024)
-  const MAX_TAX_FREE_MONTHLY = 584; // EUR/month (§3 Nr.63 EStG)
+  const MAX_TAX_FREE_MONTHLY = getGovernmentParameters(year).pension.occupationalPensionMonthlyExemption; // EUR/month (§3 Nr.63 EStG)
   const SOCIAL_SECURITY_RATE = 0.20; // ~20% average (pension 18.6% + health/care/unemployment)
 
   // Calculate annual values
   const annualContribution = monthlyContribution * 12;
 
-  // Tax-free portion (capped at 584/month = 7,008/year)
+  // Tax-free portion (capped at the monthly §3 Nr.63 limit)
   const taxFreeMonthly = Math.min(monthlyContribution, MAX_TAX_FREE_MONTHLY);
   const taxFreeContribution = taxFreeMonthly * 12;
 
@@ -219,15 +431,15 @@ export interface RuerupResult {
 /**
  * Get Rürup deductible rate for a given year
  *
- * Rate increases by 1% per year from 2005 until reaching 100% in 2025
+ * Rate increased by 2% per year from 60% in 2005; the JStG 2022 made the
+ * contributions fully deductible from 2023. Registry years are read from the
+ * parameter registry.
  *
  * @param year Tax year (2024, 2025, etc.)
- * @returns Deductible rate as decimal (0.96 for 2024, 1.00 for 2025+)
+ * @returns Deductible rate as decimal (0.92 for 2022, 1.00 for 2023+)
  */
 export function getRuerupDeductibleRate(year: number): number {
-  if (year >= 2025) return 1.00; // 100% from 2025 onwards
-  if (year === 2024) return 0.96; // 96%
-  if (year === 2023) return 0.94; // 94%
+  if (year >= FIRST_PARAMETER_YEAR) return getGovernmentParameters(year).tax.ruerupDeductibleRate;
   if (year === 2022) return 0.92; // 92%
   // ... continues down to 2005 at 60%
 
@@ -250,15 +462,14 @@ export function getRuerupDeductibleRate(year: number): number {
  * Legal basis: §10 Abs.3 EStG
  */
 export function calculateRuerupTaxSavings(input: RuerupInput): RuerupResult {
-  const currentYear = new Date().getFullYear();
   const {
     annualContribution,
     taxRate,
-    year = currentYear,
+    year = CURRENT_TAX_YEAR,
   } = input;
 
   // Get year-specific parameters
-  const maxContribution = GOVERNMENT_PARAMETERS_2024.tax.ruerupMaxContribution; // 27,566 for 2024
+  const maxContribution = getGovernmentParameters(year).tax.ruerupMaxContribution; // 27,566 for 2024
   const deductibleRate = getRuerupDeductibleRate(year);
 
   // Calculate deductible amount (capped at max contribution)
@@ -0,0 +1,380 @@
+/**
+ * Pension vs Fund Savings Simulation
+ * Calculates wealth development over time for both products
+ */
+
+import {
+  TaxSettings,
+  PensionData,
+  calculatePensionTax,
+  getTaxSettingsForYear,
+  DEFAULT_TAX_SETTINGS
+} from './germanTaxCalculations';
+import {
+  applyFundReturn,
+  buyFundLot,
+  chargeVorabpauschale,
+  createFundDepot,
+  getDepotValue,
+  previewDepotLiquidation,
+  sellFundFifo
+} from './fund-depot';
+import {
+  calculateRetireeContributions,
+  type RetireeHealthInsuranceStatus
+} from './retiree-health-insurance';
+import type { CashflowEntry } from './cashflow-ledger';
+import { CURRENT_TAX_YEAR } from '@/data/governmentParameters';
+
+export interface SimulationParams {
+  currentAge: number;
+  retirementAge: number;
+  finalAge: number;
+  monthlySavings: number;
+  /** Depot value at the start, bought in January of the first year at today's price */
+  initialInvestment?: number;
+  
+  // Fund parameters
+  expectedReturnPa: number;
+  frontLoad: number;
+  annualMgmtFee: number;
+  /** Gross amount sold from the depot every month from retirementAge on */
+  monthlyWithdrawal?: number;
+  
+  // Tax settings
+  taxSettings: TaxSettings;
+  /** Calendar year of the first simulated year - enables the Basiszins of each year */
+  startYear?: number;
+  
+  // Pension parameters (from existing data)
+  pensionContribution?: number;
+  pensionGuarantee?: number;
+  
+  // Health insurance in retirement - freiwillig Versicherte pay KV/PV on payouts
+  healthInsurance?: RetireeHealthInsuranceStatus;
+  childless?: boolean;
+}
+
+export interface YearlyData {
+  age: number;
+  year: number;
+  
+  // Fund savings
+  fundGrossValue: number;
+  fundNetValue: number;
+  fundTaxPaid: number;
+  fundVorabpauschale: number;
+  fundAllowanceUsed: number;
+  fundWithdrawals: number;
+  /** Tax that selling the whole depot at the start of the next year would cost */
+  fundLiquidationTax: number;
+  /** Unused fund losses (allgemeiner Verlusttopf) */
+  fundLossCarryforward: number;
+  /** KV/PV contributions on withdrawn gains so far */
+  fundSocialContributions: number;
+  
+  // Pension
+  pensionValue: number;
+  pensionTaxPaid: number;
+  /** KV/PV contributions on pension payments so far */
+  pensionSocialContributions: number;
+  
+  // Contributions
+  totalContributions: number;
+}
+
+export interface SimulationResult {
+  yearlyData: YearlyData[];
+  summary: {
+    at67: {
+      fundNetValue: number;
+      pensionValue: number;
+      fundTotalTax: number;
+      pensionTotalTax: number;
+    };
+    at85: {
+      fundNetValue: number;
+      pensionValue: number;
+      fundTotalTax: number;
+      pensionTotalTax: number;
+    };
+  };
+}
+
+/**
+ * Calculate compound growth with monthly contributions
+ */
+function calculateCompoundGrowth(
+  principal: number,
+  monthlyContribution: number,
+  annualRate: number,
+  years: number
+): number {
+  const monthlyRate = annualRate / 12 / 100;
+  const months = years * 12;
+  
+  // Future value of existing principal
+  const principalFV = principal * Math.pow(1 + monthlyRate, months);
+  
+  // Future value of monthly contributions (annuity)
+  const contributionsFV = monthlyContribution * 
+    ((Math.pow(1 + monthlyRate, months) - 1) / monthlyRate);
+  
+  return principalFV + contributionsFV;
+}
+
+/**
+ * KV/PV contributions on a private payout of the year - only freiwillig
+ * Versicherte pay them. The other retirement income is not known here, so
+ * neither the Mindestbemessungsgrundlage nor the ceiling is shared with it.
+ */
+function annualPayoutContributions(params: SimulationParams, annualPayout: number, calendarYear: number): number {
+  if (!params.healthInsurance || annualPayout <= 0) return 0;
+  const contributions = calculateRetireeContributions({
+    status: params.healthInsurance,
+    income: { privatePension: annualPayout / 12 },
+    childless: params.childless,
+    year: calendarYear,
+  });
+  return contributions.byIncome.privatePension * 12;
+}
+
+/**
+ * Simulate fund savings with German tax implications
+ * Every monthly purchase is a lot in the depot ledger: Vorabpauschale is
+ * charged per lot each January, withdrawals sell the oldest lots first.
+ */
+function simulateFundSavings(
+  params: SimulationParams
+): YearlyData[] {
+  const yearlyData: YearlyData[] = [];
+  const depot = createFundDepot({ partialExemption: params.taxSettings.partialExemption });
+  const monthlyReturn = (params.expectedReturnPa - params.annualMgmtFee) / 12 / 100; // Net return after management fees
+  let totalContributions = 0;
+  let totalTaxPaid = 0;
+  let totalVorabpauschale = 0;
+  let totalWithdrawals = 0;
+  let totalSocialContributions = 0;
+  
+  const taxSettingsFor = (calendarYear: number) => params.startYear !== undefined
+    ? getTaxSettingsForYear(params.taxSettings, calendarYear)
+    : params.taxSettings;
+  
+  // Existing holdings are no new contribution
+  if (params.initialInvestment) {
+    buyFundLot(depot, params.startYear ?? 0, 1, params.initialInvestment, 0);
+  }
+  
+  for (let year = 0; year <= params.finalAge - params.currentAge; year++) {
+    const age = params.currentAge + year;
+    const calendarYear = (params.startYear ?? 0) + year;
+    const yearTaxSettings = taxSettingsFor(calendarYear);
+    let withdrawnGains = 0;
+    
+    for (let month = 1; month <= 12; month++) {
+      if (age < params.retirementAge) {
+        buyFundLot(depot, calendarYear, month, params.monthlySavings, params.frontLoad);
+        totalContributions += params.monthlySavings;
+      } else if (params.monthlyWithdrawal) {
+        const sale = sellFundFifo(depot, calendarYear, params.monthlyWithdrawal, yearTaxSettings);
+        totalWithdrawals += sale.proceeds;
+        totalTaxPaid += sale.tax;
+        withdrawnGains += Math.max(0, sale.gain) * (1 - depot.partialExemption);
+      }
+      applyFundReturn(depot, monthlyReturn);
+    }
+    totalSocialContributions += annualPayoutContributions(params, withdrawnGains, calendarYear);
+    
+    // Vorabpauschale of this year, taxed in January of the next year
+    const vorabpauschale = chargeVorabpauschale(depot, calendarYear, yearTaxSettings);
+    totalVorabpauschale += vorabpauschale.vorabpauschale;
+    totalTaxPaid += vorabpauschale.tax;
+    
+    const grossValue = getDepotValue(depot);
+    const liquidation = previewDepotLiquidation(depot, calendarYear + 1, taxSettingsFor(calendarYear + 1));
+    
+    yearlyData.push({
+      age,
+      year,
+      fundGrossValue: grossValue,
+      fundNetValue: grossValue - totalTaxPaid - totalSocialContributions,
+      fundTaxPaid: totalTaxPaid,
+      fundVorabpauschale: totalVorabpauschale,
+      fundAllowanceUsed: Object.values(depot.allowanceUsed).reduce((sum, used) => sum + used, 0),
+      fundWithdrawals: totalWithdrawals,
+      fundLiquidationTax: liquidation.tax,
+      fundLossCarryforward: depot.lossPots.other,
+      fundSocialContributions: totalSocialContributions,
+      pensionValue: 0, // Will be calculated separately
+      pensionTaxPaid: 0,
+      pensionSocialContributions: 0,
+      totalContributions
+    });
+  }
+  
+  return yearlyData;
+}
+
+/**
+ * Simulate pension payments and taxes
+ */
+function simulatePensionPayments(
+  params: SimulationParams,
+  yearlyData: YearlyData[]
+): void {
+  if (!params.pensionContribution || !params.pensionGuarantee) {
+    return; // No pension data available
+  }
+  
+  // Calculate total pension contributions until retirement
+  const contributionYears = params.retirementAge - params.currentAge;
+  const totalPensionContributions = params.pensionContribution * 12 * contributionYears;
+  
+  // Estimate pension value growth (conservative 2-3% annually)
+  const pensionGrowthRate = 2.5;
+  let pensionValue = 0;
+  let totalPensionTax = 0;
+  let totalPensionSocialContributions = 0;
+  
+  yearlyData.forEach((data, index) => {
+    if (data.age < params.retirementAge) {
+      // Accumulation phase: build pension value
+      const yearlyPensionContribution = params.pensionContribution! * 12;
+      pensionValue = calculateCompoundGrowth(
+        pensionValue,
+        params.pensionContribution!,
+        pensionGrowthRate,
+        1
+      );
+      data.pensionValue = pensionValue;
+    } else {
+      // Payment phase: receive pension and pay taxes
+      const monthlyPension = params.pensionGuarantee!;
+      const pensionData: PensionData = {
+        monthlyPension,
+        totalContributions: totalPensionContributions,
+        guaranteedPension: monthlyPension,
+        // The Ertragsanteil is fixed by the age at the start of the annuity
+        age: params.retirementAge
+      };
+      
+      const taxYear = (params.startYear ?? CURRENT_TAX_YEAR) + data.year;
+      const taxResult = calculatePensionTax(pensionData, params.taxSettings, { taxYear });
+      const yearlyPensionTax = taxResult.totalTax;
+      totalPensionTax += yearlyPensionTax;
+      const yearlyContributions = annualPayoutContributions(params, monthlyPension * 12, taxYear);
+      totalPensionSocialContributions += yearlyContributions;
+      
+      // Pension value is the net present value of remaining payments
+      const remainingYears = params.finalAge - data.age;
+      const annualPension = monthlyPension * 12;
+      const netAnnualPension = annualPension - yearlyPensionTax - yearlyContributions;
+      
+      // Simple present value calculation (could be more sophisticated)
+      data.pensionValue = netAnnualPension * remainingYears;
+      data.pensionTaxPaid = totalPensionTax;
+      data.pensionSocialContributions = totalPensionSocialContributions;
+    }
+  });
+}
+
+/**
+ * Run complete simulation for both products
+ */
+export function runPensionComparison(params: SimulationParams): SimulationResult {
+  // Simulate fund savings
+  const yearlyData = simulateFundSavings(params);
+  
+  // Add pension simulation
+  simulatePensionPayments(params, yearlyData);
+  
+  const dataAt67 = yearlyData.find(d => d.age === 67);
+  const dataAt85 = yearlyData.find(d => d.age === 85);
+  
+  // Net value if the whole depot is sold at these ages
+  const fundNetAt67 = dataAt67 ? dataAt67.fundNetValue - dataAt67.fundLiquidationTax : 0;
+  const fundNetAt85 = dataAt85 ? dataAt85.fundNetValue - dataAt85.fundLiquidationTax : 0;
+  
+  return {
+    yearlyData,
+    summary: {
+      at67: {
+        fundNetValue: fundNetAt67,
+        pensionValue: dataAt67?.pensionValue || 0,
+        fundTotalTax: dataAt67?.fundTaxPaid || 0,
+        pensionTotalTax: dataAt67?.pensionTaxPaid || 0
+      },
+      at85: {
+        fundNetValue: fundNetAt85,
+        pensionValue: dataAt85?.pensionValue || 0,
+        fundTotalTax: dataAt85?.fundTaxPaid || 0,
+        pensionTotalTax: dataAt85?.pensionTaxPaid || 0
+      }
+    }
+  };
+}
+
+/**
+ * Ledger entries of both products - the yearly data holds running totals,
+ * the entries are the changes per year. The pension counts as an asset only
+ * until retirement, afterwards it is a payout claim.
+ */
+export function pensionComparisonCashflows(
+  result: SimulationResult,
+  params: SimulationParams
+): CashflowEntry[] {
+  const entries: CashflowEntry[] = [];
+  const firstYear = params.startYear ?? CURRENT_TAX_YEAR;
+  const hasPension = Boolean(params.pensionContribution && params.pensionGuarantee);
+  
+  result.yearlyData.forEach((data, index) => {
+    const previous = index > 0 ? result.yearlyData[index - 1] : undefined;
+    const delta = (field: keyof YearlyData) => data[field] - (previous ? previous[field] : 0);
+    const year = firstYear + data.year;
+    const contribution = delta('totalContributions');
+    
+    entries.push(
+      { year, product: 'fund', type: 'contribution', amount: contribution },
+      { year, product: 'fund', type: 'fee', amount: contribution * params.frontLoad / 100 },
+      { year, product: 'fund', type: 'tax', amount: delta('fundTaxPaid') },
+      { year, product: 'fund', type: 'socialContribution', amount: delta('fundSocialContributions') },
+      { year, product: 'fund', type: 'payout', amount: delta('fundWithdrawals') },
+      { year, product: 'fund', type: 'assetValue', amount: data.fundGrossValue }
+    );
+    
+    if (!hasPension) return;
+    if (data.age < params.retirementAge) {
+      entries.push(
+        { year, product: 'pension', type: 'contribution', amount: params.pensionContribution! * 12 },
+        { year, product: 'pension', type: 'assetValue', amount: data.pensionValue }
+      );
+    } else {
+      entries.push(
+        { year, product: 'pension', type: 'payout', amount: params.pensionGuarantee! * 12 },
+        { year, product: 'pension', type: 'tax', amount: delta('pensionTaxPaid') },
+        { year, product: 'pension', type: 'socialContribution', amount: delta('pensionSocialContributions') }
+      );
+    }
+  });
+  
+  return entries.filter(entry => entry.amount !== 0);
+}
+
+/**
+ * Create default simulation parameters
+ */
+export function createDefaultSimulationParams(
+  overrides: Partial<SimulationParams> = {}
+): SimulationParams {
+  return {
+    currentAge: 30,
+    retirementAge: 67,
+    finalAge: 85,
+    monthlySavings: 300,
+    expectedReturnPa: 7,
+    frontLoad: 0,
+    annualMgmtFee: 0.5,
+    taxSettings: DEFAULT_TAX_SETTINGS,
+    ...overrides
+  };
+}
\ No newline at end of file
@@ -0,0 +1,212 @@
+/**
+ * Health and long-term care contributions on retirement income
+ *
+ * - KVdR (§5 Abs.1 Nr.11 SGB V): statutory pension with half the general KV
+ *   rate + Zusatzbeitrag, the Rentenversicherung pays the other half;
+ *   Versorgungsbezüge (bAV, Beamten- and Versorgungswerk pensions) with the full
+ *   rate once they exceed the Freigrenze, bAV keeps the Freibetrag for KV
+ *   (§226 Abs.2 SGB V); private pensions and other income are contribution-free
+ * - freiwillig versichert (§240 SGB V): all income counts, pensions at the
+ *   general rate, everything else at the reduced rate, at least on the
+ *   Mindestbemessungsgrundlage; the DRV subsidises the pension half (§106 SGB VI)
+ * - PKV: the premium, with the DRV subsidy of at most half the premium
+ * Long-term care is always paid in full by the retiree, plus the surcharge for
+ * childless members born after 1939 (§55 Abs.3 SGB XI).
+ *
+ * Simplifications: one Zusatzbeitrag for all contributions, no PV discount for
+ * children under 25, no Beihilfe calculation (the PKV premium is the retiree's share).
+ */
+
+import { CURRENT_TAX_YEAR, getGovernmentParameters } from "@/data/governmentParameters";
+
+export type RetireeHealthInsuranceStatus = "kvdr" | "voluntary" | "private";
+
+export interface RetireeHealthInsuranceProfile {
+  /** Member of the GKV at retirement */
+  statutoryInsured: boolean;
+  /** 9/10 of the second half of working life in the GKV (default true) */
+  meetsPreInsurancePeriod?: boolean;
+}
+
+/** Monthly gross retirement income by type */
+export interface RetireeMonthlyIncome {
+  statutoryPension?: number;
+  /** bAV incl. ZVK/VBL */
+  occupationalPension?: number;
+  civilServantPension?: number;
+  /** Berufsständische Versorgung */
+  professionalPension?: number;
+  /** Private annuities, Riester, Rürup and fund withdrawals (gains only) */
+  privatePension?: number;
+  /** Rent, capital income and other income */
+  otherIncome?: number;
+}
+
+export type RetireeIncomeType = keyof RetireeMonthlyIncome;
+
+export interface RetireeContributionInput {
+  status: RetireeHealthInsuranceStatus;
+  income: RetireeMonthlyIncome;
+  childless?: boolean;
+  /** Members born before 1940 pay no childless surcharge */
+  birthYear?: number;
+  /** Zusatzbeitrag of the Krankenkasse as decimal (default: average) */
+  additionalRate?: number;
+  /** PKV premium incl. Pflegepflichtversicherung, per month */
+  privatePremium?: number;
+  year?: number;
+}
+
+export interface RetireeContributions {
+  status: RetireeHealthInsuranceStatus;
+  /** Health insurance paid by the retiree before the DRV subsidy */
+  health: number;
+  longTermCare: number;
+  privatePremium: number;
+  /** Beitragszuschuss of the Rentenversicherung (freiwillig / PKV) */
+  pensionSubsidy: number;
+  /** Contributions on the gap up to the Mindestbemessungsgrundlage */
+  minimumBaseTopUp: number;
+  /** Monthly burden: health + long-term care + premium - subsidy */
+  total: number;
+  /**
+   * Contributions on each income type net of the DRV subsidy; the
+   * minimumBaseTopUp and the income-independent PKV premium are not included
+   */
+  byIncome: Record<RetireeIncomeType, number>;
+  grossIncome: number;
+  netIncome: number;
+  netByIncome: Record<RetireeIncomeType, number>;
+  /** Percent of gross income */
+  contributionRate: number;
+}
+
+const INCOME_TYPES: RetireeIncomeType[] = [
+  "statutoryPension",
+  "occupationalPension",
+  "civilServantPension",
+  "professionalPension",
+  "privatePension",
+  "otherIncome",
+];
+const VERSORGUNGSBEZUEGE: RetireeIncomeType[] = ["occupationalPension", "civilServantPension", "professionalPension"];
+const CHILDLESS_SURCHARGE_FROM_BIRTH_YEAR = 1940;
+// Mindestbemessungsgrundlage is 1/3 of the Bezugsgröße, the Versorgungsbezüge allowance 1/20 of it
+const MINIMUM_BASE_PER_ALLOWANCE = 20 / 3;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function emptyByIncome(): Record<RetireeIncomeType, number> {
+  return {
+    statutoryPension: 0,
+    occupationalPension: 0,
+    civilServantPension: 0,
+    professionalPension: 0,
+    privatePension: 0,
+    otherIncome: 0,
+  };
+}
+
+/**
+ * KVdR needs GKV membership and the Vorversicherungszeit, otherwise GKV
+ * members stay freiwillig versichert; PKV members stay private.
+ */
+export function determineRetireeHealthInsurance(profile: RetireeHealthInsuranceProfile): RetireeHealthInsuranceStatus {
+  if (!profile.statutoryInsured) return "private";
+  return profile.meetsPreInsurancePeriod === false ? "voluntary" : "kvdr";
+}
+
+/**
+ * Monthly health and long-term care contributions of a retiree.
+ */
+export function calculateRetireeContributions(input: RetireeContributionInput): RetireeContributions {
+  const { status, childless = false, birthYear, privatePremium = 0, year = CURRENT_TAX_YEAR } = input;
+  const social = getGovernmentParameters(year).socialInsurance;
+  const additionalRate = input.additionalRate ?? social.healthAdditionalRateAverage;
+  const generalRate = social.healthRateGeneral + additionalRate;
+  const reducedRate = social.healthRateReduced + additionalRate;
+  const surcharge = childless && (birthYear ?? CHILDLESS_SURCHARGE_FROM_BIRTH_YEAR) >= CHILDLESS_SURCHARGE_FROM_BIRTH_YEAR
+    ? social.longTermCareChildlessSurcharge
+    : 0;
+  const longTermCareRate = social.longTermCareRate + surcharge;
+  const ceiling = social.healthInsuranceCeilingAnnual / 12;
+  const allowance = social.versorgungsbezuegeAllowanceMonthly;
+
+  const income = emptyByIncome();
+  for (const type of INCOME_TYPES) income[type] = Math.max(0, input.income[type] ?? 0);
+  const grossIncome = INCOME_TYPES.reduce((sum, type) => sum + income[type], 0);
+
+  const byIncome = emptyByIncome();
+  let health = 0;
+  let longTermCare = 0;
+  let pensionSubsidy = 0;
+  let minimumBaseTopUp = 0;
+
+  // Income up to the BBG in the order of §238 SGB V: pension, Versorgungsbezüge, the rest
+  let remainingCeiling = ceiling;
+  const capped = (amount: number) => {
+    const base = Math.min(amount, remainingCeiling);
+    remainingCeiling -= base;
+    return base;
+  };
+
+  if (status === "kvdr") {
+    const pension = capped(income.statutoryPension);
+    health += pension * generalRate / 2;
+    longTermCare += pension * longTermCareRate;
+    byIncome.statutoryPension = pension * (generalRate / 2 + longTermCareRate);
+
+    const versorgungsbezuege = VERSORGUNGSBEZUEGE.reduce((sum, type) => sum + income[type], 0);
+    if (versorgungsbezuege > allowance) {
+      for (const type of VERSORGUNGSBEZUEGE) {
+        const base = capped(income[type]);
+        // Freibetrag for bAV only applies to health insurance
+        const healthBase = type === "occupationalPension" ? Math.max(0, base - allowance) : base;
+        health += healthBase * generalRate;
+        longTermCare += base * longTermCareRate;
+        byIncome[type] = healthBase * generalRate + base * longTermCareRate;
+      }
+    }
+  } else if (status === "voluntary") {
+    for (const type of INCOME_TYPES) {
+      const base = capped(income[type]);
+      const rate = type === "statutoryPension" || VERSORGUNGSBEZUEGE.includes(type) ? generalRate : reducedRate;
+      health += base * rate;
+      longTermCare += base * longTermCareRate;
+      byIncome[type] = base * (rate + longTermCareRate);
+    }
+    const minimumBase = allowance * MINIMUM_BASE_PER_ALLOWANCE;
+    if (grossIncome < minimumBase) {
+      const gap = minimumBase - grossIncome;
+      minimumBaseTopUp = gap * (reducedRate + longTermCareRate);
+      health += gap * reducedRate;
+      longTermCare += gap * longTermCareRate;
+    }
+    pensionSubsidy = Math.min(income.statutoryPension, ceiling) * generalRate / 2;
+    byIncome.statutoryPension -= pensionSubsidy;
+  } else {
+    pensionSubsidy = Math.min(Math.min(income.statutoryPension, ceiling) * generalRate / 2, privatePremium / 2);
+  }
+
+  const total = health + longTermCare + (status === "private" ? privatePremium : 0) - pensionSubsidy;
+  const netByIncome = emptyByIncome();
+  for (const type of INCOME_TYPES) {
+    byIncome[type] = roundCents(byIncome[type]);
+    netByIncome[type] = roundCents(income[type] - byIncome[type]);
+  }
+
+  return {
+    status,
+    health: roundCents(health),
+    longTermCare: roundCents(longTermCare),
+    privatePremium: status === "private" ? privatePremium : 0,
+    pensionSubsidy: roundCents(pensionSubsidy),
+    minimumBaseTopUp: roundCents(minimumBaseTopUp),
+    total: roundCents(total),
+    byIncome,
+    grossIncome: roundCents(grossIncome),
+    netIncome: roundCents(grossIncome - total),
+    netByIncome,
+    contributionRate: grossIncome > 0 ? (total / grossIncome) * 100 : 0,
+  };
+}
@@ -0,0 +1,449 @@
+/**
+ * Income tax of a retired household, year by year
+ *
+ * Taxable part of each source:
+ * - gesetzliche Rente and Rürup (§22 Nr.1 S.3 a aa EStG): the Rentenfreibetrag of
+ *   the start year's cohort stays fixed in euros, later increases are fully taxable
+ * - Beamtenpension and bAV from a Direktzusage / Unterstützungskasse are
+ *   Versorgungsbezüge (§19 Abs.2 EStG): Versorgungsfreibetrag + Zuschlag of the
+ *   start year's cohort, Werbungskosten-Pauschbetrag 102 €
+ * - bAV from Direktversicherung / Pensionskasse / Pensionsfonds and Riester
+ *   (§22 Nr.5 EStG): fully taxable
+ * - private annuities (§22 Nr.1 S.3 a bb EStG): Ertragsanteil by age at start
+ * - one Werbungskosten-Pauschbetrag of 102 € for all §22 income per person
+ * - Altersentlastungsbetrag (§24a EStG) on other income from the year after
+ *   the 64th birthday
+ * Then Sonderausgaben-Pauschbetrag, deductible health/care contributions (given
+ * or from ./retiree-health-insurance) and the tariff of the year incl. Soli and
+ * church tax.
+ *
+ * Simplifications: pensions start in January, the Freibeträge are based on the
+ * first year's pension, no Progressionsvorbehalt.
+ */
+
+import { CURRENT_TAX_YEAR, getGovernmentParameters } from "@/data/governmentParameters";
+import { getBesteuerungsanteil, getErtragsanteil } from "./germanTaxCalculations";
+import {
+  calculateMarginalTaxRate,
+  calculateSolidaritySurcharge,
+  calculateTariffTax,
+  type IncomeTaxAssessment,
+} from "./income-tax";
+import { calculateRetireeContributions, type RetireeHealthInsuranceStatus } from "./retiree-health-insurance";
+
+export type OccupationalPensionType = "insurance" | "direct";
+
+export interface RetireeIncome {
+  birthYear: number;
+  /** Year all pensions of this person start */
+  retirementYear: number;
+  /** Monthly gross amounts in the first year of payment */
+  statutoryPension?: number;
+  civilServantPension?: number;
+  occupationalPension?: number;
+  /** "insurance" = Direktversicherung, Pensionskasse, Pensionsfonds (default); "direct" = Direktzusage, Unterstützungskasse */
+  occupationalPensionType?: OccupationalPensionType;
+  ruerupPension?: number;
+  riesterPension?: number;
+  privateAnnuity?: number;
+  /** Other annual income (Einkünfte after expenses, e.g. rent), grows with inflation */
+  otherIncome?: number;
+  /** Deductible annual health and long-term care contributions in the start year, overrides healthInsurance */
+  healthInsuranceContributions?: number;
+  /** Health insurance in retirement - contributions are calculated from the year's pensions */
+  healthInsurance?: RetireeHealthInsuranceStatus;
+  childless?: boolean;
+  /** Monthly PKV premium in the start year, grows with inflation */
+  privateHealthPremium?: number;
+}
+
+export interface RetirementTaxInput {
+  /** "joint" assesses both persons together, "single" assesses every person on their own */
+  assessment: IncomeTaxAssessment;
+  persons: RetireeIncome[];
+  /** First simulated year (default: first retirement year) */
+  startYear?: number;
+  /** Number of simulated years (default 30) */
+  years?: number;
+  /** Annual increase of statutory and civil servant pensions (default 2%) */
+  pensionIncrease?: number;
+  /** Annual increase of bAV pensions (default 1%, §16 Abs.3 Nr.1 BetrAVG) */
+  occupationalPensionIncrease?: number;
+  /** Inflation for the real values and other income (default 2%) */
+  inflationRate?: number;
+  /** Church tax rate as decimal (0.08 / 0.09) */
+  churchTaxRate?: number;
+  /** Real values are in prices of this year (default: current year) */
+  priceBaseYear?: number;
+}
+
+export interface RetirementIncomeBreakdown {
+  statutoryPension: number;
+  civilServantPension: number;
+  occupationalPension: number;
+  ruerupPension: number;
+  riesterPension: number;
+  privateAnnuity: number;
+  otherIncome: number;
+  total: number;
+}
+
+export interface RetirementTaxYear {
+  year: number;
+  ages: number[];
+  gross: RetirementIncomeBreakdown;
+  /** Taxable part of every source before Pauschbeträge */
+  taxable: RetirementIncomeBreakdown;
+  werbungskosten: number;
+  altersentlastungsbetrag: number;
+  /** Gesamtbetrag der Einkünfte */
+  totalIncome: number;
+  sonderausgaben: number;
+  healthInsuranceContributions: number;
+  taxableIncome: number;
+  incomeTax: number;
+  solidaritySurcharge: number;
+  churchTax: number;
+  totalTax: number;
+  /** Gross income minus taxes and health/care contributions */
+  netIncome: number;
+  netIncomeMonthly: number;
+  /** netIncome in prices of priceBaseYear */
+  realNetIncome: number;
+  realNetIncomeMonthly: number;
+  /** Percent of gross income */
+  averageTaxRate: number;
+  /** Percent, highest of the assessed persons for "single" */
+  marginalTaxRate: number;
+}
+
+export interface RetirementTaxResult {
+  years: RetirementTaxYear[];
+  summary: {
+    totalGross: number;
+    totalTax: number;
+    totalNetIncome: number;
+    totalRealNetIncome: number;
+    averageTaxRate: number;
+    firstYearNetMonthly: number;
+    firstYearRealNetMonthly: number;
+  };
+}
+
+export interface CohortAllowance {
+  /** Share of the income as decimal */
+  rate: number;
+  maxAmount: number;
+}
+
+// §9a S.1 Nr.1 b and Nr.3 EStG
+const VERSORGUNGSBEZUEGE_WERBUNGSKOSTEN = 102;
+const PENSION_WERBUNGSKOSTEN = 102;
+// Cohort 2005 values of the phase-out tables
+const VERSORGUNGSFREIBETRAG_2005 = { rate: 0.4, maxAmount: 3000, supplement: 900 };
+const ALTERSENTLASTUNGSBETRAG_2005 = { rate: 0.4, maxAmount: 1900 };
+const ALTERSENTLASTUNGSBETRAG_AGE = 64;
+
+const DEFAULT_YEARS = 30;
+const DEFAULT_PENSION_INCREASE = 0.02;
+const DEFAULT_OCCUPATIONAL_INCREASE = 0.01;
+const DEFAULT_INFLATION = 0.02;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Share of the 2005 values left for a cohort. Both tables shrink by 4% of
+ * the 2005 value per year until 2020, by 2% until 2022 and by 1% until
+ * they reach zero in 2058 (Wachstumschancengesetz).
+ */
+function cohortPhaseOutFactor(cohortYear: number): number {
+  const year = Math.floor(cohortYear);
+  if (year <= 2005) return 1;
+  if (year <= 2020) return 1 - (year - 2005) * 0.04;
+  if (year <= 2022) return 0.4 - (year - 2020) * 0.02;
+  return Math.max(0, 0.36 - (year - 2022) * 0.01);
+}
+
+/**
+ * Versorgungsfreibetrag and Zuschlag for Versorgungsbezüge starting in
+ * `startYear` (§19 Abs.2 S.3 EStG)
+ */
+export function getVersorgungsfreibetrag(startYear: number): CohortAllowance & { supplement: number } {
+  const factor = cohortPhaseOutFactor(startYear);
+  return {
+    rate: Math.round(VERSORGUNGSFREIBETRAG_2005.rate * factor * 1000) / 1000,
+    maxAmount: Math.round(VERSORGUNGSFREIBETRAG_2005.maxAmount * factor),
+    supplement: Math.round(VERSORGUNGSFREIBETRAG_2005.supplement * factor),
+  };
+}
+
+/**
+ * Altersentlastungsbetrag for taxpayers whose 64th birthday was in
+ * `cohortYear - 1` (§24a S.5 EStG)
+ */
+export function getAltersentlastungsbetrag(cohortYear: number): CohortAllowance {
+  const factor = cohortPhaseOutFactor(cohortYear);
+  return {
+    rate: Math.round(ALTERSENTLASTUNGSBETRAG_2005.rate * factor * 1000) / 1000,
+    maxAmount: Math.round(ALTERSENTLASTUNGSBETRAG_2005.maxAmount * factor),
+  };
+}
+
+function emptyBreakdown(): RetirementIncomeBreakdown {
+  return {
+    statutoryPension: 0,
+    civilServantPension: 0,
+    occupationalPension: 0,
+    ruerupPension: 0,
+    riesterPension: 0,
+    privateAnnuity: 0,
+    otherIncome: 0,
+    total: 0,
+  };
+}
+
+function addBreakdown(target: RetirementIncomeBreakdown, source: RetirementIncomeBreakdown): void {
+  for (const key of Object.keys(target) as (keyof RetirementIncomeBreakdown)[]) {
+    target[key] += source[key];
+  }
+}
+
+interface PersonYear {
+  gross: RetirementIncomeBreakdown;
+  taxable: RetirementIncomeBreakdown;
+  werbungskosten: number;
+  altersentlastungsbetrag: number;
+  totalIncome: number;
+  healthInsuranceContributions: number;
+}
+
+function calculatePersonYear(
+  person: RetireeIncome,
+  year: number,
+  input: Required<Pick<RetirementTaxInput, "pensionIncrease" | "occupationalPensionIncrease" | "inflationRate">> & {
+    startYear: number;
+  }
+): PersonYear {
+  const gross = emptyBreakdown();
+  const taxable = emptyBreakdown();
+  const yearsPaid = year - person.retirementYear;
+  const retired = yearsPaid >= 0;
+  const annual = (monthly: number | undefined) => (retired ? Math.max(0, monthly ?? 0) * 12 : 0);
+  const firstYear = (monthly: number | undefined) => Math.max(0, monthly ?? 0) * 12;
+  const pensionFactor = Math.pow(1 + input.pensionIncrease, Math.max(0, yearsPaid));
+  const occupationalFactor = Math.pow(1 + input.occupationalPensionIncrease, Math.max(0, yearsPaid));
+  const isDirect = person.occupationalPensionType === "direct";
+
+  gross.statutoryPension = annual(person.statutoryPension) * pensionFactor;
+  gross.civilServantPension = annual(person.civilServantPension) * pensionFactor;
+  gross.occupationalPension = annual(person.occupationalPension) * occupationalFactor;
+  gross.ruerupPension = annual(person.ruerupPension);
+  gross.riesterPension = annual(person.riesterPension);
+  gross.privateAnnuity = annual(person.privateAnnuity);
+  gross.otherIncome = Math.max(0, person.otherIncome ?? 0) * Math.pow(1 + input.inflationRate, year - input.startYear);
+
+  // Basisrenten: the Rentenfreibetrag is fixed in euros for life
+  const besteuerungsanteil = getBesteuerungsanteil(person.retirementYear) / 100;
+  if (retired) {
+    taxable.statutoryPension = Math.max(
+      0,
+      gross.statutoryPension - firstYear(person.statutoryPension) * (1 - besteuerungsanteil)
+    );
+    taxable.ruerupPension = gross.ruerupPension * besteuerungsanteil;
+    taxable.riesterPension = gross.riesterPension;
+    taxable.privateAnnuity =
+      gross.privateAnnuity * (getErtragsanteil(person.retirementYear - person.birthYear) / 100);
+  }
+
+  // Versorgungsbezüge: Beamtenpension and bAV without own contributions
+  const versorgungsbezuege = gross.civilServantPension + (isDirect ? gross.occupationalPension : 0);
+  let werbungskosten = 0;
+  if (versorgungsbezuege > 0) {
+    const allowance = getVersorgungsfreibetrag(person.retirementYear);
+    const base = firstYear(person.civilServantPension) + (isDirect ? firstYear(person.occupationalPension) : 0);
+    const freibetrag = Math.min(base * allowance.rate, allowance.maxAmount) + allowance.supplement;
+    const afterFreibetrag = Math.max(0, versorgungsbezuege - freibetrag);
+    werbungskosten += Math.min(VERSORGUNGSBEZUEGE_WERBUNGSKOSTEN, afterFreibetrag);
+    const civilServantShare = gross.civilServantPension / versorgungsbezuege;
+    taxable.civilServantPension = afterFreibetrag * civilServantShare;
+    if (isDirect) taxable.occupationalPension = afterFreibetrag * (1 - civilServantShare);
+  }
+  if (!isDirect) taxable.occupationalPension = gross.occupationalPension;
+
+  const section22Income =
+    taxable.statutoryPension +
+    taxable.ruerupPension +
+    taxable.riesterPension +
+    taxable.privateAnnuity +
+    (isDirect ? 0 : taxable.occupationalPension);
+  werbungskosten += Math.min(PENSION_WERBUNGSKOSTEN, section22Income);
+
+  // Altersentlastungsbetrag: only other income, not pensions
+  const cohortYear = person.birthYear + ALTERSENTLASTUNGSBETRAG_AGE + 1;
+  let altersentlastungsbetrag = 0;
+  if (year >= cohortYear && gross.otherIncome > 0) {
+    const allowance = getAltersentlastungsbetrag(cohortYear);
+    altersentlastungsbetrag = Math.min(gross.otherIncome * allowance.rate, allowance.maxAmount);
+  }
+  taxable.otherIncome = gross.otherIncome;
+
+  gross.total =
+    gross.statutoryPension +
+    gross.civilServantPension +
+    gross.occupationalPension +
+    gross.ruerupPension +
+    gross.riesterPension +
+    gross.privateAnnuity +
+    gross.otherIncome;
+  taxable.total =
+    taxable.statutoryPension +
+    taxable.civilServantPension +
+    taxable.occupationalPension +
+    taxable.ruerupPension +
+    taxable.riesterPension +
+    taxable.privateAnnuity +
+    taxable.otherIncome;
+
+  return {
+    gross,
+    taxable,
+    werbungskosten,
+    altersentlastungsbetrag,
+    totalIncome: Math.max(0, taxable.total - werbungskosten - altersentlastungsbetrag),
+    healthInsuranceContributions: calculateHealthInsurance(person, year, gross, input),
+  };
+}
+
+/**
+ * Annual KV/PV contributions: the given amount indexed with the pensions, or
+ * the contributions on the year's income for the person's health insurance.
+ */
+function calculateHealthInsurance(
+  person: RetireeIncome,
+  year: number,
+  gross: RetirementIncomeBreakdown,
+  input: { startYear: number; pensionIncrease: number; inflationRate: number }
+): number {
+  if (person.healthInsuranceContributions !== undefined || !person.healthInsurance) {
+    return Math.max(0, person.healthInsuranceContributions ?? 0) *
+      Math.pow(1 + input.pensionIncrease, year - input.startYear);
+  }
+  if (year < person.retirementYear) return 0;
+
+  const contributions = calculateRetireeContributions({
+    status: person.healthInsurance,
+    income: {
+      statutoryPension: gross.statutoryPension / 12,
+      occupationalPension: gross.occupationalPension / 12,
+      civilServantPension: gross.civilServantPension / 12,
+      privatePension: (gross.ruerupPension + gross.riesterPension + gross.privateAnnuity) / 12,
+      otherIncome: gross.otherIncome / 12,
+    },
+    childless: person.childless,
+    birthYear: person.birthYear,
+    privatePremium:
+      Math.max(0, person.privateHealthPremium ?? 0) * Math.pow(1 + input.inflationRate, year - input.startYear),
+    year,
+  });
+  return contributions.total * 12;
+}
+
+/**
+ * Taxes and net income of the household for every year of retirement.
+ */
+export function calculateRetirementTax(input: RetirementTaxInput): RetirementTaxResult {
+  const { assessment, persons, churchTaxRate = 0 } = input;
+  const startYear = input.startYear ?? Math.min(...persons.map((person) => person.retirementYear));
+  const years = input.years ?? DEFAULT_YEARS;
+  const inflationRate = input.inflationRate ?? DEFAULT_INFLATION;
+  const priceBaseYear = input.priceBaseYear ?? CURRENT_TAX_YEAR;
+  const growth = {
+    startYear,
+    pensionIncrease: input.pensionIncrease ?? DEFAULT_PENSION_INCREASE,
+    occupationalPensionIncrease: input.occupationalPensionIncrease ?? DEFAULT_OCCUPATIONAL_INCREASE,
+    inflationRate,
+  };
+
+  // Zusammenveranlagung: one assessment; otherwise every person on their own
+  const assessments = assessment === "joint" ? [persons] : persons.map((person) => [person]);
+  const result: RetirementTaxYear[] = [];
+
+  for (let year = startYear; year < startYear + years; year++) {
+    const sonderausgabenPauschbetrag = getGovernmentParameters(year).tax.sonderausgabenPauschbetrag;
+    const entry: RetirementTaxYear = {
+      year,
+      ages: persons.map((person) => year - person.birthYear),
+      gross: emptyBreakdown(),
+      taxable: emptyBreakdown(),
+      werbungskosten: 0,
+      altersentlastungsbetrag: 0,
+      totalIncome: 0,
+      sonderausgaben: 0,
+      healthInsuranceContributions: 0,
+      taxableIncome: 0,
+      incomeTax: 0,
+      solidaritySurcharge: 0,
+      churchTax: 0,
+      totalTax: 0,
+      netIncome: 0,
+      netIncomeMonthly: 0,
+      realNetIncome: 0,
+      realNetIncomeMonthly: 0,
+      averageTaxRate: 0,
+      marginalTaxRate: 0,
+    };
+
+    for (const members of assessments) {
+      const parts = members.map((person) => calculatePersonYear(person, year, growth));
+      const totalIncome = parts.reduce((sum, part) => sum + part.totalIncome, 0);
+      const healthInsurance = parts.reduce((sum, part) => sum + part.healthInsuranceContributions, 0);
+      const sonderausgaben = sonderausgabenPauschbetrag * (assessment === "joint" ? 2 : 1);
+      const taxableIncome = Math.max(0, Math.floor(totalIncome - sonderausgaben - healthInsurance));
+
+      const incomeTax = calculateTariffTax(taxableIncome, assessment, year);
+      const solidaritySurcharge = calculateSolidaritySurcharge(incomeTax, assessment, year);
+      const churchTax = Math.floor(incomeTax * churchTaxRate * 100) / 100;
+
+      for (const part of parts) {
+        addBreakdown(entry.gross, part.gross);
+        addBreakdown(entry.taxable, part.taxable);
+        entry.werbungskosten += part.werbungskosten;
+        entry.altersentlastungsbetrag += part.altersentlastungsbetrag;
+      }
+      entry.totalIncome += totalIncome;
+      entry.sonderausgaben += sonderausgaben;
+      entry.healthInsuranceContributions += healthInsurance;
+      entry.taxableIncome += taxableIncome;
+      entry.incomeTax += incomeTax;
+      entry.solidaritySurcharge += solidaritySurcharge;
+      entry.churchTax += churchTax;
+      entry.marginalTaxRate = Math.max(
+        entry.marginalTaxRate,
+        calculateMarginalTaxRate(taxableIncome, assessment, year)
+      );
+    }
+
+    entry.totalTax = roundCents(entry.incomeTax + entry.solidaritySurcharge + entry.churchTax);
+    entry.netIncome = roundCents(entry.gross.total - entry.totalTax - entry.healthInsuranceContributions);
+    entry.netIncomeMonthly = roundCents(entry.netIncome / 12);
+    entry.realNetIncome = roundCents(entry.netIncome / Math.pow(1 + inflationRate, year - priceBaseYear));
+    entry.realNetIncomeMonthly = roundCents(entry.realNetIncome / 12);
+    entry.averageTaxRate = entry.gross.total > 0 ? (entry.totalTax / entry.gross.total) * 100 : 0;
+    result.push(entry);
+  }
+
+  const totalGross = result.reduce((sum, entry) => sum + entry.gross.total, 0);
+  const totalTax = result.reduce((sum, entry) => sum + entry.totalTax, 0);
+  return {
+    years: result,
+    summary: {
+      totalGross,
+      totalTax,
+      totalNetIncome: result.reduce((sum, entry) => sum + entry.netIncome, 0),
+      totalRealNetIncome: result.reduce((sum, entry) => sum + entry.realNetIncome, 0),
+      averageTaxRate: totalGross > 0 ? (totalTax / totalGross) * 100 : 0,
+      firstYearNetMonthly: result[0]?.netIncomeMonthly ?? 0,
+      firstYearRealNetMonthly: result[0]?.realNetIncomeMonthly ?? 0,
+    },
+  };
+}
@@ -0,0 +1,222 @@
+import type { InsertPrivatePensionPlan } from "@shared/schema";
+import {
+  calculatePrivatePension,
+  type SimulationKpis,
+  type ValueView,
+} from "./financial-calculator";
+
+/** Plan inputs the sensitivity analysis perturbs */
+export type SensitivityParameter =
+  | "expectedReturn"
+  | "ter"
+  | "policyFeeAnnualPct"
+  | "monthlyContribution"
+  | "termYears"
+  | "payoutStartAge"
+  | "taxRatePayout"
+  | "inflationRate";
+
+export type SensitivityKpi = keyof SimulationKpis;
+
+export const SENSITIVITY_PARAMETERS: SensitivityParameter[] = [
+  "expectedReturn",
+  "ter",
+  "policyFeeAnnualPct",
+  "monthlyContribution",
+  "termYears",
+  "payoutStartAge",
+  "taxRatePayout",
+  "inflationRate",
+];
+
+/** Absolute step up and down per input (rates as decimals, ages and terms in years) */
+export const DEFAULT_SENSITIVITY_DELTAS: Record<SensitivityParameter, number> = {
+  expectedReturn: 0.01,
+  ter: 0.0025,
+  policyFeeAnnualPct: 0.002,
+  monthlyContribution: 100,
+  termYears: 5,
+  payoutStartAge: 2,
+  taxRatePayout: 0.05,
+  inflationRate: 0.01,
+};
+
+// The engine treats a rate of 0 as "not set" and falls back to its default,
+// so perturbed rates stay slightly above zero
+const MIN_RATE = 0.0001;
+
+const PARAMETER_LIMITS: Record<SensitivityParameter, { min: number; max: number }> = {
+  expectedReturn: { min: MIN_RATE, max: 0.2 },
+  ter: { min: MIN_RATE, max: 0.05 },
+  policyFeeAnnualPct: { min: MIN_RATE, max: 0.05 },
+  monthlyContribution: { min: 0, max: 100_000 },
+  termYears: { min: 5, max: 45 },
+  payoutStartAge: { min: 62, max: 85 },
+  taxRatePayout: { min: MIN_RATE, max: 0.6 },
+  inflationRate: { min: 0, max: 0.15 },
+};
+
+export interface SensitivityOptions {
+  /** KPI whose change is measured (default monthlyPension) */
+  kpi?: SensitivityKpi;
+  view?: ValueView;
+  parameters?: SensitivityParameter[];
+  deltas?: Partial<Record<SensitivityParameter, number>>;
+}
+
+export interface TornadoEntry {
+  parameter: SensitivityParameter;
+  baseInput: number;
+  lowInput: number;
+  highInput: number;
+  /** KPI with the input lowered / raised */
+  lowValue: number;
+  highValue: number;
+  /** KPI change against the base plan */
+  lowImpact: number;
+  highImpact: number;
+  /** Width of the tornado bar, |highValue - lowValue| */
+  swing: number;
+}
+
+export interface SensitivityResults {
+  kpi: SensitivityKpi;
+  view: ValueView;
+  baseValue: number;
+  /** Sorted by swing, largest first */
+  entries: TornadoEntry[];
+}
+
+export interface SensitivityGridAxis {
+  parameter: SensitivityParameter;
+  /** Input values of the axis; default: five steps of the parameter's delta around the plan value */
+  values?: number[];
+}
+
+export interface SensitivityGridOptions {
+  x: SensitivityGridAxis;
+  y: SensitivityGridAxis;
+  kpi?: SensitivityKpi;
+  view?: ValueView;
+}
+
+export interface SensitivityGrid {
+  kpi: SensitivityKpi;
+  view: ValueView;
+  xParameter: SensitivityParameter;
+  yParameter: SensitivityParameter;
+  xValues: number[];
+  yValues: number[];
+  /** cells[row][column] = KPI for yValues[row] and xValues[column] */
+  cells: number[][];
+}
+
+function clampInput(parameter: SensitivityParameter, value: number): number {
+  const { min, max } = PARAMETER_LIMITS[parameter];
+  // Rounded so that steps like 0.17 + 0.05 stay readable
+  return Math.round(Math.min(max, Math.max(min, value)) * 1e6) / 1e6;
+}
+
+/**
+ * Plan value of an input as the engine reads it, including its fallbacks.
+ */
+export function getPlanInput(plan: InsertPrivatePensionPlan, parameter: SensitivityParameter): number {
+  switch (parameter) {
+    case "expectedReturn": return plan.expectedReturn || 0.075;
+    case "ter": return plan.ter || 0.0075;
+    case "policyFeeAnnualPct": return plan.policyFeeAnnualPct || 0.004;
+    case "taxRatePayout": return plan.taxRatePayout || 0.25;
+    case "inflationRate": return plan.inflationRate ?? 0.02;
+    case "monthlyContribution": return plan.monthlyContribution || 0;
+    default: return plan[parameter];
+  }
+}
+
+function withInput(plan: InsertPrivatePensionPlan, parameter: SensitivityParameter, value: number): InsertPrivatePensionPlan {
+  if (parameter === "payoutStartAge") {
+    const payoutStartAge = Math.max(Math.round(value), plan.currentAge + 1);
+    return { ...plan, payoutStartAge, payoutEndAge: Math.max(plan.payoutEndAge, payoutStartAge + 1) };
+  }
+  if (parameter === "termYears") {
+    return { ...plan, termYears: Math.round(value) };
+  }
+  return { ...plan, [parameter]: value };
+}
+
+function kpiOf(plan: InsertPrivatePensionPlan, kpi: SensitivityKpi, view: ValueView): number {
+  const results = calculatePrivatePension(plan);
+  return (view === "real" ? results.kpisReal : results.kpis)[kpi];
+}
+
+/**
+ * One-at-a-time sensitivity: moves each input down and up by its delta while
+ * the others stay at the plan values and ranks the inputs by the KPI swing.
+ */
+export function runSensitivityAnalysis(
+  plan: InsertPrivatePensionPlan,
+  options: SensitivityOptions = {}
+): SensitivityResults {
+  const kpi = options.kpi ?? "monthlyPension";
+  const view = options.view ?? "nominal";
+  const parameters = options.parameters ?? SENSITIVITY_PARAMETERS;
+  const baseValue = kpiOf(plan, kpi, view);
+
+  const entries = parameters.map((parameter): TornadoEntry => {
+    const delta = options.deltas?.[parameter] ?? DEFAULT_SENSITIVITY_DELTAS[parameter];
+    const baseInput = getPlanInput(plan, parameter);
+    const lowInput = clampInput(parameter, baseInput - delta);
+    const highInput = clampInput(parameter, baseInput + delta);
+    const lowValue = kpiOf(withInput(plan, parameter, lowInput), kpi, view);
+    const highValue = kpiOf(withInput(plan, parameter, highInput), kpi, view);
+    return {
+      parameter,
+      baseInput,
+      lowInput,
+      highInput,
+      lowValue,
+      highValue,
+      lowImpact: lowValue - baseValue,
+      highImpact: highValue - baseValue,
+      swing: Math.abs(highValue - lowValue),
+    };
+  });
+
+  entries.sort((a, b) => b.swing - a.swing);
+  return { kpi, view, baseValue, entries };
+}
+
+function axisValues(plan: InsertPrivatePensionPlan, axis: SensitivityGridAxis): number[] {
+  if (axis.values?.length) return axis.values.map((value) => clampInput(axis.parameter, value));
+  const base = getPlanInput(plan, axis.parameter);
+  const delta = DEFAULT_SENSITIVITY_DELTAS[axis.parameter];
+  const values = [-2, -1, 0, 1, 2].map((step) => clampInput(axis.parameter, base + step * delta));
+  return Array.from(new Set(values));
+}
+
+/**
+ * Two-variable grid for a heatmap, e.g. expected return × monthly contribution → monthly pension.
+ */
+export function calculateSensitivityGrid(
+  plan: InsertPrivatePensionPlan,
+  options: SensitivityGridOptions
+): SensitivityGrid {
+  const kpi = options.kpi ?? "monthlyPension";
+  const view = options.view ?? "nominal";
+  const xValues = axisValues(plan, options.x);
+  const yValues = axisValues(plan, options.y);
+
+  const cells = yValues.map((yValue) => {
+    const row = withInput(plan, options.y.parameter, yValue);
+    return xValues.map((xValue) => kpiOf(withInput(row, options.x.parameter, xValue), kpi, view));
+  });
+
+  return {
+    kpi,
+    view,
+    xParameter: options.x.parameter,
+    yParameter: options.y.parameter,
+    xValues,
+    yValues,
+    cells,
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Statutory pension (gesetzliche Rentenversicherung) projection
+ *
+ * Monatsrente = Entgeltpunkte × Zugangsfaktor × aktueller Rentenwert (§64 SGB VI).
+ * Each year adds the insured wages up to the BBG divided by that year's
+ * Durchschnittsentgelt (§70). The Zugangsfaktor drops by 0.3% per month drawn
+ * before the Regelaltersgrenze and rises by 0.5% per month deferred after it
+ * (§77). The Besteuerungsanteil is fixed by the year the pension starts (§22 EStG).
+ *
+ * Simplifications: no Ost/West split, Zurechnungs-, Kindererziehungs- or
+ * Ausbildungszeiten; Durchschnittsentgelte and BBG before the registry are
+ * derived backwards with the projected wage growth; early retirement starts at
+ * 63 at the earliest without checking the 35-year Wartezeit.
+ */
+
+import {
+  CURRENT_TAX_YEAR,
+  FIRST_PARAMETER_YEAR,
+  PROJECTION_ASSUMPTIONS,
+  getGovernmentParameters,
+} from '@/data/governmentParameters';
+
+export interface StatutoryPensionIncomeYear {
+  year: number;
+  grossAnnual: number;
+}
+
+export interface StatutoryPensionInput {
+  birthYear: number;
+  /** Current annual gross wages subject to contributions */
+  currentGrossAnnual: number;
+  /** Entgeltpunkte earned before the current year (Renteninformation), takes precedence */
+  existingEntgeltpunkte?: number;
+  /** Past gross wages, used when existingEntgeltpunkte is not given */
+  incomeHistory?: StatutoryPensionIncomeYear[];
+  /** Without history: contributions since this age at today's relative income (default 22) */
+  careerStartAge?: number;
+  /** Planned retirement age in years, may be fractional (default Regelaltersgrenze) */
+  retirementAge?: number;
+  /** Annual salary growth, default PROJECTION_ASSUMPTIONS.wageGrowth */
+  salaryGrowth?: number;
+  /** Default: current year */
+  currentYear?: number;
+}
+
+export interface StatutoryPensionProjection {
+  /** Regelaltersgrenze in years, e.g. 66.5 */
+  regularRetirementAge: number;
+  retirementAge: number;
+  retirementYear: number;
+  existingEntgeltpunkte: number;
+  futureEntgeltpunkte: number;
+  entgeltpunkte: number;
+  /** Months before (negative) or after (positive) the Regelaltersgrenze */
+  monthsFromRegularAge: number;
+  zugangsfaktor: number;
+  /** €/month with the current Rentenwert (today's values) */
+  monthlyPensionToday: number;
+  /** €/month with the projected Rentenwert of the retirement year */
+  monthlyPensionNominal: number;
+  /** Besteuerungsanteil of the retirement year */
+  taxablePortion: number;
+  /** Rentenfreibetrag per year, fixed for life */
+  annualPensionExemption: number;
+}
+
+export const EARLIEST_RETIREMENT_AGE = 63;
+const DEFAULT_CAREER_START_AGE = 22;
+const EARLY_RETIREMENT_REDUCTION_PER_MONTH = 0.003;
+const LATE_RETIREMENT_INCREASE_PER_MONTH = 0.005;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Regelaltersgrenze by birth year (§35, §235 Abs.2 SGB VI): 65 up to 1946, then one
+ * month per cohort up to 1958 and two months per cohort up to 1963, 67 from 1964.
+ */
+export function getRegularRetirementAge(birthYear: number): number {
+  if (birthYear <= 1946) return 65;
+  if (birthYear <= 1958) return 65 + (birthYear - 1946) / 12;
+  if (birthYear <= 1963) return 66 + (2 * (birthYear - 1958)) / 12;
+  return 67;
+}
+
+/**
+ * Zugangsfaktor for drawing the pension the given number of months after
+ * (positive) or before (negative) the Regelaltersgrenze (§77 Abs.2 SGB VI).
+ */
+export function calculateZugangsfaktor(monthsFromRegularAge: number): number {
+  return monthsFromRegularAge < 0
+    ? 1 + monthsFromRegularAge * EARLY_RETIREMENT_REDUCTION_PER_MONTH
+    : 1 + monthsFromRegularAge * LATE_RETIREMENT_INCREASE_PER_MONTH;
+}
+
+/**
+ * Durchschnittsentgelt and BBG of a year; years before the registry are
+ * discounted from its first year with the projected wage growth.
+ */
+function contributionBasis(year: number): { averageEarnings: number; ceiling: number } {
+  const pension = getGovernmentParameters(year).pension;
+  const discount = year < FIRST_PARAMETER_YEAR
+    ? Math.pow(1 + PROJECTION_ASSUMPTIONS.wageGrowth, FIRST_PARAMETER_YEAR - year)
+    : 1;
+  return {
+    averageEarnings: pension.averageEarnings / discount,
+    ceiling: pension.pensionInsuranceCeilingAnnual / discount,
+  };
+}
+
+/**
+ * Entgeltpunkte for one year of gross wages.
+ */
+export function calculateEntgeltpunkte(grossAnnual: number, year: number): number {
+  const { averageEarnings, ceiling } = contributionBasis(year);
+  return Math.min(Math.max(0, grossAnnual), ceiling) / averageEarnings;
+}
+
+/**
+ * Projects Entgeltpunkte up to retirement and the resulting monthly pension.
+ */
+export function projectStatutoryPension(input: StatutoryPensionInput): StatutoryPensionProjection {
+  const {
+    birthYear,
+    currentGrossAnnual,
+    careerStartAge = DEFAULT_CAREER_START_AGE,
+    salaryGrowth = PROJECTION_ASSUMPTIONS.wageGrowth,
+    currentYear = CURRENT_TAX_YEAR,
+  } = input;
+  const regularRetirementAge = getRegularRetirementAge(birthYear);
+  const retirementAge = Math.max(EARLIEST_RETIREMENT_AGE, input.retirementAge ?? regularRetirementAge);
+  const currentAge = currentYear - birthYear;
+
+  let existingEntgeltpunkte = input.existingEntgeltpunkte;
+  if (existingEntgeltpunkte === undefined) {
+    existingEntgeltpunkte = input.incomeHistory
+      ? input.incomeHistory
+          .filter((entry) => entry.year < currentYear)
+          .reduce((sum, entry) => sum + calculateEntgeltpunkte(entry.grossAnnual, entry.year), 0)
+      : Math.max(0, currentAge - careerStartAge) * calculateEntgeltpunkte(currentGrossAnnual, currentYear);
+  }
+
+  // The current year counts as future; the last year only in part for fractional ages
+  let futureEntgeltpunkte = 0;
+  for (let year = currentYear; year - birthYear < retirementAge; year++) {
+    const share = Math.min(1, retirementAge - (year - birthYear));
+    const wages = currentGrossAnnual * Math.pow(1 + salaryGrowth, year - currentYear);
+    futureEntgeltpunkte += share * calculateEntgeltpunkte(wages, year);
+  }
+
+  const entgeltpunkte = existingEntgeltpunkte + futureEntgeltpunkte;
+  const monthsFromRegularAge = Math.round((retirementAge - regularRetirementAge) * 12);
+  const zugangsfaktor = calculateZugangsfaktor(monthsFromRegularAge);
+  const retirementYear = Math.floor(birthYear + retirementAge);
+  const retirementParams = getGovernmentParameters(retirementYear);
+
+  const monthlyPensionToday = entgeltpunkte * zugangsfaktor *
+    getGovernmentParameters(currentYear).pension.currentPensionValue;
+  const monthlyPensionNominal = entgeltpunkte * zugangsfaktor * retirementParams.pension.currentPensionValue;
+  const taxablePortion = retirementParams.tax.taxablePortionRetirement;
+
+  return {
+    regularRetirementAge,
+    retirementAge,
+    retirementYear,
+    existingEntgeltpunkte: Math.round(existingEntgeltpunkte * 10000) / 10000,
+    futureEntgeltpunkte: Math.round(futureEntgeltpunkte * 10000) / 10000,
+    entgeltpunkte: Math.round(entgeltpunkte * 10000) / 10000,
+    monthsFromRegularAge,
+    zugangsfaktor: Math.round(zugangsfaktor * 1000) / 1000,
+    monthlyPensionToday: roundCents(monthlyPensionToday),
+    monthlyPensionNominal: roundCents(monthlyPensionNominal),
+    taxablePortion,
+    annualPensionExemption: roundCents(monthlyPensionNominal * 12 * (1 - taxablePortion)),
+  };
+}
+
+/**
+ * A pension stated in today's values (Renteninformation) in euros of the
+ * retirement year: it rises with the Rentenwert like the projected pension.
+ */
+export function indexPensionToRetirementYear(
+  monthlyPensionToday: number,
+  retirementYear: number,
+  currentYear: number = CURRENT_TAX_YEAR
+): number {
+  const currentValue = getGovernmentParameters(currentYear).pension.currentPensionValue;
+  const retirementValue = getGovernmentParameters(Math.max(currentYear, retirementYear)).pension.currentPensionValue;
+  return roundCents(monthlyPensionToday * (retirementValue / currentValue));
+}
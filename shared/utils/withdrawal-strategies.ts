@@ -0,0 +1,249 @@
+/**
+ * Withdrawal strategies for the flexible payout phase
+ *
+ * Each strategy decides the gross withdrawal of a year from the portfolio at
+ * the start of that year; it is paid out after the year's gains and taxed with
+ * calculateMonthlyPayoutAfterTax:
+ * - constantReal: first-year amount, raised with inflation every year
+ * - fixedPercentage: fixed share of the current portfolio
+ * - guytonKlinger: inflation-adjusted amount with guardrails - cut by the
+ *   adjustment when the current rate exceeds the initial rate by the guardrail,
+ *   raised when it falls below it (no cuts in the last 15 years)
+ * - vpw: variable percentage withdrawal, the annuity factor for the years left
+ *   until age 100 at the expected real return
+ * - spendToZero: like vpw, but the horizon is the chosen depletion age
+ * With a health insurance the paid-out gains also carry the KV/PV contributions
+ * they cause (only freiwillig Versicherte pay on capital income).
+ */
+
+import {
+  calculateMonthlyPayoutAfterTax,
+  type TaxSettings,
+} from "./germanTaxCalculations";
+import {
+  calculateRetireeContributions,
+  type RetireeContributionInput,
+  type RetireeMonthlyIncome,
+} from "./retiree-health-insurance";
+
+export type WithdrawalStrategyId = "constantReal" | "fixedPercentage" | "guytonKlinger" | "vpw" | "spendToZero";
+
+export const WITHDRAWAL_STRATEGIES: WithdrawalStrategyId[] = [
+  "constantReal",
+  "fixedPercentage",
+  "guytonKlinger",
+  "vpw",
+  "spendToZero",
+];
+
+export interface WithdrawalStrategyParams {
+  /** constantReal, guytonKlinger: first-year withdrawal as share of the portfolio (default 4%) */
+  initialRate?: number;
+  /** constantReal: first-year withdrawal in €, takes precedence over initialRate */
+  initialAmount?: number;
+  /** fixedPercentage: share of the portfolio withdrawn every year (default 4%) */
+  percentage?: number;
+  /** guytonKlinger: allowed deviation from the initial rate (default 20%) */
+  guardrail?: number;
+  /** guytonKlinger: size of a cut or raise (default 10%) */
+  adjustment?: number;
+  /** spendToZero: age at which the portfolio should be used up (default payoutEndAge) */
+  depletionAge?: number;
+}
+
+export interface WithdrawalSimulationInput {
+  strategy: WithdrawalStrategyId;
+  params?: WithdrawalStrategyParams;
+  portfolioValue: number;
+  payoutStartAge: number;
+  payoutEndAge: number;
+  /** Nominal annual return during the payout phase (default 5%) */
+  expectedReturn?: number;
+  /** Annual inflation for indexed withdrawals (default 2%) */
+  inflationRate?: number;
+  taxSettings: TaxSettings;
+  /** Health insurance in retirement with the retiree's other monthly income */
+  healthInsurance?: Omit<RetireeContributionInput, "income"> & { income?: RetireeMonthlyIncome };
+}
+
+export interface WithdrawalYear {
+  year: number;
+  age: number;
+  portfolioValue: number;
+  annualWithdrawal: number;
+  /** Withdrawal as share of the portfolio at the start of the year */
+  withdrawalRate: number;
+  annualGains: number;
+  annualTax: number;
+  netAnnualPayout: number;
+  netMonthlyPayout: number;
+  /** KV/PV contributions caused by the withdrawal */
+  annualSocialContributions: number;
+  netMonthlyAfterContributions: number;
+}
+
+export interface WithdrawalSimulation {
+  strategy: WithdrawalStrategyId;
+  years: WithdrawalYear[];
+  summary: {
+    totalWithdrawn: number;
+    totalTaxes: number;
+    totalNetPayout: number;
+    averageMonthlyNet: number;
+    totalSocialContributions: number;
+    averageMonthlyNetAfterContributions: number;
+    minMonthlyNet: number;
+    maxMonthlyNet: number;
+    finalPortfolioValue: number;
+    /** Age at which the portfolio ran out, null if it lasted */
+    depletedAtAge: number | null;
+  };
+}
+
+export const DEFAULT_PAYOUT_RETURN = 0.05;
+const DEFAULT_INFLATION = 0.02;
+const DEFAULT_INITIAL_RATE = 0.04;
+const DEFAULT_GUARDRAIL = 0.2;
+const DEFAULT_ADJUSTMENT = 0.1;
+const VPW_HORIZON_AGE = 100;
+const GUARDRAIL_CUT_STOP_YEARS = 15;
+
+/**
+ * Share of the portfolio that, withdrawn every year and raised with
+ * inflation, uses it up after `years` at the real return `realReturn`.
+ */
+export function getAnnuityWithdrawalRate(realReturn: number, years: number): number {
+  if (years < 1) return 1;
+  if (Math.abs(realReturn) < 1e-9) return 1 / years;
+  // Withdrawals at the end of each year, after that year's gains
+  return realReturn / (1 - Math.pow(1 + realReturn, -years));
+}
+
+/**
+ * Annual KV/PV contributions on the paid-out gains, after the other income
+ * in the order of the contribution ceiling.
+ */
+function getPayoutContributions(
+  healthInsurance: WithdrawalSimulationInput["healthInsurance"],
+  annualGains: number
+): number {
+  if (!healthInsurance || annualGains <= 0) return 0;
+  const income = healthInsurance.income ?? {};
+  const privateContributions = (privatePension: number) =>
+    calculateRetireeContributions({ ...healthInsurance, income: { ...income, privatePension } }).byIncome.privatePension;
+  const otherPrivatePension = income.privatePension ?? 0;
+  return (privateContributions(otherPrivatePension + annualGains / 12) - privateContributions(otherPrivatePension)) * 12;
+}
+
+export function simulateWithdrawalStrategy(input: WithdrawalSimulationInput): WithdrawalSimulation {
+  const { strategy, params = {}, portfolioValue, payoutStartAge, payoutEndAge, taxSettings } = input;
+  const expectedReturn = input.expectedReturn ?? DEFAULT_PAYOUT_RETURN;
+  const inflationRate = input.inflationRate ?? DEFAULT_INFLATION;
+  const realReturn = (1 + expectedReturn) / (1 + inflationRate) - 1;
+  const initialRate = params.initialRate ?? DEFAULT_INITIAL_RATE;
+  const guardrail = params.guardrail ?? DEFAULT_GUARDRAIL;
+  const adjustment = params.adjustment ?? DEFAULT_ADJUSTMENT;
+  const depletionAge = Math.min(params.depletionAge ?? payoutEndAge, payoutEndAge);
+
+  const years: WithdrawalYear[] = [];
+  let remainingValue = portfolioValue;
+  let previousWithdrawal = 0;
+  let depletedAtAge: number | null = null;
+
+  for (let year = 0; year <= payoutEndAge - payoutStartAge; year++) {
+    const age = payoutStartAge + year;
+    // The withdrawal leaves the portfolio at the end of the year, after that year's gains
+    const annualGains = remainingValue * expectedReturn;
+
+    let annualWithdrawal: number;
+    switch (strategy) {
+      case "constantReal":
+        annualWithdrawal = year === 0
+          ? params.initialAmount ?? portfolioValue * initialRate
+          : previousWithdrawal * (1 + inflationRate);
+        break;
+      case "fixedPercentage":
+        annualWithdrawal = remainingValue * (params.percentage ?? DEFAULT_INITIAL_RATE);
+        break;
+      case "guytonKlinger": {
+        annualWithdrawal = year === 0 ? portfolioValue * initialRate : previousWithdrawal * (1 + inflationRate);
+        const currentRate = remainingValue > 0 ? annualWithdrawal / remainingValue : Infinity;
+        const yearsLeft = payoutEndAge - age;
+        if (currentRate > initialRate * (1 + guardrail) && yearsLeft > GUARDRAIL_CUT_STOP_YEARS) {
+          annualWithdrawal *= 1 - adjustment;
+        } else if (currentRate < initialRate * (1 - guardrail)) {
+          annualWithdrawal *= 1 + adjustment;
+        }
+        break;
+      }
+      case "vpw":
+        annualWithdrawal = remainingValue * getAnnuityWithdrawalRate(realReturn, VPW_HORIZON_AGE - age + 1);
+        break;
+      case "spendToZero":
+        // The last year takes whatever is left
+        annualWithdrawal = age < depletionAge
+          ? remainingValue * getAnnuityWithdrawalRate(realReturn, depletionAge - age + 1)
+          : remainingValue + annualGains;
+        break;
+    }
+
+    annualWithdrawal = Math.min(annualWithdrawal, Math.max(0, remainingValue + annualGains));
+    // Only gains that are actually paid out are taxed
+    const paidGains = Math.max(0, Math.min(annualGains, annualWithdrawal));
+    const taxResult = calculateMonthlyPayoutAfterTax(annualWithdrawal, paidGains, age, taxSettings);
+    const annualSocialContributions = getPayoutContributions(input.healthInsurance, paidGains);
+
+    years.push({
+      year: year + 1,
+      age,
+      portfolioValue: Math.max(0, remainingValue),
+      annualWithdrawal,
+      withdrawalRate: remainingValue > 0 ? annualWithdrawal / remainingValue : 0,
+      annualGains,
+      annualTax: taxResult.annualTax,
+      netAnnualPayout: taxResult.annualNet,
+      netMonthlyPayout: taxResult.monthlyNet,
+      annualSocialContributions,
+      netMonthlyAfterContributions: (taxResult.annualNet - annualSocialContributions) / 12,
+    });
+
+    previousWithdrawal = annualWithdrawal;
+    remainingValue = remainingValue + annualGains - annualWithdrawal;
+    if (remainingValue <= 0) {
+      remainingValue = 0;
+      depletedAtAge = age;
+      break;
+    }
+  }
+
+  const netMonthly = years.map((point) => point.netMonthlyPayout);
+  const totalNetPayout = years.reduce((sum, point) => sum + point.netAnnualPayout, 0);
+  const totalSocialContributions = years.reduce((sum, point) => sum + point.annualSocialContributions, 0);
+  return {
+    strategy,
+    years,
+    summary: {
+      totalWithdrawn: years.reduce((sum, point) => sum + point.annualWithdrawal, 0),
+      totalTaxes: years.reduce((sum, point) => sum + point.annualTax, 0),
+      totalNetPayout,
+      averageMonthlyNet: years.length > 0 ? totalNetPayout / years.length / 12 : 0,
+      totalSocialContributions,
+      averageMonthlyNetAfterContributions:
+        years.length > 0 ? (totalNetPayout - totalSocialContributions) / years.length / 12 : 0,
+      minMonthlyNet: years.length > 0 ? Math.min(...netMonthly) : 0,
+      maxMonthlyNet: years.length > 0 ? Math.max(...netMonthly) : 0,
+      finalPortfolioValue: remainingValue,
+      depletedAtAge,
+    },
+  };
+}
+
+/**
+ * Runs every strategy on the same portfolio for a side-by-side comparison.
+ */
+export function compareWithdrawalStrategies(
+  input: Omit<WithdrawalSimulationInput, "strategy">,
+  strategies: WithdrawalStrategyId[] = WITHDRAWAL_STRATEGIES
+): WithdrawalSimulation[] {
+  return strategies.map((strategy) => simulateWithdrawalStrategy({ ...input, strategy }));
+}
@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useLocation } from 'wouter';
 import {
   TrendingUp,
@@ -27,11 +27,58 @@ import { useOnboardingStore } from '@/stores/onboardingStore';
 import { formatCurrency } from '@/lib/utils';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { SegmentedControl } from '@/components/ui/segmented-control';
 import {
   calculateRiester,
   calculateOccupationalPension,
   calculateCompoundInterest,
 } from '@/utils/pensionCalculators';
+import {
+  DEFAULT_INFLATION_RATE,
+  calculatePrivatePension,
+  getDeflator,
+  privatePensionCashflows,
+  type SimulationResults,
+  type ValueView,
+} from '@shared/utils/financial-calculator';
+import {
+  createDefaultSimulationParams,
+  pensionComparisonCashflows,
+  runPensionComparison,
+} from '@shared/utils/pensionSimulation';
+import {
+  calculateCouplePlan,
+  getSurvivorPensionRate,
+  type CouplePartner,
+  type CouplePartnerInput,
+} from '@shared/utils/couple-planning';
+import {
+  indexPensionToRetirementYear,
+  projectStatutoryPension,
+} from '@shared/utils/statutory-pension';
+import {
+  calculateRetireeContributions,
+  determineRetireeHealthInsurance,
+} from '@shared/utils/retiree-health-insurance';
+import {
+  calculateMortgagePlan,
+  getMortgageRetirementCashflow,
+  mortgageCashflows,
+  type MortgagePlan,
+  type MortgageRetirementCashflow,
+} from '@shared/utils/mortgage';
+import {
+  aggregateCashflowLedger,
+  createCashflowLedger,
+  type CashflowEntry,
+  type CashflowLedger,
+} from '@shared/utils/cashflow-ledger';
+import {
+  calculatePensionGapToday,
+  optimizeRetirementGap,
+  type GapProduct,
+} from '@shared/utils/gap-optimizer';
+import type { OnboardingData } from '@/types/onboarding';
 
 interface DashboardProps {
   language?: 'de' | 'en';
@@ -106,6 +153,268 @@ const QuickActionCTA: Record<'de' | 'en', QuickActionConfig> = {
   },
 } as const;
 
+// Survivor scenario of the couple timeline: the selected partner dies at this age
+const SURVIVOR_SCENARIO_DEATH_AGE = 80;
+// PKV premium of a retired civil servant after Beihilfe, today's euros per month
+const RETIRED_CIVIL_SERVANT_PKV_PREMIUM = 350;
+
+interface PublicPensionEstimate {
+  /** €/month in euros of the retirement year */
+  monthlyNominal: number;
+  /** €/month at today's Rentenwert */
+  monthlyToday: number;
+  /** Entgeltpunkte at retirement, 0 when only a pension amount is known */
+  entgeltpunkte: number;
+}
+
+/**
+ * Civil servants and members of a Versorgungswerk are exempt from the GRV, the
+ * self-employed (Gewerbebetrieb) are usually not insured.
+ */
+const isStatutoryPensionInsured = (data: OnboardingData, suffix: '' | '_A' | '_B'): boolean => {
+  const pensions = data.pensions || {};
+  const otherIncome = data.otherIncome;
+  const selfEmployed =
+    Boolean(otherIncome?.[`has${suffix}`]) && otherIncome?.[`type${suffix}`] === 'Gewerbebetrieb';
+  return !pensions[`civil67${suffix}`] && !pensions[`profession67${suffix}`] && !selfEmployed;
+};
+
+/**
+ * GRV pension of one person in euros of the retirement year. Entgeltpunkte are
+ * projected with further contributions only while GRV-insured; a typed
+ * Renteninformation amount (today's values) rises with the Rentenwert.
+ */
+const projectPublicPension = (
+  data: OnboardingData,
+  suffix: '' | '_A' | '_B',
+  birthYear: number,
+  retirementAge: number,
+  currentYear: number,
+): PublicPensionEstimate => {
+  const pensions = data.pensions || {};
+  const income = data.income || {};
+  const entgeltpunkte = pensions[`entgeltpunkte${suffix}`];
+  const typedPension = pensions[`public67${suffix}`] || 0;
+  const insured = isStatutoryPensionInsured(data, suffix);
+  const grossAnnual = insured
+    ? income[`grossAnnual${suffix}`] || (income[`netMonthly${suffix}`] || 0) * 12 * 1.3 // Estimate gross from net
+    : 0;
+
+  if (!entgeltpunkte && typedPension > 0) {
+    return {
+      monthlyNominal: indexPensionToRetirementYear(typedPension, Math.floor(birthYear + retirementAge), currentYear),
+      monthlyToday: typedPension,
+      entgeltpunkte: 0,
+    };
+  }
+  if (!entgeltpunkte && !grossAnnual) return { monthlyNominal: 0, monthlyToday: 0, entgeltpunkte: 0 };
+
+  const projection = projectStatutoryPension({
+    birthYear,
+    currentGrossAnnual: grossAnnual,
+    existingEntgeltpunkte: entgeltpunkte || undefined,
+    retirementAge,
+    currentYear,
+  });
+  return {
+    monthlyNominal: projection.monthlyPensionNominal,
+    monthlyToday: projection.monthlyPensionToday,
+    entgeltpunkte: projection.entgeltpunkte,
+  };
+};
+
+/**
+ * Monthly KV/PV contributions of one person in the first retirement year.
+ * Civil servants are assumed to stay privately insured with Beihilfe, everyone
+ * else in the KVdR.
+ */
+const estimateRetireeContributions = (
+  data: OnboardingData,
+  suffix: '' | '_A' | '_B',
+  statutoryPension: number,
+  privatePensionPayout: number,
+  yearsToRetirement: number,
+  inflationRate: number,
+): number => {
+  const pensions = data.pensions || {};
+  const civilServantPension = pensions[`civil67${suffix}`] || 0;
+  const civilServant = civilServantPension > 0 && statutoryPension === 0;
+  return calculateRetireeContributions({
+    status: determineRetireeHealthInsurance({ statutoryInsured: !civilServant }),
+    income: {
+      statutoryPension,
+      civilServantPension,
+      professionalPension: pensions[`profession67${suffix}`] || 0,
+      occupationalPension:
+        (pensions[`zvkVbl67${suffix}`] || 0) + (data.occupationalPension?.[`amount${suffix}`] || 0),
+      privatePension:
+        (data.riester?.[`amount${suffix}`] || 0) + (data.ruerup?.[`amount${suffix}`] || 0) + privatePensionPayout,
+    },
+    childless: !data.personal?.children?.has,
+    privatePremium: civilServant
+      ? RETIRED_CIVIL_SERVANT_PKV_PREMIUM * getDeflator(inflationRate, yearsToRetirement)
+      : 0,
+    year: new Date().getFullYear() + yearsToRetirement,
+  }).total;
+};
+
+// Follow-up financing at the current rate with the same payment
+const estimateMortgageCashflow = (
+  data: OnboardingData,
+  retirementYear: number,
+): (MortgageRetirementCashflow & { plan: MortgagePlan }) | null => {
+  const mortgage = data.mortgage;
+  if (!mortgage?.has || !mortgage.remainingDebtNow || mortgage.interestRate === undefined || !mortgage.fixationEndYear) {
+    return null;
+  }
+  const plan = calculateMortgagePlan({
+    remainingDebt: mortgage.remainingDebtNow,
+    interestRate: mortgage.interestRate,
+    fixationEndYear: mortgage.fixationEndYear,
+    remainingDebtAtFixationEnd: mortgage.remainingDebtAtFixationEnd,
+    startYear: new Date().getFullYear(),
+  });
+  return {
+    ...getMortgageRetirementCashflow(plan, retirementYear, mortgage.remainingDebtNow),
+    plan,
+  };
+};
+
+const TIMELINE_END_AGE = 85;
+
+// Expected inflation from the onboarding (in %), the simulation default otherwise
+const getInflationRate = (data: OnboardingData): number =>
+  data.personal?.inflationRate !== undefined ? data.personal.inflationRate / 100 : DEFAULT_INFLATION_RATE;
+// Summary assumptions for private savings: return until retirement, withdrawals afterwards
+const PRIVATE_SAVINGS_RETURN = 0.05;
+const PRIVATE_SAVINGS_WITHDRAWAL_RATE = 0.04;
+
+// Private pension contract with flexible withdrawals until the end of the timeline
+const simulateSummaryPrivatePension = (
+  monthlyContribution: number,
+  currentAge: number,
+  retirementAge: number,
+  inflationRate: number,
+): SimulationResults | null => {
+  const termYears = retirementAge - currentAge;
+  if (monthlyContribution <= 0 || termYears <= 0) return null;
+  return calculatePrivatePension({
+    scenarioId: 'dashboard',
+    currentAge,
+    startAge: currentAge,
+    monthlyContribution,
+    startInvestment: 0,
+    termYears,
+    payoutStartAge: retirementAge,
+    payoutEndAge: Math.max(retirementAge + 1, TIMELINE_END_AGE),
+    payoutMode: 'flex',
+    safeWithdrawalRate: PRIVATE_SAVINGS_WITHDRAWAL_RATE,
+    expectedReturn: PRIVATE_SAVINGS_RETURN,
+    ter: 0,
+    policyFeeAnnualPct: 0,
+    policyFixedAnnual: 0,
+    taxRatePayout: 0.17,
+    inflationRate,
+  });
+};
+
+// Existing fund depot: grows until retirement, then pays out with the withdrawal rate
+const simulateSummaryFundDepot = (
+  balance: number,
+  currentAge: number,
+  retirementAge: number,
+  startYear: number,
+): CashflowEntry[] => {
+  if (balance <= 0) return [];
+  const valueAtRetirement = calculateCompoundInterest({
+    principal: balance,
+    monthlyContribution: 0,
+    annualReturn: PRIVATE_SAVINGS_RETURN,
+    years: Math.max(0, retirementAge - currentAge),
+  }).futureValue;
+  const params = createDefaultSimulationParams({
+    currentAge,
+    retirementAge,
+    finalAge: Math.max(currentAge, TIMELINE_END_AGE),
+    monthlySavings: 0,
+    initialInvestment: balance,
+    expectedReturnPa: PRIVATE_SAVINGS_RETURN * 100,
+    annualMgmtFee: 0,
+    monthlyWithdrawal: (valueAtRetirement * PRIVATE_SAVINGS_WITHDRAWAL_RATE) / 12,
+    startYear,
+  });
+  return pensionComparisonCashflows(runPensionComparison(params), params);
+};
+// Monthly pension per 10,000 € capital of the Riester and bAV contracts at retirement
+const CONTRACT_RENTENFAKTOR = 30;
+// Net monthly budgets offered for the recommended product mix
+const OPTIMIZER_BUDGETS = [100, 200, 300, 500];
+
+interface HouseholdLedgerInput {
+  startYear: number;
+  inflationRate: number;
+  currentAge: number;
+  retirementAge: number;
+  /**
+   * Contracts saved until retirement: the monthly contribution and the yearly Zulagen paid
+   * into the contract build its capital, which is annuitised at retirement
+   */
+  contracts: { product: string; monthly: number; subsidy?: number; taxRefund?: number }[];
+  /** Monthly payouts in euros of the retirement year; indexed ones rise with inflation afterwards */
+  payouts: { product: string; monthly: number; indexed?: boolean }[];
+  /** KV/PV in the retirement year, indexed like the statutory pension */
+  healthInsuranceMonthly: number;
+  /** Entries of products with their own emitter (private pension contract, fund depot) */
+  productCashflows: CashflowEntry[];
+  /** Assets without a projection, kept at today's value */
+  otherAssets: number;
+  mortgagePlan: MortgagePlan | null;
+}
+
+// The summary's assumptions as yearly ledger entries for the timeline
+const buildHouseholdLedger = (input: HouseholdLedgerInput): CashflowLedger => {
+  const { startYear, inflationRate, currentAge, retirementAge } = input;
+  const retirementYear = startYear + Math.max(0, retirementAge - currentAge);
+  const endYear = startYear + Math.max(0, TIMELINE_END_AGE - currentAge);
+  const entries: CashflowEntry[] = [
+    { year: startYear, product: 'assets', type: 'assetValue', amount: input.otherAssets },
+    ...input.productCashflows,
+  ];
+
+  const contractPayouts: HouseholdLedgerInput['payouts'] = input.contracts.map((contract) => {
+    let capital = 0;
+    for (let year = startYear; year < retirementYear; year++) {
+      capital = capital * (1 + PRIVATE_SAVINGS_RETURN) + contract.monthly * 12 + (contract.subsidy || 0);
+      entries.push(
+        { year, product: contract.product, type: 'contribution', amount: contract.monthly * 12 },
+        { year, product: contract.product, type: 'taxRefund', amount: contract.taxRefund || 0 },
+        { year, product: contract.product, type: 'assetValue', amount: capital },
+      );
+    }
+    return { product: contract.product, monthly: (capital / 10000) * CONTRACT_RENTENFAKTOR };
+  });
+  for (let year = retirementYear; year <= endYear; year++) {
+    const indexation = getDeflator(inflationRate, year - retirementYear);
+    for (const payout of [...input.payouts, ...contractPayouts]) {
+      entries.push({
+        year,
+        product: payout.product,
+        type: 'payout',
+        amount: payout.monthly * 12 * (payout.indexed ? indexation : 1),
+      });
+    }
+    entries.push({
+      year,
+      product: 'healthInsurance',
+      type: 'socialContribution',
+      amount: input.healthInsuranceMonthly * 12 * indexation,
+    });
+  }
+  if (input.mortgagePlan) entries.push(...mortgageCashflows(input.mortgagePlan));
+
+  return createCashflowLedger(entries, { startYear, inflationRate });
+};
+
 const formatMetricValue = (value: number, formatter: (v: number) => string) =>
   formatter(Number.isFinite(value) ? value : 0);
 
@@ -143,6 +452,9 @@ const MetricCard = ({
 export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
   const { data, isCompleted } = useOnboardingStore();
   const [, setLocation] = useLocation();
+  const [valueView, setValueView] = useState<ValueView>('nominal');
+  const [survivorScenario, setSurvivorScenario] = useState<CouplePartner>('A');
+  const [optimizerBudget, setOptimizerBudget] = useState(OPTIMIZER_BUDGETS[1]);
 
   // Bulletproof error handling for Dashboard
   try {
@@ -166,16 +478,37 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
       ? (income.netMonthly_A || 0) + (income.netMonthly_B || 0)
       : income.netMonthly || 0;
 
+    const currentYear = new Date().getFullYear();
+    const currentAge = personal.age || 30;
+    const retirementAge = (isMarriedBoth ? personal.retirementAge_A : personal.retirementAge) || 67;
+    const birthYearA = personal.birthYear || currentYear - currentAge;
+    const inflationRate = getInflationRate(data);
+
+    // GRV in euros of the retirement year, projected from Entgeltpunkte where possible
+    const grvProjections = isMarriedBoth
+      ? [
+          projectPublicPension(data, '_A', birthYearA, retirementAge, currentYear),
+          projectPublicPension(
+            data,
+            '_B',
+            currentYear - (personal.age_B || currentAge),
+            personal.retirementAge_B || 67,
+            currentYear,
+          ),
+        ]
+      : [projectPublicPension(data, '', birthYearA, retirementAge, currentYear)];
+    const entgeltpunkte = grvProjections.reduce((sum, estimate) => sum + estimate.entgeltpunkte, 0);
+
     const totalStatutoryPension = isMarriedBoth
-      ? (pensions.public67_A || 0) +
-        (pensions.public67_B || 0) +
+      ? grvProjections[0].monthlyNominal +
+        grvProjections[1].monthlyNominal +
         (pensions.civil67_A || 0) +
         (pensions.civil67_B || 0) +
         (pensions.profession67_A || 0) +
         (pensions.profession67_B || 0) +
         (pensions.zvkVbl67_A || 0) +
         (pensions.zvkVbl67_B || 0)
-      : (pensions.public67 || 0) +
+      : grvProjections[0].monthlyNominal +
         (pensions.civil67 || 0) +
         (pensions.profession67 || 0) +
         (pensions.zvkVbl67 || 0);
@@ -195,27 +528,15 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
       ? (privatePension.contribution_A || 0) + (privatePension.contribution_B || 0)
       : privatePension.contribution || 0;
 
-    // Estimate monthly payout from private pension using CORRECT monthly compounding
-    // Assumptions: 5% return, accumulation from current age to 67, then 4% withdrawal rate
-    const currentAge = personal.age || 30;
-    const retirementAge = 67;
+    // Private pension: 5% return until retirement, then 4% withdrawals (first-year payout)
     const yearsToRetirement = Math.max(0, retirementAge - currentAge);
-    const expectedReturn = 0.05; // 5% annual return
-    const withdrawalRate = 0.04; // 4% annual withdrawal rate
-
-    let privatePensionMonthlyPayout = 0;
-    if (privatePensionContribution > 0 && yearsToRetirement > 0) {
-      // Use CORRECT monthly compounding calculator (fixes ISS-001)
-      const result = calculateCompoundInterest({
-        principal: 0,
-        monthlyContribution: privatePensionContribution,
-        annualReturn: expectedReturn,
-        years: yearsToRetirement,
-      });
-
-      // Convert to monthly payout using withdrawal rate
-      privatePensionMonthlyPayout = (result.futureValue * withdrawalRate) / 12;
-    }
+    const privatePensionResults = simulateSummaryPrivatePension(
+      privatePensionContribution,
+      currentAge,
+      retirementAge,
+      inflationRate,
+    );
+    const privatePensionMonthlyPayout = privatePensionResults?.kpis.monthlyPension ?? 0;
 
     // Calculate Riester subsidies (ISS-003)
     const grossAnnualIncome = isMarriedBoth
@@ -246,27 +567,124 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
       : savings.balance || 0;
 
     const totalAssets = lifeInsuranceSum + fundsBalance + savingsBalance;
+
+    // KV/PV on the retirement income of each person
+    const privatePayoutFor = (suffix: '_A' | '_B') =>
+      privatePensionContribution > 0
+        ? (privatePensionMonthlyPayout * (privatePension[`contribution${suffix}`] || 0)) / privatePensionContribution
+        : 0;
+    const healthInsuranceContributions = isMarriedBoth
+      ? estimateRetireeContributions(
+          data,
+          '_A',
+          grvProjections[0].monthlyNominal,
+          privatePayoutFor('_A'),
+          yearsToRetirement,
+          inflationRate,
+        ) +
+        estimateRetireeContributions(
+          data,
+          '_B',
+          grvProjections[1].monthlyNominal,
+          privatePayoutFor('_B'),
+          yearsToRetirement,
+          inflationRate,
+        )
+      : estimateRetireeContributions(
+          data,
+          '',
+          grvProjections[0].monthlyNominal,
+          privatePensionMonthlyPayout,
+          yearsToRetirement,
+          inflationRate,
+        );
+
+    // Pensions are paid in euros of the retirement year - the real view shows today's purchasing power
+    const priceLevelAtRetirement = getDeflator(inflationRate, yearsToRetirement);
+    const retirementDeflator = valueView === 'real' ? priceLevelAtRetirement : 1;
+    const statutoryPensionInView = totalStatutoryPension / retirementDeflator;
+    const riesterAmountInView = riesterAmount / retirementDeflator;
+    const ruerupAmountInView = ruerupAmount / retirementDeflator;
+    const occupationalAmountInView = occupationalAmount / retirementDeflator;
+    const privatePensionPayoutInView = privatePensionMonthlyPayout / retirementDeflator;
+    const healthInsuranceInView = healthInsuranceContributions / retirementDeflator;
+
     const totalRetirementIncome =
-      totalStatutoryPension + riesterAmount + ruerupAmount + occupationalAmount + privatePensionMonthlyPayout;
-    const replacementRatio = netMonthly > 0 ? (totalRetirementIncome / netMonthly) * 100 : 0;
-    // Coverage gap calculation: Gap = (Net Income × 0.8) – Total Retirement Income
+      statutoryPensionInView +
+      riesterAmountInView +
+      ruerupAmountInView +
+      occupationalAmountInView +
+      privatePensionPayoutInView;
+    const netRetirementIncome = totalRetirementIncome - healthInsuranceInView;
+    const replacementRatio = netMonthly > 0 ? (netRetirementIncome / netMonthly) * 100 : 0;
+
+    // Mortgage payments that continue into retirement widen the gap
+    const mortgageCashflow = estimateMortgageCashflow(data, currentYear + yearsToRetirement);
+    const mortgageCostInView = (mortgageCashflow?.monthlyHousingCost || 0) / retirementDeflator;
+
+    // Coverage gap calculation: Gap = (Net Income × 0.8) – Retirement Income after KV/PV + mortgage payments
     // Includes ALL retirement income sources for accurate coverage assessment
-    const pensionGap = Math.max(0, netMonthly * 0.8 - totalRetirementIncome);
+    const pensionGap = Math.max(0, netMonthly * 0.8 - netRetirementIncome + mortgageCostInView);
+    // The optimizer works in today's euros regardless of the view
+    const pensionGapToday = calculatePensionGapToday({
+      targetNetIncome: netMonthly * 0.8,
+      netRetirementIncome,
+      housingCost: mortgageCostInView,
+      view: valueView,
+      retirementDeflator: priceLevelAtRetirement,
+    });
+
+    const ledger = buildHouseholdLedger({
+      startYear: currentYear,
+      inflationRate,
+      currentAge,
+      retirementAge,
+      contracts: [
+        {
+          product: 'riester',
+          monthly: riesterAmount,
+          subsidy: riesterResult?.totalSubsidy,
+          taxRefund: riesterResult ? riesterResult.totalBenefit - riesterResult.totalSubsidy : 0,
+        },
+        { product: 'occupationalPension', monthly: occupationalAmount, taxRefund: occupationalResult?.totalSavings },
+      ],
+      payouts: [
+        { product: 'statutoryPension', monthly: totalStatutoryPension, indexed: true },
+        { product: 'ruerup', monthly: ruerupAmount },
+      ],
+      healthInsuranceMonthly: healthInsuranceContributions,
+      productCashflows: [
+        ...(privatePensionResults ? privatePensionCashflows(privatePensionResults, { startYear: currentYear }) : []),
+        ...simulateSummaryFundDepot(fundsBalance, currentAge, retirementAge, currentYear),
+      ],
+      otherAssets: lifeInsuranceSum + savingsBalance,
+      mortgagePlan: mortgageCashflow?.plan ?? null,
+    });
 
     return {
       age: personal.age || 0,
+      retirementAge,
+      inflationRate,
+      entgeltpunkte,
       maritalStatus: personal.maritalStatus || 'ledig',
       children: personal.children?.count ?? 0,
       netMonthly,
-      totalStatutoryPension,
-      riesterAmount,
-      ruerupAmount,
-      occupationalAmount,
-      privatePensionMonthlyPayout,
+      totalStatutoryPension: statutoryPensionInView,
+      riesterAmount: riesterAmountInView,
+      ruerupAmount: ruerupAmountInView,
+      occupationalAmount: occupationalAmountInView,
+      privatePensionMonthlyPayout: privatePensionPayoutInView,
       totalRetirementIncome,
+      healthInsuranceContributions: healthInsuranceInView,
+      netRetirementIncome,
+      mortgageDebtFreeYear: mortgageCashflow?.plan.debtFreeYear ?? null,
+      mortgageCostInRetirement: mortgageCostInView,
       totalAssets,
       replacementRatio,
       pensionGap,
+      pensionGapToday,
+      grossAnnualIncome,
+      isMarriedBoth,
       // New calculator results
       riesterSubsidy: riesterResult?.totalSubsidy || 0,
       riesterNetCost: riesterResult?.netCost || 0,
@@ -274,13 +692,125 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
       occupationalTaxSavings: occupationalResult?.totalSavings || 0,
       occupationalNetCost: occupationalResult?.netCost || 0,
       occupationalSavingsRate: occupationalResult?.savingsRate || 0,
+      ledger,
+    };
+  }, [data, valueView]);
+
+  // Couples are projected per partner with Ehegattensplitting and a survivor scenario
+  const couplePlans = useMemo(() => {
+    const personal = data.personal || {};
+    if (personal.maritalStatus !== 'verheiratet' || personal.calcScope !== 'beide_personen') {
+      return null;
+    }
+
+    const currentYear = new Date().getFullYear();
+    const ageA = personal.age || 30;
+    const ageB = personal.age_B || ageA;
+
+    const partnerInput = (suffix: '_A' | '_B', age: number, retirementAge: number): CouplePartnerInput => {
+      const income = data.income || {};
+      const pensions = data.pensions || {};
+      const netMonthly = income[`netMonthly${suffix}`] || 0;
+      const birthYear = suffix === '_A' && personal.birthYear ? personal.birthYear : currentYear - age;
+      // The couple plan indexes statutory claims itself and expects today's values
+      const publicPension = projectPublicPension(data, suffix, birthYear, retirementAge, currentYear).monthlyToday;
+      const civilPension = pensions[`civil67${suffix}`] || 0;
+      const privateContribution = data.privatePension?.[`contribution${suffix}`] || 0;
+
+      // Same private pension estimate as the summary: 5% return, 4% withdrawal
+      const years = Math.max(0, retirementAge - age);
+      const privateIncomeMonthly = privateContribution > 0 && years > 0
+        ? (calculateCompoundInterest({
+            principal: 0,
+            monthlyContribution: privateContribution,
+            annualReturn: 0.05,
+            years,
+          }).futureValue * 0.04) / 12
+        : 0;
+
+      return {
+        age,
+        retirementAge,
+        grossAnnualIncome: income[`grossAnnual${suffix}`] || netMonthly * 12 * 1.3,
+        statutoryPensionMonthly: publicPension + (pensions[`profession67${suffix}`] || 0),
+        civilServantPensionMonthly: civilPension,
+        supplementaryPensionMonthly:
+          (pensions[`zvkVbl67${suffix}`] || 0) +
+          (data.riester?.[`amount${suffix}`] || 0) +
+          (data.ruerup?.[`amount${suffix}`] || 0) +
+          (data.occupationalPension?.[`amount${suffix}`] || 0),
+        privateIncomeMonthly,
+        pensionContributionsMonthly: privateContribution,
+        civilServant: civilPension > 0 && publicPension === 0,
+      };
     };
-  }, [data]);
+
+    const input = {
+      partnerA: partnerInput('_A', ageA, personal.retirementAge_A || 67),
+      partnerB: partnerInput('_B', ageB, personal.retirementAge_B || 67),
+      startYear: currentYear,
+      children: personal.children?.count ?? 0,
+      // The marriage date is not asked for: couples with a partner born before 1962 are assumed to fall under the old law
+      survivorPensionRate: getSurvivorPensionRate(
+        personal.birthYear || currentYear - ageA,
+        currentYear - ageB,
+        true
+      ),
+    };
+
+    return {
+      base: calculateCouplePlan(input),
+      survivor: calculateCouplePlan({
+        ...input,
+        death: { partner: survivorScenario, age: SURVIVOR_SCENARIO_DEATH_AGE },
+      }),
+    };
+  }, [data, survivorScenario]);
+
+  // Product mix for the chosen budget; pensions are shown in the selected view
+  const gapOptimization = useMemo(() => {
+    if (summary.pensionGapToday <= 0 || summary.grossAnnualIncome <= 0) return null;
+    const currentAge = summary.age || 30;
+    if (currentAge >= summary.retirementAge) return null;
+    const result = optimizeRetirementGap({
+      monthlyBudget: optimizerBudget,
+      pensionGap: summary.pensionGapToday,
+      currentAge,
+      retirementAge: summary.retirementAge,
+      grossAnnualIncome: summary.grossAnnualIncome,
+      children: summary.children,
+      assessment: summary.isMarriedBoth ? 'joint' : 'single',
+      childless: summary.children === 0,
+      inflationRate: summary.inflationRate,
+    });
+    const toView =
+      valueView === 'nominal' ? getDeflator(summary.inflationRate, summary.retirementAge - currentAge) : 1;
+    return {
+      ...result,
+      allocations: result.allocations
+        .filter((allocation) => allocation.rank !== null)
+        .map((allocation) => ({ ...allocation, monthlyNetIncome: allocation.monthlyNetIncome * toView })),
+      remainingGap: result.remainingGap * toView,
+    };
+  }, [summary, optimizerBudget, valueView]);
 
   const incomeTimelineData = useMemo(() => {
+    if (couplePlans) {
+      return couplePlans.base.years.map((year, index) => {
+        const deflator = valueView === 'real' ? getDeflator(summary.inflationRate, index) : 1;
+        return {
+          age: year.A.age,
+          haushaltsEinkommen: year.netIncome / 12 / deflator,
+          hinterbliebenenEinkommen: couplePlans.survivor.years[index].netIncome / 12 / deflator,
+        };
+      });
+    }
+
     const timeline = [];
     const currentAge = summary.age || 30;
-    const retirementAge = 67;
+    const retirementAge = summary.retirementAge;
+    const projection = aggregateCashflowLedger(summary.ledger, { view: valueView });
+    const firstYear = summary.ledger.startYear;
 
     for (let age = currentAge; age < retirementAge; age += 5) {
       timeline.push({
@@ -289,15 +819,16 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
         rentenEinkommen: 0,
       });
     }
-    for (let age = retirementAge; age <= 85; age += 5) {
+    for (let age = retirementAge; age <= TIMELINE_END_AGE; age += 5) {
+      const year = projection.find((row) => row.year === firstYear + age - currentAge);
       timeline.push({
         age,
         aktuellesEinkommen: 0,
-        rentenEinkommen: summary.totalRetirementIncome,
+        rentenEinkommen: year ? year.netIncome / 12 : 0,
       });
     }
     return timeline;
-  }, [summary]);
+  }, [summary, couplePlans, valueView]);
 
   const pensionBreakdownData = useMemo(() => {
     const breakdown: { name: string; value: number; color: string }[] = [];
@@ -343,7 +874,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
       replacementRatio: 'Versorgungsquote',
       totalAssets: 'Gesamtvermögen',
       perMonth: '/Monat',
-      atAge: 'mit 67 Jahren',
+      atAge: (age: number) => `mit ${age} Jahren`,
+      entgeltpunkte: (points: number) => `${points.toFixed(1)} Entgeltpunkte`,
+      afterHealthInsurance: (amount: string) => `nach KV/PV (${amount})`,
+      mortgageInRetirement: (amount: string) => `inkl. Kreditrate ${amount}`,
+      debtFree: (year: number) => `schuldenfrei ${year}`,
       personalInfo: 'Persönliche Daten',
       age: 'Alter',
       maritalStatus: 'Familienstand',
@@ -352,6 +887,19 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
       incomeTimeline: 'Einkommensentwicklung',
       pensionBreakdown: 'Renten-Zusammensetzung',
       planNow: 'Jetzt vorsorgen',
+      optimizerTitle: 'Empfohlener Produktmix',
+      optimizerBudget: (amount: string) => `${amount}/Monat`,
+      optimizerLine: (contribution: string, netCost: string, income: string) =>
+        `${contribution} Beitrag (netto ${netCost}) → +${income} Rente/Monat`,
+      optimizerRemaining: (amount: string) => `Verbleibende Lücke: ${amount}/Monat`,
+      optimizerClosed: 'Die Lücke wird mit diesem Budget geschlossen.',
+      gapProducts: {
+        riester: 'Riester-Rente',
+        ruerup: 'Rürup-Rente',
+        bav: 'Betriebsrente (bAV)',
+        etf: 'ETF-Sparplan',
+        insurance: 'Fondsgebundene Rentenversicherung',
+      } as Record<GapProduct, string>,
       pensionGapHeadline: 'Versorgungslücke erkannt',
       ledig: 'Ledig',
       verheiratet: 'Verheiratet',
@@ -360,6 +908,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
       verwitwet: 'Verwitwet',
       emptyStateMessage: 'Bitte schließen Sie das Onboarding ab, um personalisierte Auswertungen zu sehen.',
       startOnboarding: 'Onboarding starten',
+      nominalView: 'Nominal',
+      realView: 'Real (Kaufkraft heute)',
+      householdIncome: 'Haushalt netto',
+      survivorIncome: 'Hinterbliebenen-Szenario',
+      partnerDies: (partner: string) => `Person ${partner} verstirbt mit ${SURVIVOR_SCENARIO_DEATH_AGE}`,
+      coupleNote: (rate: number, advantage: string) =>
+        `Ehegattensplitting, Witwenrente ${Math.round(rate * 100)}% · Splittingvorteil heute ${advantage}/Jahr`,
     },
     en: {
       welcome: 'Welcome back',
@@ -370,7 +925,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
       replacementRatio: 'Replacement ratio',
       totalAssets: 'Total assets',
       perMonth: '/month',
-      atAge: 'at age 67',
+      atAge: (age: number) => `at age ${age}`,
+      entgeltpunkte: (points: number) => `${points.toFixed(1)} pension points`,
+      afterHealthInsurance: (amount: string) => `after health insurance (${amount})`,
+      mortgageInRetirement: (amount: string) => `incl. mortgage payment ${amount}`,
+      debtFree: (year: number) => `debt-free ${year}`,
       personalInfo: 'Personal information',
       age: 'Age',
       maritalStatus: 'Marital status',
@@ -379,6 +938,19 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
       incomeTimeline: 'Income timeline',
       pensionBreakdown: 'Pension breakdown',
       planNow: 'Plan now',
+      optimizerTitle: 'Recommended product mix',
+      optimizerBudget: (amount: string) => `${amount}/month`,
+      optimizerLine: (contribution: string, netCost: string, income: string) =>
+        `${contribution} contribution (net ${netCost}) → +${income} pension/month`,
+      optimizerRemaining: (amount: string) => `Remaining gap: ${amount}/month`,
+      optimizerClosed: 'This budget closes the gap.',
+      gapProducts: {
+        riester: 'Riester pension',
+        ruerup: 'Rürup pension',
+        bav: 'Occupational pension (bAV)',
+        etf: 'ETF savings plan',
+        insurance: 'Unit-linked pension insurance',
+      } as Record<GapProduct, string>,
       pensionGapHeadline: 'Pension gap detected',
       ledig: 'Single',
       verheiratet: 'Married',
@@ -387,6 +959,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
       verwitwet: 'Widowed',
       emptyStateMessage: 'Complete the onboarding to see personalised insights.',
       startOnboarding: 'Start onboarding',
+      nominalView: 'Nominal',
+      realView: "Real (today's euros)",
+      householdIncome: 'Household net',
+      survivorIncome: 'Survivor scenario',
+      partnerDies: (partner: string) => `Person ${partner} dies at ${SURVIVOR_SCENARIO_DEATH_AGE}`,
+      coupleNote: (rate: number, advantage: string) =>
+        `Income splitting, survivor pension ${Math.round(rate * 100)}% · splitting advantage today ${advantage}/year`,
     },
   } as const;
 
@@ -400,11 +979,23 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
   return (
     <div className="min-h-screen bg-background py-10">
       <div className="container px-4 md:px-6">
-        <header className="mb-10">
-          <h1 className="text-3xl font-semibold tracking-tight text-foreground sm:text-4xl">
-            {t.welcome}
-          </h1>
-          <p className="mt-2 text-base text-muted-foreground sm:text-lg">{t.overview}</p>
+        <header className="mb-10 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-semibold tracking-tight text-foreground sm:text-4xl">
+              {t.welcome}
+            </h1>
+            <p className="mt-2 text-base text-muted-foreground sm:text-lg">{t.overview}</p>
+          </div>
+          {hasData && (
+            <SegmentedControl
+              value={valueView}
+              onValueChange={(value) => setValueView(value as ValueView)}
+              options={[
+                { value: 'nominal', label: t.nominalView },
+                { value: 'real', label: t.realView },
+              ]}
+            />
+          )}
         </header>
 
         {/* Empty State: Onboarding NOT completed */}
@@ -484,18 +1075,30 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
           <MetricCard
             title={t.retirementIncome}
             icon={<Shield className="h-5 w-5 text-primary" />}
-            value={summary.totalRetirementIncome}
+            value={summary.netRetirementIncome}
             formatter={formatCurrency}
-            description={t.atAge}
+            description={[
+              t.atAge(summary.retirementAge),
+              summary.entgeltpunkte > 0 ? t.entgeltpunkte(summary.entgeltpunkte) : null,
+              summary.healthInsuranceContributions > 0
+                ? t.afterHealthInsurance(formatCurrency(summary.healthInsuranceContributions))
+                : null,
+            ].filter(Boolean).join(' · ')}
           />
           <MetricCard
             title={t.pensionGap}
             icon={<TrendingUp className="h-5 w-5 text-primary" />}
             value={summary.pensionGap}
             formatter={formatCurrency}
-            description={`${t.replacementRatio}: ${
-              summary.replacementRatio > 0 ? `${summary.replacementRatio.toFixed(1)}%` : '–'
-            }`}
+            description={[
+              `${t.replacementRatio}: ${
+                summary.replacementRatio > 0 ? `${summary.replacementRatio.toFixed(1)}%` : '–'
+              }`,
+              summary.mortgageCostInRetirement > 0
+                ? t.mortgageInRetirement(formatCurrency(summary.mortgageCostInRetirement))
+                : null,
+              summary.mortgageDebtFreeYear !== null ? t.debtFree(summary.mortgageDebtFreeYear) : null,
+            ].filter(Boolean).join(' · ')}
             valueClassName={
               summary.pensionGap > 0 ? 'text-destructive' : 'text-emerald-600'
             }
@@ -516,6 +1119,24 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
                 <Calendar className="h-5 w-5 text-primary" />
                 <span>{t.incomeTimeline}</span>
               </CardTitle>
+              {couplePlans && (
+                <div className="flex flex-wrap items-center justify-between gap-2 pt-2">
+                  <p className="text-xs text-muted-foreground">
+                    {t.coupleNote(
+                      couplePlans.base.survivorPensionRate,
+                      formatCurrency(couplePlans.base.years[0]?.splittingAdvantage ?? 0),
+                    )}
+                  </p>
+                  <SegmentedControl
+                    value={survivorScenario}
+                    onValueChange={(value) => setSurvivorScenario(value as CouplePartner)}
+                    options={[
+                      { value: 'A', label: t.partnerDies('A') },
+                      { value: 'B', label: t.partnerDies('B') },
+                    ]}
+                  />
+                </div>
+              )}
             </CardHeader>
             <CardContent className="h-[320px]">
               <ResponsiveContainer width="100%" height="100%">
@@ -537,20 +1158,42 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
                     formatter={(value: number) => formatCurrency(value)}
                     labelFormatter={(age) => `${language === 'de' ? 'Alter' : 'Age'}: ${age}`}
                   />
-                  <Area
-                    type="monotone"
-                    dataKey="aktuellesEinkommen"
-                    stroke="#2563eb"
-                    fill="url(#currentIncomeGradient)"
-                    name={language === 'de' ? 'Netto-Einkommen' : 'Net income'}
-                  />
-                  <Area
-                    type="monotone"
-                    dataKey="rentenEinkommen"
-                    stroke="#0ea5e9"
-                    fill="url(#retirementIncomeGradient)"
-                    name={language === 'de' ? 'Renten-Einkommen' : 'Retirement income'}
-                  />
+                  {couplePlans ? (
+                    <>
+                      <Area
+                        type="monotone"
+                        dataKey="haushaltsEinkommen"
+                        stroke="#2563eb"
+                        fill="url(#currentIncomeGradient)"
+                        name={t.householdIncome}
+                      />
+                      <Area
+                        type="monotone"
+                        dataKey="hinterbliebenenEinkommen"
+                        stroke="#f97316"
+                        strokeDasharray="5 5"
+                        fill="none"
+                        name={t.survivorIncome}
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <Area
+                        type="monotone"
+                        dataKey="aktuellesEinkommen"
+                        stroke="#2563eb"
+                        fill="url(#currentIncomeGradient)"
+                        name={language === 'de' ? 'Netto-Einkommen' : 'Net income'}
+                      />
+                      <Area
+                        type="monotone"
+                        dataKey="rentenEinkommen"
+                        stroke="#0ea5e9"
+                        fill="url(#retirementIncomeGradient)"
+                        name={language === 'de' ? 'Renten-Einkommen' : 'Retirement income'}
+                      />
+                    </>
+                  )}
                 </AreaChart>
               </ResponsiveContainer>
             </CardContent>
@@ -644,6 +1287,42 @@ export const Dashboard: React.FC<DashboardProps> = ({ language = 'de' }) => {
                     <ArrowRight className="ml-2 h-4 w-4" />
                   </Button>
                 </CardContent>
+                {gapOptimization && (
+                  <CardContent className="border-t border-amber-200 pt-4">
+                    <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                      <h4 className="text-sm font-semibold text-amber-900">{t.optimizerTitle}</h4>
+                      <SegmentedControl
+                        value={String(optimizerBudget)}
+                        onValueChange={(value) => setOptimizerBudget(Number(value))}
+                        options={OPTIMIZER_BUDGETS.map((budget) => ({
+                          value: String(budget),
+                          label: t.optimizerBudget(formatCurrency(budget)),
+                        }))}
+                      />
+                    </div>
+                    <ol className="space-y-1 text-sm text-amber-900">
+                      {gapOptimization.allocations.map((allocation) => (
+                        <li key={allocation.product} className="flex flex-wrap justify-between gap-2">
+                          <span className="font-medium">
+                            {allocation.rank}. {t.gapProducts[allocation.product]}
+                          </span>
+                          <span>
+                            {t.optimizerLine(
+                              formatCurrency(allocation.monthlyContribution),
+                              formatCurrency(allocation.monthlyNetCost),
+                              formatCurrency(allocation.monthlyNetIncome),
+                            )}
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                    <p className="mt-2 text-xs text-amber-800">
+                      {gapOptimization.gapClosed
+                        ? t.optimizerClosed
+                        : t.optimizerRemaining(formatCurrency(gapOptimization.remainingGap))}
+                    </p>
+                  </CardContent>
+                )}
               </Card>
             )}
           </>
@@ -3,11 +3,18 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Settings, TrendingDown, DollarSign, Info } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Area, AreaChart } from 'recharts';
 import { formatCurrency } from '@/lib/utils';
-import { calculateMonthlyPayoutAfterTax, TaxSettings, DEFAULT_TAX_SETTINGS } from '@/utils/germanTaxCalculations';
+import { TaxSettings, DEFAULT_TAX_SETTINGS } from '@/utils/germanTaxCalculations';
+import {
+  compareWithdrawalStrategies,
+  DEFAULT_PAYOUT_RETURN,
+  type WithdrawalStrategyId,
+} from '@shared/utils/withdrawal-strategies';
+import type { RetireeHealthInsuranceStatus } from '@shared/utils/retiree-health-insurance';
 import { Switch } from '@/components/ui/switch';
 
 interface FlexiblePayoutSimulatorProps {
@@ -17,19 +24,17 @@ interface FlexiblePayoutSimulatorProps {
   currentAge: number;
   payoutStartAge: number;
   payoutEndAge: number;
+  childless?: boolean;
   language?: 'de' | 'en';
 }
 
-interface PayoutSimulationPoint {
-  year: number;
-  age: number;
-  portfolioValue: number;
-  annualWithdrawal: number;
-  annualGains: number;
-  annualTax: number;
-  netAnnualPayout: number;
-  netMonthlyPayout: number;
-}
+const STRATEGY_COLORS: Record<WithdrawalStrategyId, string> = {
+  constantReal: '#3b82f6',
+  fixedPercentage: '#10b981',
+  guytonKlinger: '#f59e0b',
+  vpw: '#8b5cf6',
+  spendToZero: '#ef4444',
+};
 
 export const FlexiblePayoutSimulator: React.FC<FlexiblePayoutSimulatorProps> = ({
   isOpen,
@@ -38,6 +43,7 @@ export const FlexiblePayoutSimulator: React.FC<FlexiblePayoutSimulatorProps> = (
   currentAge,
   payoutStartAge,
   payoutEndAge,
+  childless = false,
   language = 'de'
 }) => {
   const [showSettings, setShowSettings] = useState(false);
@@ -45,6 +51,11 @@ export const FlexiblePayoutSimulator: React.FC<FlexiblePayoutSimulatorProps> = (
     Math.round(portfolioValue * 0.04) // 4% rule default
   );
   const [hasCustomWithdrawal, setHasCustomWithdrawal] = useState(false);
+  const [strategy, setStrategy] = useState<WithdrawalStrategyId>('constantReal');
+  const [expectedReturnPct, setExpectedReturnPct] = useState(DEFAULT_PAYOUT_RETURN * 100);
+  const [withdrawalRatePct, setWithdrawalRatePct] = useState(4);
+  const [depletionAge, setDepletionAge] = useState(payoutEndAge);
+  const [healthInsurance, setHealthInsurance] = useState<RetireeHealthInsuranceStatus>('kvdr');
 
   const [taxSettings, setTaxSettings] = useState<TaxSettings>({
     ...DEFAULT_TAX_SETTINGS,
@@ -65,70 +76,41 @@ export const FlexiblePayoutSimulator: React.FC<FlexiblePayoutSimulatorProps> = (
     }
   }, [portfolioValue, isOpen, hasCustomWithdrawal]);
 
-  // Calculate payout simulation
-  const simulationData = useMemo((): PayoutSimulationPoint[] => {
-    const data: PayoutSimulationPoint[] = [];
-    let remainingValue = portfolioValue;
-    const years = payoutEndAge - payoutStartAge;
-    const expectedReturn = 0.05; // 5% conservative return during payout
-
-    for (let year = 0; year <= years; year++) {
-      const age = payoutStartAge + year;
-
-      // Calculate gains for this year (assuming growth continues)
-      const annualGains = remainingValue * expectedReturn;
-
-      // Apply tax calculation
-      const taxResult = calculateMonthlyPayoutAfterTax(
-        annualWithdrawalAmount,
-        annualGains,
-        age,
-        taxSettings
-      );
-
-      data.push({
-        year: year + 1,
-        age,
-        portfolioValue: Math.max(0, remainingValue),
-        annualWithdrawal: annualWithdrawalAmount,
-        annualGains,
-        annualTax: taxResult.annualTax,
-        netAnnualPayout: taxResult.annualNet,
-        netMonthlyPayout: taxResult.monthlyNet
-      });
-
-      // Update portfolio value for next year
-      remainingValue = remainingValue + annualGains - annualWithdrawalAmount;
-
-      // Stop if portfolio depleted
-      if (remainingValue <= 0) {
-        remainingValue = 0;
-        break;
-      }
-    }
+  // Every strategy runs on the same portfolio, the selected one drives the detail views
+  const simulations = useMemo(() => compareWithdrawalStrategies({
+    portfolioValue,
+    payoutStartAge,
+    payoutEndAge,
+    expectedReturn: expectedReturnPct / 100,
+    taxSettings,
+    healthInsurance: { status: healthInsurance, childless },
+    params: {
+      initialAmount: annualWithdrawalAmount,
+      initialRate: withdrawalRatePct / 100,
+      percentage: withdrawalRatePct / 100,
+      depletionAge,
+    },
+  }), [portfolioValue, payoutStartAge, payoutEndAge, expectedReturnPct, taxSettings, healthInsurance, childless, annualWithdrawalAmount, withdrawalRatePct, depletionAge]);
 
-    return data;
-  }, [portfolioValue, payoutStartAge, payoutEndAge, annualWithdrawalAmount, taxSettings]);
+  const selectedSimulation = simulations.find((simulation) => simulation.strategy === strategy) ?? simulations[0];
+  const simulationData = selectedSimulation.years;
 
-  // Calculate summary statistics
   const summary = useMemo(() => {
     if (simulationData.length === 0) return null;
+    return { ...selectedSimulation.summary, yearsOfPayout: simulationData.length };
+  }, [selectedSimulation, simulationData]);
 
-    const totalWithdrawn = simulationData.reduce((sum, point) => sum + point.annualWithdrawal, 0);
-    const totalTaxes = simulationData.reduce((sum, point) => sum + point.annualTax, 0);
-    const totalNetPayout = simulationData.reduce((sum, point) => sum + point.netAnnualPayout, 0);
-    const averageMonthlyNet = totalNetPayout / simulationData.length / 12;
-    const finalPortfolioValue = simulationData[simulationData.length - 1]?.portfolioValue || 0;
-
-    return {
-      totalWithdrawn,
-      totalTaxes,
-      totalNetPayout,
-      averageMonthlyNet,
-      finalPortfolioValue,
-      yearsOfPayout: simulationData.length
-    };
-  }, [simulationData]);
+  // Net monthly payout per age and strategy for the comparison chart
+  const comparisonData = useMemo(() => {
+    const ages = Array.from({ length: payoutEndAge - payoutStartAge + 1 }, (_, i) => payoutStartAge + i);
+    return ages.map((age) => ({
+      age,
+      ...Object.fromEntries(simulations.map((simulation) => [
+        simulation.strategy,
+        Math.round(simulation.years.find((point) => point.age === age)?.netMonthlyAfterContributions ?? 0),
+      ])),
+    }));
+  }, [simulations, payoutStartAge, payoutEndAge]);
 
   const texts = {
     de: {
@@ -143,11 +125,34 @@ export const FlexiblePayoutSimulator: React.FC<FlexiblePayoutSimulatorProps> = (
       totalWithdrawn: 'Gesamte Entnahmen',
       totalTaxes: 'Gesamte Steuern',
       netPayout: 'Netto-Auszahlung',
-      monthlyNet: 'Monatlich nach Steuern',
       finalValue: 'Restwert mit',
       chart: 'Vermögensentwicklung',
       infoTitle: 'Steuerberechnung',
-      infoText: 'Die Berechnung berücksichtigt Freistellungsauftrag, Teilfreistellung (15% auf Erträge) und optional das Halbeinkünfteverfahren ab 62 Jahren.'
+      infoText: 'Die Berechnung berücksichtigt Freistellungsauftrag, Teilfreistellung (15% auf Erträge) und optional das Halbeinkünfteverfahren ab 62 Jahren.',
+      strategy: 'Entnahmestrategie',
+      strategies: {
+        constantReal: 'Konstanter realer Betrag',
+        fixedPercentage: 'Fester Prozentsatz',
+        guytonKlinger: 'Guyton-Klinger (Leitplanken)',
+        vpw: 'Variable Entnahme (VPW)',
+        spendToZero: 'Verbrauch bis Alter',
+      } as Record<WithdrawalStrategyId, string>,
+      expectedReturn: 'Rendite p.a. (%)',
+      withdrawalRate: 'Entnahmerate (%)',
+      depletionAge: 'Vermögen aufgebraucht mit',
+      comparison: 'Strategievergleich',
+      comparisonChart: 'Netto nach KV/PV pro Monat je Strategie',
+      minMax: 'Min. / Max. pro Monat',
+      depletedAt: 'aufgebraucht mit',
+      healthInsurance: 'Krankenversicherung im Ruhestand',
+      healthInsuranceOptions: {
+        kvdr: 'KVdR (pflichtversichert)',
+        voluntary: 'Freiwillig gesetzlich',
+        private: 'Privat (PKV)',
+      } as Record<RetireeHealthInsuranceStatus, string>,
+      monthlyNetAfterContributions: 'Monatlich nach Steuern und KV/PV',
+      socialContributions: 'KV/PV',
+      healthInsuranceInfo: 'Freiwillig gesetzlich Versicherte zahlen auf ausgezahlte Erträge zusätzlich Kranken- und Pflegeversicherungsbeiträge, in der KVdR und PKV fallen darauf keine Beiträge an.'
     },
     en: {
       title: 'Flexible Payout Phase Simulator',
@@ -161,11 +166,34 @@ export const FlexiblePayoutSimulator: React.FC<FlexiblePayoutSimulatorProps> = (
       totalWithdrawn: 'Total Withdrawals',
       totalTaxes: 'Total Taxes',
       netPayout: 'Net Payout',
-      monthlyNet: 'Monthly After Tax',
       finalValue: 'Remaining Value at',
       chart: 'Portfolio Development',
       infoTitle: 'Tax Calculation',
-      infoText: 'The calculation considers tax allowance, partial exemption (15% on gains) and optionally half-income taxation from age 62.'
+      infoText: 'The calculation considers tax allowance, partial exemption (15% on gains) and optionally half-income taxation from age 62.',
+      strategy: 'Withdrawal strategy',
+      strategies: {
+        constantReal: 'Constant real amount',
+        fixedPercentage: 'Fixed percentage',
+        guytonKlinger: 'Guyton-Klinger guardrails',
+        vpw: 'Variable percentage (VPW)',
+        spendToZero: 'Spend to zero by age',
+      } as Record<WithdrawalStrategyId, string>,
+      expectedReturn: 'Return p.a. (%)',
+      withdrawalRate: 'Withdrawal rate (%)',
+      depletionAge: 'Portfolio used up at',
+      comparison: 'Strategy comparison',
+      comparisonChart: 'Net after health insurance per month by strategy',
+      minMax: 'Min. / max. per month',
+      depletedAt: 'depleted at',
+      healthInsurance: 'Health insurance in retirement',
+      healthInsuranceOptions: {
+        kvdr: 'Statutory (KVdR)',
+        voluntary: 'Statutory, voluntary member',
+        private: 'Private (PKV)',
+      } as Record<RetireeHealthInsuranceStatus, string>,
+      monthlyNetAfterContributions: 'Monthly after tax and health insurance',
+      socialContributions: 'Health/care',
+      healthInsuranceInfo: 'Voluntary members of the statutory health insurance also pay health and long-term care contributions on paid-out gains; in the KVdR and with private insurance no contributions apply.'
     }
   };
 
@@ -199,7 +227,61 @@ export const FlexiblePayoutSimulator: React.FC<FlexiblePayoutSimulatorProps> = (
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>{t.strategy}</Label>
+                  <Select value={strategy} onValueChange={(value) => setStrategy(value as WithdrawalStrategyId)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {simulations.map((simulation) => (
+                        <SelectItem key={simulation.strategy} value={simulation.strategy}>
+                          {t.strategies[simulation.strategy]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>{t.expectedReturn}</Label>
+                  <Input
+                    type="number"
+                    step="0.1"
+                    value={expectedReturnPct}
+                    onChange={(e) => setExpectedReturnPct(Number(e.target.value) || 0)}
+                  />
+                </div>
+
+                {(strategy === 'fixedPercentage' || strategy === 'guytonKlinger') && (
+                  <div className="space-y-2">
+                    <Label>{t.withdrawalRate}</Label>
+                    <Input
+                      type="number"
+                      step="0.1"
+                      min={0.5}
+                      max={20}
+                      value={withdrawalRatePct}
+                      onChange={(e) => setWithdrawalRatePct(Math.max(0.5, Number(e.target.value) || 0))}
+                    />
+                  </div>
+                )}
+
+                {strategy === 'spendToZero' && (
+                  <div className="space-y-2">
+                    <Label>{t.depletionAge}</Label>
+                    <Input
+                      type="number"
+                      min={payoutStartAge + 1}
+                      max={payoutEndAge}
+                      value={depletionAge}
+                      onChange={(e) => setDepletionAge(Math.min(payoutEndAge, Math.max(payoutStartAge + 1, Number(e.target.value) || payoutEndAge)))}
+                    />
+                  </div>
+                )}
+
+                {strategy === 'constantReal' && (
                 <div className="space-y-2">
                   <Label>{t.annualWithdrawal}</Label>
                   <div className="relative">
@@ -222,9 +304,29 @@ export const FlexiblePayoutSimulator: React.FC<FlexiblePayoutSimulatorProps> = (
                     {formatCurrency(annualWithdrawalAmount / 12)}
                   </p>
                 </div>
+                )}
 
                 {showSettings && (
                   <>
+                    <div className="space-y-2">
+                      <Label>{t.healthInsurance}</Label>
+                      <Select
+                        value={healthInsurance}
+                        onValueChange={(value) => setHealthInsurance(value as RetireeHealthInsuranceStatus)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(t.healthInsuranceOptions) as RetireeHealthInsuranceStatus[]).map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {t.healthInsuranceOptions[status]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
                     <div className="space-y-2">
                       <Label>{t.allowance}</Label>
                       <div className="relative">
@@ -275,9 +377,9 @@ export const FlexiblePayoutSimulator: React.FC<FlexiblePayoutSimulatorProps> = (
                 <CardContent className="pt-6">
                   <div className="text-center">
                     <div className="text-2xl font-bold text-primary">
-                      {formatCurrency(summary.averageMonthlyNet)}
+                      {formatCurrency(summary.averageMonthlyNetAfterContributions)}
                     </div>
-                    <p className="text-sm text-muted-foreground mt-1">{t.monthlyNet}</p>
+                    <p className="text-sm text-muted-foreground mt-1">{t.monthlyNetAfterContributions}</p>
                   </div>
                 </CardContent>
               </Card>
@@ -319,6 +421,78 @@ export const FlexiblePayoutSimulator: React.FC<FlexiblePayoutSimulatorProps> = (
             </div>
           )}
 
+          {/* Strategy Comparison */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t.comparison}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2">{t.strategy}</th>
+                      <th className="text-right p-2">{t.monthlyNetAfterContributions}</th>
+                      <th className="text-right p-2">{t.minMax}</th>
+                      <th className="text-right p-2">{t.totalTaxes}</th>
+                      <th className="text-right p-2">{t.finalValue} {payoutEndAge}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {simulations.map((simulation) => (
+                      <tr
+                        key={simulation.strategy}
+                        className={`border-b cursor-pointer hover:bg-accent/50 ${simulation.strategy === strategy ? 'bg-accent/30 font-semibold' : ''}`}
+                        onClick={() => setStrategy(simulation.strategy)}
+                      >
+                        <td className="p-2">
+                          <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: STRATEGY_COLORS[simulation.strategy] }} />
+                          {t.strategies[simulation.strategy]}
+                        </td>
+                        <td className="text-right p-2 font-mono">{formatCurrency(simulation.summary.averageMonthlyNetAfterContributions)}</td>
+                        <td className="text-right p-2 font-mono">
+                          {formatCurrency(simulation.summary.minMonthlyNet)} / {formatCurrency(simulation.summary.maxMonthlyNet)}
+                        </td>
+                        <td className="text-right p-2 font-mono text-red-600">{formatCurrency(simulation.summary.totalTaxes)}</td>
+                        <td className="text-right p-2 font-mono">
+                          {simulation.summary.depletedAtAge !== null
+                            ? `${t.depletedAt} ${simulation.summary.depletedAtAge}`
+                            : formatCurrency(simulation.summary.finalPortfolioValue)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold mb-2">{t.comparisonChart}</h4>
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={comparisonData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="age" />
+                    <YAxis tickFormatter={(value) => formatCurrency(value)} width={90} />
+                    <Tooltip
+                      formatter={(value: number, name: string) => [formatCurrency(value), t.strategies[name as WithdrawalStrategyId] ?? name]}
+                      labelFormatter={(age) => `${language === 'de' ? 'Alter' : 'Age'}: ${age}`}
+                    />
+                    <Legend formatter={(value: string) => t.strategies[value as WithdrawalStrategyId] ?? value} />
+                    {simulations.map((simulation) => (
+                      <Line
+                        key={simulation.strategy}
+                        type="monotone"
+                        dataKey={simulation.strategy}
+                        stroke={STRATEGY_COLORS[simulation.strategy]}
+                        strokeWidth={simulation.strategy === strategy ? 3 : 1.5}
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Info Box */}
           <Card className="bg-blue-50 border-blue-200">
             <CardContent className="pt-6">
@@ -327,6 +501,7 @@ export const FlexiblePayoutSimulator: React.FC<FlexiblePayoutSimulatorProps> = (
                 <div>
                   <h4 className="font-semibold text-blue-900 mb-1">{t.infoTitle}</h4>
                   <p className="text-sm text-blue-800">{t.infoText}</p>
+                  <p className="text-sm text-blue-800 mt-2">{t.healthInsuranceInfo}</p>
                   {summary && (
                     <div className="mt-3 text-sm text-blue-900 font-medium">
                       {language === 'de' ? 'Effektive Steuerbelastung: ' : 'Effective Tax Rate: '}
@@ -405,6 +580,7 @@ export const FlexiblePayoutSimulator: React.FC<FlexiblePayoutSimulatorProps> = (
                       <th className="text-right p-2">{language === 'de' ? 'Portfoliowert' : 'Portfolio'}</th>
                       <th className="text-right p-2">{language === 'de' ? 'Entnahme' : 'Withdrawal'}</th>
                       <th className="text-right p-2">{language === 'de' ? 'Steuern' : 'Taxes'}</th>
+                      <th className="text-right p-2">{t.socialContributions}</th>
                       <th className="text-right p-2">{language === 'de' ? 'Netto/Monat' : 'Net/Month'}</th>
                     </tr>
                   </thead>
@@ -415,8 +591,9 @@ export const FlexiblePayoutSimulator: React.FC<FlexiblePayoutSimulatorProps> = (
                         <td className="text-right p-2 font-mono">{formatCurrency(point.portfolioValue)}</td>
                         <td className="text-right p-2 font-mono">{formatCurrency(point.annualWithdrawal)}</td>
                         <td className="text-right p-2 font-mono text-red-600">{formatCurrency(point.annualTax)}</td>
+                        <td className="text-right p-2 font-mono text-red-600">{formatCurrency(point.annualSocialContributions)}</td>
                         <td className="text-right p-2 font-mono text-green-600 font-bold">
-                          {formatCurrency(point.netMonthlyPayout)}
+                          {formatCurrency(point.netMonthlyAfterContributions)}
                         </td>
                       </tr>
                     ))}
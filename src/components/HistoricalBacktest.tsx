@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { History } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatCurrency } from '@/lib/utils';
+import type { InsertPrivatePensionPlan } from '@shared/schema';
+import { runHistoricalBacktest, type BacktestAllocation } from '@shared/utils/backtest';
+
+interface HistoricalBacktestProps {
+  language?: 'de' | 'en';
+}
+
+type AllocationPreset = 'world' | 'dax' | 'world6040';
+
+const ALLOCATION_PRESETS: Record<AllocationPreset, BacktestAllocation> = {
+  world: { msciWorld: 1 },
+  dax: { dax: 1 },
+  world6040: { msciWorld: 0.6, euroBonds: 0.4 },
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const HistoricalBacktest: React.FC<HistoricalBacktestProps> = ({ language = 'de' }) => {
+  const [preset, setPreset] = useState<AllocationPreset>('world');
+  const [monthlyContribution, setMonthlyContribution] = useState(300);
+  const [currentAge, setCurrentAge] = useState(45);
+  const [payoutStartAge, setPayoutStartAge] = useState(67);
+  const [payoutEndAge, setPayoutEndAge] = useState(85);
+  const [withdrawalRatePct, setWithdrawalRatePct] = useState(4);
+
+  const texts = {
+    de: {
+      title: 'Historischer Backtest',
+      subtitle: 'Sparplan und Entnahmeplan über alle rollierenden Zeiträume seit 1970',
+      allocation: 'Anlage',
+      world: 'MSCI World',
+      dax: 'DAX',
+      world6040: '60% MSCI World / 40% Euro-Anleihen',
+      monthlyContribution: 'Sparrate (€/Monat)',
+      currentAge: 'Alter heute',
+      payoutStartAge: 'Rentenbeginn',
+      payoutEndAge: 'Entnahme bis Alter',
+      withdrawalRate: 'Entnahmerate (% p.a.)',
+      savingsPhase: (years: number) => `Sparphase (${years} Jahre)`,
+      withdrawalPhase: (years: number) => `Entnahmephase (${years} Jahre)`,
+      worst: 'Schlechtester Zeitraum',
+      median: 'Median',
+      best: 'Bester Zeitraum',
+      noWindows: 'Die Daten decken keinen Zeitraum dieser Länge ab.',
+      realValue: 'Endwert in Kaufkraft des Startjahres',
+      successRate: 'Entnahme hätte gereicht',
+      safeWithdrawalRate: 'Historisch sichere Entnahmerate',
+      limitedBy: (year: number) => `begrenzt durch Start ${year}`,
+      sustainableRate: 'Maximal tragbare Entnahmerate je Startjahr',
+      startYear: 'Startjahr',
+      disclaimer: 'Jahresrenditen vor Steuern, mit 0,2% Fondskosten. Vergangene Entwicklungen sind kein verlässlicher Indikator für die Zukunft.',
+    },
+    en: {
+      title: 'Historical backtest',
+      subtitle: 'Savings and withdrawal plan over every rolling period since 1970',
+      allocation: 'Investment',
+      world: 'MSCI World',
+      dax: 'DAX',
+      world6040: '60% MSCI World / 40% euro bonds',
+      monthlyContribution: 'Contribution (€/month)',
+      currentAge: 'Current age',
+      payoutStartAge: 'Retirement age',
+      payoutEndAge: 'Withdrawals until age',
+      withdrawalRate: 'Withdrawal rate (% p.a.)',
+      savingsPhase: (years: number) => `Savings phase (${years} years)`,
+      withdrawalPhase: (years: number) => `Withdrawal phase (${years} years)`,
+      worst: 'Worst period',
+      median: 'Median',
+      best: 'Best period',
+      noWindows: 'The data does not cover a period of this length.',
+      realValue: 'Final value in purchasing power of the start year',
+      successRate: 'Withdrawals would have lasted',
+      safeWithdrawalRate: 'Historically safe withdrawal rate',
+      limitedBy: (year: number) => `limited by start in ${year}`,
+      sustainableRate: 'Highest sustainable withdrawal rate per start year',
+      startYear: 'Start year',
+      disclaimer: 'Annual returns before tax, with 0.2% fund costs. Past performance is not a reliable indicator of future results.',
+    },
+  };
+
+  const t = texts[language];
+
+  const results = useMemo(() => {
+    if (payoutStartAge <= currentAge || payoutEndAge <= payoutStartAge) return null;
+    const plan: InsertPrivatePensionPlan = {
+      scenarioId: 'backtest',
+      currentAge,
+      startAge: currentAge,
+      monthlyContribution,
+      startInvestment: 0,
+      termYears: payoutStartAge - currentAge,
+      payoutStartAge,
+      payoutEndAge,
+      payoutMode: 'flex',
+      annuityRate: 0.03,
+      ter: 0.002,
+      // The engine reads a fee of 0 as its default policy fee
+      policyFeeAnnualPct: 0.0001,
+      policyFixedAnnual: 0,
+      expectedReturn: 0.065,
+      volatility: 0.18,
+      rebalancingEnabled: true,
+      safeWithdrawalRate: withdrawalRatePct / 100,
+    };
+    const backtest = runHistoricalBacktest(plan, { allocation: ALLOCATION_PRESETS[preset] });
+    // Withdrawals start from the median outcome of the savings phase
+    const startCapital = backtest.savings.median?.realFinalValue;
+    return startCapital
+      ? runHistoricalBacktest(plan, { allocation: ALLOCATION_PRESETS[preset], startCapital })
+      : backtest;
+  }, [preset, monthlyContribution, currentAge, payoutStartAge, payoutEndAge, withdrawalRatePct]);
+
+  const numberInput = (id: string, label: string, value: number, onChange: (value: number) => void, min: number, max: number) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        value={value}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          if (!isNaN(next)) onChange(Math.min(max, Math.max(min, next)));
+        }}
+      />
+    </div>
+  );
+
+  const outcome = (label: string, value: string, detail: string) => (
+    <div className="rounded-xl bg-accent/20 p-4">
+      <p className="text-xs text-muted-foreground mb-1">{label}</p>
+      <p className="text-xl font-bold">{value}</p>
+      <p className="text-xs text-muted-foreground">{detail}</p>
+    </div>
+  );
+
+  const savings = results?.savings;
+  const withdrawal = results?.withdrawal;
+
+  return (
+    <Card className="chart-container-premium">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          {t.title}
+        </CardTitle>
+        <CardDescription>{t.subtitle}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          <div className="space-y-2 col-span-2 md:col-span-1 lg:col-span-1">
+            <Label>{t.allocation}</Label>
+            <Select value={preset} onValueChange={(value) => setPreset(value as AllocationPreset)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="world">{t.world}</SelectItem>
+                <SelectItem value="dax">{t.dax}</SelectItem>
+                <SelectItem value="world6040">{t.world6040}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {numberInput('backtest-contribution', t.monthlyContribution, monthlyContribution, setMonthlyContribution, 0, 10000)}
+          {numberInput('backtest-age', t.currentAge, currentAge, setCurrentAge, 18, 80)}
+          {numberInput('backtest-payout-start', t.payoutStartAge, payoutStartAge, setPayoutStartAge, 50, 85)}
+          {numberInput('backtest-payout-end', t.payoutEndAge, payoutEndAge, setPayoutEndAge, 55, 100)}
+          {numberInput('backtest-withdrawal-rate', t.withdrawalRate, withdrawalRatePct, setWithdrawalRatePct, 0.5, 15)}
+        </div>
+
+        {savings && (
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold">{t.savingsPhase(savings.years)}</h3>
+            {savings.worst && savings.median && savings.best ? (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {outcome(t.worst, formatCurrency(savings.worst.realFinalValue), `${savings.worst.startYear}–${savings.worst.endYear}`)}
+                  {outcome(t.median, formatCurrency(savings.median.realFinalValue), `${savings.median.startYear}–${savings.median.endYear}`)}
+                  {outcome(t.best, formatCurrency(savings.best.realFinalValue), `${savings.best.startYear}–${savings.best.endYear}`)}
+                </div>
+                <p className="text-xs text-muted-foreground">{t.realValue}</p>
+                <ResponsiveContainer width="100%" height={260}>
+                  <BarChart data={savings.windows.map((window) => ({ year: window.startYear, value: Math.round(window.realFinalValue) }))}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                    <XAxis dataKey="year" stroke="hsl(var(--muted-foreground))" style={{ fontSize: '12px' }} />
+                    <YAxis stroke="hsl(var(--muted-foreground))" style={{ fontSize: '12px' }} tickFormatter={(value) => `${Math.round(value / 1000)}k`} />
+                    <Tooltip formatter={(value: number) => [formatCurrency(value), t.realValue]} labelFormatter={(year) => `${t.startYear} ${year}`} />
+                    <Bar dataKey="value" fill="hsl(var(--chart-1))" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">{t.noWindows}</p>
+            )}
+          </div>
+        )}
+
+        {withdrawal && (
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold">{t.withdrawalPhase(withdrawal.years)}</h3>
+            {withdrawal.safeWithdrawalRate !== null && withdrawal.successRate !== null ? (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {outcome(
+                    t.successRate,
+                    formatPercent(withdrawal.successRate),
+                    `${formatPercent(withdrawal.withdrawalRate)} · ${formatCurrency(withdrawal.startCapital)}`
+                  )}
+                  {outcome(
+                    t.safeWithdrawalRate,
+                    formatPercent(withdrawal.safeWithdrawalRate),
+                    t.limitedBy(withdrawal.safeWithdrawalRateStartYear ?? 0)
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">{t.sustainableRate}</p>
+                <ResponsiveContainer width="100%" height={260}>
+                  <BarChart data={withdrawal.windows.map((window) => ({ year: window.startYear, rate: Math.round(window.maxSustainableRate * 1000) / 10 }))}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                    <XAxis dataKey="year" stroke="hsl(var(--muted-foreground))" style={{ fontSize: '12px' }} />
+                    <YAxis stroke="hsl(var(--muted-foreground))" style={{ fontSize: '12px' }} tickFormatter={(value) => `${value}%`} />
+                    <Tooltip formatter={(value: number) => [`${value}%`, t.sustainableRate]} labelFormatter={(year) => `${t.startYear} ${year}`} />
+                    <ReferenceLine y={withdrawalRatePct} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                    <Bar dataKey="rate" fill="hsl(var(--chart-2))" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">{t.noWindows}</p>
+            )}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">{t.disclaimer}</p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HistoricalBacktest;
@@ -15,6 +15,7 @@ import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, BarChart, Ba
 import { Calculator, TrendingDown, TrendingUp, Info, DollarSign, PiggyBank, AlertCircle } from 'lucide-react';
 import { calculateGermanTax, calculatePensionTaxSavings } from '@/utils/germanTaxCalculator';
 import { formatCurrency } from '@/lib/utils';
+import { CURRENT_TAX_YEAR } from '@/data/governmentParameters';
 
 const taxFormSchema = z.object({
   annualGrossIncome: z.number().min(0).max(10000000),
@@ -108,7 +109,7 @@ export const TaxCalculator: React.FC<TaxCalculatorProps> = ({ language = 'de', i
 
   const texts = {
     de: {
-      title: 'Steuerrechner 2024',
+      title: `Steuerrechner ${CURRENT_TAX_YEAR}`,
       description: 'Berechnen Sie Ihre Einkommensteuer nach deutschem Steuerrecht',
       income: 'Bruttoeinkommen (Jahr)',
       maritalStatus: 'Familienstand',
@@ -131,6 +132,9 @@ export const TaxCalculator: React.FC<TaxCalculatorProps> = ({ language = 'de', i
       marginalTaxRate: 'Grenzsteuersatz',
       taxBracket: 'Steuerklasse',
       breakdown: 'Steueraufschlüsselung',
+      guenstigerpruefung: 'Günstigerprüfung',
+      childAllowancesApplied: 'Kinderfreibeträge günstiger',
+      kindergeldApplied: 'Kindergeld günstiger',
       comparison: 'Brutto-Netto-Vergleich',
       pensionSavings: 'Steuerersparnis durch Altersvorsorge',
       savingsAmount: 'Ersparnis',
@@ -139,7 +143,7 @@ export const TaxCalculator: React.FC<TaxCalculatorProps> = ({ language = 'de', i
       annually: '/Jahr',
     },
     en: {
-      title: 'Tax Calculator 2024',
+      title: `Tax Calculator ${CURRENT_TAX_YEAR}`,
       description: 'Calculate your income tax according to German tax law',
       income: 'Gross Income (Annual)',
       maritalStatus: 'Marital Status',
@@ -162,6 +166,9 @@ export const TaxCalculator: React.FC<TaxCalculatorProps> = ({ language = 'de', i
       marginalTaxRate: 'Marginal Tax Rate',
       taxBracket: 'Tax Bracket',
       breakdown: 'Tax Breakdown',
+      guenstigerpruefung: 'Child benefit check',
+      childAllowancesApplied: 'Child allowances more favourable',
+      kindergeldApplied: 'Child benefit more favourable',
       comparison: 'Gross-Net Comparison',
       pensionSavings: 'Tax Savings from Pension',
       savingsAmount: 'Savings',
@@ -521,6 +528,16 @@ export const TaxCalculator: React.FC<TaxCalculatorProps> = ({ language = 'de', i
 
                 {/* Detailed Breakdown */}
                 <div className="space-y-2">
+                  {watchedValues.children > 0 && (
+                    <div className="flex justify-between py-2">
+                      <span className="text-muted-foreground">{t.guenstigerpruefung}:</span>
+                      <span className="font-semibold">
+                        {taxResult.guenstigerpruefung.allowancesApplied
+                          ? `${t.childAllowancesApplied} (+${formatCurrency(taxResult.guenstigerpruefung.kindergeld)})`
+                          : t.kindergeldApplied}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between py-2">
                     <span className="text-muted-foreground">{t.incomeTax}:</span>
                     <span className="font-semibold">{formatCurrency(taxResult.incomeTax)}</span>
@@ -1,6 +1,5 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback, memo } from 'react';
 import {
-  LineChart,
   Line,
   XAxis,
   YAxis,
@@ -11,12 +10,13 @@ import {
   BarChart,
   Bar,
   Area,
-  AreaChart
+  ComposedChart
 } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { formatCurrency } from '@/lib/utils';
 import { TrendingUp, TrendingDown, Activity } from 'lucide-react';
+import type { PercentileBandPoint } from '@shared/utils/monte-carlo';
 
 interface ChartDataPoint {
   year: number;
@@ -37,6 +37,8 @@ interface RealtimeChartProps {
   onDataPointClick?: (dataPoint: ChartDataPoint) => void;
   isUpdating?: boolean;
   lastUpdate?: string;
+  /** Monte Carlo percentile bands, matched to the data points by year */
+  bands?: PercentileBandPoint[];
 }
 
 const RealtimeChart: React.FC<RealtimeChartProps> = ({
@@ -47,7 +49,8 @@ const RealtimeChart: React.FC<RealtimeChartProps> = ({
   highlightChanges = true,
   onDataPointClick,
   isUpdating = false,
-  lastUpdate
+  lastUpdate,
+  bands
 }) => {
   const [animationKey, setAnimationKey] = useState(0);
   const [previousData, setPreviousData] = useState<ChartDataPoint[]>([]);
@@ -96,6 +99,54 @@ const RealtimeChart: React.FC<RealtimeChartProps> = ({
     };
   }, []);
 
+  // Merge percentile bands into the chart rows (the year-end band wins per year)
+  const chartData = useMemo(() => {
+    if (!bands || bands.length === 0) return data;
+    const bandsByYear = new Map<number, PercentileBandPoint>();
+    bands.forEach(band => bandsByYear.set(band.year, band));
+    return data.map(point => {
+      const band = bandsByYear.get(point.year);
+      return band
+        ? { ...point, band90: [band.p5, band.p95], band50: [band.p25, band.p75], median: band.p50 }
+        : point;
+    });
+  }, [data, bands]);
+
+  const hasBands = chartData !== data;
+
+  const renderBands = () => hasBands ? [
+    <Area
+      key="band90"
+      type="monotone"
+      dataKey="band90"
+      name="P5–P95"
+      stroke="none"
+      fill="#3b82f6"
+      fillOpacity={0.12}
+      isAnimationActive={false}
+    />,
+    <Area
+      key="band50"
+      type="monotone"
+      dataKey="band50"
+      name="P25–P75"
+      stroke="none"
+      fill="#3b82f6"
+      fillOpacity={0.25}
+      isAnimationActive={false}
+    />,
+    <Line
+      key="median"
+      type="monotone"
+      dataKey="median"
+      name="Median"
+      stroke="#1d4ed8"
+      strokeDasharray="4 4"
+      dot={false}
+      isAnimationActive={false}
+    />
+  ] : null;
+
   // Calculate trend
   const trend = useMemo(() => {
     if (data.length < 2) return null;
@@ -126,6 +177,11 @@ const RealtimeChart: React.FC<RealtimeChartProps> = ({
               {`Gebühren: ${formatCurrency(data.fees)}`}
             </p>
           )}
+          {data.median !== undefined && (
+            <p className="text-slate-600">
+              {`Median: ${formatCurrency(data.median)} (P5 ${formatCurrency(data.band90[0])} – P95 ${formatCurrency(data.band90[1])})`}
+            </p>
+          )}
           {data.payout && (
             <p className="text-purple-600">
               {`Auszahlung: ${formatCurrency(data.payout)}`}
@@ -169,7 +225,7 @@ const RealtimeChart: React.FC<RealtimeChartProps> = ({
 
   const renderChart = () => {
     const commonProps = {
-      data,
+      data: chartData,
       margin: { top: 5, right: 30, left: 20, bottom: 5 },
       onClick: onDataPointClick
     };
@@ -177,7 +233,7 @@ const RealtimeChart: React.FC<RealtimeChartProps> = ({
     switch (type) {
       case 'line':
         return (
-          <LineChart {...commonProps}>
+          <ComposedChart {...commonProps}>
             <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
             <XAxis 
               dataKey="year" 
@@ -191,6 +247,7 @@ const RealtimeChart: React.FC<RealtimeChartProps> = ({
             />
             <Tooltip content={<CustomTooltip />} />
             <Legend />
+            {renderBands()}
             <Line
               type="monotone"
               dataKey="portfolioValue"
@@ -200,7 +257,7 @@ const RealtimeChart: React.FC<RealtimeChartProps> = ({
               animationDuration={showAnimation ? 1000 : 0}
               animationBegin={0}
             />
-          </LineChart>
+          </ComposedChart>
         );
       
       case 'bar':
@@ -224,7 +281,7 @@ const RealtimeChart: React.FC<RealtimeChartProps> = ({
       
       default: // area
         return (
-          <AreaChart {...commonProps}>
+          <ComposedChart {...commonProps}>
             <defs>
               <linearGradient id="colorPortfolio" x1="0" y1="0" x2="0" y2="1">
                 <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.8}/>
@@ -244,16 +301,17 @@ const RealtimeChart: React.FC<RealtimeChartProps> = ({
             />
             <Tooltip content={<CustomTooltip />} />
             <Legend />
+            {renderBands()}
             <Area
               type="monotone"
               dataKey="portfolioValue"
               stroke="#3b82f6"
-              fillOpacity={1}
+              fillOpacity={hasBands ? 0.2 : 1}
               fill="url(#colorPortfolio)"
               dot={<CustomDot />}
               animationDuration={showAnimation ? 1000 : 0}
             />
-          </AreaChart>
+          </ComposedChart>
         );
     }
   };
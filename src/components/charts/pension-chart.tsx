@@ -18,7 +18,8 @@ import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLe
 import type { SimulationPoint } from "@/lib/types";
 
 interface PensionChartProps {
-  data: SimulationPoint[];
+  // Plots the values as given - callers pick the nominal or real view beforehand
+  data: Omit<SimulationPoint, "real">[];
   type?: "line" | "bar" | "area" | "composed";
   className?: string;
   height?: number;
@@ -0,0 +1,168 @@
+import React, { memo, useMemo } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import type {
+  SensitivityGrid,
+  SensitivityParameter,
+  SensitivityResults,
+} from "@shared/utils/sensitivity";
+
+type Language = 'de' | 'en';
+
+const PARAMETER_LABELS: Record<SensitivityParameter, Record<Language, string>> = {
+  expectedReturn: { de: "Rendite", en: "Return" },
+  ter: { de: "TER", en: "TER" },
+  policyFeeAnnualPct: { de: "Policenkosten", en: "Policy fee" },
+  monthlyContribution: { de: "Sparrate", en: "Contribution" },
+  termYears: { de: "Laufzeit", en: "Term" },
+  payoutStartAge: { de: "Rentenbeginn", en: "Payout start" },
+  taxRatePayout: { de: "Steuersatz Auszahlung", en: "Payout tax rate" },
+  inflationRate: { de: "Inflation", en: "Inflation" },
+};
+
+const RATE_PARAMETERS: SensitivityParameter[] = ["expectedReturn", "ter", "policyFeeAnnualPct", "taxRatePayout", "inflationRate"];
+
+/**
+ * Input value as shown next to the bars and on the heatmap axes.
+ */
+export function formatSensitivityInput(parameter: SensitivityParameter, value: number, language: Language = 'de'): string {
+  if (RATE_PARAMETERS.includes(parameter)) return `${(value * 100).toFixed(2)}%`;
+  if (parameter === "monthlyContribution") return `${Math.round(value)}€`;
+  return `${Math.round(value)} ${language === 'de' ? 'J.' : 'y'}`;
+}
+
+const formatEuro = (value: number) =>
+  value.toLocaleString('de-DE', { style: 'currency', currency: 'EUR', maximumFractionDigits: 0 });
+
+interface TornadoChartProps {
+  results: SensitivityResults;
+  language?: Language;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * Horizontal bars of the KPI change when each input is lowered (left colour)
+ * or raised (right colour), widest swing on top.
+ */
+export const TornadoChart = memo<TornadoChartProps>(function TornadoChart({
+  results,
+  language = 'de',
+  height = 360,
+  className = "",
+}) {
+  const chartData = useMemo(() =>
+    results.entries.map((entry) => ({
+      label: `${PARAMETER_LABELS[entry.parameter][language]} (${formatSensitivityInput(entry.parameter, entry.lowInput, language)} – ${formatSensitivityInput(entry.parameter, entry.highInput, language)})`,
+      low: Math.round(entry.lowImpact),
+      high: Math.round(entry.highImpact),
+    })), [results, language]);
+
+  const chartConfig = useMemo(() => ({
+    low: {
+      label: language === 'de' ? "Wert gesenkt" : "Input lowered",
+      color: "hsl(var(--chart-4))",
+    },
+    high: {
+      label: language === 'de' ? "Wert erhöht" : "Input raised",
+      color: "hsl(var(--chart-1))",
+    },
+  }), [language]);
+
+  return (
+    <ChartContainer config={chartConfig} className={className}>
+      <ResponsiveContainer width="100%" height={height}>
+        <BarChart data={chartData} layout="vertical" stackOffset="sign" margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} horizontal={false} />
+          <XAxis
+            type="number"
+            tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+            tickFormatter={(value) => `${value > 0 ? '+' : ''}${formatEuro(value)}`}
+          />
+          <YAxis
+            type="category"
+            dataKey="label"
+            width={220}
+            tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+          />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ReferenceLine x={0} stroke="hsl(var(--foreground))" />
+          <Bar dataKey="low" stackId="impact" fill="var(--color-low)" radius={4} />
+          <Bar dataKey="high" stackId="impact" fill="var(--color-high)" radius={4} />
+        </BarChart>
+      </ResponsiveContainer>
+    </ChartContainer>
+  );
+});
+
+interface SensitivityHeatmapProps {
+  grid: SensitivityGrid;
+  language?: Language;
+  className?: string;
+}
+
+/**
+ * Table of the KPI for every combination of two inputs, shaded from the
+ * lowest (light) to the highest value (saturated).
+ */
+export const SensitivityHeatmap = memo<SensitivityHeatmapProps>(function SensitivityHeatmap({
+  grid,
+  language = 'de',
+  className = "",
+}) {
+  const [min, max] = useMemo(() => {
+    const values = grid.cells.flat();
+    return [Math.min(...values), Math.max(...values)];
+  }, [grid]);
+
+  const shade = (value: number) => (max > min ? (value - min) / (max - min) : 0.5);
+
+  return (
+    <div className={`overflow-x-auto ${className}`}>
+      <table className="w-full text-sm border-separate border-spacing-1">
+        <thead>
+          <tr>
+            <th className="text-left text-xs text-muted-foreground font-medium p-2">
+              {PARAMETER_LABELS[grid.yParameter][language]} ↓ / {PARAMETER_LABELS[grid.xParameter][language]} →
+            </th>
+            {grid.xValues.map((xValue) => (
+              <th key={xValue} className="text-xs text-muted-foreground font-semibold p-2">
+                {formatSensitivityInput(grid.xParameter, xValue, language)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {grid.yValues.map((yValue, row) => (
+            <tr key={yValue}>
+              <th className="text-xs text-muted-foreground font-semibold p-2 text-left">
+                {formatSensitivityInput(grid.yParameter, yValue, language)}
+              </th>
+              {grid.cells[row].map((value, column) => (
+                <td
+                  key={grid.xValues[column]}
+                  className="rounded-md p-2 text-center font-mono font-semibold"
+                  style={{
+                    backgroundColor: `hsl(var(--chart-1) / ${0.1 + 0.8 * shade(value)})`,
+                    color: shade(value) > 0.6 ? 'white' : undefined,
+                  }}
+                  data-testid={`heatmap-cell-${row}-${column}`}
+                >
+                  {formatEuro(value)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+});
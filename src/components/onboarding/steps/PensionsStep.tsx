@@ -55,6 +55,25 @@ const PensionsStep: React.FC = () => {
               Ihre voraussichtliche gesetzliche Rente finden Sie in Ihrer jährlichen Renteninformation
             </p>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Bisherige Entgeltpunkte
+              <span className="text-gray-500 text-xs ml-1">(optional)</span>
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.0001"
+              value={pensions.entgeltpunkte || ''}
+              onChange={(e) => handlePensionChange('entgeltpunkte', parseFloat(e.target.value) || 0)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="z.B. 18,5"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Mit Ihren Entgeltpunkten wird die gesetzliche Rente aus Ihrem Einkommen hochgerechnet
+            </p>
+          </div>
         </div>
 
         {/* Beamtenpension */}
@@ -159,6 +178,22 @@ const PensionsStep: React.FC = () => {
                     placeholder="z.B. 1200"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Bisherige Entgeltpunkte
+                    <span className="text-gray-500 text-xs ml-1">(optional)</span>
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    value={pensions.entgeltpunkte_A || ''}
+                    onChange={(e) => handlePensionChange('entgeltpunkte_A', parseFloat(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="z.B. 18,5"
+                  />
+                </div>
                 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -229,6 +264,22 @@ const PensionsStep: React.FC = () => {
                     placeholder="z.B. 1000"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Bisherige Entgeltpunkte
+                    <span className="text-gray-500 text-xs ml-1">(optional)</span>
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    value={pensions.entgeltpunkte_B || ''}
+                    onChange={(e) => handlePensionChange('entgeltpunkte_B', parseFloat(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="z.B. 18,5"
+                  />
+                </div>
                 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { useOnboardingStore } from '../../../stores/onboardingStore';
 import { MaritalStatus, CalcScope } from '../../../types/onboarding';
 import { calculateAge, calculateBirthYear } from '../../../utils/onboardingValidation';
-import { Users, Heart, Baby, User, Calendar, Calculator, Info, AlertCircle } from 'lucide-react';
+import { Users, Heart, Baby, User, Calendar, Calculator, Info, AlertCircle, Percent } from 'lucide-react';
 import EnhancedTooltip from '../../ui/enhanced-tooltip';
 
 const PersonalDataStep: React.FC = () => {
@@ -58,6 +58,12 @@ const PersonalDataStep: React.FC = () => {
           message = 'Das Alter muss zwischen 18 und 100 Jahren liegen';
         }
         break;
+      case 'inflationRate':
+        const rate = Number(value);
+        if (rate < 0 || rate > 10) {
+          message = 'Die Inflationsrate muss zwischen 0 und 10% liegen';
+        }
+        break;
     }
     
     setValidationMessages(prev => ({ ...prev, [field]: message }));
@@ -86,6 +92,30 @@ const PersonalDataStep: React.FC = () => {
     });
   };
 
+  const handleOptionalFieldChange = (
+    field: 'retirementAge' | 'age_B' | 'retirementAge_A' | 'retirementAge_B',
+    value: number
+  ) => {
+    updateData({
+      personal: {
+        ...personal,
+        [field]: value || undefined
+      }
+    });
+  };
+
+  // 0% is a valid assumption, only an empty field falls back to the default
+  const handleInflationRateChange = (value: string) => {
+    const inflationRate = value === '' ? undefined : parseFloat(value);
+    updateData({
+      personal: {
+        ...personal,
+        inflationRate: Number.isFinite(inflationRate) ? inflationRate : undefined
+      }
+    });
+    if (inflationRate !== undefined) validateField('inflationRate', inflationRate);
+  };
+
   const handleChildrenChange = (has: boolean, count?: number) => {
     updateData({
       personal: {
@@ -311,9 +341,113 @@ const PersonalDataStep: React.FC = () => {
               </div>
             </label>
           </div>
+
+          {personal.calcScope === 'beide_personen' && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Alter Partner/in (B)
+                </label>
+                <input
+                  type="number"
+                  min="18"
+                  max="100"
+                  value={personal.age_B ?? ''}
+                  onChange={(e) => handleOptionalFieldChange('age_B', parseInt(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+                  placeholder={personal.age ? String(personal.age) : 'z.B. 36'}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Renteneintritt Person A
+                </label>
+                <input
+                  type="number"
+                  min="60"
+                  max="70"
+                  value={personal.retirementAge_A ?? ''}
+                  onChange={(e) => handleOptionalFieldChange('retirementAge_A', parseInt(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+                  placeholder="67"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Renteneintritt Person B
+                </label>
+                <input
+                  type="number"
+                  min="60"
+                  max="70"
+                  value={personal.retirementAge_B ?? ''}
+                  onChange={(e) => handleOptionalFieldChange('retirementAge_B', parseInt(e.target.value) || 0)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white"
+                  placeholder="67"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Retirement age (couples enter it per person above) */}
+      {personal.calcScope !== 'beide_personen' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+            <Calendar className="w-4 h-4" />
+            Geplanter Renteneintritt
+            <EnhancedTooltip
+              content="Ein früherer Renteneintritt kostet 0,3% gesetzliche Rente pro Monat, ein späterer bringt 0,5% pro Monat mehr."
+              position="top"
+            >
+              <Info className="w-4 h-4 text-gray-400 hover:text-blue-500 cursor-help" />
+            </EnhancedTooltip>
+          </label>
+          <input
+            type="number"
+            min="63"
+            max="70"
+            value={personal.retirementAge ?? ''}
+            onChange={(e) => handleOptionalFieldChange('retirementAge', parseInt(e.target.value) || 0)}
+            className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="67"
+          />
         </div>
       )}
 
+      {/* Expected inflation */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+          <Percent className="w-4 h-4" />
+          Erwartete Inflation (% p.a.)
+          <EnhancedTooltip
+            content="Rechnet Renten und Vermögen in die Kaufkraft von heute um. Ohne Angabe werden 2% angenommen."
+            position="top"
+          >
+            <Info className="w-4 h-4 text-gray-400 hover:text-blue-500 cursor-help" />
+          </EnhancedTooltip>
+        </label>
+        <input
+          type="number"
+          min="0"
+          max="10"
+          step="0.1"
+          value={personal.inflationRate ?? ''}
+          onChange={(e) => handleInflationRateChange(e.target.value)}
+          className={`w-32 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:border-transparent ${
+            validationMessages.inflationRate ? 'border-red-500 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+          }`}
+          placeholder="2"
+        />
+        {validationMessages.inflationRate && (
+          <div className="flex items-center mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+            <AlertCircle className="h-4 w-4 mr-2 text-red-500 flex-shrink-0" />
+            <span className="text-sm text-red-700">{validationMessages.inflationRate}</span>
+          </div>
+        )}
+      </div>
+
       {/* Children */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-3">
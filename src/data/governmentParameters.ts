@@ -1,8 +1,39 @@
-// Centralised snapshot of German tax and pension parameters (stand 2024).
-// Values should be refreshed annually from the official sources noted below.
+// Year-versioned registry of German tax and pension parameters.
+// Values should be refreshed annually from the official sources noted below;
+// years beyond the registry are projected with PROJECTION_ASSUMPTIONS.
+
+/**
+ * Income tax tariff per §32a Abs.1 EStG.
+ * zone1: (a * y + 1400) * y with y = (zvE - basicAllowance) / 10000
+ * zone2: (a * z + 2397) * z + c with z = (zvE - zone1End) / 10000
+ * zone3: 0.42 * zvE - offset, zone4: 0.45 * zvE - offset
+ */
+export interface IncomeTaxTariff {
+  basicAllowance: number; // Grundfreibetrag
+  zone1End: number;
+  zone2End: number;
+  zone3End: number;
+  zone1Factor: number;
+  zone2Factor: number;
+  zone2Constant: number;
+  zone3Offset: number;
+  zone4Offset: number;
+  /**
+   * Projected years scale every threshold by this factor:
+   * tax(zvE) = indexFactor * tariffTax(zvE / indexFactor). 1 for enacted tariffs.
+   */
+  indexFactor: number;
+}
 
 export interface GovernmentTaxParameters {
   year: number;
+  incomeTaxTariff: IncomeTaxTariff;
+  kinderfreibetrag: number; // per child, both parents (sächliches Existenzminimum)
+  betreuungsfreibetrag: number; // per child, both parents (BEA-Freibetrag)
+  kindergeldMonthly: number; // per child
+  arbeitnehmerPauschbetrag: number; // Werbungskosten-Pauschbetrag §9a S.1 Nr.1a EStG
+  sonderausgabenPauschbetrag: number; // §10c EStG, per person
+  solidaritySurchargeExemptionSingle: number; // Freigrenze on income tax
   sparerPauschbetragSingle: number;
   sparerPauschbetragMarried: number;
   capitalGainsTaxBaseRate: number; // decimal
@@ -11,62 +42,370 @@ export interface GovernmentTaxParameters {
   vorabpauschaleBasiszins: number; // decimal
   ruerupMaxContribution: number;
   ruerupDeductibleRate: number; // decimal
-  taxablePortionRetirement: number; // decimal for 2024
-  partialExemptionEquityFunds: number; // decimal
+  taxablePortionRetirement: number; // decimal, Besteuerungsanteil for pensions starting this year
+  partialExemptionEquityFunds: number; // decimal, Aktienfonds incl. equity ETFs
+  partialExemptionMixedFunds: number; // decimal, Mischfonds
+}
+
+export interface RiesterParameters {
+  grundzulage: number;
+  kinderzulageBornAfter2008: number;
+  kinderzulageBornBefore2008: number;
+  minContribution: number; // Sockelbetrag
+  maxContribution: number; // §10a Höchstbetrag incl. Zulagen
+  requiredIncomeShare: number; // decimal of prior-year income
+  berufseinsteigerbonus: number; // one-time increase of the Grundzulage, §84 S.2 EStG
+  berufseinsteigerMaxAge: number; // bonus only before this birthday
+  wohnfoerderkontoIncrease: number; // decimal, annual increase of the Wohnförderkonto, §92a Abs.2 S.3 EStG
+  wohnfoerderkontoLumpSumShare: number; // decimal taxed on Einmalbesteuerung, §22 Nr.5 S.5 EStG
+  wohnfoerderkontoEndAge: number; // the account is taxed down until this age
 }
 
 export interface GovernmentPensionParameters {
   year: number;
-  occupationalPensionMonthlyExemption: number;
+  pensionInsuranceCeilingAnnual: number; // BBG allgemeine RV (West until 2024)
+  occupationalPensionMonthlyExemption: number; // §3 Nr.63 EStG, 8% of BBG
+  occupationalPensionMonthlySocialSecurityExemption: number; // §1 SvEV, 4% of BBG
+  occupationalPensionEmployerSubsidyRate: number; // decimal, mandatory subsidy on Entgeltumwandlung, §1a Abs.1a BetrAVG
+  currentPensionValue: number; // aktueller Rentenwert in force on 1 January, €/month per Entgeltpunkt
+  averageEarnings: number; // vorläufiges Durchschnittsentgelt (Anlage 1 SGB VI), one Entgeltpunkt
+  riester: RiesterParameters;
+}
+
+/**
+ * Contribution rates and ceilings used for the Vorsorgepauschale (§39b Abs.2 S.5 Nr.3 EStG)
+ * and for employee/pensioner contributions.
+ */
+export interface SocialInsuranceParameters {
+  year: number;
+  pensionRate: number; // decimal, employer + employee
+  unemploymentRate: number; // decimal, employer + employee
+  healthRateGeneral: number; // decimal, allgemeiner Satz, also applies to statutory pensions
+  healthRateReduced: number; // decimal, ermäßigter Satz without Krankengeld
+  healthAdditionalRateAverage: number; // decimal, durchschnittlicher Zusatzbeitrag
+  longTermCareRate: number; // decimal, employer + employee
+  longTermCareChildlessSurcharge: number; // decimal, employee only
+  healthInsuranceCeilingAnnual: number; // BBG KV/PV
+  /** Freibetrag (KV) / Freigrenze (PV) on Versorgungsbezüge such as bAV pensions, 1/20 of the Bezugsgröße */
+  versorgungsbezuegeAllowanceMonthly: number;
+  /** Mindestvorsorgepauschale for KV/PV, abolished from 2026 */
+  minimumVorsorgepauschale: { rate: number; capSingle: number; capJoint: number } | null;
 }
 
 export interface GovernmentParameters {
   tax: GovernmentTaxParameters;
   pension: GovernmentPensionParameters;
+  socialInsurance: SocialInsuranceParameters;
   metadata: {
     lastUpdated: string;
+    /** true when the year is not enacted yet and was derived from the latest year */
+    projected: boolean;
     sources: Record<string, string>;
   };
 }
 
-export const GOVERNMENT_PARAMETERS_2024: GovernmentParameters = {
-  tax: {
-    year: 2024,
-    sparerPauschbetragSingle: 1_000,
-    sparerPauschbetragMarried: 2_000,
-    capitalGainsTaxBaseRate: 0.25,
-    solidaritySurchargeRate: 0.055,
-    churchTaxDefaultRate: 0.08,
-    vorabpauschaleBasiszins: 0.01, // 1.0% BMF-Mitteilung 2024
-    ruerupMaxContribution: 27_566,
-    ruerupDeductibleRate: 0.96,
-    taxablePortionRetirement: 0.83,
-    partialExemptionEquityFunds: 0.15,
+const SOURCES: Record<string, string> = {
+  incomeTaxTariff: '§32a Abs.1 EStG',
+  kinderfreibetrag: '§32 Abs.6 EStG',
+  kindergeld: '§66 EStG',
+  sparerPauschbetrag: '§20 Abs.9 EStG',
+  capitalGainsTax: '§32d EStG / BMF',
+  solidaritySurcharge: '§3, §4 SolzG 1995',
+  vorabpauschaleBasiszins: '§18 Abs.4 InvStG / BMF-Schreiben zum Basiszins',
+  ruerup: '§10 Abs.3 EStG (Höchstbeitrag knappschaftliche Rentenversicherung)',
+  taxablePortionRetirement: '§22 Nr.1 S.3 Buchst. a Doppelbuchst. aa EStG',
+  partialExemption: '§20 Abs.1, 2 InvStG',
+  occupationalPension: '§3 Nr.63 EStG / §1 Abs.1 Nr.9 SvEV',
+  riester: '§10a, §§83-86 EStG',
+  werbungskosten: '§9a S.1 Nr.1a EStG',
+  sonderausgabenPauschbetrag: '§10c EStG',
+  vorsorgepauschale: '§39b Abs.2 S.5 Nr.3 EStG',
+  currentPensionValue: '§68 SGB VI / Rentenwertbestimmungsverordnung',
+  averageEarnings: '§69 Abs.2 SGB VI / Sozialversicherungsrechengrößen-Verordnung',
+  socialInsuranceRates: '§158 SGB VI, §241 SGB V, §55 SGB XI, §341 SGB III',
+};
+
+const RIESTER_PARAMETERS: RiesterParameters = {
+  grundzulage: 175,
+  kinderzulageBornAfter2008: 300,
+  kinderzulageBornBefore2008: 185,
+  minContribution: 60,
+  maxContribution: 2_100,
+  requiredIncomeShare: 0.04,
+  berufseinsteigerbonus: 200,
+  berufseinsteigerMaxAge: 25,
+  wohnfoerderkontoIncrease: 0.02,
+  wohnfoerderkontoLumpSumShare: 0.7,
+  wohnfoerderkontoEndAge: 85,
+};
+
+const INVESTMENT_TAX_DEFAULTS = {
+  sparerPauschbetragSingle: 1_000,
+  sparerPauschbetragMarried: 2_000,
+  capitalGainsTaxBaseRate: 0.25,
+  solidaritySurchargeRate: 0.055,
+  churchTaxDefaultRate: 0.08,
+  partialExemptionEquityFunds: 0.3,
+  partialExemptionMixedFunds: 0.15,
+};
+
+function socialInsuranceParameters(
+  year: number,
+  healthInsuranceCeilingAnnual: number,
+  healthAdditionalRateAverage: number,
+  longTermCareRate: number,
+  hasMinimumVorsorgepauschale: boolean,
+  versorgungsbezuegeAllowanceMonthly: number
+): SocialInsuranceParameters {
+  return {
+    year,
+    pensionRate: 0.186,
+    unemploymentRate: 0.026,
+    healthRateGeneral: 0.146,
+    healthRateReduced: 0.14,
+    healthAdditionalRateAverage,
+    longTermCareRate,
+    longTermCareChildlessSurcharge: 0.006,
+    healthInsuranceCeilingAnnual,
+    versorgungsbezuegeAllowanceMonthly,
+    minimumVorsorgepauschale: hasMinimumVorsorgepauschale
+      ? { rate: 0.12, capSingle: 1_900, capJoint: 3_000 }
+      : null,
+  };
+}
+
+function pensionParameters(
+  year: number,
+  pensionInsuranceCeilingAnnual: number,
+  currentPensionValue: number,
+  averageEarnings: number
+): GovernmentPensionParameters {
+  return {
+    year,
+    pensionInsuranceCeilingAnnual,
+    currentPensionValue,
+    averageEarnings,
+    occupationalPensionMonthlyExemption: Math.round((pensionInsuranceCeilingAnnual * 0.08) / 12),
+    occupationalPensionMonthlySocialSecurityExemption: Math.round((pensionInsuranceCeilingAnnual * 0.04) / 12),
+    occupationalPensionEmployerSubsidyRate: 0.15,
+    riester: RIESTER_PARAMETERS,
+  };
+}
+
+export const GOVERNMENT_PARAMETERS_BY_YEAR: Readonly<Record<number, GovernmentParameters>> = {
+  2023: {
+    tax: {
+      year: 2023,
+      incomeTaxTariff: {
+        basicAllowance: 10_908,
+        zone1End: 15_999,
+        zone2End: 62_809,
+        zone3End: 277_825,
+        zone1Factor: 979.18,
+        zone2Factor: 192.59,
+        zone2Constant: 966.53,
+        zone3Offset: 9_972.98,
+        zone4Offset: 18_307.73,
+        indexFactor: 1,
+      },
+      kinderfreibetrag: 6_024,
+      betreuungsfreibetrag: 2_928,
+      kindergeldMonthly: 250,
+      arbeitnehmerPauschbetrag: 1_230,
+      sonderausgabenPauschbetrag: 36,
+      solidaritySurchargeExemptionSingle: 17_543,
+      ...INVESTMENT_TAX_DEFAULTS,
+      vorabpauschaleBasiszins: 0.0255,
+      ruerupMaxContribution: 26_528,
+      ruerupDeductibleRate: 1, // 100% since 2023 (JStG 2022)
+      taxablePortionRetirement: 0.825,
+    },
+    pension: pensionParameters(2023, 87_600, 36.02, 43_142),
+    socialInsurance: socialInsuranceParameters(2023, 59_850, 0.016, 0.034, true, 169.75),
+    metadata: { lastUpdated: '2023-01-01', projected: false, sources: SOURCES },
   },
-  pension: {
-    year: 2024,
-    occupationalPensionMonthlyExemption: 584,
+  2024: {
+    tax: {
+      year: 2024,
+      // Grundfreibetrag raised retroactively by the Existenzminimum-Anpassungsgesetz (Dez. 2024)
+      incomeTaxTariff: {
+        basicAllowance: 11_784,
+        zone1End: 17_005,
+        zone2End: 66_760,
+        zone3End: 277_825,
+        zone1Factor: 954.8,
+        zone2Factor: 181.19,
+        zone2Constant: 991.21,
+        zone3Offset: 10_636.31,
+        zone4Offset: 18_971.06,
+        indexFactor: 1,
+      },
+      kinderfreibetrag: 6_612,
+      betreuungsfreibetrag: 2_928,
+      kindergeldMonthly: 250,
+      arbeitnehmerPauschbetrag: 1_230,
+      sonderausgabenPauschbetrag: 36,
+      solidaritySurchargeExemptionSingle: 18_130,
+      ...INVESTMENT_TAX_DEFAULTS,
+      vorabpauschaleBasiszins: 0.0229,
+      ruerupMaxContribution: 27_566,
+      ruerupDeductibleRate: 1,
+      taxablePortionRetirement: 0.83,
+    },
+    pension: pensionParameters(2024, 90_600, 37.6, 45_358),
+    socialInsurance: socialInsuranceParameters(2024, 62_100, 0.017, 0.034, true, 176.75),
+    metadata: { lastUpdated: '2024-12-23', projected: false, sources: SOURCES },
   },
-  metadata: {
-    lastUpdated: '2024-11-01',
-    sources: {
-      sparerPauschbetrag: '§20 Abs.9 EStG',
-      capitalGainsTax: '§32d EStG / BMF',
-      solidaritySurcharge: '§4 SolzG 1995',
-      vorabpauschaleBasiszins: 'BMF-Schreiben vom 21.12.2023',
-      ruerup: 'BMF Bekanntmachung Höchstbetrag Altersvorsorgeaufwendungen 2024',
-      taxablePortionRetirement: '§22 Nr.1 S.3 Buchst. a Doppelbuchst. aa EStG',
-      partialExemption: '§20 Abs.3 InvStG',
-      occupationalPension: 'BBG 2024 / §3 Nr.63 EStG',
+  2025: {
+    tax: {
+      year: 2025,
+      incomeTaxTariff: {
+        basicAllowance: 12_096,
+        zone1End: 17_443,
+        zone2End: 68_480,
+        zone3End: 277_825,
+        zone1Factor: 932.3,
+        zone2Factor: 176.64,
+        zone2Constant: 1_015.13,
+        zone3Offset: 10_911.92,
+        zone4Offset: 19_246.67,
+        indexFactor: 1,
+      },
+      kinderfreibetrag: 6_672,
+      betreuungsfreibetrag: 2_928,
+      kindergeldMonthly: 255,
+      arbeitnehmerPauschbetrag: 1_230,
+      sonderausgabenPauschbetrag: 36,
+      solidaritySurchargeExemptionSingle: 19_950,
+      ...INVESTMENT_TAX_DEFAULTS,
+      vorabpauschaleBasiszins: 0.0253,
+      ruerupMaxContribution: 29_344,
+      ruerupDeductibleRate: 1,
+      taxablePortionRetirement: 0.835,
     },
+    pension: pensionParameters(2025, 96_600, 39.32, 50_493),
+    socialInsurance: socialInsuranceParameters(2025, 66_150, 0.025, 0.036, true, 187.25),
+    metadata: { lastUpdated: '2025-01-10', projected: false, sources: SOURCES },
   },
+  2026: {
+    tax: {
+      year: 2026,
+      incomeTaxTariff: {
+        basicAllowance: 12_348,
+        zone1End: 17_799,
+        zone2End: 69_878,
+        zone3End: 277_825,
+        zone1Factor: 914.51,
+        zone2Factor: 173.1,
+        zone2Constant: 1_034.87,
+        zone3Offset: 11_135.63,
+        zone4Offset: 19_470.38,
+        indexFactor: 1,
+      },
+      kinderfreibetrag: 6_828,
+      betreuungsfreibetrag: 2_928,
+      kindergeldMonthly: 259,
+      arbeitnehmerPauschbetrag: 1_230,
+      sonderausgabenPauschbetrag: 36,
+      solidaritySurchargeExemptionSingle: 20_350,
+      ...INVESTMENT_TAX_DEFAULTS,
+      vorabpauschaleBasiszins: 0.032,
+      ruerupMaxContribution: 30_826,
+      ruerupDeductibleRate: 1,
+      taxablePortionRetirement: 0.84,
+    },
+    pension: pensionParameters(2026, 101_400, 40.79, 51_944),
+    socialInsurance: socialInsuranceParameters(2026, 69_750, 0.029, 0.036, false, 197.75),
+    metadata: { lastUpdated: '2026-01-09', projected: false, sources: SOURCES },
+  },
+};
+
+export const FIRST_PARAMETER_YEAR = 2023;
+export const LATEST_PARAMETER_YEAR = 2026;
+
+/**
+ * Projection rule for years after LATEST_PARAMETER_YEAR:
+ * - tariff thresholds, child allowances, Kindergeld and Soli-Freigrenze follow inflation
+ *   (Progressionsvorbehalt is offset by regular Inflationsausgleichsgesetze)
+ * - contribution ceilings (BBG, Rürup-Höchstbetrag, bAV limits), the Freibetrag on
+ *   Versorgungsbezüge, Durchschnittsentgelt and aktueller Rentenwert follow wage growth
+ * - Besteuerungsanteil rises by 0.5 pp per year up to 100% in 2058 (Wachstumschancengesetz)
+ * - Basiszins, flat rates and Riester amounts stay at the latest enacted value
+ */
+export const PROJECTION_ASSUMPTIONS = {
+  allowanceIndexation: 0.02,
+  wageGrowth: 0.03,
+  taxablePortionIncrement: 0.005,
 };
 
+function projectParameters(year: number): GovernmentParameters {
+  const latest = GOVERNMENT_PARAMETERS_BY_YEAR[LATEST_PARAMETER_YEAR];
+  const years = year - LATEST_PARAMETER_YEAR;
+  const inflationFactor = Math.pow(1 + PROJECTION_ASSUMPTIONS.allowanceIndexation, years);
+  const wageFactor = Math.pow(1 + PROJECTION_ASSUMPTIONS.wageGrowth, years);
+
+  return {
+    tax: {
+      ...latest.tax,
+      year,
+      incomeTaxTariff: { ...latest.tax.incomeTaxTariff, indexFactor: inflationFactor },
+      kinderfreibetrag: Math.round(latest.tax.kinderfreibetrag * inflationFactor),
+      betreuungsfreibetrag: Math.round(latest.tax.betreuungsfreibetrag * inflationFactor),
+      kindergeldMonthly: Math.round(latest.tax.kindergeldMonthly * inflationFactor),
+      solidaritySurchargeExemptionSingle: Math.round(
+        latest.tax.solidaritySurchargeExemptionSingle * inflationFactor
+      ),
+      ruerupMaxContribution: Math.round(latest.tax.ruerupMaxContribution * wageFactor),
+      taxablePortionRetirement: Math.min(
+        1,
+        latest.tax.taxablePortionRetirement + years * PROJECTION_ASSUMPTIONS.taxablePortionIncrement
+      ),
+    },
+    pension: pensionParameters(
+      year,
+      Math.round(latest.pension.pensionInsuranceCeilingAnnual * wageFactor),
+      Math.round(latest.pension.currentPensionValue * wageFactor * 100) / 100,
+      Math.round(latest.pension.averageEarnings * wageFactor)
+    ),
+    socialInsurance: {
+      ...latest.socialInsurance,
+      year,
+      healthInsuranceCeilingAnnual: Math.round(
+        latest.socialInsurance.healthInsuranceCeilingAnnual * wageFactor
+      ),
+      versorgungsbezuegeAllowanceMonthly:
+        Math.round(latest.socialInsurance.versorgungsbezuegeAllowanceMonthly * wageFactor * 100) / 100,
+    },
+    metadata: { ...latest.metadata, projected: true },
+  };
+}
+
+/**
+ * Parameters for a tax year. Years before FIRST_PARAMETER_YEAR use the earliest
+ * registry entry, later years are projected from the latest enacted year.
+ */
+export function getGovernmentParameters(year: number): GovernmentParameters {
+  const taxYear = Math.floor(year);
+  if (taxYear > LATEST_PARAMETER_YEAR) return projectParameters(taxYear);
+  return GOVERNMENT_PARAMETERS_BY_YEAR[Math.max(FIRST_PARAMETER_YEAR, taxYear)];
+}
+
+/** Default tax year, pinned so results do not move with the system clock */
+export const CURRENT_TAX_YEAR = LATEST_PARAMETER_YEAR;
+
+export const GOVERNMENT_PARAMETERS_2024: GovernmentParameters = GOVERNMENT_PARAMETERS_BY_YEAR[2024];
+
 export const CAPITAL_GAINS_TAX_RATE_PERCENT =
   (GOVERNMENT_PARAMETERS_2024.tax.capitalGainsTaxBaseRate +
     GOVERNMENT_PARAMETERS_2024.tax.capitalGainsTaxBaseRate *
       GOVERNMENT_PARAMETERS_2024.tax.solidaritySurchargeRate) *
   100;
 
-export const PARTIAL_EXEMPTION_PERCENT =
+export const EQUITY_FUND_PARTIAL_EXEMPTION =
   GOVERNMENT_PARAMETERS_2024.tax.partialExemptionEquityFunds;
+
+export const MIXED_FUND_PARTIAL_EXEMPTION =
+  GOVERNMENT_PARAMETERS_2024.tax.partialExemptionMixedFunds;
+
+/** Default of the legacy fund tax helpers, the Mischfonds rate */
+export const PARTIAL_EXEMPTION_PERCENT = MIXED_FUND_PARTIAL_EXEMPTION;
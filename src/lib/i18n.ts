@@ -9,6 +9,8 @@ export const translations = {
   "private.mode.annuity": "Lebenslange Rente",
   "private.mode.flex": "Flexible Entnahme",
   "private.annuityRate": "Rentenfaktor (p.a.)",
+  "private.technicalInterestRate": "Rechnungszins",
+  "private.guaranteePeriod": "Rentengarantiezeit (Jahre)",
   "private.swr": "Sichere Entnahmerate (p.a.)",
   "private.policyFeePct": "Policenkosten (p.a.)",
   "private.policyFeeFixed": "Policengebühr (jährlich)",
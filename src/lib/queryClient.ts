@@ -1,5 +1,54 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { calculatePrivatePensionClient } from "@/utils/calculatePension";
+import { runMonteCarloSimulation } from "@shared/utils/monte-carlo";
+import { solveGoalSeek } from "@shared/utils/goal-seek";
+import type { GoalSeekRequest, InsertPrivatePensionPlan } from "@shared/schema";
+
+function calculateSimulationLocally(url: string, data: unknown) {
+  if (url.split('?')[0] === '/api/solve') {
+    // The client always sends the complete plan, so no server defaults are needed
+    const { plan, solveFor, target, ...options } = data as GoalSeekRequest & { plan: InsertPrivatePensionPlan };
+    return solveGoalSeek(plan, solveFor, target, options);
+  }
+  if (url.includes('mode=montecarlo')) {
+    const { runs, seed } = data as { runs?: number; seed?: number };
+    return runMonteCarloSimulation(data as any, { runs, seed });
+  }
+  return calculatePrivatePensionClient(data as any);
+}
+
+// Access token from POST /api/auth/login; scenario and plan endpoints require it
+export const AUTH_TOKEN_STORAGE_KEY = "authToken";
+
+// Logged in, so the scenario endpoints can be used
+export function hasAuthToken(): boolean {
+  return typeof localStorage !== "undefined" && localStorage.getItem(AUTH_TOKEN_STORAGE_KEY) !== null;
+}
+
+// User id from the access token's payload; keys the per-user data kept in localStorage
+export function getAuthUserId(): string | null {
+  const token = typeof localStorage !== "undefined" ? localStorage.getItem(AUTH_TOKEN_STORAGE_KEY) : null;
+  if (!token) return null;
+  try {
+    const payload = JSON.parse(atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof payload.userId === "string" ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+// Logout: forget the access token and everything fetched with it
+export function clearAuthToken(): void {
+  if (typeof localStorage !== "undefined") {
+    localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+  }
+  queryClient.clear();
+}
+
+function authHeaders(): Record<string, string> {
+  const token = typeof localStorage !== "undefined" ? localStorage.getItem(AUTH_TOKEN_STORAGE_KEY) : null;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -13,12 +62,12 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  // For /api/simulate endpoint, use client-side calculation as fallback for GitHub Pages
-  if (url === '/api/simulate' && method === 'POST' && data) {
+  // For /api/simulate and /api/solve, use client-side calculation as fallback for GitHub Pages
+  if (['/api/simulate', '/api/solve'].includes(url.split('?')[0]) && method === 'POST' && data) {
     try {
       const res = await fetch(url, {
         method,
-        headers: data ? { "Content-Type": "application/json" } : {},
+        headers: { ...(data ? { "Content-Type": "application/json" } : {}), ...authHeaders() },
         body: data ? JSON.stringify(data) : undefined,
         credentials: "include",
       });
@@ -29,7 +78,7 @@ export async function apiRequest(
       }
 
       // If server is not available (GitHub Pages), use client-side calculation
-      const result = calculatePrivatePensionClient(data as any);
+      const result = calculateSimulationLocally(url, data);
 
       // Create a mock Response object
       return new Response(JSON.stringify(result), {
@@ -38,7 +87,7 @@ export async function apiRequest(
       });
     } catch (error) {
       // If fetch fails (no server), use client-side calculation
-      const result = calculatePrivatePensionClient(data as any);
+      const result = calculateSimulationLocally(url, data);
 
       return new Response(JSON.stringify(result), {
         status: 200,
@@ -50,7 +99,7 @@ export async function apiRequest(
   // For other endpoints, use regular fetch
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: { ...(data ? { "Content-Type": "application/json" } : {}), ...authHeaders() },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -66,6 +115,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: authHeaders(),
       credentials: "include",
     });
 
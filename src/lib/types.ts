@@ -23,35 +23,16 @@ export interface FormData {
   payoutEndAge: number;
   payoutMode: "annuity" | "flex";
   annuityRate: number;
+  technicalInterestRate: number;
+  guaranteePeriodYears: number;
   safeWithdrawalRate?: number;
 }
 
 export type TabType = "private-pension" | "funds" | "fund-performance" | "comparison" | "custom-comparison";
 
-export interface SimulationPoint {
-  year: number;
-  month: number;
-  age: number;
-  portfolioValue: number;
-  contribution: number;
-  fees: number;
-  taxes: number;
-  payout?: number;
-  isPayoutPhase: boolean;
-}
-
-export interface SimulationResults {
-  seriesAnspar: SimulationPoint[];
-  seriesPayout: SimulationPoint[];
-  kpis: {
-    projectedValue: number;
-    targetGap: number;
-    monthlyPension: number;
-    totalFees: number;
-    totalContributions: number;
-    capitalGains: number;
-    totalCosts: number;
-    netReturn: number;
-    totalTaxes: number;
-  };
-}
+export type {
+  SimulationPoint,
+  SimulationResults,
+  SimulationKpis,
+  ValueView,
+} from "@shared/utils/financial-calculator";
@@ -31,6 +31,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
+import { HistoricalBacktest } from '@/components/HistoricalBacktest';
 import {
   LineChart,
   Line,
@@ -436,6 +437,16 @@ export const PremiumFunds: React.FC<PremiumFundsProps> = ({ language = 'de' }) =
           </Card>
         </motion.div>
 
+        {/* Historical Backtest */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.35, duration: 0.6 }}
+          className="mb-12"
+        >
+          <HistoricalBacktest language={language} />
+        </motion.div>
+
         {/* Funds Grid */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -4,15 +4,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Calculator, TrendingUp, Shield, PiggyBank } from 'lucide-react';
 import {
   CAPITAL_GAINS_TAX_RATE_PERCENT,
-  GOVERNMENT_PARAMETERS_2024,
+  CURRENT_TAX_YEAR,
+  getGovernmentParameters,
 } from '@/data/governmentParameters';
 
 const TaxCalculatorPage: React.FC = () => {
   const [language, setLanguage] = useState<'de' | 'en'>('de');
 
-  const ruerupMaxFormattedDE = GOVERNMENT_PARAMETERS_2024.tax.ruerupMaxContribution.toLocaleString('de-DE');
-  const ruerupMaxFormattedEN = GOVERNMENT_PARAMETERS_2024.tax.ruerupMaxContribution.toLocaleString('en-US');
-  const ruerupDeductiblePercent = Math.round(GOVERNMENT_PARAMETERS_2024.tax.ruerupDeductibleRate * 100);
+  const taxParameters = getGovernmentParameters(CURRENT_TAX_YEAR).tax;
+  const ruerupMaxFormattedDE = taxParameters.ruerupMaxContribution.toLocaleString('de-DE');
+  const ruerupMaxFormattedEN = taxParameters.ruerupMaxContribution.toLocaleString('en-US');
+  const ruerupDeductiblePercent = Math.round(taxParameters.ruerupDeductibleRate * 100);
   const capitalGainsPercentDE = CAPITAL_GAINS_TAX_RATE_PERCENT.toLocaleString('de-DE', {
     minimumFractionDigits: 3,
     maximumFractionDigits: 3,
@@ -32,7 +34,7 @@ const TaxCalculatorPage: React.FC = () => {
           {
             icon: Shield,
             title: 'Sonderausgabenabzug',
-            description: `Bis zu ${ruerupMaxFormattedDE}€ (2024) können als Sonderausgaben abgesetzt werden – ${ruerupDeductiblePercent}% absetzbar, 100% ab 2025`
+            description: `Bis zu ${ruerupMaxFormattedDE}€ (${CURRENT_TAX_YEAR}) können als Sonderausgaben abgesetzt werden – ${ruerupDeductiblePercent}% absetzbar`
           },
           {
             icon: TrendingUp,
@@ -66,7 +68,7 @@ const TaxCalculatorPage: React.FC = () => {
           {
             icon: Shield,
             title: 'Special Expense Deduction',
-            description: `Up to €${ruerupMaxFormattedEN} (2024) can be deducted as special expenses – ${ruerupDeductiblePercent}% deductible, 100% from 2025`
+            description: `Up to €${ruerupMaxFormattedEN} (${CURRENT_TAX_YEAR}) can be deducted as special expenses – ${ruerupDeductiblePercent}% deductible`
           },
           {
             icon: TrendingUp,
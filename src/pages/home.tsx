@@ -22,7 +22,14 @@ import { ScreenReaderOnly, SkipLink, AccessibleField, AccessibleButton, useAnnou
 import { useToast } from "@/hooks/use-toast";
 import { t } from "@/lib/i18n";
 import type { TabType, FormData } from "@/lib/types";
-import type { SimulationResults } from "@/lib/types";
+import type { SimulationResults, ValueView } from "@/lib/types";
+import type { InsertPrivatePensionPlan } from "@shared/schema";
+import { applyValueView } from "@shared/utils/financial-calculator";
+import type { GoalSeekResult, GoalSeekVariable } from "@shared/utils/goal-seek";
+import { runSensitivityAnalysis, calculateSensitivityGrid } from "@shared/utils/sensitivity";
+import { TornadoChart, SensitivityHeatmap } from "@/components/charts/sensitivity-chart";
+import RealtimeChart from "@/components/charts/RealtimeChart";
+import { applyMonteCarloValueView, type MonteCarloResults } from "@shared/utils/monte-carlo";
 import ErrorBoundary, { useErrorHandler } from "@/components/ui/ErrorBoundary";
 import { FadeIn, SlideIn, ScaleIn, StaggerContainer, StaggerItem, ScrollReveal, HoverScale, PageTransition } from "@/components/ui/animations";
 import { User, Settings, Check, X, Download, Calculator, Info, TrendingUp, Shield, AlertCircle, Eye, EyeOff, Moon, Sun, HelpCircle, Zap, Save, BarChart3 } from "lucide-react";
@@ -43,6 +50,8 @@ const formSchema = z.object({
   payoutEndAge: z.number().min(62).max(85),
   payoutMode: z.enum(["annuity", "flex"]),
   annuityRate: z.number().min(0).max(1),
+  technicalInterestRate: z.number().min(0).max(0.04),
+  guaranteePeriodYears: z.number().int().min(0).max(30),
   safeWithdrawalRate: z.number().min(0).max(1).optional(),
 });
 
@@ -98,7 +107,18 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
       window.removeEventListener('popstate', handlePopState);
     };
   }, [searchParams]);
-  const [simulationResults, setSimulationResults] = useState<SimulationResults | null>(null);
+  const [rawSimulationResults, setSimulationResults] = useState<SimulationResults | null>(null);
+  const [valueView, setValueView] = useState<ValueView>("nominal");
+  // Everything below renders the selected view: nominal euros or today's purchasing power
+  const simulationResults = useMemo(
+    () => rawSimulationResults && applyValueView(rawSimulationResults, valueView),
+    [rawSimulationResults, valueView]
+  );
+  const [rawMonteCarloResults, setMonteCarloResults] = useState<MonteCarloResults | null>(null);
+  const monteCarloResults = useMemo(
+    () => rawMonteCarloResults && applyMonteCarloValueView(rawMonteCarloResults, valueView),
+    [rawMonteCarloResults, valueView]
+  );
   const [chartType, setChartType] = useState<"line" | "area" | "composed" | "bar">("area");
   const [language, setLanguage] = useState<'de' | 'en'>('de');
   const [showCostSettings, setShowCostSettings] = useState(false);
@@ -147,6 +167,9 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
   const [showComparison, setShowComparison] = useState(false);
   const [comparisonScenarios, setComparisonScenarios] = useState<SimulationResults[]>([]);
   const simulationTimer = useRef<NodeJS.Timeout | null>(null);
+  const [goalSeekVariable, setGoalSeekVariable] = useState<GoalSeekVariable>("monthlyContribution");
+  const [goalSeekResult, setGoalSeekResult] = useState<GoalSeekResult | null>(null);
+  const [isSolving, setIsSolving] = useState(false);
 
   // Cleanup timer on unmount
   useEffect(() => {
@@ -162,8 +185,22 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
     taxRatePayout: 0.17, // 17% effektive Besteuerung in der Auszahlungsphase (Standard)
     expectedReturn: 0.06, // 6.0% - realistische langfristige Aktienrendite 2024/2025
     ter: 0.008, // 0.8% - realistischer TER für aktive Fonds
-    volatility: 0.18 // 18% - realistischere Volatilität für Aktienfonds
+    volatility: 0.18, // 18% - realistischere Volatilität für Aktienfonds
+    inflationRate: 0.02 // 2% - EZB-Inflationsziel für die Kaufkraftbetrachtung
   });
+  // Plan sent to the simulation endpoints: form inputs plus the cost and return settings
+  const toPlanPayload = useCallback((data: FormData) => ({
+    ...data,
+    scenarioId: "default", // For simulation without saving
+    policyFeeAnnualPct: costSettings.policyFeeAnnualPct,
+    policyFixedAnnual: costSettings.policyFixedAnnual,
+    taxRatePayout: costSettings.taxRatePayout,
+    expectedReturn: costSettings.expectedReturn,
+    ter: costSettings.ter,
+    volatility: costSettings.volatility,
+    inflationRate: costSettings.inflationRate,
+    rebalancingEnabled: true,
+  }), [costSettings]);
   const [fundPerformance, setFundPerformance] = useState({
     maxPerformance: 8.5, // Realistischer für langfristige Aktienrendite
     minPerformance: 1.5, // Konservativer Mindestwert
@@ -318,6 +355,8 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
       payoutEndAge: 85,
       payoutMode: "annuity",
       annuityRate: 0.025, // 2.5% - realistischere Annuitätsrate bei aktuellen Zinsen
+      technicalInterestRate: 0.01, // 1,0% - Höchstrechnungszins seit 2025
+      guaranteePeriodYears: 0,
       safeWithdrawalRate: 0.035, // 3.5% - konservativere Safe Withdrawal Rate
     },
   });
@@ -351,6 +390,8 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
         payoutEndAge: 85,
         payoutMode: "annuity",
         annuityRate: 0.025,
+        technicalInterestRate: 0.01,
+        guaranteePeriodYears: 0,
         safeWithdrawalRate: 0.035,
       });
 
@@ -378,6 +419,19 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
     return () => subscription.unsubscribe();
   }, [form, autoSave]);
 
+  // Percentile bands run after the deterministic projection and never block it
+  const monteCarloMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const response = await apiRequest("POST", "/api/simulate?mode=montecarlo", toPlanPayload(data));
+      return (await response.json()) as MonteCarloResults;
+    },
+    onSuccess: (data) => setMonteCarloResults(data),
+    onError: (error) => {
+      console.error('Monte Carlo error:', error);
+      setMonteCarloResults(null);
+    },
+  });
+
   const simulationMutation = useMutation({
     mutationFn: async (data: FormData) => {
       try {
@@ -386,18 +440,7 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
         updateProgress(10);
         announce(language === 'de' ? "Simulation wird gestartet..." : "Simulation is starting...");
         
-        const payload = {
-          ...data,
-          startAge: data.startAge,
-          scenarioId: "default", // For simulation without saving
-          policyFeeAnnualPct: costSettings.policyFeeAnnualPct,
-          policyFixedAnnual: costSettings.policyFixedAnnual,
-          taxRatePayout: costSettings.taxRatePayout,
-          expectedReturn: costSettings.expectedReturn,
-          ter: costSettings.ter,
-          volatility: costSettings.volatility,
-          rebalancingEnabled: true,
-        };
+        const payload = toPlanPayload(data);
         
         updateProgress(50);
         const response = await apiRequest("POST", "/api/simulate", payload);
@@ -411,8 +454,9 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
         throw error;
       }
     },
-    onSuccess: (data) => {
+    onSuccess: (data, variables) => {
       setSimulationResults(data);
+      monteCarloMutation.mutate(variables);
       setIsLoading(false);
       completeProgress(language === 'de' ? 'Simulation abgeschlossen' : 'Simulation complete');
       setTimeout(() => resetProgress(), 400);
@@ -458,6 +502,7 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
         expectedReturn: costSettings.expectedReturn,
         ter: costSettings.ter,
         volatility: costSettings.volatility,
+        inflationRate: costSettings.inflationRate,
         rebalancingEnabled: true,
       });
 
@@ -481,6 +526,67 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
     },
   });
 
+  // "Was muss ich sparen?" - solves the plan for the target maturity value in the selected view
+  const solveForTarget = useCallback(async () => {
+    const data = form.getValues();
+    if (!data.targetMaturityValue) return;
+    setIsSolving(true);
+    try {
+      const response = await apiRequest("POST", "/api/solve", {
+        plan: toPlanPayload(data),
+        solveFor: goalSeekVariable,
+        target: { type: "capital", amount: data.targetMaturityValue, view: valueView },
+      });
+      setGoalSeekResult(await response.json());
+    } catch (error) {
+      console.error('Goal seek error:', error);
+      toast({
+        title: language === 'de' ? "❌ Berechnung fehlgeschlagen" : "❌ Calculation failed",
+        description: language === 'de'
+          ? "Der benötigte Wert konnte nicht ermittelt werden."
+          : "The required value could not be determined.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSolving(false);
+    }
+  }, [form, toPlanPayload, goalSeekVariable, valueView, language, toast]);
+
+  const applyGoalSeekResult = useCallback(() => {
+    if (!goalSeekResult || goalSeekResult.value === null) return;
+    const { variable, value } = goalSeekResult;
+    if (variable === "monthlyContribution") {
+      form.setValue("monthlyContribution", Math.ceil(value), { shouldValidate: true });
+    } else if (variable === "payoutStartAge") {
+      form.setValue("payoutStartAge", value, { shouldValidate: true });
+      form.setValue("payoutEndAge", Math.max(form.getValues().payoutEndAge, value), { shouldValidate: true });
+    } else {
+      setCostSettings(prev => ({ ...prev, expectedReturn: Math.ceil(value * 10000) / 10000 }));
+    }
+    setGoalSeekResult(null);
+  }, [form, goalSeekResult]);
+
+  const formatGoalSeekValue = (variable: GoalSeekVariable, value: number) => {
+    if (variable === "monthlyContribution") return `${formatCurrency(Math.ceil(value))} / ${language === 'de' ? 'Monat' : 'month'}`;
+    if (variable === "payoutStartAge") return `${value} ${language === 'de' ? 'Jahre' : 'years'}`;
+    return `${(Math.ceil(value * 10000) / 100).toFixed(2)}% p.a.`;
+  };
+
+  // Which input matters most - recomputed in the browser after every simulation run
+  const sensitivity = useMemo(() => {
+    if (!rawSimulationResults) return null;
+    const plan = toPlanPayload(form.getValues()) as InsertPrivatePensionPlan;
+    return {
+      tornado: runSensitivityAnalysis(plan, { kpi: "monthlyPension", view: valueView }),
+      grid: calculateSensitivityGrid(plan, {
+        x: { parameter: "monthlyContribution" },
+        y: { parameter: "expectedReturn" },
+        kpi: "monthlyPension",
+        view: valueView,
+      }),
+    };
+  }, [rawSimulationResults, toPlanPayload, valueView, form]);
+
   // Run simulation when form data changes
   useEffect(() => {
     const subscription = form.watch((value, { name }) => {
@@ -570,6 +676,7 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
         formData: form.getValues(),
         simulationResults,
         costSettings,
+        valueView,
         comparisonData: comparisonScenarios.length > 0 ? comparisonScenarios : undefined
       });
 
@@ -601,6 +708,17 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
     return simulationResults?.seriesPayout || [];
   }, [simulationResults]);
 
+  // One point per year - the percentile bands hold the year-end values
+  const yearEndChartData = useMemo(
+    () => combinedChartData.filter((point, index) => point.month === 11 || index === combinedChartData.length - 1),
+    [combinedChartData]
+  );
+
+  const monteCarloBands = useMemo(
+    () => monteCarloResults ? [...monteCarloResults.bands.seriesAnspar, ...monteCarloResults.bands.seriesPayout] : undefined,
+    [monteCarloResults]
+  );
+
   // Enhanced translation function with proper typing
   const translations = {
     de: {
@@ -1204,6 +1322,64 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
                                   </button>
                                 ))}
                               </div>
+                              {field.value ? (
+                                <div className="mt-4 p-4 rounded-2xl border border-purple-200 dark:border-purple-800/50 bg-purple-50/50 dark:bg-purple-900/10 space-y-4" data-testid="goal-seek">
+                                  <div className="flex flex-col md:flex-row md:items-center gap-3">
+                                    <SegmentedControl
+                                      value={goalSeekVariable}
+                                      onValueChange={(value) => {
+                                        setGoalSeekVariable(value as GoalSeekVariable);
+                                        setGoalSeekResult(null);
+                                      }}
+                                      options={[
+                                        { value: "monthlyContribution", label: language === 'de' ? 'Sparrate' : 'Contribution' },
+                                        { value: "payoutStartAge", label: language === 'de' ? 'Rentenbeginn' : 'Payout start' },
+                                        { value: "expectedReturn", label: language === 'de' ? 'Rendite' : 'Return' },
+                                      ]}
+                                    />
+                                    <Button
+                                      type="button"
+                                      variant="outline"
+                                      onClick={solveForTarget}
+                                      disabled={isSolving}
+                                      data-testid="button-goal-seek"
+                                    >
+                                      {isSolving ? <LoadingSpinner size="sm" className="mr-2" /> : <Calculator className="w-4 h-4 mr-2" />}
+                                      {language === 'de' ? 'Was muss ich sparen?' : 'What do I need to save?'}
+                                    </Button>
+                                  </div>
+                                  {goalSeekResult && (
+                                    goalSeekResult.value !== null ? (
+                                      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                                        <div>
+                                          <div className="text-sm text-muted-foreground">
+                                            {language === 'de'
+                                              ? `Für ${formatCurrency(goalSeekResult.target.amount)}${goalSeekResult.target.view === 'real' ? ' (Kaufkraft heute)' : ''} benötigt:`
+                                              : `Required for ${formatCurrency(goalSeekResult.target.amount)}${goalSeekResult.target.view === 'real' ? " (today's euros)" : ''}:`}
+                                          </div>
+                                          <div className="text-2xl font-bold text-foreground" data-testid="text-goal-seek-value">
+                                            {formatGoalSeekValue(goalSeekResult.variable, goalSeekResult.value)}
+                                          </div>
+                                          <div className="text-xs text-muted-foreground">
+                                            {language === 'de'
+                                              ? `${goalSeekResult.convergence.iterations} Iterationen, Abweichung ${formatCurrency(goalSeekResult.convergence.residual)}`
+                                              : `${goalSeekResult.convergence.iterations} iterations, deviation ${formatCurrency(goalSeekResult.convergence.residual)}`}
+                                          </div>
+                                        </div>
+                                        <Button type="button" onClick={applyGoalSeekResult} data-testid="button-apply-goal-seek">
+                                          {language === 'de' ? 'Übernehmen' : 'Apply'}
+                                        </Button>
+                                      </div>
+                                    ) : (
+                                      <div className="text-sm text-orange-700 dark:text-orange-400">
+                                        {language === 'de'
+                                          ? `Ziel nicht erreichbar: höchstens ${formatCurrency(goalSeekResult.achieved)} mit ${formatGoalSeekValue(goalSeekResult.variable, goalSeekResult.convergence.bounds.max)}.`
+                                          : `Target out of reach: at most ${formatCurrency(goalSeekResult.achieved)} with ${formatGoalSeekValue(goalSeekResult.variable, goalSeekResult.convergence.bounds.max)}.`}
+                                      </div>
+                                    )
+                                  )}
+                                </div>
+                              ) : null}
                               <FormMessage />
                             </FormItem>
                           )}
@@ -1358,29 +1534,51 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
 
                       {/* Mode-specific inputs */}
                       {form.watch("payoutMode") === "annuity" ? (
-                        <FormField
-                          control={form.control}
-                          name="annuityRate"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>{t("private.annuityRate")}</FormLabel>
-                              <FormControl>
-                                <div className="relative">
+                        <div className="grid grid-cols-2 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="technicalInterestRate"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>{t("private.technicalInterestRate")}</FormLabel>
+                                <FormControl>
+                                  <div className="relative">
+                                    <Input
+                                      type="number"
+                                      step="0.05"
+                                      placeholder="1.0"
+                                      value={field.value * 100}
+                                      onChange={(e) => field.onChange(Number(e.target.value) / 100)}
+                                      data-testid="input-technical-interest-rate"
+                                    />
+                                    <span className="absolute right-3 top-3 text-sm text-muted-foreground">%</span>
+                                  </div>
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="guaranteePeriodYears"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>{t("private.guaranteePeriod")}</FormLabel>
+                                <FormControl>
                                   <Input
                                     type="number"
-                                    step="0.1"
-                                    placeholder="3.0"
-                                    value={field.value * 100}
-                                    onChange={(e) => field.onChange(Number(e.target.value) / 100)}
-                                    data-testid="input-annuity-rate"
+                                    step="1"
+                                    placeholder="0"
+                                    value={field.value}
+                                    onChange={(e) => field.onChange(Number(e.target.value))}
+                                    data-testid="input-guarantee-period"
                                   />
-                                  <span className="absolute right-3 top-3 text-sm text-muted-foreground">%</span>
-                                </div>
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
                       ) : (
                         <FormField
                           control={form.control}
@@ -1579,7 +1777,13 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
                             step="0.1"
                             min="0"
                             max="10"
-                            value={2.0}
+                            value={costSettings.inflationRate * 100}
+                            onChange={(e) => {
+                              const value = Number(e.target.value) / 100;
+                              if (!isNaN(value) && value >= 0 && value <= 0.1) {
+                                setCostSettings(prev => ({ ...prev, inflationRate: value }));
+                              }
+                            }}
                             className="text-lg font-bold h-12 text-center"
                             placeholder="2.0"
                           />
@@ -1689,7 +1893,8 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
                                   taxRatePayout: 0.17,
                                   expectedReturn: 0.06,
                                   ter: 0.008,
-                                  volatility: 0.18
+                                  volatility: 0.18,
+                                  inflationRate: 0.02
                                 });
                                 setFundPerformance({
                                   maxPerformance: 8.5,
@@ -1866,13 +2071,28 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
               <>
                 {/* KPI Dashboard */}
                 <section className="animate-fade-in">
-                  <div className="flex items-center space-x-3 mb-8">
-                    <div className="w-8 h-8 bg-chart-1/10 rounded-lg flex items-center justify-center">
-                      <div className="w-4 h-4 bg-chart-1 rounded-sm"></div>
+                  <div className="flex items-center justify-between flex-wrap gap-4 mb-8">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-8 h-8 bg-chart-1/10 rounded-lg flex items-center justify-center">
+                        <div className="w-4 h-4 bg-chart-1 rounded-sm"></div>
+                      </div>
+                      <h2 className="text-2xl font-bold text-foreground tracking-tight">
+                        {t("section.simulationResults")}
+                      </h2>
                     </div>
-                    <h2 className="text-2xl font-bold text-foreground tracking-tight">
-                      {t("section.simulationResults")}
-                    </h2>
+                    <SegmentedControl
+                      value={valueView}
+                      onValueChange={(value) => setValueView(value as ValueView)}
+                      options={[
+                        { label: "Nominal", value: "nominal" },
+                        {
+                          label: language === 'de'
+                            ? `Real (Kaufkraft heute, ${(costSettings.inflationRate * 100).toFixed(1)}% Inflation)`
+                            : `Real (today's euros, ${(costSettings.inflationRate * 100).toFixed(1)}% inflation)`,
+                          value: "real"
+                        }
+                      ]}
+                    />
                   </div>
 
                   {/* Enhanced KPI Grid */}
@@ -1907,7 +2127,9 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
                         {t("kpi.monthlyPension")}
                       </div>
                       <div className="mt-4 text-xs text-primary/80">
-                        💰 Monatliche Auszahlung
+                        {simulationResults.annuity
+                          ? `💰 ${language === 'de' ? 'Rentenfaktor' : 'Annuity factor'} ${simulationResults.annuity.rentenfaktor.toFixed(2)} € / 10.000 €`
+                          : '💰 Monatliche Auszahlung'}
                       </div>
                     </div>
                     <div className="kpi-card" data-testid="kpi-total-costs">
@@ -1971,6 +2193,107 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
                   </div>
                 </section>
 
+                {/* Monte Carlo Percentile Bands */}
+                {monteCarloResults && (
+                  <section className="animate-slide-in-up">
+                    <div className="apple-card p-8">
+                      <div className="flex items-center space-x-3 mb-6">
+                        <div className="w-8 h-8 bg-chart-1/10 rounded-lg flex items-center justify-center">
+                          <div className="w-4 h-4 bg-chart-1 rounded-sm"></div>
+                        </div>
+                        <div>
+                          <h3 className="text-xl font-semibold text-foreground tracking-tight">
+                            {language === 'de' ? 'Monte-Carlo-Simulation' : 'Monte Carlo simulation'}
+                          </h3>
+                          <p className="text-sm text-muted-foreground font-medium">
+                            {language === 'de'
+                              ? `${monteCarloResults.runs} Renditepfade mit ${(costSettings.volatility * 100).toFixed(0)}% Volatilität`
+                              : `${monteCarloResults.runs} return paths with ${(costSettings.volatility * 100).toFixed(0)}% volatility`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="grid md:grid-cols-3 gap-4 mb-6">
+                        <div className="kpi-card" data-testid="kpi-montecarlo-median">
+                          <div className="text-2xl font-bold text-primary">
+                            {formatCurrency(monteCarloResults.maturityValue.p50)}
+                          </div>
+                          <div className="text-sm text-muted-foreground font-medium mt-2">
+                            {language === 'de' ? 'Median zum Rentenbeginn' : 'Median at payout start'}
+                          </div>
+                          <div className="mt-2 text-xs text-muted-foreground">
+                            P5 {formatCurrency(monteCarloResults.maturityValue.p5)} – P95 {formatCurrency(monteCarloResults.maturityValue.p95)}
+                          </div>
+                        </div>
+                        <div className="kpi-card" data-testid="kpi-montecarlo-target">
+                          <div className="text-2xl font-bold text-primary">
+                            {monteCarloResults.probabilityOfTarget !== null
+                              ? `${(monteCarloResults.probabilityOfTarget * 100).toFixed(0)}%`
+                              : '–'}
+                          </div>
+                          <div className="text-sm text-muted-foreground font-medium mt-2">
+                            {language === 'de' ? 'Wahrscheinlichkeit Zielkapital' : 'Probability of target'}
+                          </div>
+                        </div>
+                        <div className="kpi-card" data-testid="kpi-montecarlo-ruin">
+                          <div className="text-2xl font-bold text-destructive">
+                            {(monteCarloResults.ruinProbability * 100).toFixed(0)}%
+                          </div>
+                          <div className="text-sm text-muted-foreground font-medium mt-2">
+                            {language === 'de' ? 'Kapital vor Rentenende aufgebraucht' : 'Capital exhausted before payout end'}
+                          </div>
+                          {monteCarloResults.medianRuinAge !== null && (
+                            <div className="mt-2 text-xs text-muted-foreground">
+                              {language === 'de' ? 'Median-Alter' : 'Median age'} {monteCarloResults.medianRuinAge}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                      <RealtimeChart
+                        data={yearEndChartData}
+                        bands={monteCarloBands}
+                        title={language === 'de' ? 'Portfoliowert mit Perzentilbändern' : 'Portfolio value with percentile bands'}
+                        type="area"
+                        highlightChanges={false}
+                        isUpdating={monteCarloMutation.isPending}
+                      />
+                    </div>
+                  </section>
+                )}
+
+                {/* Sensitivity Analysis */}
+                {sensitivity && (
+                  <section className="animate-slide-in-up">
+                    <div className="apple-card p-8">
+                      <div className="flex items-center space-x-3 mb-6">
+                        <div className="w-8 h-8 bg-chart-4/10 rounded-lg flex items-center justify-center">
+                          <div className="w-4 h-4 bg-chart-4 rounded-sm"></div>
+                        </div>
+                        <div>
+                          <h3 className="text-xl font-semibold text-foreground tracking-tight">
+                            {language === 'de' ? 'Sensitivitätsanalyse' : 'Sensitivity analysis'}
+                          </h3>
+                          <p className="text-sm text-muted-foreground font-medium">
+                            {language === 'de'
+                              ? `Änderung der Monatsrente (${formatCurrency(sensitivity.tornado.baseValue)}) je Eingabe`
+                              : `Change of the monthly pension (${formatCurrency(sensitivity.tornado.baseValue)}) per input`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="grid xl:grid-cols-2 gap-8">
+                        <div className="chart-container p-4">
+                          <TornadoChart results={sensitivity.tornado} language={language} className="w-full" />
+                        </div>
+                        <div className="p-4">
+                          <h4 className="text-base font-semibold text-foreground mb-3">
+                            {language === 'de' ? 'Monatsrente nach Rendite und Sparrate' : 'Monthly pension by return and contribution'}
+                          </h4>
+                          <SensitivityHeatmap grid={sensitivity.grid} language={language} />
+                        </div>
+                      </div>
+                    </div>
+                  </section>
+                )}
+
                 {/* Advanced Analytics Grid */}
                 <div className="grid lg:grid-cols-2 gap-8 animate-slide-in-up">
                   {/* Detail Analysis */}
@@ -2409,7 +2732,7 @@ function Home({ initialTab = "private-pension" }: HomeProps = {}) {
                             {[1, 2, 3, 4].map((inflationRate) => {
                               // Correct inflation calculation: use time until pension starts, not contribution period
                               const yearsUntilPension = form.getValues().payoutStartAge - form.getValues().startAge;
-                              const realValue = simulationResults.kpis.monthlyPension / Math.pow(1 + inflationRate/100, yearsUntilPension);
+                              const realValue = (rawSimulationResults ?? simulationResults).kpis.monthlyPension / Math.pow(1 + inflationRate/100, yearsUntilPension);
                               return (
                                 <div key={inflationRate} className="flex justify-between items-center py-2 border-b border-gray-300/50 dark:border-gray-600/50 last:border-b-0">
                                   <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -1,9 +1,17 @@
 import { OnboardingData, OnboardingExportData } from '../types/onboarding';
 import { generatePensionPDF, PDFGeneratorOptions } from './pdf-generator';
+import { apiRequest, clearAuthToken, getAuthUserId, hasAuthToken } from '@/lib/queryClient';
 
 const STORAGE_KEY = 'pension_calculator_onboarding';
+const SCENARIO_STORAGE_KEY = 'pension_calculator_household_scenario'; // suffixed with the user id
+const HOUSEHOLD_SCENARIO_NAME = 'Haushaltsprofil';
 const VERSION = '1.0.0';
 
+// apiRequest reports the status as prefix of the error message
+function isNotFoundError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith('404:');
+}
+
 export class OnboardingStorageService {
   private static instance: OnboardingStorageService;
   private autoSaveEnabled = true;
@@ -98,6 +106,7 @@ export class OnboardingStorageService {
       localStorage.removeItem(STORAGE_KEY);
       // Also remove the legacy boolean flag to keep storage in sync
       localStorage.removeItem('onboarding-completed');
+      this.forgetServerScenarioId();
     } catch (error) {
       console.error('Failed to clear onboarding data:', error);
     }
@@ -123,6 +132,109 @@ export class OnboardingStorageService {
     this.saveData(completedData);
   }
 
+  // Persist the completed onboarding as household profile of a scenario (requires login)
+  async saveToServer(scenarioId: string, data: OnboardingData): Promise<OnboardingData> {
+    const response = await apiRequest('PUT', `/api/scenarios/${scenarioId}/household`, data);
+    return response.json();
+  }
+
+  // Load the household profile of a scenario, e.g. on another device, and keep it locally.
+  // A cached scenario that is gone (404) is forgotten and looked up by name once more.
+  async loadFromServer(scenarioId: string): Promise<OnboardingData | null> {
+    try {
+      const response = await apiRequest('GET', `/api/scenarios/${scenarioId}/household`);
+      const data: OnboardingData = await response.json();
+      this.saveData(data);
+      return data;
+    } catch (error) {
+      if (isNotFoundError(error) && scenarioId === this.readServerScenarioId()) {
+        this.forgetServerScenarioId();
+        const foundId = await this.lookUpServerScenarioId();
+        return foundId && foundId !== scenarioId ? this.loadFromServer(foundId) : null;
+      }
+      console.error('Failed to load household profile from server:', error);
+      return null;
+    }
+  }
+
+  // The cached scenario id belongs to the logged-in user, so a shared browser never
+  // sends one user's scenario id with another user's token
+  private serverScenarioStorageKey(): string | null {
+    const userId = getAuthUserId();
+    return userId && this.isLocalStorageAvailable() ? `${SCENARIO_STORAGE_KEY}:${userId}` : null;
+  }
+
+  private readServerScenarioId(): string | null {
+    const key = this.serverScenarioStorageKey();
+    return key ? localStorage.getItem(key) : null;
+  }
+
+  private storeServerScenarioId(scenarioId: string): void {
+    const key = this.serverScenarioStorageKey();
+    if (key) {
+      localStorage.setItem(key, scenarioId);
+    }
+  }
+
+  private forgetServerScenarioId(): void {
+    const key = this.serverScenarioStorageKey();
+    if (key) {
+      localStorage.removeItem(key);
+    }
+  }
+
+  // Scenario that holds the household profile on the server; on a new device it is
+  // looked up by name. Null without login or before the first upload.
+  async findServerScenarioId(): Promise<string | null> {
+    if (!hasAuthToken()) return null;
+    return this.readServerScenarioId() ?? this.lookUpServerScenarioId();
+  }
+
+  private async lookUpServerScenarioId(): Promise<string | null> {
+    try {
+      const response = await apiRequest('GET', '/api/scenarios');
+      const scenarios: { id: string; name: string }[] = await response.json();
+      const scenario = scenarios.find((candidate) => candidate.name === HOUSEHOLD_SCENARIO_NAME);
+      if (!scenario) return null;
+      this.storeServerScenarioId(scenario.id);
+      return scenario.id;
+    } catch (error) {
+      console.error('Failed to look up the household scenario:', error);
+      return null;
+    }
+  }
+
+  // Upload the completed onboarding, creating the scenario on first use; skipped without login
+  async syncToServer(data: OnboardingData): Promise<void> {
+    if (!hasAuthToken()) return;
+    try {
+      let scenarioId = await this.findServerScenarioId();
+      if (scenarioId) {
+        try {
+          await this.saveToServer(scenarioId, data);
+          return;
+        } catch (error) {
+          if (!isNotFoundError(error)) throw error;
+          // Scenario deleted in the meantime, e.g. on another device
+          this.forgetServerScenarioId();
+          scenarioId = await this.lookUpServerScenarioId();
+        }
+      }
+      if (!scenarioId) {
+        const response = await apiRequest('POST', '/api/scenarios', {
+          name: HOUSEHOLD_SCENARIO_NAME,
+          description: 'Angaben aus dem Onboarding'
+        });
+        const scenario: { id: string } = await response.json();
+        scenarioId = scenario.id;
+        this.storeServerScenarioId(scenarioId);
+      }
+      await this.saveToServer(scenarioId, data);
+    } catch (error) {
+      console.error('Failed to save household profile to server:', error);
+    }
+  }
+
   // Static methods for easier access
   static saveData(data: Partial<OnboardingData>): void {
     OnboardingStorageService.getInstance().saveData(data);
@@ -136,6 +248,12 @@ export class OnboardingStorageService {
     OnboardingStorageService.getInstance().clearData();
   }
 
+  // Logout: the cached scenario id is removed while the token still names the user
+  static logout(): void {
+    OnboardingStorageService.getInstance().forgetServerScenarioId();
+    clearAuthToken();
+  }
+
   // Legacy method: kept for backward compatibility
   // Now delegates to the single source of truth (completedAt in data)
   static setCompleted(completed: boolean): void {
@@ -6,6 +6,8 @@ export interface PDFGeneratorOptions {
   formData: any;
   simulationResults: any;
   costSettings: any;
+  /** Whether simulationResults hold nominal values or today's purchasing power */
+  valueView?: 'nominal' | 'real';
   comparisonData?: any[];
 }
 
@@ -164,10 +166,19 @@ export class PDFGenerator {
         ? this.t('Lebenslange Rente', 'Lifetime Annuity')
         : this.t('Flexible Entnahme', 'Flexible Withdrawal')
     );
-    if (formData.payoutMode === 'annuity' && formData.annuityRate) {
+    const annuity = this.options.simulationResults?.annuity;
+    if (formData.payoutMode === 'annuity' && annuity) {
       this.addKeyValue(
-        this.t('Rentenfaktor:', 'Annuity Rate:'),
-        this.formatPercent(formData.annuityRate)
+        this.t('Rentenfaktor je 10.000 €:', 'Annuity Factor per €10,000:'),
+        this.formatCurrency(annuity.rentenfaktor)
+      );
+      this.addKeyValue(
+        this.t('Rechnungszins:', 'Technical Interest Rate:'),
+        this.formatPercent(annuity.technicalInterestRate)
+      );
+      this.addKeyValue(
+        this.t('Rentengarantiezeit:', 'Guarantee Period:'),
+        `${annuity.guaranteePeriodYears} ${this.t('Jahre', 'years')}`
       );
     }
     if (formData.payoutMode === 'flex' && formData.safeWithdrawalRate) {
@@ -212,6 +223,12 @@ export class PDFGenerator {
       this.t('Rebalancing:', 'Rebalancing:'),
       costSettings.rebalancingEnabled ? this.t('Aktiviert', 'Enabled') : this.t('Deaktiviert', 'Disabled')
     );
+    if (costSettings.inflationRate !== undefined) {
+      this.addKeyValue(
+        this.t('Inflationsrate:', 'Inflation Rate:'),
+        this.formatPercent(costSettings.inflationRate)
+      );
+    }
     this.yPosition += 10;
   }
 
@@ -220,6 +237,13 @@ export class PDFGenerator {
 
     const kpis = this.options.simulationResults.kpis;
 
+    this.addKeyValue(
+      this.t('Wertdarstellung:', 'Values shown as:'),
+      this.options.valueView === 'real'
+        ? this.t('Real (heutige Kaufkraft)', 'Real (today\'s purchasing power)')
+        : this.t('Nominal', 'Nominal')
+    );
+
     // Main Results
     this.addSubSectionTitle(this.t('Hauptergebnisse', 'Main Results'));
     this.addKeyValue(
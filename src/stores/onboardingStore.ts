@@ -435,6 +435,9 @@ export const useOnboardingStore = create<OnboardingStore>((set, get) => ({
       data: completedData,
       isCompleted: true
     });
+
+    // Keep the server copy in sync when logged in; the local copy stays authoritative offline
+    void OnboardingStorageService.getInstance().syncToServer(completedData);
   },
 
   resetData: () => {
@@ -474,6 +477,19 @@ export const useOnboardingStore = create<OnboardingStore>((set, get) => ({
           isCompleted: false 
         });
       }
+
+      // A profile saved on the server (e.g. from another device) replaces the local copy
+      const service = OnboardingStorageService.getInstance();
+      const scenarioId = await service.findServerScenarioId();
+      if (scenarioId) {
+        const serverData = await service.loadFromServer(scenarioId);
+        if (serverData) {
+          set({
+            data: { ...initialData, ...serverData },
+            isCompleted: OnboardingStorageService.isCompleted(serverData)
+          });
+        }
+      }
     } catch (error) {
       console.error('Failed to load onboarding data:', error);
       set({ 
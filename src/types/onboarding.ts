@@ -14,6 +14,12 @@ export interface PersonalData {
     count?: number;
   };
   calcScope?: CalcScope; // Only for married couples
+  retirementAge?: number; // Planned retirement age, default 67
+  inflationRate?: number; // Expected inflation in % p.a., default 2
+  // For married couples with calcScope='beide_personen' (age/birthYear describe person A)
+  age_B?: number;
+  retirementAge_A?: number;
+  retirementAge_B?: number;
 }
 
 export interface IncomeData {
@@ -41,15 +47,18 @@ export interface OtherIncomeData {
 
 export interface PensionData {
   public67?: number; // €/month
+  entgeltpunkte?: number; // Entgeltpunkte so far (Renteninformation), enables the GRV projection
   civil67?: number; // €/month
   profession67?: number; // €/month
   zvkVbl67?: number; // €/month
   // For married couples with calcScope='beide_personen'
   public67_A?: number;
+  entgeltpunkte_A?: number;
   civil67_A?: number;
   profession67_A?: number;
   zvkVbl67_A?: number;
   public67_B?: number;
+  entgeltpunkte_B?: number;
   civil67_B?: number;
   profession67_B?: number;
   zvkVbl67_B?: number;
@@ -98,6 +98,11 @@ export const validatePersonalData = (data: Partial<OnboardingData>): ValidationE
     const childrenError = validateNumber(data.personal.children.count, 'Anzahl Kinder', 0, 20);
     if (childrenError) errors.push(childrenError);
   }
+
+  if (data.personal.inflationRate !== undefined) {
+    const inflationError = validateNumber(data.personal.inflationRate, 'Inflationsrate', 0, 10);
+    if (inflationError) errors.push(inflationError);
+  }
   
   return errors;
 };
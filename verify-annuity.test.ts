@@ -0,0 +1,102 @@
+/**
+ * Regression tests for the Rentenfaktor from the DAV 2004 R approximation
+ *
+ * The mortality table is a Gompertz-Makeham approximation, so the values are
+ * pinned to catch unintended changes of the table or the conversion.
+ * Run with: npx tsx verify-annuity.test.ts
+ */
+
+import { calculateAnnuityConversion } from './shared/utils/annuity';
+import { calculatePrivatePension } from './shared/utils/financial-calculator';
+import { CURRENT_TAX_YEAR } from './src/data/governmentParameters';
+import type { InsertPrivatePensionPlan } from './shared/schema';
+
+let failures = 0;
+
+function assertWithinTolerance(actual: number, expected: number, tolerance: number, testName: string): void {
+  const diff = Math.abs(actual - expected);
+  if (diff <= tolerance) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    console.log(`   Expected: ${expected.toFixed(4)}, Actual: ${actual.toFixed(4)}, Tolerance: ±${tolerance}`);
+    failures++;
+  }
+}
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+const PLAN: InsertPrivatePensionPlan = {
+  scenarioId: 'temp',
+  currentAge: 35,
+  startAge: 35,
+  monthlyContribution: 200,
+  startInvestment: 0,
+  termYears: 32,
+  payoutStartAge: 67,
+  payoutEndAge: 90,
+  payoutMode: 'annuity',
+  policyFeeAnnualPct: 0,
+  policyFixedAnnual: 0,
+  taxRatePayout: 0.17,
+  expectedReturn: 0.05,
+  ter: 0,
+  inflationRate: 0.02,
+  technicalInterestRate: 0.01,
+};
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  REGRESSION TESTS - Rentenfaktor (DAV 2004 R)');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+console.log('🔍 TEST SUITE 1: Pinned Rentenfaktoren\n');
+{
+  const cases: [string, Parameters<typeof calculateAnnuityConversion>[0], number, number][] = [
+    ['Unisex, born 1990, 67, 1%', { age: 67, birthYear: 1990 }, 32.1121, 30.441],
+    ['Male, born 1990, 67, 1%', { age: 67, birthYear: 1990, sex: 'male' }, 33.1108, 29.3894],
+    ['Female, born 1990, 67, 1%', { age: 67, birthYear: 1990, sex: 'female' }, 31.0782, 31.6092],
+    ['Unisex, born 1958, 67, 1%', { age: 67, birthYear: 1958 }, 36.9577, 25.967],
+    ['Unisex, born 1990, 62, 1%', { age: 62, birthYear: 1990 }, 28.4226, 35.1342],
+    ['Unisex, born 1990, 67, 2%', { age: 67, birthYear: 1990, technicalInterestRate: 0.02 }, 37.2918, 30.441],
+    ['Unisex, born 1990, 67, 1%, 10 years guarantee', { age: 67, birthYear: 1990, guaranteePeriodYears: 10 }, 31.9192, 30.441],
+  ];
+  for (const [name, options, rentenfaktor, lifeExpectancy] of cases) {
+    const conversion = calculateAnnuityConversion({ technicalInterestRate: 0.01, ...options });
+    assertWithinTolerance(conversion.rentenfaktor, rentenfaktor, 0.001, `${name}: Rentenfaktor`);
+    assertWithinTolerance(conversion.lifeExpectancy, lifeExpectancy, 0.001, `${name}: life expectancy`);
+  }
+}
+
+console.log('\n🔍 TEST SUITE 2: Simulation\n');
+{
+  const results = calculatePrivatePension(PLAN);
+  const expected = calculateAnnuityConversion({ age: 67, birthYear: CURRENT_TAX_YEAR - 35, technicalInterestRate: 0.01 });
+  assertTrue(results.annuity !== null, 'Annuity mode converts the capital');
+  assertWithinTolerance(
+    results.annuity!.rentenfaktor,
+    expected.rentenfaktor,
+    1e-9,
+    'Generation from the pinned tax year, not the system clock'
+  );
+  assertWithinTolerance(
+    results.kpis.monthlyPension,
+    (results.kpis.projectedValue * expected.rentenfaktor) / 10000,
+    0.01,
+    'Monthly pension = capital × Rentenfaktor / 10,000'
+  );
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL ANNUITY TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
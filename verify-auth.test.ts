@@ -0,0 +1,138 @@
+/**
+ * Behavior tests for the auth routes: refresh-token rotation and reuse
+ * detection, password change and account deletion
+ *
+ * Needs a disposable PostgreSQL database with the schema pushed
+ * (DATABASE_URL=$TEST_DATABASE_URL npm run db:push); the test creates and
+ * deletes its own user. Never point it at the application database.
+ * Run with: TEST_DATABASE_URL=postgresql://... npx tsx verify-auth.test.ts
+ */
+
+import express from 'express';
+import type { AddressInfo } from 'net';
+
+let failures = 0;
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+if (!process.env.TEST_DATABASE_URL) {
+  console.log('⚠️  SKIPPED: set TEST_DATABASE_URL to a disposable database to run the auth tests');
+  process.exit(0);
+}
+// The storage connects on import, so the test database has to be set first
+process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+const { initializeAuth } = await import('./server/middleware/auth');
+const { registerAuthRoutes } = await import('./server/routes/auth');
+
+const app = express();
+// Every request comes from its own address, so authLimiter never answers 429
+app.set('trust proxy', 1);
+initializeAuth(app);
+app.use(express.json());
+registerAuthRoutes(app);
+const server = app.listen(0);
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+let requestCount = 0;
+async function request(method: string, path: string, body?: unknown, token?: string) {
+  requestCount++;
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Forwarded-For': `10.0.${Math.floor(requestCount / 250)}.${requestCount % 250}`,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : null };
+}
+
+const username = `verify-auth-${Date.now()}`;
+const password = 'first-password';
+const newPassword = 'second-password';
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  BEHAVIOR TESTS - Auth');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+try {
+  console.log('🔍 TEST SUITE 1: Refresh-token rotation\n');
+  const registered = await request('POST', '/api/auth/register', { username, password });
+  assertTrue(registered.status === 201, 'Registration returns 201', `${registered.status}`);
+  assertTrue(Boolean(registered.body.token && registered.body.refreshToken), 'Registration issues both tokens');
+  assertTrue(registered.body.user.password === undefined, 'Password hash never leaves the server');
+
+  const first = registered.body.refreshToken as string;
+  const rotated = await request('POST', '/api/auth/refresh', { refreshToken: first });
+  assertTrue(rotated.status === 200, 'Refresh token exchanged for a new pair', `${rotated.status}`);
+  const second = rotated.body.refreshToken as string;
+  assertTrue(second !== first, 'New refresh token on every exchange');
+  const me = await request('GET', '/api/auth/me', undefined, rotated.body.token);
+  assertTrue(me.status === 200 && me.body.user.username === username, 'New access token identifies the user');
+
+  console.log('\n🔍 TEST SUITE 2: Reuse detection\n');
+  const reused = await request('POST', '/api/auth/refresh', { refreshToken: first });
+  assertTrue(reused.status === 401, 'Rotated refresh token is rejected', `${reused.status}`);
+  const afterReuse = await request('POST', '/api/auth/refresh', { refreshToken: second });
+  assertTrue(afterReuse.status === 401, 'Reuse revokes every refresh token of the user', `${afterReuse.status}`);
+  const unknown = await request('POST', '/api/auth/refresh', { refreshToken: 'not-a-token' });
+  assertTrue(unknown.status === 401, 'Unknown refresh token is rejected');
+
+  console.log('\n🔍 TEST SUITE 3: Password change\n');
+  const login = await request('POST', '/api/auth/login', { username, password });
+  assertTrue(login.status === 200, 'Login with the password', `${login.status}`);
+  const wrongCurrent = await request(
+    'POST',
+    '/api/auth/change-password',
+    { currentPassword: 'wrong-password', newPassword },
+    login.body.token
+  );
+  assertTrue(wrongCurrent.status === 401, 'Wrong current password is rejected', `${wrongCurrent.status}`);
+  const changed = await request(
+    'POST',
+    '/api/auth/change-password',
+    { currentPassword: password, newPassword },
+    login.body.token
+  );
+  assertTrue(changed.status === 200 && Boolean(changed.body.refreshToken), 'Password changed with a new token pair');
+  const oldSession = await request('POST', '/api/auth/refresh', { refreshToken: login.body.refreshToken });
+  assertTrue(oldSession.status === 401, 'Refresh tokens from before the change are revoked', `${oldSession.status}`);
+  const oldPassword = await request('POST', '/api/auth/login', { username, password });
+  assertTrue(oldPassword.status === 401, 'Old password no longer logs in', `${oldPassword.status}`);
+  const newLogin = await request('POST', '/api/auth/login', { username, password: newPassword });
+  assertTrue(newLogin.status === 200, 'New password logs in', `${newLogin.status}`);
+
+  console.log('\n🔍 TEST SUITE 4: Account deletion\n');
+  const { token, refreshToken } = newLogin.body;
+  const wrongPassword = await request('DELETE', '/api/auth/me', { password }, token);
+  assertTrue(wrongPassword.status === 401, 'Deletion needs the current password', `${wrongPassword.status}`);
+  const deleted = await request('DELETE', '/api/auth/me', { password: newPassword }, token);
+  assertTrue(deleted.status === 204, 'Account deleted', `${deleted.status}`);
+  const staleAccess = await request('GET', '/api/auth/me', undefined, token);
+  assertTrue(staleAccess.status === 401, 'Access token of a deleted account is rejected', `${staleAccess.status}`);
+  const staleRefresh = await request('POST', '/api/auth/refresh', { refreshToken });
+  assertTrue(staleRefresh.status === 401, 'Refresh tokens are deleted with the account', `${staleRefresh.status}`);
+  const deletedLogin = await request('POST', '/api/auth/login', { username, password: newPassword });
+  assertTrue(deletedLogin.status === 401, 'Deleted account cannot log in', `${deletedLogin.status}`);
+} finally {
+  server.close();
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL AUTH TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
+// The database connection would keep the process alive
+process.exit(0);
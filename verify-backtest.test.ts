@@ -0,0 +1,134 @@
+/**
+ * Behavior tests for the historical backtest over the bundled index returns
+ *
+ * Run with: npx tsx verify-backtest.test.ts
+ */
+
+import { runHistoricalBacktest } from './shared/utils/backtest';
+import { MSCI_WORLD, DAX, getLastYear } from './shared/data/historical-returns';
+import type { InsertPrivatePensionPlan } from './shared/schema';
+
+let failures = 0;
+
+function assertWithinTolerance(actual: number, expected: number, tolerance: number, testName: string): void {
+  const diff = Math.abs(actual - expected);
+  if (diff <= tolerance) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    console.log(`   Expected: ${expected.toFixed(4)}, Actual: ${actual.toFixed(4)}, Tolerance: ±${tolerance}`);
+    failures++;
+  }
+}
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+const PLAN: InsertPrivatePensionPlan = {
+  scenarioId: 'temp',
+  currentAge: 45,
+  startAge: 45,
+  monthlyContribution: 300,
+  startInvestment: 0,
+  termYears: 20,
+  payoutStartAge: 65,
+  payoutEndAge: 85,
+  payoutMode: 'flex',
+  policyFeeAnnualPct: 0.004,
+  policyFixedAnnual: 0,
+  taxRatePayout: 0.17,
+  expectedReturn: 0.06,
+  ter: 0.002,
+  volatility: 0.18,
+  rebalancingEnabled: true,
+  inflationRate: 0.02,
+  technicalInterestRate: 0.01,
+  guaranteePeriodYears: 0,
+  sex: 'unisex',
+};
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  BEHAVIOR TESTS - Historical Backtest');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+console.log('🔍 TEST SUITE 1: Rolling windows\n');
+const result = runHistoricalBacktest(PLAN, { startCapital: 200000 });
+{
+  const { firstYear, lastYear } = result.dataRange;
+  assertTrue(firstYear === MSCI_WORLD.firstYear && lastYear === getLastYear(MSCI_WORLD), 'Data range of the MSCI World');
+  assertTrue(
+    result.savings.windows.length === lastYear - firstYear - 20 + 2,
+    'One savings window per start year with a full 20-year history',
+    `${result.savings.windows.length}`
+  );
+  assertTrue(
+    result.savings.windows.every((window) => window.endYear - window.startYear === 19 && window.endYear <= lastYear),
+    'Windows end within the data'
+  );
+  const contributions = result.savings.windows.map((window) => window.totalContributions);
+  assertTrue(
+    contributions.every((value) => Math.abs(value - contributions[0]) < 0.01),
+    'Same contributions in every window'
+  );
+  const { best, worst, median } = result.savings;
+  assertTrue(
+    !!best && !!worst && !!median &&
+      worst.realFinalValue <= median.realFinalValue &&
+      median.realFinalValue <= best.realFinalValue,
+    'Worst <= median <= best in real terms'
+  );
+  assertTrue(
+    result.savings.windows.every((window) => window.realFinalValue < window.finalValue),
+    'Real value below the nominal value (positive inflation)'
+  );
+}
+
+console.log('\n🔍 TEST SUITE 2: Safe withdrawal rate\n');
+{
+  const { withdrawal } = result;
+  assertWithinTolerance(withdrawal.withdrawalRate, 0.04, 1e-9, 'Default withdrawal rate 4%');
+  assertWithinTolerance(withdrawal.startCapital, 200000, 0.01, 'Start capital from the options');
+  const minimum = Math.min(...withdrawal.windows.map((window) => window.maxSustainableRate));
+  assertWithinTolerance(withdrawal.safeWithdrawalRate!, minimum, 1e-9, 'Safe rate = lowest sustainable rate of all windows');
+  const lasted = withdrawal.windows.filter((window) => window.depletedAfterYears === null).length;
+  assertWithinTolerance(withdrawal.successRate!, lasted / withdrawal.windows.length, 1e-9, 'Success rate = share of lasting windows');
+  assertTrue(
+    withdrawal.windows.every(
+      (window) => (window.depletedAfterYears === null) === (window.maxSustainableRate >= withdrawal.withdrawalRate)
+    ),
+    'A window lasts exactly when its sustainable rate covers the withdrawal rate'
+  );
+
+  const atSafeRate = runHistoricalBacktest(PLAN, { startCapital: 200000, withdrawalRate: withdrawal.safeWithdrawalRate! });
+  assertWithinTolerance(atSafeRate.withdrawal.successRate!, 1, 1e-9, 'Every window lasts at the safe rate');
+  const aggressive = runHistoricalBacktest(PLAN, { startCapital: 200000, withdrawalRate: 0.15 });
+  assertTrue(aggressive.withdrawal.successRate! < 0.5, '15% withdrawals fail in most windows');
+}
+
+console.log('\n🔍 TEST SUITE 3: Allocation\n');
+{
+  const mixed = runHistoricalBacktest(PLAN, { allocation: { msciWorld: 2, dax: 2 } });
+  assertWithinTolerance(mixed.allocation.msciWorld, 0.5, 1e-9, 'Weights are normalised');
+  assertTrue(mixed.dataRange.firstYear === DAX.firstYear, 'Data range starts with the shortest index');
+  let threw = false;
+  try {
+    runHistoricalBacktest(PLAN, { allocation: { msciWorld: 0 } });
+  } catch {
+    threw = true;
+  }
+  assertTrue(threw, 'Allocation without a positive weight is rejected');
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL BACKTEST TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
@@ -0,0 +1,153 @@
+/**
+ * Behavior tests for the bAV lifecycle (Entgeltumwandlung)
+ *
+ * Run with: npx tsx verify-bav.test.ts
+ */
+
+import { calculateBavLifecycle, calculateVersorgungsbezuegeContributions, type BavInput } from './shared/utils/bav';
+import { calculateEntgeltpunkte } from './shared/utils/statutory-pension';
+import { getGovernmentParameters } from './src/data/governmentParameters';
+
+let failures = 0;
+
+function assertWithinTolerance(actual: number, expected: number, tolerance: number, testName: string): void {
+  const diff = Math.abs(actual - expected);
+  if (diff <= tolerance) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    console.log(`   Expected: ${expected.toFixed(4)}, Actual: ${actual.toFixed(4)}, Tolerance: ±${tolerance}`);
+    failures++;
+  }
+}
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+const BASE: BavInput = {
+  grossAnnualIncome: 50000,
+  monthlyConversion: 200,
+  currentAge: 35,
+  payoutStartAge: 67,
+  year: 2025,
+};
+const pension = getGovernmentParameters(2025).pension;
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  BEHAVIOR TESTS - bAV Lifecycle');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+console.log('🔍 TEST SUITE 1: Contribution phase\n');
+{
+  const { contribution } = calculateBavLifecycle(BASE);
+  assertWithinTolerance(contribution.annualConversion, 2400, 0.01, 'Annual conversion');
+  assertWithinTolerance(contribution.taxFreeAmount, 2400, 0.01, 'Fully tax-free below 8% BBG');
+  assertWithinTolerance(contribution.socialSecurityFreeAmount, 2400, 0.01, 'Fully SV-free below 4% BBG');
+  assertWithinTolerance(contribution.employerSubsidy, 360, 0.01, '15% employer subsidy');
+  assertTrue(
+    contribution.netCost > 0 && contribution.netCost < contribution.annualConversion * 0.7,
+    'Net cost well below the conversion',
+    `${contribution.netCost}`
+  );
+  assertWithinTolerance(
+    contribution.netCost,
+    contribution.annualConversion - contribution.taxSavings - contribution.socialSecuritySavings,
+    0.01,
+    'Net cost = conversion - tax and SV savings'
+  );
+  assertWithinTolerance(
+    contribution.lostEntgeltpunkte,
+    calculateEntgeltpunkte(50000, 2025) - calculateEntgeltpunkte(47600, 2025),
+    1e-9,
+    'Entgeltpunkte lost on the SV-free part'
+  );
+}
+{
+  const { contribution } = calculateBavLifecycle({ ...BASE, monthlyConversion: 700 });
+  assertWithinTolerance(contribution.taxFreeAmount, pension.occupationalPensionMonthlyExemption * 12, 0.01, 'Tax-free part capped at 8% BBG');
+  assertWithinTolerance(
+    contribution.socialSecurityFreeAmount,
+    pension.occupationalPensionMonthlySocialSecurityExemption * 12,
+    0.01,
+    'SV-free part capped at 4% BBG'
+  );
+  assertWithinTolerance(
+    contribution.employerSubsidy,
+    contribution.socialSecurityFreeAmount * 0.15,
+    0.01,
+    'Subsidy only on the SV-free part'
+  );
+  const richer = calculateBavLifecycle({ ...BASE, monthlyConversion: 700, employerSubsidyRate: 0.2 }).contribution;
+  assertTrue(richer.employerSubsidy > contribution.employerSubsidy, 'Higher employer subsidy rate is used');
+  assertTrue(
+    richer.employerSubsidy <= richer.socialSecuritySavings + 0.01,
+    'Subsidy limited to the saved contributions'
+  );
+}
+{
+  // Above the BBG KV/RV no contributions are saved, so the employer owes no subsidy
+  const { contribution } = calculateBavLifecycle({ ...BASE, grossAnnualIncome: 150000 });
+  assertWithinTolerance(contribution.socialSecuritySavings, 0, 0.01, 'No SV savings above the ceilings');
+  assertWithinTolerance(contribution.employerSubsidy, 0, 0.01, 'No subsidy without SV savings');
+  assertWithinTolerance(contribution.lostEntgeltpunkte, 0, 1e-9, 'No Entgeltpunkte lost above the BBG RV');
+}
+
+console.log('\n🔍 TEST SUITE 2: Payout phase\n');
+{
+  const result = calculateBavLifecycle(BASE);
+  const { payout } = result;
+  assertWithinTolerance(payout.monthlyPension, (payout.capitalAtPayout / 10000) * 30, 0.01, 'Rentenfaktor 30 per 10,000 €');
+  const kvdr = calculateVersorgungsbezuegeContributions(payout.monthlyPension, 2025);
+  assertWithinTolerance(payout.monthlyHealthInsurance, kvdr.health, 0.01, 'KVdR contributions on the bAV pension');
+  assertTrue(payout.monthlyNetPension < payout.monthlyPension, 'Tax and KV/PV lower the pension');
+  assertWithinTolerance(
+    payout.monthlyStatutoryPensionLoss,
+    result.contribution.lostEntgeltpunkte * 32 * pension.currentPensionValue,
+    0.01,
+    'Statutory pension loss from 32 years of conversion'
+  );
+  assertWithinTolerance(
+    payout.monthlyNetGain,
+    payout.monthlyNetPension - payout.monthlyNetStatutoryPensionLoss,
+    0.01,
+    'Net gain = net bAV pension - net statutory loss'
+  );
+
+  const privateInsured = calculateBavLifecycle({ ...BASE, healthInsurance: 'private' }).payout;
+  assertWithinTolerance(privateInsured.monthlyHealthInsurance + privateInsured.monthlyLongTermCare, 0, 0.001, 'No KVdR contributions for PKV members');
+}
+{
+  const small = calculateVersorgungsbezuegeContributions(100, 2025);
+  assertWithinTolerance(small.health + small.longTermCare, 0, 0.001, 'No contributions below the Freigrenze');
+}
+
+console.log('\n🔍 TEST SUITE 3: Net return\n');
+{
+  const result = calculateBavLifecycle(BASE);
+  assertTrue(result.cashflows.length === 87 - 35, 'One cash flow per year until the life expectancy');
+  assertTrue(result.cashflows[0].netCashflow < 0 && result.cashflows[40].netCashflow > 0, 'Outflows first, inflows in retirement');
+  assertTrue(result.netReturn !== null, 'Net return found');
+  const npv = result.cashflows.reduce(
+    (sum, flow, index) => sum + flow.netCashflow / Math.pow(1 + result.netReturn!, index),
+    0
+  );
+  assertTrue(Math.abs(npv) < result.totalNetCost * 0.01, 'Cash flows have a net present value of zero at the net return', `${npv}`);
+  const better = calculateBavLifecycle({ ...BASE, expectedReturn: 0.06 });
+  assertTrue(better.netReturn! > result.netReturn!, 'Higher contract return, higher net return');
+  const noPayout = calculateBavLifecycle({ ...BASE, lifeExpectancy: 67 });
+  assertTrue(noPayout.netReturn === null, 'No net return without a payout');
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL BAV TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
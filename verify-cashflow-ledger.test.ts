@@ -0,0 +1,191 @@
+/**
+ * Aggregation tests for the yearly cashflow ledger
+ *
+ * Feeds the product emitters (private pension, fund vs. pension comparison,
+ * guarantee products, mortgage) into one ledger and checks that the yearly
+ * household projection adds up to the products' own totals.
+ * Run with: npx tsx verify-cashflow-ledger.test.ts
+ */
+
+import {
+  aggregateCashflowLedger,
+  createCashflowLedger,
+  mergeCashflowLedgers,
+  sumCashflows,
+} from './shared/utils/cashflow-ledger';
+import { calculatePrivatePension, getDeflator, privatePensionCashflows } from './shared/utils/financial-calculator';
+import {
+  createDefaultSimulationParams,
+  pensionComparisonCashflows,
+  runPensionComparison,
+} from './shared/utils/pensionSimulation';
+import { calculateMortgagePlan, mortgageCashflows } from './shared/utils/mortgage';
+import { calculateGuaranteeScenarios, guaranteeScenarioCashflows } from './new-try/utils/guaranteeCalculator';
+import { ALL_INSURANCE_PRODUCTS } from './new-try/data/insuranceProducts';
+
+let failures = 0;
+
+function assertWithinTolerance(actual: number, expected: number, tolerance: number, testName: string): void {
+  const diff = Math.abs(actual - expected);
+  if (diff <= tolerance) {
+    console.log(`✅ PASS: ${testName}`);
+    console.log(`   Expected: ${expected.toFixed(2)} EUR, Actual: ${actual.toFixed(2)} EUR`);
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    console.log(`   Expected: ${expected.toFixed(2)} EUR, Actual: ${actual.toFixed(2)} EUR, Tolerance: ±${tolerance}`);
+    failures++;
+  }
+}
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+const START_YEAR = 2025;
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  AGGREGATION TESTS - Cashflow Ledger');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+console.log('🔍 TEST SUITE 1: Private pension emitter\n');
+const pension = calculatePrivatePension({
+  scenarioId: 'temp',
+  currentAge: 55,
+  startAge: 55,
+  monthlyContribution: 300,
+  startInvestment: 5000,
+  termYears: 10,
+  payoutStartAge: 65,
+  payoutEndAge: 80,
+  payoutMode: 'flex',
+  safeWithdrawalRate: 0.04,
+  expectedReturn: 0.05,
+  ter: 0.002,
+  policyFeeAnnualPct: 0.003,
+  policyFixedAnnual: 0,
+  taxRatePayout: 0.17,
+  inflationRate: 0.02,
+});
+const pensionLedger = createCashflowLedger(privatePensionCashflows(pension, { startYear: START_YEAR }), {
+  startYear: START_YEAR,
+  inflationRate: 0.02,
+});
+assertWithinTolerance(
+  sumCashflows(pensionLedger, 'contribution'),
+  pension.kpis.totalContributions,
+  0.01,
+  'Contributions incl. start investment = totalContributions'
+);
+assertWithinTolerance(sumCashflows(pensionLedger, 'fee'), pension.kpis.totalFees, 0.01, 'Fees = totalFees');
+assertWithinTolerance(sumCashflows(pensionLedger, 'tax'), pension.kpis.totalTaxes, 0.01, 'Taxes = totalTaxes');
+{
+  const projection = aggregateCashflowLedger(pensionLedger);
+  const lastAccumulationYear = projection.find((row) => row.year === START_YEAR + 9)!;
+  assertWithinTolerance(lastAccumulationYear.assetValue, pension.kpis.projectedValue, 0.01, 'Asset value at payout start');
+  const firstPayoutYear = projection.find((row) => row.year === START_YEAR + 10)!;
+  assertWithinTolerance(
+    firstPayoutYear.netIncome,
+    firstPayoutYear.payouts - firstPayoutYear.taxes,
+    0.01,
+    'Net income = payouts - taxes'
+  );
+}
+
+console.log('\n🔍 TEST SUITE 2: Fund vs. pension emitter\n');
+{
+  const params = createDefaultSimulationParams({
+    currentAge: 60,
+    retirementAge: 67,
+    finalAge: 75,
+    monthlySavings: 200,
+    initialInvestment: 20000,
+    expectedReturnPa: 6,
+    annualMgmtFee: 0.2,
+    monthlyWithdrawal: 400,
+    pensionContribution: 100,
+    pensionGuarantee: 150,
+    startYear: START_YEAR,
+  });
+  const result = runPensionComparison(params);
+  const ledger = createCashflowLedger(pensionComparisonCashflows(result, params), {
+    startYear: START_YEAR,
+    inflationRate: 0.02,
+  });
+  const last = result.yearlyData[result.yearlyData.length - 1];
+  assertWithinTolerance(
+    sumCashflows(ledger, 'contribution', { products: ['fund'] }),
+    200 * 12 * 7,
+    0.01,
+    'Fund contributions = savings rate; existing holdings are no contribution'
+  );
+  assertWithinTolerance(sumCashflows(ledger, 'tax', { products: ['fund'] }), last.fundTaxPaid, 0.01, 'Fund taxes = fundTaxPaid');
+  assertWithinTolerance(sumCashflows(ledger, 'payout', { products: ['fund'] }), last.fundWithdrawals, 0.01, 'Fund payouts = withdrawals');
+  assertWithinTolerance(sumCashflows(ledger, 'payout', { products: ['pension'] }), 150 * 12 * 9, 0.01, 'Pension paid from 67 to 75');
+  const projection = aggregateCashflowLedger(ledger);
+  assertWithinTolerance(projection[0].assetValue, result.yearlyData[0].fundGrossValue + result.yearlyData[0].pensionValue, 0.01, 'First year holds both products');
+  assertTrue(projection[0].assetValue > 20000, 'Existing holdings are part of the asset value');
+}
+
+console.log('\n🔍 TEST SUITE 3: Guarantee product emitter\n');
+{
+  const product = ALL_INSURANCE_PRODUCTS[0];
+  const calculation = calculateGuaranteeScenarios({ monthlyContribution: 150, contributionPeriod: 20, product });
+  const ledger = createCashflowLedger(guaranteeScenarioCashflows(calculation, START_YEAR), {
+    startYear: START_YEAR,
+    inflationRate: 0.02,
+  });
+  assertWithinTolerance(sumCashflows(ledger, 'contribution'), calculation.totalContributions, 0.01, 'Contributions over the term');
+  assertWithinTolerance(sumCashflows(ledger, 'payout'), calculation.expected.amount, 0.01, 'Lump sum of the expected scenario');
+  const projection = aggregateCashflowLedger(ledger);
+  assertTrue(projection[projection.length - 1].year === START_YEAR + 19, 'Paid out in the last contribution year');
+}
+
+console.log('\n🔍 TEST SUITE 4: Household merge and value view\n');
+{
+  const mortgage = calculateMortgagePlan({
+    remainingDebt: 150000,
+    interestRate: 3.5,
+    fixationEndYear: START_YEAR + 10,
+    startYear: START_YEAR,
+  });
+  const household = mergeCashflowLedgers(
+    pensionLedger,
+    createCashflowLedger(mortgageCashflows(mortgage), { startYear: START_YEAR, inflationRate: 0.02 })
+  );
+  const nominal = aggregateCashflowLedger(household);
+  const real = aggregateCashflowLedger(household, { view: 'real' });
+  const year = nominal.find((row) => row.year === START_YEAR + 5)!;
+  const pensionOnly = aggregateCashflowLedger(pensionLedger).find((row) => row.year === START_YEAR + 5)!;
+  assertWithinTolerance(
+    year.netWorth,
+    pensionOnly.assetValue - year.liabilities,
+    0.01,
+    'Net worth = pension asset - remaining debt'
+  );
+  assertWithinTolerance(
+    year.netCashflow,
+    -(pensionOnly.contributions + year.debtService),
+    0.01,
+    'Net cashflow = - savings - debt service'
+  );
+  assertWithinTolerance(
+    real.find((row) => row.year === START_YEAR + 5)!.netWorth,
+    year.netWorth / getDeflator(0.02, 5),
+    0.01,
+    'Real view deflates from the ledger start year'
+  );
+  assertTrue(nominal.every((row, index) => index === 0 || row.year === nominal[index - 1].year + 1), 'Continuous years');
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL CASHFLOW LEDGER TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
@@ -110,8 +110,8 @@ const test2_1 = calculateRiester({
 assertEqual(test2_1.grundzulage, 175, 'Grundzulage = 175 EUR');
 assertWithinTolerance(test2_1.kinderzulage, 600, 0.01, 'Kinderzulage = 600 EUR (2 × 300)');
 assertWithinTolerance(test2_1.totalSubsidy, 775, 0.01, 'Total subsidy = 775 EUR');
-// Contribution capped at 2100, so net cost = 2100 - 775 = 1325
-assertWithinTolerance(test2_1.netCost, 1325, 0.01, 'Net cost = 1325 EUR (after cap)');
+// Contribution capped at 2100; the Zulagen beat the tax savings, so nothing is refunded on top
+assertWithinTolerance(test2_1.netCost, 2100, 0.01, 'Net cost = 2100 EUR (after cap, Zulagen paid into the contract)');
 
 console.log('\nTest 2.2: Maximum contribution cap (60k income, 0 children, 3000 EUR contribution)');
 const test2_2 = calculateRiester({
@@ -138,6 +138,50 @@ const test2_4 = calculateRiester({
 });
 assertWithinTolerance(test2_4.kinderzulage, 785, 0.01, 'Kinderzulage = 785 EUR (2×300 + 1×185)');
 
+console.log('\nTest 2.5: Mindesteigenbeitrag minus Zulagen (30k prior-year income, 1 child)');
+const test2_5 = calculateRiester({
+  grossAnnualIncome: 30000,
+  children: 1,
+  contribution: 500,
+});
+// 4% of 30k = 1200 - 175 - 300 = 725
+assertWithinTolerance(test2_5.requiredContribution, 725, 0.01, 'Mindesteigenbeitrag = 725 EUR');
+assertWithinTolerance(test2_5.totalSubsidy, 475 * 500 / 725, 0.01, 'Zulagen cut to 500/725');
+
+console.log('\nTest 2.6: Berufseinsteigerbonus (age 23, first year)');
+const test2_6 = calculateRiester({
+  grossAnnualIncome: 30000,
+  children: 0,
+  contribution: 1200,
+  age: 23,
+  firstContributionYear: true,
+});
+assertWithinTolerance(test2_6.berufseinsteigerbonus, 200, 0.01, 'Berufseinsteigerbonus = 200 EUR');
+assertWithinTolerance(test2_6.totalSubsidy, 375, 0.01, 'Total subsidy = 175 + 200');
+
+console.log('\nTest 2.7: Indirectly eligible spouse with Sockelbetrag');
+const test2_7 = calculateRiester({
+  grossAnnualIncome: 0,
+  children: 0,
+  contribution: 60,
+  eligibility: 'indirect',
+});
+assertEqual(test2_7.isValid, true, '60 EUR Sockelbetrag is enough');
+assertWithinTolerance(test2_7.totalSubsidy, 175, 0.01, 'Full Grundzulage');
+
+console.log('\nTest 2.8: Günstigerprüfung (72k zvE, 0 children, 1925 EUR contribution)');
+const test2_8 = calculateRiester({
+  grossAnnualIncome: 90000,
+  children: 0,
+  contribution: 1925,
+  taxableIncome: 72000,
+  year: 2025,
+});
+assertWithinTolerance(test2_8.sonderausgabenabzug, 2100, 0.01, 'Sonderausgabenabzug capped at 2100 EUR');
+// Marginal rate 42%, below the Soli-Freigrenze: 2100 × 42% = 882 → 882 - 175 = 707
+assertWithinTolerance(test2_8.additionalTaxBenefit, 707, 2, 'Tax refund beyond the Zulage');
+assertWithinTolerance(test2_8.netCost, 1925 - 707, 2, 'Net cost = contribution - tax refund beyond the Zulage');
+
 // ============================================================================
 // ISS-004: Occupational Pension Calculator (HIGH)
 // ============================================================================
@@ -158,6 +202,7 @@ console.log('\nTest 3.2: Above tax-free limit (700 EUR/month, 35% tax rate)');
 const test3_2 = calculateOccupationalPension({
   monthlyContribution: 700,
   marginalTaxRate: 0.35,
+  year: 2023,
 });
 assertWithinTolerance(test3_2.taxFreeContribution, 7008, 0.01, 'Capped at 7008 EUR (584×12)');
 assertWithinTolerance(test3_2.taxSavings, 2452.8, 0.1, 'Tax savings on capped amount');
@@ -179,7 +224,7 @@ console.log('\n\n🔍 TEST SUITE 4: ISS-006 - Year-Based Parameter System\n');
 
 console.log('Test 4.1: Rürup deductible rate for 2024');
 const rate2024 = getRuerupDeductibleRate(2024);
-assertEqual(rate2024, 0.96, 'Rürup deductible rate 2024 = 96%');
+assertEqual(rate2024, 1.00, 'Rürup deductible rate 2024 = 100% (JStG 2022)');
 
 console.log('\nTest 4.2: Rürup deductible rate for 2025');
 const rate2025 = getRuerupDeductibleRate(2025);
@@ -187,7 +232,7 @@ assertEqual(rate2025, 1.00, 'Rürup deductible rate 2025 = 100%');
 
 console.log('\nTest 4.3: Rürup deductible rate for 2023');
 const rate2023 = getRuerupDeductibleRate(2023);
-assertEqual(rate2023, 0.94, 'Rürup deductible rate 2023 = 94%');
+assertEqual(rate2023, 1.00, 'Rürup deductible rate 2023 = 100% (JStG 2022)');
 
 console.log('\nTest 4.4: Rürup tax savings 2024 vs 2025 difference');
 const savings2024 = calculateRuerupTaxSavings({
@@ -200,11 +245,12 @@ const savings2025 = calculateRuerupTaxSavings({
   taxRate: 0.42,
   year: 2025,
 });
-assertWithinTolerance(savings2024.taxSavings, 11114.61, 0.01, '2024 tax savings');
-assertWithinTolerance(savings2025.taxSavings, 11577.72, 0.01, '2025 tax savings');
+assertWithinTolerance(savings2024.taxSavings, 11577.72, 0.01, '2024 tax savings');
+// 2025 applies its own Höchstbetrag of 29,344 EUR
+assertWithinTolerance(savings2025.taxSavings, 12324.48, 0.01, '2025 tax savings');
 
 const savingsDiff = savings2025.taxSavings - savings2024.taxSavings;
-assertWithinTolerance(savingsDiff, 463.11, 0.01, 'Difference 2025 vs 2024 = 463.11 EUR');
+assertWithinTolerance(savingsDiff, 746.76, 0.01, 'Difference 2025 vs 2024 = 746.76 EUR (Höchstbetrag only)');
 
 console.log('\nTest 4.5: Historical rate calculation (2010)');
 const rate2010 = getRuerupDeductibleRate(2010);
@@ -229,7 +275,8 @@ const testHighIncome = calculateRiester({
   children: 0,
   contribution: 6000,
 });
-assertWithinTolerance(testHighIncome.requiredContribution, 6000, 0.01, 'Required 4% of 150k = 6000');
+// 4% of 150k = 6000, capped at 2100, minus 175 Grundzulage
+assertWithinTolerance(testHighIncome.requiredContribution, 1925, 0.01, 'Mindesteigenbeitrag = 2100 - 175 = 1925');
 
 console.log('\nTest 5.3: Compound interest edge case (0 years)');
 const testZeroYears = calculateCompoundInterest({
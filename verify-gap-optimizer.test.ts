@@ -0,0 +1,183 @@
+/**
+ * Behavior tests for the retirement gap optimizer
+ *
+ * Checks net costs, product limits, the budget, the early exit once the gap is
+ * closed, the product filter and the ranking of optimizeRetirementGap.
+ * Run with: npx tsx verify-gap-optimizer.test.ts
+ */
+
+import {
+  calculatePensionGapToday,
+  optimizeRetirementGap,
+  type GapOptimizerInput,
+} from './shared/utils/gap-optimizer';
+import { calculateIncomeTaxAssessment } from './shared/utils/income-tax';
+import { calculateRiester } from './shared/utils/pensionCalculators';
+import { getDeflator } from './shared/utils/financial-calculator';
+
+let failures = 0;
+
+function assertWithinTolerance(actual: number, expected: number, tolerance: number, testName: string): void {
+  const diff = Math.abs(actual - expected);
+  if (diff <= tolerance) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    console.log(`   Expected: ${expected.toFixed(2)}, Actual: ${actual.toFixed(2)}, Tolerance: ±${tolerance}`);
+    failures++;
+  }
+}
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+const BASE: Omit<GapOptimizerInput, 'monthlyBudget' | 'pensionGap'> = {
+  currentAge: 35,
+  retirementAge: 67,
+  grossAnnualIncome: 50000,
+  children: 2,
+  year: 2025,
+};
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  BEHAVIOR TESTS - Retirement Gap Optimizer');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+console.log('🔍 TEST SUITE 1: Riester net cost\n');
+{
+  // 90k without children: the Günstigerprüfung refunds more than the Zulagen
+  const input = { ...BASE, grossAnnualIncome: 90000, children: 0 };
+  const result = optimizeRetirementGap({ ...input, monthlyBudget: 100, pensionGap: 2000, products: ['riester'] });
+  const riester = result.allocations[0];
+  const taxableIncome = calculateIncomeTaxAssessment({
+    taxYear: 2025,
+    assessment: 'single',
+    taxpayer: { grossWages: 90000 },
+    children: 0,
+  }).taxableIncome;
+  const expected = calculateRiester({
+    grossAnnualIncome: 90000,
+    children: 0,
+    contribution: riester.monthlyContribution * 12,
+    year: 2025,
+    assessment: 'single',
+    taxableIncome,
+  });
+  assertWithinTolerance(
+    riester.monthlyNetCost,
+    riester.monthlyContribution - expected.additionalTaxBenefit / 12,
+    0.01,
+    'Net cost = own contribution - refund beyond the Zulagen'
+  );
+  assertWithinTolerance(riester.monthlySubsidies, expected.totalBenefit / 12, 0.01, 'Subsidies = Zulagen + refund');
+}
+{
+  // 50k with 2 children: the Zulagen exceed the tax benefit, the saver pays the full contribution
+  const result = optimizeRetirementGap({ ...BASE, monthlyBudget: 100, pensionGap: 2000, products: ['riester'] });
+  const riester = result.allocations[0];
+  assertWithinTolerance(riester.monthlyNetCost, riester.monthlyContribution, 0.01, 'Zulagen do not lower the net cost');
+  assertWithinTolerance(riester.monthlyContribution, 100, 0.01, 'Budget of 100 € buys 100 € own contribution');
+  assertTrue(riester.incomePerNetEuro < 2, 'Riester efficiency without double-counted Zulagen', `${riester.incomePerNetEuro}`);
+}
+
+console.log('\n🔍 TEST SUITE 2: Limits and budget\n');
+{
+  const result = optimizeRetirementGap({
+    ...BASE,
+    monthlyBudget: 5000,
+    pensionGap: 20000,
+    products: ['riester', 'ruerup', 'bav'],
+  });
+  for (const allocation of result.allocations) {
+    assertTrue(
+      allocation.limit !== null && allocation.monthlyContribution <= allocation.limit + 0.01,
+      `${allocation.product} stays within its limit`,
+      `${allocation.monthlyContribution} > ${allocation.limit}`
+    );
+    assertTrue(allocation.limitReached, `${allocation.product} limit reached with a large budget`);
+  }
+  assertWithinTolerance(result.allocations.find((a) => a.product === 'bav')!.limit!, 644, 0.01, 'bAV limit = 8% BBG 2025 / 12');
+  assertTrue(result.unusedBudget > 0, 'Budget left over once all limits are reached');
+}
+for (const monthlyBudget of [50, 130, 300, 777]) {
+  const result = optimizeRetirementGap({ ...BASE, monthlyBudget, pensionGap: 3000 });
+  assertTrue(
+    result.totalNetCost <= monthlyBudget + 0.01,
+    `Budget ${monthlyBudget} € not exceeded`,
+    `net cost ${result.totalNetCost}`
+  );
+}
+
+console.log('\n🔍 TEST SUITE 3: Early exit, product filter and ranking\n');
+{
+  const result = optimizeRetirementGap({ ...BASE, monthlyBudget: 500, pensionGap: 50 });
+  assertTrue(result.gapClosed, 'Small gap is closed');
+  assertWithinTolerance(result.totalNetIncome, 50, 0.5, 'Allocation stops at the gap');
+  assertTrue(result.unusedBudget > 100, 'Rest of the budget stays unused', `${result.unusedBudget}`);
+}
+{
+  const result = optimizeRetirementGap({ ...BASE, monthlyBudget: 200, pensionGap: 2000, products: ['etf'] });
+  assertTrue(
+    result.allocations.length === 1 && result.allocations[0].product === 'etf',
+    'Only the requested products are returned'
+  );
+  assertWithinTolerance(result.allocations[0].monthlyContribution, 200, 0.01, 'Whole budget goes to the ETF');
+  assertTrue(
+    result.allocations[0].reasons[0].includes('30% Teilfreistellung'),
+    'ETF taxed with the equity fund Teilfreistellung'
+  );
+}
+{
+  const result = optimizeRetirementGap({
+    ...BASE,
+    monthlyBudget: 5000,
+    pensionGap: 20000,
+    products: ['riester', 'ruerup', 'bav'],
+  });
+  const ranked = result.allocations.filter((allocation) => allocation.rank !== null);
+  assertTrue(ranked.length === 3, 'All three products allocated');
+  assertTrue(
+    ranked.every((allocation, index) => allocation.rank === index + 1),
+    'Ranks are consecutive in list order'
+  );
+  assertTrue(
+    ranked.every((allocation, index) => index === 0 || ranked[index - 1].incomePerNetEuro >= allocation.incomePerNetEuro),
+    'Ranking by net income per net euro',
+    ranked.map((allocation) => `${allocation.product} ${allocation.incomePerNetEuro}`).join(', ')
+  );
+}
+
+console.log('\n🔍 TEST SUITE 4: Gap in today\'s euros\n');
+{
+  const deflator = getDeflator(0.02, 30);
+  const nominal = calculatePensionGapToday({
+    targetNetIncome: 2400,
+    netRetirementIncome: 2600,
+    housingCost: 400,
+    view: 'nominal',
+    retirementDeflator: deflator,
+  });
+  const real = calculatePensionGapToday({
+    targetNetIncome: 2400,
+    netRetirementIncome: 2600 / deflator,
+    housingCost: 400 / deflator,
+    view: 'real',
+    retirementDeflator: deflator,
+  });
+  assertWithinTolerance(nominal, real, 0.001, 'Same gap in the nominal and the real view');
+  assertWithinTolerance(real, 2400 - 2200 / deflator, 0.001, 'Only the retirement amounts are deflated');
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL GAP OPTIMIZER TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
@@ -0,0 +1,85 @@
+/**
+ * Behavior tests for the goal-seek solver and its request schema
+ *
+ * Run with: npx tsx verify-goal-seek.test.ts
+ */
+
+import { solveGoalSeek } from './shared/utils/goal-seek';
+import { goalSeekRequestSchema, type InsertPrivatePensionPlan } from './shared/schema';
+
+let failures = 0;
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+const PLAN: InsertPrivatePensionPlan = {
+  scenarioId: 'temp',
+  currentAge: 30,
+  startAge: 30,
+  monthlyContribution: 500,
+  startInvestment: 0,
+  termYears: 30,
+  payoutStartAge: 67,
+  payoutEndAge: 85,
+  payoutMode: 'annuity',
+  annuityRate: 0.03,
+  policyFeeAnnualPct: 0.004,
+  policyFixedAnnual: 0,
+  taxRatePayout: 0.17,
+  expectedReturn: 0.065,
+  ter: 0.008,
+  volatility: 0.18,
+  rebalancingEnabled: true,
+  inflationRate: 0.02,
+  technicalInterestRate: 0.01,
+  guaranteePeriodYears: 0,
+  sex: 'unisex',
+};
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  BEHAVIOR TESTS - Goal Seek');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+console.log('🔍 TEST SUITE 1: Payout start age for a net pension\n');
+{
+  const result = solveGoalSeek(PLAN, 'payoutStartAge', { type: 'netMonthlyPension', amount: 1500 });
+  assertTrue(result.feasible && result.value !== null && result.value < 85, 'Reachable pension is found', `${result.value}`);
+  assertTrue(result.achieved >= 1500, 'Target reached at the returned age', `${result.achieved}`);
+  assertTrue(result.convergence.bounds.max === PLAN.payoutEndAge - 1, 'Search ends one year before the payout end age');
+
+  const unreachable = solveGoalSeek(PLAN, 'payoutStartAge', { type: 'netMonthlyPension', amount: 100000 });
+  assertTrue(!unreachable.feasible && unreachable.achieved > 0, 'Infeasible result reports the pension at the last start age');
+}
+
+console.log('\n🔍 TEST SUITE 2: Request bounds\n');
+const request = { target: { type: 'capital', amount: 100000 } };
+assertTrue(
+  !goalSeekRequestSchema.safeParse({ ...request, solveFor: 'payoutStartAge', bounds: { min: 62, max: 100000 } }).success,
+  'Age bounds above 100 are rejected'
+);
+assertTrue(
+  goalSeekRequestSchema.safeParse({ ...request, solveFor: 'payoutStartAge', bounds: { min: 62, max: 90 } }).success,
+  'Age bounds within 18-100 are accepted'
+);
+assertTrue(
+  !goalSeekRequestSchema.safeParse({ ...request, solveFor: 'expectedReturn', bounds: { min: -1, max: 0.1 } }).success,
+  'Returns below -50% are rejected'
+);
+assertTrue(
+  !goalSeekRequestSchema.safeParse({ ...request, solveFor: 'monthlyContribution', bounds: { min: 0, max: 1e9 } }).success,
+  'Contribution bounds above the cap are rejected'
+);
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL GOAL SEEK TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
@@ -0,0 +1,82 @@
+/**
+ * Golden-file tests for the income tax assessment engine
+ *
+ * Compares calculateTariffTax and calculateIncomeTaxAssessment with the values
+ * in income-tax.golden.json.
+ * Run with: npx tsx verify-income-tax.test.ts
+ */
+
+import { readFileSync } from 'fs';
+import {
+  calculateIncomeTaxAssessment,
+  calculateTariffTax,
+  type IncomeTaxAssessment,
+  type IncomeTaxInput,
+} from './shared/utils/income-tax';
+
+interface GoldenFile {
+  tariff: { taxYear: number; assessment: IncomeTaxAssessment; taxableIncome: number; tax: number }[];
+  assessments: {
+    name: string;
+    input: IncomeTaxInput;
+    expected: {
+      taxableIncome: number;
+      incomeTax: number;
+      allowancesApplied: boolean;
+      solidaritySurcharge: number;
+      churchTax: number;
+      totalTax: number;
+    };
+  }[];
+}
+
+const golden: GoldenFile = JSON.parse(readFileSync(new URL('./income-tax.golden.json', import.meta.url), 'utf-8'));
+
+let failures = 0;
+
+function assertEqual(actual: unknown, expected: unknown, testName: string): void {
+  if (actual === expected) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    console.log(`   Expected: ${expected}, Actual: ${actual}`);
+    failures++;
+  }
+}
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  GOLDEN TESTS - Income Tax Engine (§32a EStG)');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+console.log('🔍 TEST SUITE 1: Tariff per year and assessment\n');
+for (const row of golden.tariff) {
+  assertEqual(
+    calculateTariffTax(row.taxableIncome, row.assessment, row.taxYear),
+    row.tax,
+    `${row.taxYear} ${row.assessment} zvE ${row.taxableIncome} EUR`
+  );
+}
+
+console.log('\n🔍 TEST SUITE 2: Full assessment with Günstigerprüfung\n');
+for (const row of golden.assessments) {
+  const result = calculateIncomeTaxAssessment(row.input);
+  const label = `${row.input.taxYear} ${row.name}`;
+  assertEqual(result.taxableIncome, row.expected.taxableIncome, `${label} - zvE`);
+  assertEqual(result.incomeTax, row.expected.incomeTax, `${label} - Einkommensteuer`);
+  assertEqual(
+    result.guenstigerpruefung.allowancesApplied,
+    row.expected.allowancesApplied,
+    `${label} - Kinderfreibeträge angesetzt`
+  );
+  assertEqual(result.solidaritySurcharge, row.expected.solidaritySurcharge, `${label} - Soli`);
+  assertEqual(result.churchTax, row.expected.churchTax, `${label} - Kirchensteuer`);
+  assertEqual(result.totalTax, row.expected.totalTax, `${label} - Gesamtsteuer`);
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} golden value(s) differ`);
+  process.exit(1);
+}
+console.log('  ✅ ALL GOLDEN VALUES MATCH');
+console.log('═══════════════════════════════════════════════════════════════');
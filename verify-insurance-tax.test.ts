@@ -0,0 +1,157 @@
+/**
+ * Behavior tests for the taxation of private pension insurance payouts
+ *
+ * Run with: npx tsx verify-insurance-tax.test.ts
+ */
+
+import {
+  calculateFundCapitalGainsTax,
+  calculateInsuranceTax,
+  getAnnuityPresentValueFactor,
+  getErtragsanteil,
+} from './new-try/utils/insuranceTaxCalculator';
+
+let failures = 0;
+
+function assertWithinTolerance(actual: number, expected: number, tolerance: number, testName: string): void {
+  const diff = Math.abs(actual - expected);
+  if (diff <= tolerance) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    console.log(`   Expected: ${expected.toFixed(2)}, Actual: ${actual.toFixed(2)}, Tolerance: ±${tolerance}`);
+    failures++;
+  }
+}
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+// 100,000 € paid in, 160,000 € at payout: 60,000 € gain
+const CONTRACT = {
+  contractDuration: 30,
+  ageAtPayout: 67,
+  totalContributions: 100000,
+  finalValue: 160000,
+  personalTaxRate: 30,
+  allowance: 1000,
+};
+const SOLI = 1.055;
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  BEHAVIOR TESTS - Insurance Tax');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+console.log('🔍 TEST SUITE 1: Lump sum - 12-year rule and age 62\n');
+{
+  const result = calculateInsuranceTax(CONTRACT);
+  assertTrue(result.taxRule === '12-Jahre-Regel', '30 years, paid at 67: half-income taxation');
+  // 15% of a fund policy's gain is tax-free, half of the rest at the personal rate
+  const taxable = 60000 * 0.85 * 0.5 - 1000;
+  assertWithinTolerance(result.taxableAmount, taxable, 0.01, 'Half of the gain after Teilfreistellung and Pauschbetrag');
+  assertWithinTolerance(result.taxAmount, taxable * 0.3 * SOLI, 0.01, 'Personal rate plus Soli');
+  assertWithinTolerance(result.netPayout, 160000 - result.taxAmount, 0.01, 'Net payout = capital - tax');
+
+  const classic = calculateInsuranceTax({ ...CONTRACT, isFundPolicy: false });
+  assertWithinTolerance(classic.taxableAmount, 60000 * 0.5 - 1000, 0.01, 'No Teilfreistellung for classic policies');
+}
+{
+  const shortContract = calculateInsuranceTax({ ...CONTRACT, contractDuration: 11 });
+  assertTrue(!shortContract.meets12YearRule && shortContract.meetsAgeRequirement, '11 years miss the 12-year rule');
+  assertTrue(shortContract.taxRule === 'Standard-Abgeltungssteuer', '11 years: Abgeltungssteuer');
+  assertWithinTolerance(shortContract.taxableAmount, 60000 * 0.85 - 1000, 0.01, 'Abgeltungssteuer on the full gain');
+  assertWithinTolerance(shortContract.taxAmount, (60000 * 0.85 - 1000) * 0.25 * SOLI, 0.01, '25% plus Soli');
+
+  const early = calculateInsuranceTax({ ...CONTRACT, ageAtPayout: 61 });
+  assertTrue(early.meets12YearRule && !early.meetsAgeRequirement, 'Payout at 61 misses the age requirement');
+  assertTrue(early.taxRule === 'Standard-Abgeltungssteuer', 'Payout at 61: Abgeltungssteuer');
+  const atBoundary = calculateInsuranceTax({ ...CONTRACT, contractDuration: 12, ageAtPayout: 62 });
+  assertTrue(atBoundary.taxRule === '12-Jahre-Regel', 'Exactly 12 years and 62 qualify');
+
+  const loss = calculateInsuranceTax({ ...CONTRACT, finalValue: 90000 });
+  assertWithinTolerance(loss.taxAmount, 0, 0, 'No tax on a loss');
+}
+
+console.log('\n🔍 TEST SUITE 2: Ertragsanteil\n');
+{
+  const table: [number, number][] = [[50, 30], [60, 22], [61, 22], [62, 21], [65, 18], [66, 18], [67, 17], [70, 15], [97, 1]];
+  for (const [age, percent] of table) {
+    assertTrue(getErtragsanteil(age) === percent, `Ertragsanteil at ${age}: ${percent}%`, `${getErtragsanteil(age)}`);
+  }
+}
+{
+  const result = calculateInsuranceTax({
+    ...CONTRACT,
+    payoutOption: 'fullAnnuity',
+    rentenfaktor: 30,
+    annuityPayoutYears: 20,
+    discountRate: 0.03,
+  });
+  const annualAnnuity = 16 * 30 * 12;
+  const factor = getAnnuityPresentValueFactor(20, 0.03);
+  assertTrue(result.taxRule === 'Ertragsanteil', 'Full annuity: Ertragsanteil taxation');
+  assertWithinTolerance(result.annuity!.annualAnnuity, annualAnnuity, 0.01, 'Rentenfaktor 30 per 10,000 €');
+  assertWithinTolerance(result.annuity!.annualTax, annualAnnuity * 0.17 * 0.3 * SOLI, 0.01, '17% of each payment taxed at 67');
+  assertWithinTolerance(result.annuity!.presentValue, annualAnnuity * factor, 0.01, 'Payments at their present value');
+  assertWithinTolerance(result.taxAmount, result.annuity!.annualTax * factor, 0.01, 'Taxes at their present value');
+  assertWithinTolerance(result.netPayout, (annualAnnuity - result.annuity!.annualTax) * factor, 0.01, 'Net payout at payout start');
+  assertTrue(result.netPayout < annualAnnuity * 20, 'Discounting lowers the net payout below the sum of payments');
+
+  const undiscounted = calculateInsuranceTax({ ...CONTRACT, payoutOption: 'fullAnnuity', annuityPayoutYears: 20, discountRate: 0 });
+  assertWithinTolerance(getAnnuityPresentValueFactor(20, 0), 20, 1e-12, 'Without discounting the factor is the number of years');
+  assertWithinTolerance(
+    undiscounted.annuity!.presentValue,
+    undiscounted.annuity!.annualAnnuity * 20,
+    0.01,
+    'Without discounting: sum of the payments'
+  );
+}
+{
+  const partial = calculateInsuranceTax({
+    ...CONTRACT,
+    payoutOption: 'partialAnnuity',
+    annuityShare: 0.5,
+    annuityPayoutYears: 20,
+  });
+  const lumpSumTax = (30000 * 0.85 * 0.5 - 1000) * 0.3 * SOLI;
+  assertWithinTolerance(
+    partial.taxAmount,
+    lumpSumTax + partial.annuity!.annualTax * getAnnuityPresentValueFactor(20, 0.02),
+    0.01,
+    'Partial annuity: lump sum half by the 12-year rule, annuity half by Ertragsanteil'
+  );
+  assertWithinTolerance(
+    partial.netPayout,
+    80000 + partial.annuity!.presentValue - partial.taxAmount,
+    0.01,
+    'Partial annuity: lump sum plus present value of the annuity, after taxes'
+  );
+}
+
+console.log('\n🔍 TEST SUITE 3: Comparison fund\n');
+{
+  assertWithinTolerance(calculateFundCapitalGainsTax(60000), (60000 * 0.7 - 1000) * 0.25 * SOLI, 0.01, 'Equity fund: 30% Teilfreistellung');
+  assertWithinTolerance(calculateFundCapitalGainsTax(60000, 1000, 0), 59000 * 0.25 * SOLI, 0.01, 'Without Teilfreistellung');
+  assertWithinTolerance(calculateFundCapitalGainsTax(500), 0, 0, 'Gain below the Pauschbetrag is tax-free');
+  const result = calculateInsuranceTax(CONTRACT);
+  assertWithinTolerance(
+    result.comparison.taxSavings,
+    result.comparison.fundTax - result.taxAmount,
+    0.01,
+    'Savings = fund tax - insurance tax'
+  );
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL INSURANCE TAX TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
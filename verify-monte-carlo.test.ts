@@ -0,0 +1,112 @@
+/**
+ * Behavior tests for the seeded Monte Carlo simulation
+ *
+ * Identical seeds must give identical percentile bands, so server and browser
+ * fallback render the same chart.
+ * Run with: npx tsx verify-monte-carlo.test.ts
+ */
+
+import { applyMonteCarloValueView, runMonteCarloSimulation } from './shared/utils/monte-carlo';
+import type { InsertPrivatePensionPlan } from './shared/schema';
+
+let failures = 0;
+
+function assertWithinTolerance(actual: number, expected: number, tolerance: number, testName: string): void {
+  const diff = Math.abs(actual - expected);
+  if (diff <= tolerance) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    console.log(`   Expected: ${expected.toFixed(2)}, Actual: ${actual.toFixed(2)}, Tolerance: ±${tolerance}`);
+    failures++;
+  }
+}
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+const PLAN: InsertPrivatePensionPlan = {
+  scenarioId: 'temp',
+  currentAge: 50,
+  startAge: 50,
+  monthlyContribution: 500,
+  startInvestment: 10000,
+  termYears: 15,
+  targetMaturityValue: 150000,
+  payoutStartAge: 65,
+  payoutEndAge: 85,
+  payoutMode: 'flexible',
+  safeWithdrawalRate: 0.04,
+  policyFeeAnnualPct: 0.004,
+  policyFixedAnnual: 0,
+  taxRatePayout: 0.17,
+  expectedReturn: 0.06,
+  ter: 0.002,
+  volatility: 0.18,
+  rebalancingEnabled: true,
+  inflationRate: 0.02,
+};
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  BEHAVIOR TESTS - Monte Carlo Simulation');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+const first = runMonteCarloSimulation(PLAN, { runs: 200, seed: 7 });
+const second = runMonteCarloSimulation(PLAN, { runs: 200, seed: 7 });
+const otherSeed = runMonteCarloSimulation(PLAN, { runs: 200, seed: 8 });
+
+console.log('🔍 TEST SUITE 1: Determinism\n');
+assertTrue(
+  JSON.stringify(first.bands) === JSON.stringify(second.bands),
+  'Same seed gives identical percentile bands'
+);
+assertTrue(
+  JSON.stringify(first.maturityValue) === JSON.stringify(second.maturityValue) &&
+    first.ruinProbability === second.ruinProbability &&
+    first.probabilityOfTarget === second.probabilityOfTarget,
+  'Same seed gives identical summary values'
+);
+assertTrue(first.maturityValue.p50 !== otherSeed.maturityValue.p50, 'Another seed gives other paths');
+
+console.log('\n🔍 TEST SUITE 2: Percentile bands\n');
+const maturity = first.maturityValue;
+assertTrue(
+  maturity.p5 <= maturity.p25 && maturity.p25 <= maturity.p50 && maturity.p50 <= maturity.p75 && maturity.p75 <= maturity.p95,
+  'Percentiles are ordered'
+);
+assertTrue(
+  first.bands.seriesAnspar.length === first.deterministic.seriesAnspar.length &&
+    first.bands.seriesPayout.length === first.deterministic.seriesPayout.length,
+  'One band per simulated month'
+);
+const lastBand = first.bands.seriesAnspar[first.bands.seriesAnspar.length - 1];
+assertWithinTolerance(lastBand.p50, maturity.p50, 0.01, 'Last accumulation band = maturity value distribution');
+assertTrue(
+  first.probabilityOfTarget !== null && first.probabilityOfTarget > 0 && first.probabilityOfTarget < 1,
+  'Target probability between 0 and 1'
+);
+
+console.log('\n🔍 TEST SUITE 3: Value view\n');
+const real = applyMonteCarloValueView(first, 'real');
+assertWithinTolerance(
+  maturity.p50 / real.maturityValue.p50,
+  first.deterministic.kpis.projectedValue / first.deterministic.kpisReal.projectedValue,
+  1e-9,
+  'Maturity percentiles use the deflator of the deterministic KPIs'
+);
+assertTrue(applyMonteCarloValueView(first, 'nominal') === first, 'Nominal view returns the results unchanged');
+assertWithinTolerance(real.ruinProbability, first.ruinProbability, 0, 'Probabilities do not depend on the view');
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL MONTE CARLO TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
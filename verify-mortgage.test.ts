@@ -0,0 +1,130 @@
+/**
+ * Behavior tests for the mortgage amortisation and pay down vs. invest
+ *
+ * Run with: npx tsx verify-mortgage.test.ts
+ */
+
+import {
+  calculateAnnuityPayment,
+  calculateMortgagePlan,
+  comparePayDownVsInvest,
+  type PayDownVsInvestInput,
+} from './shared/utils/mortgage';
+
+let failures = 0;
+
+function assertWithinTolerance(actual: number, expected: number, tolerance: number, testName: string): void {
+  const diff = Math.abs(actual - expected);
+  if (diff <= tolerance) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    console.log(`   Expected: ${expected.toFixed(2)}, Actual: ${actual.toFixed(2)}, Tolerance: ±${tolerance}`);
+    failures++;
+  }
+}
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  BEHAVIOR TESTS - Mortgage');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+console.log('🔍 TEST SUITE 1: Tilgungsplan\n');
+{
+  const plan = calculateMortgagePlan({
+    remainingDebt: 200000,
+    interestRate: 3.5,
+    fixationEndYear: 2034,
+    remainingDebtAtFixationEnd: 120000,
+    startYear: 2025,
+  });
+  assertWithinTolerance(
+    plan.monthlyPayment,
+    calculateAnnuityPayment(200000, 3.5, 120, 120000),
+    0.01,
+    'Payment derived from the Restschuld at the end of the fixation'
+  );
+  assertWithinTolerance(plan.remainingDebtAtFixationEnd, 120000, 1, 'Restschuld reached at the end of 2034');
+  assertTrue(plan.debtFreeYear !== null && plan.debtFreeYear > 2034, 'Loan repaid after the fixation');
+  assertWithinTolerance(plan.months[0].interest, (200000 * 3.5) / 100 / 12, 0.01, 'Interest on the balance in January');
+}
+{
+  const plan = calculateMortgagePlan({
+    remainingDebt: 200000,
+    interestRate: 3.5,
+    fixationEndYear: 2034,
+    monthlyPayment: 1000,
+    startYear: 2025,
+    specialRepayment: { annualAmount: 20000, annualLimitRate: 0.05 },
+  });
+  assertWithinTolerance(plan.years[0].specialRepayment, 10000, 0.01, 'Sondertilgung capped at 5% of the balance');
+  assertWithinTolerance(plan.months[11].specialRepayment, 10000, 0.01, 'Sondertilgung paid in December');
+}
+
+console.log('\n🔍 TEST SUITE 2: Pay down vs. invest\n');
+const COMPARISON: PayDownVsInvestInput = {
+  remainingDebt: 200000,
+  interestRate: 3.5,
+  fixationEndYear: 2034,
+  monthlyPayment: 1000,
+  startYear: 2025,
+  annualAmount: 5000,
+  horizonYear: 2034,
+};
+{
+  const result = comparePayDownVsInvest({ ...COMPARISON, expectedReturn: 0 });
+  assertTrue(result.better === 'payDown', 'Paying down wins against a fund without return');
+  assertWithinTolerance(result.invest.depotContributions, 50000, 0.01, 'Invest variant saves the yearly amount');
+  assertWithinTolerance(result.payDown.depotContributions, 0, 0.01, 'Pay-down variant invests nothing before repayment');
+  assertTrue(
+    result.breakEvenReturn !== null && result.breakEvenReturn > 0.035,
+    'Break-even return above the loan rate (tax on fund gains)',
+    `${result.breakEvenReturn}`
+  );
+}
+{
+  const result = comparePayDownVsInvest({
+    ...COMPARISON,
+    specialRepayment: { annualAmount: 0, atFixationEnd: 30000 },
+  });
+  const lumpSum = (variant: typeof result.invest) =>
+    variant.plan.months.find((month) => month.year === 2034 && month.month === 12)!.specialRepayment;
+  assertTrue(lumpSum(result.invest) >= 30000 && lumpSum(result.payDown) >= 30000, 'Both variants pay the lump sum');
+  assertWithinTolerance(
+    result.invest.depotContributions,
+    50000,
+    0.01,
+    'Lump sum is not taken out of the depot contributions'
+  );
+  assertTrue(result.payDown.depotContributions >= 0, 'Depot contributions never negative');
+}
+{
+  // The loan is repaid early: the freed-up payments go into the depot
+  const result = comparePayDownVsInvest({ ...COMPARISON, remainingDebt: 40000, horizonYear: 2040 });
+  assertTrue(result.payDown.remainingDebt === 0, 'Pay-down variant repays the loan before the horizon');
+  assertTrue(result.payDown.depotContributions > 0, 'Freed-up payments are invested');
+  assertWithinTolerance(
+    result.payDown.depotContributions + result.payDown.plan.totalPayments,
+    result.invest.depotContributions + result.invest.plan.years
+      .filter((row) => row.year <= 2040)
+      .reduce((sum, row) => sum + row.payments, 0),
+    1,
+    'Both variants spend the same budget'
+  );
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL MORTGAGE TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
@@ -0,0 +1,132 @@
+/**
+ * Behavior tests for the insurance product recommendation
+ *
+ * Run with: npx tsx verify-product-recommendation.test.ts
+ */
+
+import { recommendProducts } from './new-try/utils/productRecommendation';
+import { ALL_INSURANCE_PRODUCTS } from './new-try/data/insuranceProducts';
+import type { CustomerProfile, GuaranteeLevel, InsuranceProduct } from './new-try/types/insurance';
+
+let failures = 0;
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+const PROFILE: CustomerProfile = {
+  age: 35,
+  maritalStatus: 'single',
+  riskTolerance: 'medium',
+  savingsGoal: 150000,
+  monthlyBudget: 200,
+  priorities: { security: 5, flexibility: 5, returns: 5, costs: 5 },
+};
+
+// Variants of one product that differ only in the guarantee level
+const BASE_PRODUCT = ALL_INSURANCE_PRODUCTS.find((product) => product.id === 'allianz-fondsrente-plus')!;
+const withGuarantee = (guaranteeLevel: GuaranteeLevel): InsuranceProduct => ({
+  ...BASE_PRODUCT,
+  id: `guarantee-${guaranteeLevel}`,
+  guaranteeLevel,
+});
+const GUARANTEE_VARIANTS = [withGuarantee(0), withGuarantee(80), withGuarantee(100)];
+const guaranteeOrder = (profile: CustomerProfile) =>
+  recommendProducts(profile, { products: GUARANTEE_VARIANTS })
+    .map((recommendation) => recommendation.product.guaranteeLevel)
+    .join(',');
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  BEHAVIOR TESTS - Product Recommendation');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+console.log('🔍 TEST SUITE 1: Ranking\n');
+{
+  const recommendations = recommendProducts(PROFILE);
+  assertTrue(recommendations.length === ALL_INSURANCE_PRODUCTS.length, 'Every product is scored');
+  assertTrue(
+    recommendations.every((recommendation, index) => index === 0 || recommendations[index - 1].score >= recommendation.score),
+    'Best match first'
+  );
+  assertTrue(
+    recommendations.every((recommendation) => recommendation.score >= 0 && recommendation.score <= 100),
+    'Scores between 0 and 100'
+  );
+  assertTrue(recommendProducts(PROFILE, { products: [] }).length === 0, 'No products, no recommendations');
+}
+
+console.log('\n🔍 TEST SUITE 2: Risk fit\n');
+{
+  const low = guaranteeOrder({ ...PROFILE, riskTolerance: 'low' });
+  const medium = guaranteeOrder(PROFILE);
+  const high = guaranteeOrder({ ...PROFILE, riskTolerance: 'high' });
+  assertTrue(low === '100,80,0', 'Low risk tolerance: highest guarantee first', low);
+  assertTrue(medium.startsWith('80'), 'Medium risk tolerance: 80% guarantee first', medium);
+  assertTrue(high === '0,80,100', 'High risk tolerance: no guarantee first', high);
+
+  const [lowRiskTop] = recommendProducts({ ...PROFILE, riskTolerance: 'low' }, { products: GUARANTEE_VARIANTS });
+  assertTrue(
+    lowRiskTop.matchReasons.some((reason) => reason.includes('Risikobereitschaft')),
+    'Fitting guarantee named as match reason'
+  );
+  const unsafe = recommendProducts({ ...PROFILE, riskTolerance: 'low' }, { products: [withGuarantee(0)] })[0];
+  assertTrue(unsafe.warnings.some((warning) => warning.includes('Keine Beitragsgarantie')), 'Warning for no guarantee at low risk tolerance');
+}
+
+console.log('\n🔍 TEST SUITE 3: Eligibility and budget\n');
+{
+  // Entry age 64: products with a lower Höchsteintrittsalter cannot be signed
+  const recommendations = recommendProducts({ ...PROFILE, age: 64 }, { retirementAge: 80 });
+  const ineligible = recommendations.filter((recommendation) => recommendation.product.maxEntryAge < 64);
+  assertTrue(ineligible.length > 0, 'Profile excludes some products');
+  assertTrue(
+    ineligible.every((recommendation) => recommendation.score <= 20),
+    'Ineligible products capped at 20',
+    ineligible.map((recommendation) => `${recommendation.product.id} ${recommendation.score}`).join(', ')
+  );
+  assertTrue(
+    ineligible.every((recommendation) => recommendation.warnings.some((warning) => warning.includes('Höchsteintrittsalter'))),
+    'Ineligible products carry a warning'
+  );
+  const lastEligible = recommendations.filter((recommendation) => recommendation.product.maxEntryAge >= 64).pop()!;
+  assertTrue(
+    ineligible.every((recommendation) => recommendation.score <= lastEligible.score),
+    'Ineligible products ranked after the eligible ones'
+  );
+}
+{
+  // 60 years old, payout at 67: the minimum term of 12 years is out of reach everywhere
+  const recommendations = recommendProducts({ ...PROFILE, age: 60 });
+  assertTrue(
+    recommendations.every(
+      (recommendation) =>
+        recommendation.score <= 20 && recommendation.warnings.some((warning) => warning.includes('Mindestlaufzeit'))
+    ),
+    'Minimum term not reachable: capped at 20 with a warning'
+  );
+}
+{
+  const [withinBudget] = recommendProducts(PROFILE, { products: [BASE_PRODUCT] });
+  const [belowMinimum] = recommendProducts({ ...PROFILE, monthlyBudget: BASE_PRODUCT.minContribution - 1 }, { products: [BASE_PRODUCT] });
+  assertTrue(belowMinimum.score < withinBudget.score, 'Budget below the minimum contribution costs points');
+  assertTrue(belowMinimum.warnings.some((warning) => warning.includes('Mindestbeitrag')), 'Minimum contribution warning');
+  assertTrue(
+    withinBudget.monthlyRecommendedContribution % 5 === 0 &&
+      withinBudget.monthlyRecommendedContribution >= BASE_PRODUCT.minContribution &&
+      withinBudget.monthlyRecommendedContribution <= BASE_PRODUCT.maxContribution,
+    'Recommended contribution rounded to 5 € within the product limits'
+  );
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL PRODUCT RECOMMENDATION TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
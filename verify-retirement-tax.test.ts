@@ -0,0 +1,175 @@
+/**
+ * Behavior tests for the income tax of a retired household
+ *
+ * Run with: npx tsx verify-retirement-tax.test.ts
+ */
+
+import {
+  calculateRetirementTax,
+  getAltersentlastungsbetrag,
+  getVersorgungsfreibetrag,
+  type RetireeIncome,
+} from './shared/utils/retirement-tax';
+import { calculateTariffTax } from './shared/utils/income-tax';
+
+let failures = 0;
+
+function assertWithinTolerance(actual: number, expected: number, tolerance: number, testName: string): void {
+  const diff = Math.abs(actual - expected);
+  if (diff <= tolerance) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    console.log(`   Expected: ${expected.toFixed(2)}, Actual: ${actual.toFixed(2)}, Tolerance: ±${tolerance}`);
+    failures++;
+  }
+}
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+const RETIREE: RetireeIncome = {
+  birthYear: 1958,
+  retirementYear: 2025,
+  statutoryPension: 1500,
+  healthInsuranceContributions: 2000,
+};
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  BEHAVIOR TESTS - Retirement Tax');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+console.log('🔍 TEST SUITE 1: Cohort allowances\n');
+{
+  const versorgung = getVersorgungsfreibetrag(2025);
+  assertWithinTolerance(versorgung.rate, 0.132, 1e-9, 'Versorgungsfreibetrag 2025: 13.2%');
+  assertWithinTolerance(versorgung.maxAmount, 990, 0, 'Versorgungsfreibetrag 2025: max 990 €');
+  assertWithinTolerance(versorgung.supplement, 297, 0, 'Zuschlag 2025: 297 €');
+  assertWithinTolerance(getVersorgungsfreibetrag(2005).maxAmount, 3000, 0, 'Cohort 2005 keeps the full 3,000 €');
+  assertWithinTolerance(getVersorgungsfreibetrag(2023).maxAmount, 1050, 0, 'Versorgungsfreibetrag 2023: max 1,050 €');
+  assertWithinTolerance(getVersorgungsfreibetrag(2024).supplement, 306, 0, 'Zuschlag 2024: 306 €');
+  assertWithinTolerance(getVersorgungsfreibetrag(2057).maxAmount, 30, 0, 'Last step in 2057');
+  assertWithinTolerance(getVersorgungsfreibetrag(2058).maxAmount, 0, 0, 'Phased out in 2058');
+  const entlastung = getAltersentlastungsbetrag(2025);
+  assertWithinTolerance(entlastung.rate, 0.132, 1e-9, 'Altersentlastungsbetrag 2025: 13.2%');
+  assertWithinTolerance(entlastung.maxAmount, 627, 0, 'Altersentlastungsbetrag 2025: max 627 €');
+  assertWithinTolerance(getAltersentlastungsbetrag(2024).maxAmount, 646, 0, 'Altersentlastungsbetrag 2024: max 646 €');
+  assertWithinTolerance(getAltersentlastungsbetrag(2058).maxAmount, 0, 0, 'Altersentlastungsbetrag phased out in 2058');
+}
+
+console.log('\n🔍 TEST SUITE 2: Statutory pension\n');
+{
+  const result = calculateRetirementTax({ assessment: 'single', persons: [RETIREE], years: 3, inflationRate: 0.02 });
+  const [first, second] = result.years;
+  assertWithinTolerance(first.taxable.statutoryPension, 18000 * 0.835, 0.01, 'Besteuerungsanteil 83.5% for 2025');
+  assertWithinTolerance(
+    second.taxable.statutoryPension,
+    18000 * 1.02 - 18000 * 0.165,
+    0.01,
+    'Rentenfreibetrag fixed in euros, the increase is fully taxable'
+  );
+  assertWithinTolerance(first.werbungskosten, 102, 0, 'Werbungskosten-Pauschbetrag');
+  assertWithinTolerance(
+    first.taxableIncome,
+    Math.floor(18000 * 0.835 - 102 - 36 - 2000),
+    0,
+    'zvE after Pauschbeträge and KV/PV'
+  );
+  assertWithinTolerance(first.incomeTax, calculateTariffTax(first.taxableIncome, 'single', 2025), 0.01, 'Tariff of the year');
+  assertWithinTolerance(
+    first.netIncome,
+    first.gross.total - first.totalTax - first.healthInsuranceContributions,
+    0.01,
+    'Net = gross - taxes - KV/PV'
+  );
+  assertTrue(second.incomeTax > first.incomeTax, 'Pension increases raise the tax');
+}
+
+console.log('\n🔍 TEST SUITE 3: Other sources\n');
+{
+  const result = calculateRetirementTax({
+    assessment: 'single',
+    persons: [{ ...RETIREE, statutoryPension: 0, riesterPension: 200, privateAnnuity: 300 }],
+    years: 1,
+  });
+  const [year] = result.years;
+  assertWithinTolerance(year.taxable.riesterPension, 2400, 0.01, 'Riester fully taxable');
+  assertWithinTolerance(year.taxable.privateAnnuity, 3600 * 0.17, 0.01, 'Private annuity: Ertragsanteil 17% at 67');
+  assertWithinTolerance(year.werbungskosten, 102, 0, 'One Pauschbetrag for all §22 income');
+}
+{
+  const insurance = calculateRetirementTax({
+    assessment: 'single',
+    persons: [{ ...RETIREE, statutoryPension: 0, occupationalPension: 500 }],
+    years: 1,
+  }).years[0];
+  const direct = calculateRetirementTax({
+    assessment: 'single',
+    persons: [{ ...RETIREE, statutoryPension: 0, occupationalPension: 500, occupationalPensionType: 'direct' }],
+    years: 1,
+  }).years[0];
+  assertWithinTolerance(insurance.taxable.occupationalPension, 6000, 0.01, 'Direktversicherung fully taxable');
+  assertWithinTolerance(
+    direct.taxable.occupationalPension,
+    6000 - (Math.min(6000 * 0.132, 990) + 297),
+    0.01,
+    'Direktzusage: Versorgungsfreibetrag + Zuschlag'
+  );
+}
+{
+  // 64th birthday in 2024: Altersentlastungsbetrag from 2025 on other income only
+  const withAllowance = calculateRetirementTax({
+    assessment: 'single',
+    persons: [{ ...RETIREE, birthYear: 1960, otherIncome: 10000 }],
+    years: 1,
+  }).years[0];
+  assertWithinTolerance(withAllowance.altersentlastungsbetrag, 627, 0.01, 'Altersentlastungsbetrag on rent');
+  const tooYoung = calculateRetirementTax({
+    assessment: 'single',
+    persons: [{ ...RETIREE, birthYear: 1962, otherIncome: 10000 }],
+    years: 1,
+  }).years[0];
+  assertWithinTolerance(tooYoung.altersentlastungsbetrag, 0, 0, 'No Altersentlastungsbetrag before 65');
+}
+
+console.log('\n🔍 TEST SUITE 4: Household\n');
+{
+  const persons: RetireeIncome[] = [
+    { ...RETIREE, statutoryPension: 2500 },
+    { ...RETIREE, birthYear: 1960, statutoryPension: 600 },
+  ];
+  const joint = calculateRetirementTax({ assessment: 'joint', persons, years: 1 }).years[0];
+  const single = calculateRetirementTax({ assessment: 'single', persons, years: 1 }).years[0];
+  assertWithinTolerance(joint.sonderausgaben, 72, 0, 'Sonderausgaben-Pauschbetrag for two');
+  assertTrue(joint.incomeTax < single.incomeTax, 'Splitting lowers the tax for unequal pensions');
+  assertWithinTolerance(joint.gross.total, single.gross.total, 0.01, 'Same gross income in both assessments');
+  assertTrue(joint.ages.join() === '67,65', 'Ages of both persons');
+}
+{
+  const result = calculateRetirementTax({
+    assessment: 'single',
+    persons: [RETIREE],
+    years: 2,
+    inflationRate: 0.02,
+    priceBaseYear: 2025,
+    churchTaxRate: 0.09,
+  });
+  const [first, second] = result.years;
+  assertWithinTolerance(first.realNetIncome, first.netIncome, 0.01, 'Real = nominal in the price base year');
+  assertWithinTolerance(second.realNetIncome, second.netIncome / 1.02, 0.01, 'Real values deflated from the base year');
+  assertWithinTolerance(first.churchTax, Math.floor(first.incomeTax * 9) / 100, 0.01, '9% church tax');
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL RETIREMENT TAX TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
@@ -0,0 +1,135 @@
+/**
+ * Behavior tests for the sensitivity analysis (tornado ranking and heatmap grid)
+ *
+ * Run with: npx tsx verify-sensitivity.test.ts
+ */
+
+import { calculateSensitivityGrid, runSensitivityAnalysis } from './shared/utils/sensitivity';
+import { calculatePrivatePension } from './shared/utils/financial-calculator';
+import type { InsertPrivatePensionPlan } from './shared/schema';
+
+let failures = 0;
+
+function assertWithinTolerance(actual: number, expected: number, tolerance: number, testName: string): void {
+  const diff = Math.abs(actual - expected);
+  if (diff <= tolerance) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    console.log(`   Expected: ${expected.toFixed(2)}, Actual: ${actual.toFixed(2)}, Tolerance: ±${tolerance}`);
+    failures++;
+  }
+}
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+const PLAN: InsertPrivatePensionPlan = {
+  scenarioId: 'temp',
+  currentAge: 35,
+  startAge: 35,
+  monthlyContribution: 300,
+  startInvestment: 0,
+  termYears: 32,
+  payoutStartAge: 67,
+  payoutEndAge: 85,
+  payoutMode: 'annuity',
+  annuityRate: 0.03,
+  policyFeeAnnualPct: 0.004,
+  policyFixedAnnual: 0,
+  taxRatePayout: 0.17,
+  expectedReturn: 0.06,
+  ter: 0.002,
+  volatility: 0.18,
+  rebalancingEnabled: true,
+  inflationRate: 0.02,
+  technicalInterestRate: 0.01,
+  guaranteePeriodYears: 0,
+  sex: 'unisex',
+};
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  BEHAVIOR TESTS - Sensitivity Analysis');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+console.log('🔍 TEST SUITE 1: Tornado ranking\n');
+{
+  const result = runSensitivityAnalysis(PLAN);
+  const entry = (parameter: string) => result.entries.find((e) => e.parameter === parameter)!;
+
+  assertWithinTolerance(
+    result.baseValue,
+    calculatePrivatePension(PLAN).kpis.monthlyPension,
+    0.001,
+    'Base value = monthly pension of the plan'
+  );
+  assertTrue(
+    result.entries.every((e, index) => index === 0 || result.entries[index - 1].swing >= e.swing),
+    'Entries sorted by swing, largest first'
+  );
+  assertTrue(entry('expectedReturn').highImpact > 0 && entry('expectedReturn').lowImpact < 0, 'Higher return raises the pension');
+  assertTrue(entry('ter').highImpact < 0, 'Higher TER lowers the pension');
+  assertTrue(entry('monthlyContribution').highImpact > 0, 'Higher contribution raises the pension');
+  assertWithinTolerance(entry('ter').lowInput, 0.0001, 1e-9, 'Lowered TER stays above zero');
+  assertTrue(
+    entry('inflationRate').swing < 0.01,
+    'Inflation does not move the nominal pension',
+    `${entry('inflationRate').swing}`
+  );
+}
+{
+  const real = runSensitivityAnalysis(PLAN, { view: 'real', parameters: ['inflationRate'] });
+  assertTrue(real.entries.length === 1, 'Only the requested parameters are analysed');
+  assertTrue(real.entries[0].highImpact < 0, 'Higher inflation lowers the real pension');
+}
+
+console.log('\n🔍 TEST SUITE 2: Heatmap grid\n');
+{
+  const grid = calculateSensitivityGrid(PLAN, {
+    x: { parameter: 'expectedReturn' },
+    y: { parameter: 'monthlyContribution', values: [100, 300, 500] },
+  });
+  assertTrue(grid.xValues.length === 5 && grid.yValues.length === 3, 'Default axis has five steps');
+  assertTrue(grid.cells.length === 3 && grid.cells.every((row) => row.length === 5), 'cells[row][column] layout');
+  assertWithinTolerance(
+    grid.cells[1][2],
+    calculatePrivatePension(PLAN).kpis.monthlyPension,
+    0.001,
+    'Centre cell equals the plan'
+  );
+  assertTrue(
+    grid.cells.every((row) => row.every((value, column) => column === 0 || value > row[column - 1])),
+    'Pension rises along the return axis'
+  );
+  assertTrue(
+    grid.cells.every((row, index) => index === 0 || row[2] > grid.cells[index - 1][2]),
+    'Pension rises along the contribution axis'
+  );
+}
+{
+  // A payout start at or after the plan's end age still leaves one payout year, taxed on withdrawal
+  const grid = calculateSensitivityGrid({ ...PLAN, payoutMode: 'flexible' }, {
+    x: { parameter: 'payoutStartAge', values: [84, 85, 86] },
+    y: { parameter: 'monthlyContribution', values: [300] },
+    kpi: 'totalTaxes',
+  });
+  assertTrue(
+    grid.cells[0].every((value) => value > 0),
+    'Payout start at the end age still pays out',
+    grid.cells[0].join(', ')
+  );
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL SENSITIVITY TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
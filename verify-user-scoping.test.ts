@@ -0,0 +1,131 @@
+/**
+ * Behavior tests for the per-user scoping of scenarios and pension plans
+ *
+ * Needs a disposable PostgreSQL database with the schema pushed
+ * (DATABASE_URL=$TEST_DATABASE_URL npm run db:push); the test creates and
+ * deletes its own two users. Never point it at the application database.
+ * Run with: TEST_DATABASE_URL=postgresql://... npx tsx verify-user-scoping.test.ts
+ */
+
+import express from 'express';
+import type { AddressInfo } from 'net';
+
+let failures = 0;
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+if (!process.env.TEST_DATABASE_URL) {
+  console.log('⚠️  SKIPPED: set TEST_DATABASE_URL to a disposable database to run the user scoping tests');
+  process.exit(0);
+}
+// The storage connects on import, so the test database has to be set first
+process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+const { storage } = await import('./server/storage');
+const { generateToken, initializeAuth } = await import('./server/middleware/auth');
+const { registerRoutes } = await import('./server/routes');
+
+const app = express();
+initializeAuth(app);
+app.use(express.json());
+const server = (await registerRoutes(app)).listen(0);
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+async function request(method: string, path: string, token: string, body?: unknown) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : null };
+}
+
+const suffix = Date.now();
+const owner = await storage.createUser({ username: `verify-owner-${suffix}`, password: 'not-used' });
+const other = await storage.createUser({ username: `verify-other-${suffix}`, password: 'not-used' });
+const ownerToken = generateToken(owner.id, owner.username);
+const otherToken = generateToken(other.id, other.username);
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  BEHAVIOR TESTS - User Scoping');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+try {
+  console.log('🔍 TEST SUITE 1: Scenarios\n');
+  const created = await request('POST', '/api/scenarios', ownerToken, { name: 'Owner scenario' });
+  assertTrue(created.status === 201 && created.body.userId === owner.id, 'Scenario belongs to its creator');
+  const scenarioId = created.body.id as string;
+
+  const anonymous = await fetch(`${baseUrl}/api/scenarios/${scenarioId}`);
+  assertTrue(anonymous.status === 401, 'No access without login', `${anonymous.status}`);
+  const own = await request('GET', `/api/scenarios/${scenarioId}`, ownerToken);
+  assertTrue(own.status === 200 && own.body.id === scenarioId, 'Owner reads the scenario');
+  const foreign = await request('GET', `/api/scenarios/${scenarioId}`, otherToken);
+  assertTrue(foreign.status === 404, 'Other user gets 404, not 403', `${foreign.status}`);
+  const foreignList = await request('GET', '/api/scenarios', otherToken);
+  assertTrue(
+    foreignList.status === 200 && !foreignList.body.some((scenario: { id: string }) => scenario.id === scenarioId),
+    'Other user does not see the scenario in the list'
+  );
+  const foreignUpdate = await request('PUT', `/api/scenarios/${scenarioId}`, otherToken, { name: 'Taken over' });
+  assertTrue(foreignUpdate.status === 404, 'Other user cannot rename it', `${foreignUpdate.status}`);
+  const foreignDelete = await request('DELETE', `/api/scenarios/${scenarioId}`, otherToken);
+  assertTrue(foreignDelete.status === 404, 'Other user cannot delete it', `${foreignDelete.status}`);
+  const unchanged = await storage.getScenario(owner.id, scenarioId);
+  assertTrue(unchanged?.name === 'Owner scenario', 'Scenario unchanged after the foreign requests');
+
+  console.log('\n🔍 TEST SUITE 2: Pension plans\n');
+  const planInput = {
+    scenarioId,
+    currentAge: 35,
+    startAge: 35,
+    termYears: 32,
+    payoutStartAge: 67,
+    payoutEndAge: 85,
+    payoutMode: 'annuity',
+  };
+  const plan = await request('POST', '/api/pension-plans', ownerToken, planInput);
+  assertTrue(plan.status === 201, 'Owner adds a plan to the scenario', `${plan.status}`);
+  const planId = plan.body.id as string;
+
+  const foreignPlan = await request('POST', '/api/pension-plans', otherToken, planInput);
+  assertTrue(foreignPlan.status === 404, 'Other user cannot add plans to the scenario', `${foreignPlan.status}`);
+  const ownPlan = await request('GET', `/api/pension-plans/${planId}`, ownerToken);
+  assertTrue(ownPlan.status === 200 && ownPlan.body.id === planId, 'Owner reads the plan');
+  const foreignRead = await request('GET', `/api/pension-plans/${planId}`, otherToken);
+  assertTrue(foreignRead.status === 404, 'Other user gets 404 for the plan', `${foreignRead.status}`);
+  const foreignPlans = await request('GET', `/api/scenarios/${scenarioId}/pension-plans`, otherToken);
+  assertTrue(foreignPlans.status === 404, 'Other user cannot list the scenario plans', `${foreignPlans.status}`);
+  const foreignPlanUpdate = await request('PUT', `/api/pension-plans/${planId}`, otherToken, { monthlyContribution: 1 });
+  assertTrue(foreignPlanUpdate.status === 404, 'Other user cannot change the plan', `${foreignPlanUpdate.status}`);
+  const foreignPlanDelete = await request('DELETE', `/api/pension-plans/${planId}`, otherToken);
+  assertTrue(foreignPlanDelete.status === 404, 'Other user cannot delete the plan', `${foreignPlanDelete.status}`);
+  const storedPlan = await storage.getPrivatePensionPlan(owner.id, planId);
+  assertTrue(storedPlan !== undefined && storedPlan.monthlyContribution !== 1, 'Plan unchanged after the foreign requests');
+
+  const deleted = await request('DELETE', `/api/scenarios/${scenarioId}`, ownerToken);
+  assertTrue(deleted.status === 204, 'Owner deletes the scenario', `${deleted.status}`);
+  const cascaded = await request('GET', `/api/pension-plans/${planId}`, ownerToken);
+  assertTrue(cascaded.status === 404, 'Plans go with their scenario', `${cascaded.status}`);
+} finally {
+  server.close();
+  await storage.deleteUser(owner.id);
+  await storage.deleteUser(other.id);
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL USER SCOPING TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');
+// The database connection would keep the process alive
+process.exit(0);
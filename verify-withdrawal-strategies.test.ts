@@ -0,0 +1,170 @@
+/**
+ * Behavior tests for the withdrawal strategies of the flexible payout phase
+ *
+ * Run with: npx tsx verify-withdrawal-strategies.test.ts
+ */
+
+import {
+  compareWithdrawalStrategies,
+  getAnnuityWithdrawalRate,
+  simulateWithdrawalStrategy,
+  WITHDRAWAL_STRATEGIES,
+  type WithdrawalSimulationInput,
+} from './shared/utils/withdrawal-strategies';
+import { DEFAULT_TAX_SETTINGS } from './shared/utils/germanTaxCalculations';
+
+let failures = 0;
+
+function assertWithinTolerance(actual: number, expected: number, tolerance: number, testName: string): void {
+  const diff = Math.abs(actual - expected);
+  if (diff <= tolerance) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}`);
+    console.log(`   Expected: ${expected.toFixed(4)}, Actual: ${actual.toFixed(4)}, Tolerance: ±${tolerance}`);
+    failures++;
+  }
+}
+
+function assertTrue(condition: boolean, testName: string, detail = ''): void {
+  if (condition) {
+    console.log(`✅ PASS: ${testName}`);
+  } else {
+    console.log(`❌ FAIL: ${testName}${detail ? `\n   ${detail}` : ''}`);
+    failures++;
+  }
+}
+
+const BASE: Omit<WithdrawalSimulationInput, 'strategy'> = {
+  portfolioValue: 300000,
+  payoutStartAge: 65,
+  payoutEndAge: 90,
+  expectedReturn: 0.05,
+  inflationRate: 0.02,
+  taxSettings: DEFAULT_TAX_SETTINGS,
+};
+
+console.log('═══════════════════════════════════════════════════════════════');
+console.log('  BEHAVIOR TESTS - Withdrawal Strategies');
+console.log('═══════════════════════════════════════════════════════════════\n');
+
+console.log('🔍 TEST SUITE 1: Annuity withdrawal rate\n');
+assertWithinTolerance(getAnnuityWithdrawalRate(0, 20), 0.05, 1e-12, 'Without real return: 1 / years');
+assertWithinTolerance(getAnnuityWithdrawalRate(0.03, 1), 1.03, 1e-12, 'Last year takes the portfolio with its gains');
+{
+  // In real terms: constant withdrawals at the end of each year use the portfolio up exactly
+  const withdrawal = getAnnuityWithdrawalRate(0.03, 25);
+  let value = 1;
+  for (let year = 0; year < 25; year++) {
+    value = value * 1.03 - withdrawal;
+  }
+  assertWithinTolerance(value, 0, 1e-9, 'Constant real withdrawals empty the portfolio after 25 years');
+}
+
+console.log('\n🔍 TEST SUITE 2: Strategies\n');
+{
+  const result = simulateWithdrawalStrategy({ ...BASE, strategy: 'constantReal' });
+  assertWithinTolerance(result.years[0].annualWithdrawal, 12000, 0.01, 'constantReal: 4% in the first year');
+  assertWithinTolerance(result.years[1].annualWithdrawal, 12000 * 1.02, 0.01, 'constantReal: raised with inflation');
+  const fixedAmount = simulateWithdrawalStrategy({ ...BASE, strategy: 'constantReal', params: { initialAmount: 15000 } });
+  assertWithinTolerance(fixedAmount.years[0].annualWithdrawal, 15000, 0.01, 'constantReal: initialAmount takes precedence');
+}
+{
+  const result = simulateWithdrawalStrategy({ ...BASE, strategy: 'fixedPercentage', params: { percentage: 0.06 } });
+  assertTrue(
+    result.years.every((year) => Math.abs(year.withdrawalRate - 0.06) < 1e-9),
+    'fixedPercentage: same share every year'
+  );
+  assertTrue(result.summary.depletedAtAge === null, 'fixedPercentage: never runs out');
+}
+{
+  // Without return the current rate climbs: the guardrail cuts the indexed withdrawal
+  const result = simulateWithdrawalStrategy({ ...BASE, strategy: 'guytonKlinger', expectedReturn: 0, inflationRate: 0.03 });
+  // A final withdrawal limited by the remaining portfolio is no guardrail cut
+  const cuts = result.years.filter(
+    (year, index) =>
+      index > 0 &&
+      year.annualWithdrawal < year.portfolioValue + year.annualGains &&
+      year.annualWithdrawal < result.years[index - 1].annualWithdrawal * 1.03 - 0.01
+  );
+  assertTrue(cuts.length > 0, 'guytonKlinger: withdrawal cut once the rate exceeds the guardrail');
+  assertTrue(
+    cuts[0].withdrawalRate < 0.04 * 1.2 * 1.03,
+    'guytonKlinger: cut brings the rate back towards the guardrail'
+  );
+  assertTrue(
+    cuts.every((year) => year.age < BASE.payoutEndAge - 15),
+    'guytonKlinger: no cuts in the last 15 years',
+    cuts.map((year) => year.age).join(', ')
+  );
+
+  const rising = simulateWithdrawalStrategy({ ...BASE, strategy: 'guytonKlinger', expectedReturn: 0.1, inflationRate: 0 });
+  assertTrue(
+    rising.years.some((year, index) => index > 0 && year.annualWithdrawal > rising.years[index - 1].annualWithdrawal * 1.05),
+    'guytonKlinger: raise when the rate falls below the guardrail'
+  );
+}
+{
+  const result = simulateWithdrawalStrategy({ ...BASE, strategy: 'vpw' });
+  const realReturn = 1.05 / 1.02 - 1;
+  assertWithinTolerance(
+    result.years[0].withdrawalRate,
+    getAnnuityWithdrawalRate(realReturn, 36),
+    1e-9,
+    'vpw: annuity rate for the years until 100'
+  );
+  assertTrue(result.years[10].withdrawalRate > result.years[0].withdrawalRate, 'vpw: rate rises with age');
+}
+{
+  const result = simulateWithdrawalStrategy({ ...BASE, strategy: 'spendToZero', params: { depletionAge: 85 } });
+  assertTrue(result.summary.depletedAtAge === 85, 'spendToZero: portfolio used up at the depletion age', `${result.summary.depletedAtAge}`);
+  assertWithinTolerance(result.summary.finalPortfolioValue, 0, 0.01, 'spendToZero: nothing left');
+  assertTrue(
+    result.years.every((year, index) => index === 0 || year.annualWithdrawal > result.years[index - 1].annualWithdrawal),
+    'spendToZero: withdrawals rise every year'
+  );
+}
+
+console.log('\n🔍 TEST SUITE 3: Taxes, contributions and comparison\n');
+{
+  const result = simulateWithdrawalStrategy({ ...BASE, strategy: 'constantReal' });
+  assertTrue(
+    result.years.every((year) => year.netAnnualPayout <= year.annualWithdrawal + 0.01 && year.annualTax >= 0),
+    'Net payout never above the withdrawal'
+  );
+  const kvdr = simulateWithdrawalStrategy({
+    ...BASE,
+    strategy: 'constantReal',
+    healthInsurance: { status: 'kvdr', income: { statutoryPension: 1500 }, year: 2025 },
+  });
+  assertWithinTolerance(kvdr.summary.totalSocialContributions, 0, 0.001, 'KVdR: no contributions on fund withdrawals');
+  const voluntary = simulateWithdrawalStrategy({
+    ...BASE,
+    strategy: 'constantReal',
+    healthInsurance: { status: 'voluntary', income: { statutoryPension: 1500 }, year: 2025 },
+  });
+  assertTrue(voluntary.summary.totalSocialContributions > 0, 'Freiwillig versichert: contributions on the paid-out gains');
+  assertTrue(
+    voluntary.summary.averageMonthlyNetAfterContributions < voluntary.summary.averageMonthlyNet,
+    'Contributions lower the net payout'
+  );
+}
+{
+  const comparison = compareWithdrawalStrategies(BASE);
+  assertTrue(
+    comparison.map((result) => result.strategy).join() === WITHDRAWAL_STRATEGIES.join(),
+    'Comparison runs every strategy in order'
+  );
+  assertTrue(
+    comparison.every((result) => result.years[0].portfolioValue === BASE.portfolioValue),
+    'All strategies start from the same portfolio'
+  );
+}
+
+console.log('\n═══════════════════════════════════════════════════════════════');
+if (failures > 0) {
+  console.log(`  ❌ ${failures} test(s) failed`);
+  process.exit(1);
+}
+console.log('  ✅ ALL WITHDRAWAL STRATEGY TESTS PASSED');
+console.log('═══════════════════════════════════════════════════════════════');